@@ -4,26 +4,67 @@ import express from 'express';
 import cors from 'cors';
 import path from 'path';
 import { promises as fs } from 'fs';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
+import { ANTHROPIC_API_KEY, WORKSPACE_DIR, CONFIG_DIR, TRUSTED_PROXIES } from './server/config.js';
+import { createAuthRouter, requireAuth, isAuthEnabled } from './server/auth.js';
+import { createInvokeRouter, registerCommands } from './server/invoke.js';
+import { createEventsRouter } from './server/events.js';
+import { attachTerminalServer, createTerminalsRouter } from './server/terminals.js';
+import { createWorkspaceRouter } from './server/workspace.js';
+import { createGitRouter } from './server/git.js';
+import { openDatabase, DATABASE_FILE } from './server/lib/db.js';
+import { reconcileOrphanedRuns } from './server/lib/agentRunner.js';
+import { startBudgetMonitor } from './server/lib/budgets.js';
+import { startMcpHealthMonitor } from './server/lib/mcpHealth.js';
+import { claudeCommands } from './server/commands/claude.js';
+import { projectCommands } from './server/commands/projects.js';
+import { agentCommands } from './server/commands/agents.js';
+import { usageCommands } from './server/commands/usage.js';
+import { checkpointCommands } from './server/commands/checkpoints.js';
+import { mcpCommands } from './server/commands/mcp.js';
+import { storageCommands } from './server/commands/storage.js';
+import { hookCommands } from './server/commands/hooks.js';
+import { slashCommandCommands } from './server/commands/slashCommands.js';
+import { claudeSessionCommands } from './server/commands/claudeSessions.js';
+import { budgetCommands } from './server/commands/budgets.js';
+import { fileCommands } from './server/commands/files.js';
+import { secretCommands } from './server/commands/secrets.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-const execAsync = promisify(exec);
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+if (TRUSTED_PROXIES) {
+  app.set('trust proxy', TRUSTED_PROXIES === '*' ? true : TRUSTED_PROXIES.split(',').map(value => value.trim()));
+}
+
 // Middleware
 app.use(cors());
 app.use(express.json({ limit: '10mb' }));
+
+// Login page and auth endpoints stay public; everything after requires a session
+app.use(createAuthRouter());
+app.use(requireAuth);
+
 app.use(express.static('dist'));
 
-// Environment variables
-const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY;
-const WORKSPACE_DIR = process.env.DEFAULT_WORKSPACE || '/workspace';
+// Backend commands invoked by src/lib/api.ts
+registerCommands(claudeCommands);
+registerCommands(projectCommands);
+registerCommands(agentCommands);
+registerCommands(usageCommands);
+registerCommands(checkpointCommands);
+registerCommands(mcpCommands);
+registerCommands(storageCommands);
+registerCommands(hookCommands);
+registerCommands(slashCommandCommands);
+registerCommands(claudeSessionCommands);
+registerCommands(budgetCommands);
+registerCommands(fileCommands);
+registerCommands(secretCommands);
 
 // Ensure workspace directory exists
 async function ensureWorkspaceDir() {
@@ -35,152 +76,38 @@ async function ensureWorkspaceDir() {
   }
 }
 
-// Helper functions
-async function listDirectory(dirPath) {
+// Ensure config directory exists and open the app database inside it
+async function initDatabase() {
   try {
-    const entries = await fs.readdir(dirPath, { withFileTypes: true });
-    return entries.map(entry => ({
-      name: entry.name,
-      path: path.join(dirPath, entry.name),
-      is_directory: entry.isDirectory(),
-      size: 0, // Will be filled by stat if needed
-      modified: Date.now()
-    }));
+    await fs.mkdir(CONFIG_DIR, { recursive: true });
+    openDatabase();
+    console.log(`Database ready: ${DATABASE_FILE}`);
+
+    const orphanedRuns = reconcileOrphanedRuns();
+    if (orphanedRuns.length > 0) {
+      console.log(`Marked ${orphanedRuns.length} interrupted agent run(s) as failed`);
+    }
   } catch (error) {
-    console.error('Error listing directory:', error);
-    return [];
+    console.error('Failed to open database:', error);
   }
 }
 
-async function getProjectId(projectPath) {
-  return path.basename(projectPath);
-}
-
 // API Routes
 
-// Get workspace projects
-app.get('/api/workspace/projects', async (req, res) => {
-  try {
-    const entries = await listDirectory(WORKSPACE_DIR);
-    const projects = entries
-      .filter(entry => entry.is_directory)
-      .map(entry => ({
-        id: path.basename(entry.path),
-        name: path.basename(entry.path),
-        path: entry.path,
-        created_at: Date.now(),
-        most_recent_session: null
-      }));
-    
-    res.json(projects);
-  } catch (error) {
-    console.error('Failed to list projects:', error);
-    res.status(500).json({ error: 'Failed to list projects' });
-  }
-});
-
-// Create new project
-app.post('/api/workspace/projects', async (req, res) => {
-  try {
-    const { name } = req.body;
-    if (!name) {
-      return res.status(400).json({ error: 'Project name is required' });
-    }
-
-    const projectPath = path.join(WORKSPACE_DIR, name);
-    await fs.mkdir(projectPath, { recursive: true });
-    
-    // Create initial README
-    const readmePath = path.join(projectPath, 'README.md');
-    await fs.writeFile(readmePath, `# ${name}\n\nProject created on ${new Date().toISOString()}\n`);
-
-    const project = {
-      id: name,
-      name: name,
-      path: projectPath,
-      created_at: Date.now()
-    };
-
-    res.json(project);
-  } catch (error) {
-    console.error('Failed to create project:', error);
-    res.status(500).json({ error: 'Failed to create project' });
-  }
-});
+// Backend command endpoint: POST /api/invoke/:command
+app.use('/api', createInvokeRouter());
 
-// Get project files
-app.get('/api/workspace/projects/:projectId/files', async (req, res) => {
-  try {
-    const { projectId } = req.params;
-    const { path: subPath } = req.query;
-    
-    const projectPath = path.join(WORKSPACE_DIR, projectId);
-    const targetPath = subPath ? path.join(projectPath, subPath) : projectPath;
-    
-    const files = await listDirectory(targetPath);
-    res.json(files);
-  } catch (error) {
-    console.error('Failed to list project files:', error);
-    res.status(500).json({ error: 'Failed to list files' });
-  }
-});
+// Server-sent events bridged into webEventSystem: GET /api/events
+app.use('/api', createEventsRouter());
 
-// Read file content
-app.post('/api/workspace/projects/:projectId/files/content', async (req, res) => {
-  try {
-    const { projectId } = req.params;
-    const { path: filePath } = req.body;
-    
-    const projectPath = path.join(WORKSPACE_DIR, projectId);
-    const fullPath = path.join(projectPath, filePath);
-    
-    const content = await fs.readFile(fullPath, 'utf-8');
-    res.send(content);
-  } catch (error) {
-    console.error('Failed to read file:', error);
-    res.status(500).json({ error: 'Failed to read file' });
-  }
-});
+// Project terminals; the PTY streams themselves are WebSocket upgrades
+app.use('/api', createTerminalsRouter());
 
-// Write file content
-app.put('/api/workspace/projects/:projectId/files/content', async (req, res) => {
-  try {
-    const { projectId } = req.params;
-    const { path: filePath, content } = req.body;
-    
-    const projectPath = path.join(WORKSPACE_DIR, projectId);
-    const fullPath = path.join(projectPath, filePath);
-    
-    // Ensure directory exists
-    await fs.mkdir(path.dirname(fullPath), { recursive: true });
-    await fs.writeFile(fullPath, content, 'utf-8');
-    
-    res.json({ success: true });
-  } catch (error) {
-    console.error('Failed to write file:', error);
-    res.status(500).json({ error: 'Failed to write file' });
-  }
-});
+// Workspace projects, their files and command execution
+app.use('/api', createWorkspaceRouter());
 
-// Execute command
-app.post('/api/workspace/projects/:projectId/execute', async (req, res) => {
-  try {
-    const { projectId } = req.params;
-    const { command } = req.body;
-    
-    const projectPath = path.join(WORKSPACE_DIR, projectId);
-    
-    const { stdout, stderr } = await execAsync(command, { 
-      cwd: projectPath,
-      env: { ...process.env, ANTHROPIC_API_KEY }
-    });
-    
-    res.send(stdout + (stderr ? '\n' + stderr : ''));
-  } catch (error) {
-    console.error('Failed to execute command:', error);
-    res.status(500).send(error.message);
-  }
-});
+// Git status, diffs, staging and commits for workspace projects
+app.use('/api', createGitRouter());
 
 // Anthropic API proxy for Claude conversations
 app.post('/api/anthropic/v1/messages', async (req, res) => {
@@ -240,12 +167,18 @@ app.get('*', (req, res) => {
 // Start server
 async function startServer() {
   await ensureWorkspaceDir();
+  await initDatabase();
+  startBudgetMonitor();
+  startMcpHealthMonitor();
   
-  app.listen(PORT, '0.0.0.0', () => {
+  const server = app.listen(PORT, '0.0.0.0', () => {
     console.log(`🚀 Claudia server running on port ${PORT}`);
     console.log(`📁 Workspace directory: ${WORKSPACE_DIR}`);
+    console.log(`⚙️  Config directory: ${CONFIG_DIR}`);
     console.log(`🔑 Anthropic API Key: ${ANTHROPIC_API_KEY ? 'configured' : 'missing'}`);
+    console.log(`🔒 Authentication: ${isAuthEnabled() ? 'enabled' : 'disabled (set AUTH_USERNAME and AUTH_PASSWORD)'}`);
   });
+  attachTerminalServer(server);
 }
 
 startServer().catch(console.error);
\ No newline at end of file
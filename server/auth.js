@@ -0,0 +1,295 @@
+import crypto from 'crypto';
+import express from 'express';
+import { AUTH_USERNAME, AUTH_PASSWORD } from './config.js';
+
+const SESSION_COOKIE = 'claudia_session';
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Failed logins are counted per client address over a window. After the
+// free attempts each further failure doubles the wait before the next try,
+// up to the cap. There is no global lockout, so nobody can lock the real user
+// out by failing logins from many addresses.
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+const FREE_ATTEMPTS_PER_CLIENT = 3;
+const BASE_BACKOFF_MS = 2 * 1000;
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+
+// Session token -> { username, expiresAt }
+const sessions = new Map();
+
+// Client address -> timestamps of recent failed attempts
+const failures = new Map();
+
+/**
+ * Authentication is enabled when both AUTH_USERNAME and AUTH_PASSWORD are set
+ */
+export function isAuthEnabled() {
+  return Boolean(AUTH_USERNAME && AUTH_PASSWORD);
+}
+
+// Compares hashes so neither the length nor the content leaks through timing
+function safeEqual(a, b) {
+  const hash = value => crypto.createHash('sha256').update(String(value)).digest();
+  return crypto.timingSafeEqual(hash(a), hash(b));
+}
+
+function credentialsMatch(username, password) {
+  // Evaluate both so a wrong username takes as long as a wrong password
+  const userOk = safeEqual(username, AUTH_USERNAME);
+  const passwordOk = safeEqual(password, AUTH_PASSWORD);
+  return userOk && passwordOk;
+}
+
+function parseCookies(header = '') {
+  const cookies = {};
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+    const name = part.slice(0, index).trim();
+    try {
+      cookies[name] = decodeURIComponent(part.slice(index + 1).trim());
+    } catch {
+      // Ignore cookies that are not ours to decode
+    }
+  }
+  return cookies;
+}
+
+function sessionFor(req) {
+  const token = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+  const session = token && sessions.get(token);
+  if (!session) return null;
+  if (session.expiresAt <= Date.now()) {
+    sessions.delete(token);
+    return null;
+  }
+  return { token, ...session };
+}
+
+function basicCredentials(req) {
+  const [scheme, encoded] = (req.headers.authorization || '').split(' ');
+  if (scheme?.toLowerCase() !== 'basic' || !encoded) return null;
+  const decoded = Buffer.from(encoded, 'base64').toString('utf-8');
+  const index = decoded.indexOf(':');
+  if (index === -1) return null;
+  return { username: decoded.slice(0, index), password: decoded.slice(index + 1) };
+}
+
+function recentFailures(timestamps, now) {
+  while (timestamps.length > 0 && timestamps[0] <= now - FAILURE_WINDOW_MS) {
+    timestamps.shift();
+  }
+  return timestamps;
+}
+
+/**
+ * Milliseconds until the client may try again, or 0 when it may try now
+ */
+function lockoutRemaining(clientId) {
+  const now = Date.now();
+  const client = recentFailures(failures.get(clientId) || [], now);
+  if (client.length === 0) failures.delete(clientId);
+  if (client.length < FREE_ATTEMPTS_PER_CLIENT) return 0;
+
+  const backoff = Math.min(BASE_BACKOFF_MS * 2 ** (client.length - FREE_ATTEMPTS_PER_CLIENT), MAX_BACKOFF_MS);
+  return Math.max(0, client[client.length - 1] + backoff - now);
+}
+
+function recordFailure(clientId) {
+  if (!failures.has(clientId)) failures.set(clientId, []);
+  failures.get(clientId).push(Date.now());
+}
+
+function clientId(req) {
+  return req.ip || req.socket.remoteAddress || 'unknown';
+}
+
+/**
+ * Checks a username/password pair against the configured credentials with
+ * brute-force protection. Sessions that are already signed in are never
+ * affected by it.
+ * @returns {{ ok: true } | { ok: false, status: number, error: string, retryAfter?: number }}
+ */
+function attemptLogin(req, username, password) {
+  const id = clientId(req);
+  const remaining = lockoutRemaining(id);
+  if (remaining > 0) {
+    return {
+      ok: false,
+      status: 429,
+      error: 'Too many failed login attempts, try again later',
+      retryAfter: Math.ceil(remaining / 1000)
+    };
+  }
+
+  if (!credentialsMatch(username, password)) {
+    recordFailure(id);
+    console.warn(`Failed login attempt from ${id}`);
+    return { ok: false, status: 401, error: 'Invalid username or password' };
+  }
+
+  failures.delete(id);
+  return { ok: true };
+}
+
+function setSessionCookie(req, res, token, maxAgeMs) {
+  const attributes = [
+    `${SESSION_COOKIE}=${encodeURIComponent(token)}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${Math.floor(maxAgeMs / 1000)}`
+  ];
+  if (req.secure) attributes.push('Secure');
+  res.setHeader('Set-Cookie', attributes.join('; '));
+}
+
+function escapeHtml(value) {
+  return String(value).replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+// Only same-origin paths are followed after login. The value is resolved the
+// way a browser would, which also catches `//host` and `/\host` forms.
+const REDIRECT_BASE = 'http://claudia.invalid';
+
+function safeNextPath(value) {
+  if (typeof value !== 'string' || !value.startsWith('/')) return '/';
+  try {
+    const url = new URL(value, REDIRECT_BASE);
+    return url.origin === REDIRECT_BASE ? `${url.pathname}${url.search}${url.hash}` : '/';
+  } catch {
+    return '/';
+  }
+}
+
+function loginPage({ next = '/', error = '' } = {}) {
+  return `<!doctype html>
+<html lang="en" class="dark">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Sign in – Claudia</title>
+  <style>
+    body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center;
+      background: #0a0a0a; color: #fafafa; font-family: system-ui, -apple-system, sans-serif; }
+    form { width: 320px; padding: 32px; border: 1px solid #27272a; border-radius: 12px; background: #111; }
+    h1 { margin: 0 0 24px; font-size: 18px; font-weight: 600; }
+    label { display: block; margin-bottom: 6px; font-size: 13px; color: #a1a1aa; }
+    input { box-sizing: border-box; width: 100%; margin-bottom: 16px; padding: 8px 10px; font-size: 14px;
+      color: inherit; background: #0a0a0a; border: 1px solid #27272a; border-radius: 6px; }
+    input:focus { outline: none; border-color: #71717a; }
+    button { width: 100%; padding: 9px; font-size: 14px; font-weight: 500; color: #0a0a0a;
+      background: #fafafa; border: 0; border-radius: 6px; cursor: pointer; }
+    .error { margin-bottom: 16px; padding: 8px 10px; font-size: 13px; color: #fca5a5;
+      background: rgba(239, 68, 68, 0.1); border: 1px solid rgba(239, 68, 68, 0.4); border-radius: 6px; }
+  </style>
+</head>
+<body>
+  <form method="post" action="/login">
+    <h1>Sign in to Claudia</h1>
+    ${error ? `<div class="error">${escapeHtml(error)}</div>` : ''}
+    <input type="hidden" name="next" value="${escapeHtml(next)}">
+    <label for="username">Username</label>
+    <input id="username" name="username" autocomplete="username" autofocus required>
+    <label for="password">Password</label>
+    <input id="password" name="password" type="password" autocomplete="current-password" required>
+    <button type="submit">Sign in</button>
+  </form>
+</body>
+</html>`;
+}
+
+/**
+ * Express router with the login page (GET/POST /login) and the JSON auth
+ * endpoints under /api/auth. Mount it before requireAuth.
+ */
+export function createAuthRouter() {
+  const router = express.Router();
+
+  router.get('/login', (req, res) => {
+    if (!isAuthEnabled() || sessionFor(req)) {
+      return res.redirect(safeNextPath(req.query.next));
+    }
+    res.type('html').send(loginPage({ next: safeNextPath(req.query.next) }));
+  });
+
+  router.post('/login', express.urlencoded({ extended: false }), (req, res) => {
+    const next = safeNextPath(req.body?.next);
+    if (!isAuthEnabled()) return res.redirect(next);
+
+    const result = attemptLogin(req, req.body?.username || '', req.body?.password || '');
+    if (!result.ok) {
+      if (result.retryAfter) res.setHeader('Retry-After', String(result.retryAfter));
+      return res.status(result.status).type('html').send(loginPage({ next, error: result.error }));
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    sessions.set(token, { username: AUTH_USERNAME, expiresAt: Date.now() + SESSION_TTL_MS });
+    setSessionCookie(req, res, token, SESSION_TTL_MS);
+    res.redirect(303, next);
+  });
+
+  router.get('/api/auth/status', (req, res) => {
+    const session = sessionFor(req);
+    res.json({
+      enabled: isAuthEnabled(),
+      authenticated: !isAuthEnabled() || Boolean(session),
+      username: session?.username ?? null
+    });
+  });
+
+  router.post('/api/auth/logout', (req, res) => {
+    const session = sessionFor(req);
+    if (session) sessions.delete(session.token);
+    setSessionCookie(req, res, '', 0);
+    res.json({ success: true });
+  });
+
+  return router;
+}
+
+/**
+ * Whether a request carries a valid session cookie or basic credentials, for
+ * requests that bypass the Express middleware (WebSocket upgrades)
+ */
+export function isRequestAuthenticated(req) {
+  if (!isAuthEnabled() || sessionFor(req)) return true;
+  const basic = basicCredentials(req);
+  return Boolean(basic) && attemptLogin(req, basic.username, basic.password).ok;
+}
+
+/**
+ * Middleware guarding everything mounted after it. A request passes with a
+ * valid session cookie or HTTP basic credentials; otherwise API calls get a
+ * 401 and page loads are redirected to the login page.
+ */
+export function requireAuth(req, res, next) {
+  if (!isAuthEnabled() || sessionFor(req)) return next();
+
+  const basic = basicCredentials(req);
+  if (basic) {
+    const result = attemptLogin(req, basic.username, basic.password);
+    if (result.ok) return next();
+    if (result.retryAfter) res.setHeader('Retry-After', String(result.retryAfter));
+    return res.status(result.status).json({ error: result.error });
+  }
+
+  if (req.path.startsWith('/api/')) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  if (req.method === 'GET' && req.accepts('html')) {
+    return res.redirect(`/login?next=${encodeURIComponent(req.originalUrl)}`);
+  }
+  res.status(401).send('Authentication required');
+}
+
+// Drop expired sessions and old failures so the maps do not grow without bound
+setInterval(() => {
+  const now = Date.now();
+  for (const [token, session] of sessions) {
+    if (session.expiresAt <= now) sessions.delete(token);
+  }
+  for (const [id, timestamps] of failures) {
+    if (recentFailures(timestamps, now).length === 0) failures.delete(id);
+  }
+}, 60 * 60 * 1000).unref();
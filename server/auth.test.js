@@ -0,0 +1,95 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+
+// config.js reads the credentials when it is first imported
+process.env.AUTH_USERNAME = 'admin';
+process.env.AUTH_PASSWORD = 'correct horse';
+const { createAuthRouter, requireAuth } = await import('./auth.js');
+
+const basic = (username, password) =>
+  `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+
+describe('login, sessions and per-client backoff', () => {
+  let server;
+  let baseUrl;
+
+  before(async () => {
+    const app = express();
+    app.use(createAuthRouter());
+    app.use(requireAuth);
+    app.get('/api/ping', (req, res) => res.json({ ok: true }));
+    await new Promise(resolve => {
+      server = app.listen(0, '127.0.0.1', resolve);
+    });
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  after(() => {
+    mock.timers.reset();
+    server.close();
+  });
+
+  const login = (username, password, next = '/') =>
+    fetch(`${baseUrl}/login`, {
+      method: 'POST',
+      redirect: 'manual',
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ username, password, next })
+    });
+
+  const ping = headers => fetch(`${baseUrl}/api/ping`, { headers });
+
+  let cookie;
+
+  it('rejects API calls without credentials', async () => {
+    const response = await ping();
+    assert.equal(response.status, 401);
+  });
+
+  it('signs in with a session cookie and follows only same-origin next paths', async () => {
+    const response = await login('admin', 'correct horse', '/projects?tab=1');
+    assert.equal(response.status, 303);
+    assert.equal(response.headers.get('location'), '/projects?tab=1');
+    cookie = response.headers.get('set-cookie').split(';')[0];
+    assert.equal((await ping({ cookie })).status, 200);
+
+    for (const next of ['//evil.example', '/\\evil.example', 'https://evil.example/']) {
+      const redirect = await login('admin', 'correct horse', next);
+      assert.equal(redirect.headers.get('location'), '/', `next=${next}`);
+    }
+  });
+
+  it('makes a client wait after repeated failures, doubling the wait', async () => {
+    mock.timers.enable({ apis: ['Date'], now: Date.now() });
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      assert.equal((await ping({ authorization: basic('admin', 'wrong') })).status, 401);
+    }
+    const limited = await ping({ authorization: basic('admin', 'correct horse') });
+    assert.equal(limited.status, 429);
+    assert.equal(limited.headers.get('retry-after'), '2');
+
+    // The wait is counted from the last failure and doubles with each one
+    mock.timers.tick(2000);
+    assert.equal((await ping({ authorization: basic('admin', 'wrong') })).status, 401);
+    assert.equal((await ping({ authorization: basic('admin', 'correct horse') })).headers.get('retry-after'), '4');
+
+    mock.timers.tick(4000);
+    assert.equal((await ping({ authorization: basic('admin', 'correct horse') })).status, 200);
+  });
+
+  it('keeps signed-in sessions working while the client is backing off', async () => {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await ping({ authorization: basic('admin', 'wrong') });
+    }
+    assert.equal((await login('admin', 'correct horse')).status, 429);
+    assert.equal((await ping({ cookie })).status, 200);
+  });
+
+  it('ends the session on logout', async () => {
+    const response = await fetch(`${baseUrl}/api/auth/logout`, { method: 'POST', headers: { cookie } });
+    assert.equal(response.status, 200);
+    assert.equal((await ping({ cookie })).status, 401);
+  });
+});
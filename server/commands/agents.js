@@ -0,0 +1,384 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { CLAUDE_PROJECTS_DIR } from '../config.js';
+import { CommandError } from '../invoke.js';
+import { listSessionFiles, readJsonlFile } from '../lib/claudeProjects.js';
+import { getDb } from '../lib/db.js';
+import { assertWithinBudget } from '../lib/budgets.js';
+import {
+  cancelAgentRun,
+  getLiveRun,
+  getRunMetrics,
+  reconcileOrphanedRuns,
+  runOutputFile,
+  startAgentRun
+} from '../lib/agentRunner.js';
+import {
+  mergeRunWorktree,
+  removeRunWorktree,
+  runWorktreeChanges,
+  runWorktreeFileDiff
+} from '../lib/worktrees.js';
+import { resolveWorkspacePath, toPathError } from '../lib/workspacePaths.js';
+
+const GITHUB_AGENTS_API = 'https://api.github.com/repos/getAsterisk/gooey/contents/cc_agents';
+const GITHUB_RAW_HOST = 'raw.githubusercontent.com';
+
+function requireAgent(id) {
+  const agent = getDb().prepare('SELECT * FROM agents WHERE id = ?').get(Number(id));
+  if (!agent) {
+    throw new CommandError(`Agent not found: ${id}`, 404);
+  }
+  return agent;
+}
+
+function requireRun(id) {
+  const run = getDb().prepare('SELECT * FROM agent_runs WHERE id = ?').get(Number(id));
+  if (!run) {
+    throw new CommandError(`Agent run not found: ${id}`, 404);
+  }
+  return run;
+}
+
+function validateAgentFields({ name, icon, systemPrompt }) {
+  if (!name?.trim()) throw new CommandError('Agent name is required');
+  if (!icon?.trim()) throw new CommandError('Agent icon is required');
+  if (!systemPrompt?.trim()) throw new CommandError('Agent system prompt is required');
+}
+
+function insertAgent({ name, icon, systemPrompt, defaultTask, model, hooks }) {
+  const { lastInsertRowid } = getDb()
+    .prepare(`INSERT INTO agents (name, icon, system_prompt, default_task, model, hooks)
+              VALUES (?, ?, ?, ?, ?, ?)`)
+    .run(name, icon, systemPrompt, defaultTask ?? null, model || 'sonnet', hooks ?? null);
+  return requireAgent(lastInsertRowid);
+}
+
+async function importAgentData(jsonData) {
+  let parsed;
+  try {
+    parsed = typeof jsonData === 'string' ? JSON.parse(jsonData) : jsonData;
+  } catch (error) {
+    throw new CommandError(`Invalid agent JSON: ${error.message}`);
+  }
+
+  if (parsed?.version !== 1 || !parsed.agent) {
+    throw new CommandError(`Unsupported agent export version: ${parsed?.version}`);
+  }
+
+  const { name, icon, system_prompt, default_task, model, hooks } = parsed.agent;
+  validateAgentFields({ name, icon, systemPrompt: system_prompt });
+
+  // Imported agents never overwrite existing ones; suffix the name instead
+  const existingNames = new Set(getDb().prepare('SELECT name FROM agents').pluck().all());
+  let finalName = name;
+  for (let n = 2; existingNames.has(finalName); n++) {
+    finalName = `${name} (${n})`;
+  }
+
+  return insertAgent({
+    name: finalName,
+    icon,
+    systemPrompt: system_prompt,
+    defaultTask: default_task,
+    model,
+    hooks
+  });
+}
+
+async function fetchGitHubAgentExport(downloadUrl) {
+  let url;
+  try {
+    url = new URL(downloadUrl);
+  } catch {
+    throw new CommandError(`Invalid download URL: ${downloadUrl}`);
+  }
+  if (url.protocol !== 'https:' || url.hostname !== GITHUB_RAW_HOST) {
+    throw new CommandError(`Agents can only be downloaded from ${GITHUB_RAW_HOST}`);
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new CommandError(`Failed to download agent: HTTP ${response.status}`, 502);
+  }
+  return response.text();
+}
+
+/**
+ * Finds the JSONL file for a session in any ~/.claude/projects directory
+ */
+async function findSessionFile(sessionId) {
+  let projectDirs;
+  try {
+    projectDirs = await fs.readdir(CLAUDE_PROJECTS_DIR, { withFileTypes: true });
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+
+  for (const dir of projectDirs.filter(entry => entry.isDirectory())) {
+    const files = await listSessionFiles(path.join(CLAUDE_PROJECTS_DIR, dir.name));
+    const match = files.find(file => path.basename(file, '.jsonl') === sessionId);
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * Full JSONL output of a run: the runner's output file, falling back to the
+ * Claude session file for runs recorded before output files existed
+ */
+async function readRunOutput(run) {
+  try {
+    return await fs.readFile(runOutputFile(run.id), 'utf-8');
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+  }
+
+  if (!run.session_id) return '';
+  const sessionFile = await findSessionFile(run.session_id);
+  if (!sessionFile) return '';
+  return fs.readFile(sessionFile, 'utf-8');
+}
+
+/**
+ * Deletes a run's worktree and branch, if it still has them
+ */
+async function discardRunWorktree(run) {
+  if (run.worktree_status !== 'active') return;
+  await removeRunWorktree(run);
+  getDb().prepare("UPDATE agent_runs SET worktree_status = 'discarded' WHERE id = ?").run(run.id);
+}
+
+async function withMetrics(run) {
+  const metrics = await getRunMetrics(run);
+  return {
+    ...run,
+    duration_ms: metrics.duration_ms,
+    total_tokens: metrics.total_tokens,
+    metrics
+  };
+}
+
+/**
+ * Commands for CC agents and their runs
+ */
+export const agentCommands = {
+  async list_agents() {
+    return getDb().prepare('SELECT * FROM agents ORDER BY created_at DESC').all();
+  },
+
+  async get_agent({ id }) {
+    return requireAgent(id);
+  },
+
+  async create_agent({ name, icon, systemPrompt, defaultTask, model, hooks }) {
+    validateAgentFields({ name, icon, systemPrompt });
+    return insertAgent({ name, icon, systemPrompt, defaultTask, model, hooks });
+  },
+
+  async update_agent({ id, name, icon, systemPrompt, defaultTask, model, hooks }) {
+    requireAgent(id);
+    validateAgentFields({ name, icon, systemPrompt });
+    getDb()
+      .prepare(`UPDATE agents
+                SET name = ?, icon = ?, system_prompt = ?, default_task = ?, model = ?, hooks = ?
+                WHERE id = ?`)
+      .run(name, icon, systemPrompt, defaultTask ?? null, model || 'sonnet', hooks ?? null, Number(id));
+    return requireAgent(id);
+  },
+
+  async delete_agent({ id }) {
+    requireAgent(id);
+    // Runs go with the agent: live ones are stopped, and their worktrees and
+    // output files would otherwise be left behind
+    const runs = getDb().prepare('SELECT * FROM agent_runs WHERE agent_id = ?').all(Number(id));
+    for (const run of runs) {
+      await cancelAgentRun(run);
+      await discardRunWorktree(run).catch(error => {
+        console.warn(`Failed to remove worktree of agent run ${run.id}:`, error.message);
+      });
+      await fs.rm(runOutputFile(run.id), { force: true });
+    }
+    getDb().prepare('DELETE FROM agents WHERE id = ?').run(Number(id));
+  },
+
+  async export_agent({ id }) {
+    const agent = requireAgent(id);
+    return JSON.stringify({
+      version: 1,
+      exported_at: new Date().toISOString(),
+      agent: {
+        name: agent.name,
+        icon: agent.icon,
+        system_prompt: agent.system_prompt,
+        default_task: agent.default_task ?? undefined,
+        model: agent.model,
+        hooks: agent.hooks ?? undefined
+      }
+    }, null, 2);
+  },
+
+  async import_agent({ jsonData }) {
+    return importAgentData(jsonData);
+  },
+
+  // Relative paths are inside the workspace, as returned by uploads
+  async import_agent_from_file({ filePath }) {
+    // Only files inside the workspace, e.g. ones uploaded for the import
+    const { fullPath } = await resolveWorkspacePath(filePath);
+    const content = await fs.readFile(fullPath, 'utf-8').catch(error => {
+      throw toPathError(error, filePath);
+    });
+    return importAgentData(content);
+  },
+
+  async fetch_github_agents() {
+    const response = await fetch(GITHUB_AGENTS_API, {
+      headers: { Accept: 'application/vnd.github+json', 'User-Agent': 'claudia-server' }
+    });
+    if (!response.ok) {
+      throw new CommandError(`GitHub API error: HTTP ${response.status}`, 502);
+    }
+    const entries = await response.json();
+    return entries
+      .filter(entry => entry.type === 'file' && entry.name.endsWith('.claudia.json'))
+      .map(entry => ({
+        name: entry.name,
+        path: entry.path,
+        download_url: entry.download_url,
+        size: entry.size,
+        sha: entry.sha
+      }));
+  },
+
+  async fetch_github_agent_content({ downloadUrl }) {
+    const content = await fetchGitHubAgentExport(downloadUrl);
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      throw new CommandError(`Invalid agent JSON: ${error.message}`);
+    }
+  },
+
+  async import_agent_from_github({ downloadUrl }) {
+    return importAgentData(await fetchGitHubAgentExport(downloadUrl));
+  },
+
+  async execute_agent({ agentId, projectPath, task, model, isolated = false }) {
+    const agent = requireAgent(agentId);
+    if (!projectPath) {
+      throw new CommandError('projectPath is required');
+    }
+    if (!task?.trim()) {
+      throw new CommandError('task is required');
+    }
+    await assertWithinBudget({ projectPath, model: model || agent.model });
+    return startAgentRun({ agent, projectPath, task, model: model || agent.model, isolated: Boolean(isolated) });
+  },
+
+  async list_agent_runs({ agentId }) {
+    if (agentId === undefined || agentId === null) {
+      return getDb().prepare('SELECT * FROM agent_runs ORDER BY created_at DESC').all();
+    }
+    return getDb()
+      .prepare('SELECT * FROM agent_runs WHERE agent_id = ? ORDER BY created_at DESC')
+      .all(Number(agentId));
+  },
+
+  async list_agent_runs_with_metrics(payload) {
+    const runs = await agentCommands.list_agent_runs(payload);
+    return Promise.all(runs.map(withMetrics));
+  },
+
+  async get_agent_run({ id }) {
+    return withMetrics(requireRun(id));
+  },
+
+  async get_agent_run_with_real_time_metrics({ id }) {
+    const run = requireRun(id);
+    return { ...(await withMetrics(run)), output: await readRunOutput(run) };
+  },
+
+  async list_running_sessions() {
+    return getDb().prepare("SELECT * FROM agent_runs WHERE status = 'running' ORDER BY created_at DESC").all();
+  },
+
+  // Removes a finished run with its output and, for isolated runs, its
+  // worktree and branch
+  async delete_agent_run({ runId }) {
+    const run = requireRun(runId);
+    if (run.status === 'running' || getLiveRun(run.id)) {
+      throw new CommandError(`Agent run ${run.id} is still running`, 409);
+    }
+    await discardRunWorktree(run);
+    await fs.rm(runOutputFile(run.id), { force: true });
+    getDb().prepare('DELETE FROM agent_runs WHERE id = ?').run(run.id);
+  },
+
+  // Isolated runs: review the worktree's changes, then merge or discard them
+  async get_agent_run_changes({ runId }) {
+    return runWorktreeChanges(requireRun(runId));
+  },
+
+  async get_agent_run_file_diff({ runId, filePath }) {
+    return runWorktreeFileDiff(requireRun(runId), filePath);
+  },
+
+  async merge_agent_run({ runId }) {
+    const run = requireRun(runId);
+    if (run.status === 'running') {
+      throw new CommandError(`Agent run ${run.id} is still running`, 409);
+    }
+    const result = await mergeRunWorktree(run);
+    getDb().prepare("UPDATE agent_runs SET worktree_status = 'merged' WHERE id = ?").run(run.id);
+    return result;
+  },
+
+  async discard_agent_run({ runId }) {
+    const run = requireRun(runId);
+    if (run.status === 'running') {
+      throw new CommandError(`Agent run ${run.id} is still running`, 409);
+    }
+    await discardRunWorktree(run);
+  },
+
+  async kill_agent_session({ runId }) {
+    return cancelAgentRun(requireRun(runId));
+  },
+
+  async get_session_status({ runId }) {
+    return getDb().prepare('SELECT status FROM agent_runs WHERE id = ?').pluck().get(Number(runId)) ?? null;
+  },
+
+  async cleanup_finished_processes() {
+    return reconcileOrphanedRuns();
+  },
+
+  async get_session_output({ runId }) {
+    return readRunOutput(requireRun(runId));
+  },
+
+  async get_live_session_output({ runId }) {
+    const run = requireRun(runId);
+    const live = getLiveRun(run.id);
+    return live ? live.output.toString() : readRunOutput(run);
+  },
+
+  async stream_session_output({ runId }) {
+    // Live runs already broadcast agent-output:<runId> over /api/events
+    requireRun(runId);
+  },
+
+  async load_agent_session_history({ sessionId }) {
+    const sessionFile = await findSessionFile(sessionId);
+    if (!sessionFile) {
+      throw new CommandError(`Session not found: ${sessionId}`, 404);
+    }
+    const messages = [];
+    await readJsonlFile(sessionFile, entry => {
+      messages.push(entry);
+    });
+    return messages;
+  }
+};
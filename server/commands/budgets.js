@@ -0,0 +1,81 @@
+import path from 'path';
+import { CommandError } from '../invoke.js';
+import { getDb } from '../lib/db.js';
+import { checkBudgetAlerts, getBudgetStatuses, toBudget } from '../lib/budgets.js';
+
+function requireBudget(id) {
+  const budget = getDb().prepare('SELECT * FROM budgets WHERE id = ?').get(Number(id));
+  if (!budget) {
+    throw new CommandError(`Budget not found: ${id}`, 404);
+  }
+  return budget;
+}
+
+function validateBudget({ scope, target, period, limitUsd, warnPercent }) {
+  if (scope !== 'project' && scope !== 'model') {
+    throw new CommandError(`Invalid budget scope: ${scope}`);
+  }
+  if (!target?.trim()) {
+    throw new CommandError(scope === 'project' ? 'Project path is required' : 'Model is required');
+  }
+  if (period !== 'daily' && period !== 'monthly') {
+    throw new CommandError(`Invalid budget period: ${period}`);
+  }
+  if (typeof limitUsd !== 'number' || !(limitUsd > 0)) {
+    throw new CommandError('Budget limit must be a positive amount');
+  }
+  if (warnPercent !== undefined && (!Number.isInteger(warnPercent) || warnPercent < 1 || warnPercent > 100)) {
+    throw new CommandError('Warning threshold must be a whole percentage between 1 and 100');
+  }
+}
+
+/**
+ * Commands for per-project and per-model spend budgets
+ */
+export const budgetCommands = {
+  async list_budgets() {
+    return getDb().prepare('SELECT * FROM budgets ORDER BY scope, target').all().map(toBudget);
+  },
+
+  async save_budget({ id, scope, target, period, limitUsd, warnPercent, hardStop }) {
+    validateBudget({ scope, target, period, limitUsd, warnPercent });
+    const values = [
+      scope,
+      scope === 'project' ? path.resolve(target.trim()) : target.trim(),
+      period,
+      limitUsd,
+      warnPercent ?? 80,
+      hardStop ? 1 : 0
+    ];
+
+    let budgetId = id;
+    if (id === undefined || id === null) {
+      const { lastInsertRowid } = getDb()
+        .prepare(`INSERT INTO budgets (scope, target, period, limit_usd, warn_percent, hard_stop)
+                  VALUES (?, ?, ?, ?, ?, ?)`)
+        .run(...values);
+      budgetId = lastInsertRowid;
+    } else {
+      requireBudget(id);
+      // Re-arm alerts so a changed limit is evaluated from scratch
+      getDb()
+        .prepare(`UPDATE budgets
+                  SET scope = ?, target = ?, period = ?, limit_usd = ?, warn_percent = ?, hard_stop = ?,
+                      last_alert_level = NULL, last_alert_period = NULL
+                  WHERE id = ?`)
+        .run(...values, Number(id));
+    }
+
+    checkBudgetAlerts().catch(error => console.error('Budget check failed:', error));
+    return toBudget(requireBudget(budgetId));
+  },
+
+  async delete_budget({ id }) {
+    requireBudget(id);
+    getDb().prepare('DELETE FROM budgets WHERE id = ?').run(Number(id));
+  },
+
+  async get_budget_status() {
+    return getBudgetStatuses();
+  }
+};
@@ -0,0 +1,66 @@
+import {
+  createCheckpoint,
+  restoreCheckpoint,
+  forkFromCheckpoint,
+  listCheckpoints,
+  getSessionTimeline,
+  getCheckpointSettings,
+  updateCheckpointSettings,
+  getCheckpointDiff,
+  checkAutoCheckpoint,
+  cleanupOldCheckpoints
+} from '../lib/checkpoints.js';
+
+/**
+ * Checkpoint commands for the session timeline: snapshots of a project's
+ * files and of the session file, restored or forked from later
+ */
+export const checkpointCommands = {
+  async create_checkpoint({ sessionId, projectId, projectPath, messageIndex, description }) {
+    return createCheckpoint({ sessionId, projectId, projectPath, messageIndex, description });
+  },
+
+  async restore_checkpoint({ checkpointId, sessionId, projectId }) {
+    return restoreCheckpoint({ checkpointId, sessionId, projectId });
+  },
+
+  async fork_from_checkpoint({ checkpointId, sessionId, projectId, newSessionId, description }) {
+    return forkFromCheckpoint({ checkpointId, sessionId, projectId, newSessionId, description });
+  },
+
+  async list_checkpoints({ sessionId, projectId }) {
+    return listCheckpoints({ sessionId, projectId });
+  },
+
+  async get_session_timeline({ sessionId, projectId }) {
+    return getSessionTimeline({ sessionId, projectId });
+  },
+
+  async get_checkpoint_settings({ sessionId, projectId }) {
+    return getCheckpointSettings({ sessionId, projectId });
+  },
+
+  async update_checkpoint_settings({ sessionId, projectId, projectPath, autoCheckpointEnabled, checkpointStrategy }) {
+    await updateCheckpointSettings({ sessionId, projectId, projectPath, autoCheckpointEnabled, checkpointStrategy });
+  },
+
+  async get_checkpoint_diff({ fromCheckpointId, toCheckpointId, sessionId, projectId }) {
+    return getCheckpointDiff({ fromCheckpointId, toCheckpointId, sessionId, projectId });
+  },
+
+  async check_auto_checkpoint({ sessionId, projectId, projectPath, message }) {
+    return checkAutoCheckpoint({ sessionId, projectId, projectPath, message });
+  },
+
+  async cleanup_old_checkpoints({ sessionId, projectId, keepCount }) {
+    return cleanupOldCheckpoints({ sessionId, projectId, keepCount });
+  },
+
+  // Messages are read from the session file when a checkpoint is created, and
+  // nothing is held in memory per session, so these have nothing to do
+  async track_checkpoint_message() {},
+
+  async track_session_messages() {},
+
+  async clear_checkpoint_manager() {}
+};
@@ -0,0 +1,155 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { CLAUDE_DIR, CLAUDE_SETTINGS_FILE, HOME_DIR, childProcessEnv } from '../config.js';
+import { CommandError } from '../invoke.js';
+import { readJsonFile, writeJsonFile, pathExists } from '../lib/fsUtils.js';
+import { getAppSetting, setAppSetting } from '../lib/db.js';
+import { mapHookCommands } from '../lib/hooks.js';
+import { fromStoredHookCommand, toStoredHookCommand } from '../lib/secrets.js';
+import {
+  CLAUDE_BINARY_SETTING,
+  discoverClaudeInstallations,
+  resolveClaudeBinary
+} from '../lib/claudeBinary.js';
+
+const execFileAsync = promisify(execFile);
+
+const SYSTEM_PROMPT_FILE = path.join(CLAUDE_DIR, 'CLAUDE.md');
+
+// Directories never worth descending into when looking for CLAUDE.md files
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git', 'dist', 'build', 'target', '.next', '.venv']);
+
+async function collectClaudeMdFiles(rootPath, dirPath, results) {
+  let entries;
+  try {
+    entries = await fs.readdir(dirPath, { withFileTypes: true });
+  } catch {
+    return;
+  }
+
+  for (const entry of entries) {
+    const fullPath = path.join(dirPath, entry.name);
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRECTORIES.has(entry.name)) {
+        await collectClaudeMdFiles(rootPath, fullPath, results);
+      }
+    } else if (entry.isFile() && entry.name.toLowerCase() === 'claude.md') {
+      const stats = await fs.stat(fullPath);
+      results.push({
+        relative_path: path.relative(rootPath, fullPath),
+        absolute_path: fullPath,
+        size: stats.size,
+        modified: Math.floor(stats.mtimeMs / 1000)
+      });
+    }
+  }
+}
+
+/**
+ * Commands for Claude CLI settings, prompts and installation discovery
+ */
+export const claudeCommands = {
+  async get_home_directory() {
+    return HOME_DIR;
+  },
+
+  async get_claude_settings() {
+    const settings = await readJsonFile(CLAUDE_SETTINGS_FILE, {});
+    if (settings.hooks) {
+      settings.hooks = mapHookCommands(settings.hooks, fromStoredHookCommand);
+    }
+    return { data: settings };
+  },
+
+  async save_claude_settings({ settings }) {
+    if (!settings || typeof settings !== 'object') {
+      throw new CommandError('settings must be an object');
+    }
+    await writeJsonFile(CLAUDE_SETTINGS_FILE, settings.hooks
+      ? { ...settings, hooks: mapHookCommands(settings.hooks, toStoredHookCommand) }
+      : settings);
+    return 'Settings saved successfully';
+  },
+
+  async get_system_prompt() {
+    try {
+      return await fs.readFile(SYSTEM_PROMPT_FILE, 'utf-8');
+    } catch (error) {
+      if (error.code === 'ENOENT') return '';
+      throw error;
+    }
+  },
+
+  async save_system_prompt({ content }) {
+    await fs.mkdir(CLAUDE_DIR, { recursive: true });
+    await fs.writeFile(SYSTEM_PROMPT_FILE, content ?? '', 'utf-8');
+    return 'System prompt saved successfully';
+  },
+
+  async check_claude_version() {
+    const binary = await resolveClaudeBinary();
+    try {
+      const { stdout, stderr } = await execFileAsync(binary, ['--version'], { env: childProcessEnv(), timeout: 10000 });
+      const output = (stdout + stderr).trim();
+      const match = output.match(/\d+\.\d+\.\d+(?:-[\w.]+)?/);
+      return { is_installed: true, version: match ? match[0] : undefined, output };
+    } catch (error) {
+      return {
+        is_installed: false,
+        output: error.code === 'ENOENT'
+          ? 'Claude Code CLI not found. Install it with: npm install -g @anthropic-ai/claude-code'
+          : (error.stderr || error.message || '').trim()
+      };
+    }
+  },
+
+  async find_claude_md_files({ projectPath }) {
+    if (!projectPath || !(await pathExists(projectPath))) {
+      throw new CommandError(`Project path does not exist: ${projectPath}`, 404);
+    }
+    const results = [];
+    await collectClaudeMdFiles(projectPath, projectPath, results);
+    return results.sort((a, b) => a.relative_path.localeCompare(b.relative_path));
+  },
+
+  async read_claude_md_file({ filePath }) {
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new CommandError(`File not found: ${filePath}`, 404);
+      }
+      throw error;
+    }
+  },
+
+  async save_claude_md_file({ filePath, content }) {
+    if (!filePath) {
+      throw new CommandError('filePath is required');
+    }
+    await fs.writeFile(filePath, content ?? '', 'utf-8');
+    return 'File saved successfully';
+  },
+
+  async get_claude_binary_path() {
+    return getAppSetting(CLAUDE_BINARY_SETTING);
+  },
+
+  async set_claude_binary_path({ path: binaryPath }) {
+    if (!binaryPath || !(await pathExists(binaryPath))) {
+      throw new CommandError(`Claude binary not found at: ${binaryPath}`, 404);
+    }
+    setAppSetting(CLAUDE_BINARY_SETTING, binaryPath);
+  },
+
+  async list_claude_installations() {
+    const installations = await discoverClaudeInstallations();
+    const custom = getAppSetting(CLAUDE_BINARY_SETTING);
+    if (custom && !installations.some(installation => installation.path === custom)) {
+      installations.unshift({ path: custom, source: 'custom', installation_type: 'Custom' });
+    }
+    return installations;
+  }
+};
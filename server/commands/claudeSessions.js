@@ -0,0 +1,52 @@
+import { CommandError } from '../invoke.js';
+import { assertWithinBudget } from '../lib/budgets.js';
+import { spawnClaudeSession } from '../lib/claudeProcess.js';
+import { processRegistry } from '../lib/processRegistry.js';
+
+function claudeSessionEntries() {
+  return processRegistry.list().filter(entry => entry.processType.ClaudeSession?.session_id);
+}
+
+/**
+ * Commands that run Claude Code sessions; output streams over /api/events
+ */
+export const claudeSessionCommands = {
+  async execute_claude_code({ projectPath, prompt, model }) {
+    await assertWithinBudget({ projectPath, model });
+    await spawnClaudeSession({ projectPath, prompt, model, mode: 'new' });
+  },
+
+  async continue_claude_code({ projectPath, prompt, model }) {
+    await assertWithinBudget({ projectPath, model });
+    await spawnClaudeSession({ projectPath, prompt, model, mode: 'continue' });
+  },
+
+  async resume_claude_code({ projectPath, sessionId, prompt, model }) {
+    await assertWithinBudget({ projectPath, model });
+    await spawnClaudeSession({ projectPath, prompt, model, mode: 'resume', sessionId });
+  },
+
+  async cancel_claude_execution({ sessionId }) {
+    // Other tabs and clients run sessions too, so only a named one is stopped
+    if (!sessionId) {
+      throw new CommandError('sessionId is required');
+    }
+    const entry = processRegistry.get(sessionId);
+
+    // Nothing to do if the process already finished
+    if (!entry) return;
+    await processRegistry.kill(entry.key);
+  },
+
+  async list_running_claude_sessions() {
+    return claudeSessionEntries().map(entry => processRegistry.toProcessInfo(entry));
+  },
+
+  async get_claude_session_output({ sessionId }) {
+    const entry = processRegistry.get(sessionId);
+    if (!entry) {
+      throw new CommandError(`No running Claude session: ${sessionId}`, 404);
+    }
+    return entry.output.toString();
+  }
+};
@@ -0,0 +1,49 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { CommandError } from '../invoke.js';
+import { resolveWorkspacePath, toPathError, PATH_ERRORS } from '../lib/workspacePaths.js';
+import {
+  listDirectoryEntries,
+  searchEntries,
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT
+} from '../lib/fileSearch.js';
+
+/**
+ * Resolves an absolute directory inside a workspace project
+ */
+async function resolveDirectory(requested) {
+  const resolved = await resolveWorkspacePath(requested);
+  const stats = await fs.stat(resolved.fullPath).catch(error => {
+    throw toPathError(error, requested);
+  });
+  if (!stats.isDirectory()) {
+    throw new CommandError(`Not a directory: ${requested}`, 400, PATH_ERRORS.NOT_A_DIRECTORY);
+  }
+  return { ...resolved, displayDir: path.resolve(requested) };
+}
+
+// File browsing for FileExplorer and the @ mention FilePicker. Paths are
+// absolute and must lie inside a workspace project.
+export const fileCommands = {
+  async list_directory_contents({ directoryPath }) {
+    const { root, fullPath, displayDir } = await resolveDirectory(directoryPath);
+    return listDirectoryEntries({ root, dir: fullPath, displayDir }).catch(error => {
+      throw toPathError(error, directoryPath);
+    });
+  },
+
+  async search_files({ basePath, query, limit = DEFAULT_SEARCH_LIMIT }) {
+    if (typeof query !== 'string') {
+      throw new CommandError('Search query must be a string');
+    }
+    const { root, fullPath, displayDir } = await resolveDirectory(basePath);
+    return searchEntries({
+      root,
+      dir: fullPath,
+      displayDir,
+      query,
+      limit: Math.min(Math.max(Number(limit) || DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT)
+    });
+  }
+};
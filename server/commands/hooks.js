@@ -0,0 +1,46 @@
+import { execFile } from 'child_process';
+import { childProcessEnv } from '../config.js';
+import { promisify } from 'util';
+import { readJsonFile, writeJsonFile } from '../lib/fsUtils.js';
+import { mapHookCommands, settingsFileForScope } from '../lib/hooks.js';
+import { fromStoredHookCommand, toStoredHookCommand } from '../lib/secrets.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Commands for Claude Code hooks stored in the settings files. Secret
+ * references in hook commands are stored as environment variables (see
+ * secrets.js) and shown as `${secret:NAME}`.
+ */
+export const hookCommands = {
+  async get_hooks_config({ scope, projectPath }) {
+    const settings = await readJsonFile(settingsFileForScope(scope, projectPath), {});
+    return mapHookCommands(settings.hooks || {}, fromStoredHookCommand);
+  },
+
+  async update_hooks_config({ scope, projectPath, hooks }) {
+    const settingsFile = settingsFileForScope(scope, projectPath);
+    const settings = await readJsonFile(settingsFile, {});
+
+    if (hooks && Object.keys(hooks).length > 0) {
+      settings.hooks = mapHookCommands(hooks, toStoredHookCommand);
+    } else {
+      delete settings.hooks;
+    }
+
+    await writeJsonFile(settingsFile, settings);
+    return 'Hooks configuration updated successfully';
+  },
+
+  async validate_hook_command({ command }) {
+    if (!command?.trim()) {
+      return { valid: false, message: 'Command cannot be empty' };
+    }
+    try {
+      await execFileAsync('bash', ['-n', '-c', command], { env: childProcessEnv(), timeout: 5000 });
+      return { valid: true, message: 'Command syntax is valid' };
+    } catch (error) {
+      return { valid: false, message: `Syntax error: ${(error.stderr || error.message).trim()}` };
+    }
+  }
+};
@@ -0,0 +1,401 @@
+import os from 'os';
+import path from 'path';
+import { spawn } from 'child_process';
+import { HOME_DIR, CLAUDE_JSON_FILE, childProcessEnv } from '../config.js';
+import { CommandError } from '../invoke.js';
+import { readJsonFile, writeJsonFile } from '../lib/fsUtils.js';
+import { resolveClaudeBinary } from '../lib/claudeBinary.js';
+import {
+  MCP_SCOPES,
+  MCP_SCOPE_DIR,
+  readScopeServers,
+  writeScopeServers,
+  toMcpServer,
+  listMcpServers,
+  findMcpServer
+} from '../lib/mcpConfig.js';
+import { checkServer, checkAllServers, getServerStatus, forgetServerStatus } from '../lib/mcpHealth.js';
+import { callMcpTool, listToolCalls } from '../lib/mcpToolCalls.js';
+import { getDb } from '../lib/db.js';
+
+const CLAUDE_DESKTOP_CONFIG = os.platform() === 'darwin'
+  ? path.join(HOME_DIR, 'Library', 'Application Support', 'Claude', 'claude_desktop_config.json')
+  : path.join(HOME_DIR, '.config', 'Claude', 'claude_desktop_config.json');
+
+// `claude mcp serve` child, kept for the lifetime of the server
+let mcpServeProcess = null;
+
+function validateScope(scope) {
+  if (!MCP_SCOPES.includes(scope)) {
+    throw new CommandError(`Invalid scope: ${scope}. Expected one of ${MCP_SCOPES.join(', ')}`);
+  }
+}
+
+// Transports that talk to a server over the network rather than a child process
+const REMOTE_TRANSPORTS = ['sse', 'http'];
+
+/**
+ * Validates a headers map; values must be strings so they can be sent as-is
+ */
+function normalizeHeaders(headers) {
+  if (headers === undefined || headers === null) return {};
+  if (typeof headers !== 'object' || Array.isArray(headers)) {
+    throw new CommandError('Headers must be an object of header names to values');
+  }
+  for (const [key, value] of Object.entries(headers)) {
+    if (!/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(key)) {
+      throw new CommandError(`Invalid header name: ${key}`);
+    }
+    if (typeof value !== 'string' || /[\r\n]/.test(value)) {
+      throw new CommandError(`Invalid value for header ${key}`);
+    }
+  }
+  return headers;
+}
+
+/**
+ * Validates a raw server config and returns the shape stored on disk
+ */
+function normalizeServerConfig(config) {
+  const type = config.type || config.transport || (config.url ? 'sse' : 'stdio');
+
+  if (type === 'stdio') {
+    if (!config.command) {
+      throw new CommandError('Command is required for stdio servers');
+    }
+    return {
+      type: 'stdio',
+      command: config.command,
+      args: Array.isArray(config.args) ? config.args : [],
+      env: config.env || {}
+    };
+  }
+
+  if (REMOTE_TRANSPORTS.includes(type)) {
+    if (!config.url) {
+      throw new CommandError(`URL is required for ${type === 'sse' ? 'SSE' : 'HTTP'} servers`);
+    }
+    try {
+      new URL(config.url);
+    } catch {
+      throw new CommandError(`Invalid URL: ${config.url}`);
+    }
+    const headers = normalizeHeaders(config.headers);
+    return {
+      type,
+      url: config.url,
+      ...(Object.keys(headers).length ? { headers } : {}),
+      ...(config.env && Object.keys(config.env).length ? { env: config.env } : {})
+    };
+  }
+
+  throw new CommandError(`Unsupported transport: ${type}`);
+}
+
+const MCP_EXPORT_FORMATS = ['mcp_json', 'claude_desktop'];
+
+// How env and header values are written to an export: as they are, replaced
+// by a fixed marker, or replaced by ${VAR} references to be filled in locally
+const EXPORT_VALUE_MODES = ['keep', 'redact', 'placeholder'];
+
+const REDACTED_VALUE = '<redacted>';
+
+/**
+ * Rewrites a map of env or header values for export. Values that are already
+ * pure ${...} references carry no secret and are kept.
+ */
+function exportValues(values, mode, toVariable) {
+  if (!values || mode === 'keep') return values;
+  return Object.fromEntries(Object.entries(values).map(([key, value]) => {
+    if (/^\$\{[^}]+\}$/.test(value)) return [key, value];
+    return [key, mode === 'redact' ? REDACTED_VALUE : `\${${toVariable(key)}}`];
+  }));
+}
+
+function headerVariable(name) {
+  return name.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+/**
+ * Builds an .mcp.json or Claude Desktop config from stored server configs.
+ * Claude Desktop only runs stdio servers, so remote ones are skipped there.
+ */
+function buildExport(servers, format, valueMode) {
+  const mcpServers = {};
+  const skipped = [];
+  for (const [name, stored] of Object.entries(servers)) {
+    let config;
+    try {
+      config = normalizeServerConfig(stored);
+    } catch (error) {
+      skipped.push({ name, reason: error.message });
+      continue;
+    }
+    if (config.type === 'stdio') {
+      const env = exportValues(config.env, valueMode, key => key);
+      mcpServers[name] = format === 'claude_desktop'
+        ? { command: config.command, args: config.args, ...(Object.keys(env).length ? { env } : {}) }
+        : { ...config, env };
+    } else if (format === 'claude_desktop') {
+      skipped.push({ name, reason: `Claude Desktop does not support ${config.type} servers` });
+    } else {
+      mcpServers[name] = {
+        ...config,
+        ...(config.headers && { headers: exportValues(config.headers, valueMode, headerVariable) }),
+        ...(config.env && { env: exportValues(config.env, valueMode, key => key) })
+      };
+    }
+  }
+  return { content: `${JSON.stringify({ mcpServers }, null, 2)}\n`, exported: Object.keys(mcpServers), skipped };
+}
+
+/**
+ * Attaches the server's last health check
+ */
+function withStatus(server) {
+  const status = getServerStatus(server);
+  return status ? { ...server, is_active: status.running, status } : server;
+}
+
+/**
+ * Checks a server in the background once its configuration changed
+ */
+async function recheckServer(name) {
+  const found = await findMcpServer(name);
+  if (found) {
+    checkServer(toMcpServer(name, found.config, found.scope)).catch(() => {});
+  }
+}
+
+async function addServer(name, config, scope) {
+  if (!name?.trim()) {
+    throw new CommandError('Server name is required');
+  }
+  validateScope(scope);
+
+  const servers = await readScopeServers(scope);
+  if (servers[name]) {
+    return { success: false, message: `MCP server "${name}" already exists in ${scope} scope`, server_name: name };
+  }
+
+  servers[name] = normalizeServerConfig(config);
+  await writeScopeServers(scope, servers);
+  recheckServer(name).catch(() => {});
+  return { success: true, message: `Added MCP server "${name}" to ${scope} scope`, server_name: name };
+}
+
+/**
+ * Commands for MCP server configuration across local, project and user scopes
+ */
+export const mcpCommands = {
+  async mcp_list() {
+    return (await listMcpServers()).map(withStatus);
+  },
+
+  async mcp_get({ name }) {
+    const found = await findMcpServer(name);
+    if (!found) {
+      throw new CommandError(`MCP server not found: ${name}`, 404);
+    }
+    return withStatus(toMcpServer(name, found.config, found.scope));
+  },
+
+  async mcp_add({ name, transport, command, args, env, url, headers, scope = 'local' }) {
+    return addServer(name, { type: transport, command, args, env, url, headers }, scope);
+  },
+
+  async mcp_add_json({ name, jsonConfig, scope = 'local' }) {
+    let config;
+    try {
+      config = JSON.parse(jsonConfig);
+    } catch (error) {
+      throw new CommandError(`Invalid JSON configuration: ${error.message}`);
+    }
+    return addServer(name, config, scope);
+  },
+
+  async mcp_remove({ name }) {
+    let removed = false;
+    for (const scope of MCP_SCOPES) {
+      const servers = await readScopeServers(scope);
+      if (servers[name]) {
+        delete servers[name];
+        await writeScopeServers(scope, servers);
+        removed = true;
+      }
+    }
+    if (!removed) {
+      throw new CommandError(`MCP server not found: ${name}`, 404);
+    }
+    forgetServerStatus(name);
+    return `Removed MCP server "${name}"`;
+  },
+
+  async mcp_add_from_claude_desktop({ scope = 'user' }) {
+    validateScope(scope);
+    const desktopConfig = await readJsonFile(CLAUDE_DESKTOP_CONFIG, null);
+    if (!desktopConfig) {
+      throw new CommandError(`Claude Desktop config not found at ${CLAUDE_DESKTOP_CONFIG}`, 404);
+    }
+
+    const result = { imported_count: 0, failed_count: 0, servers: [] };
+    for (const [name, config] of Object.entries(desktopConfig.mcpServers || {})) {
+      try {
+        const added = await addServer(name, config, scope);
+        if (!added.success) throw new Error(added.message);
+        result.imported_count++;
+        result.servers.push({ name, success: true });
+      } catch (error) {
+        result.failed_count++;
+        result.servers.push({ name, success: false, error: error.message });
+      }
+    }
+    return result;
+  },
+
+  async mcp_serve() {
+    if (mcpServeProcess && mcpServeProcess.exitCode === null) {
+      return 'Claude Code MCP server is already running';
+    }
+
+    const binary = await resolveClaudeBinary();
+    mcpServeProcess = spawn(binary, ['mcp', 'serve'], {
+      cwd: MCP_SCOPE_DIR,
+      env: childProcessEnv(),
+      stdio: ['pipe', 'ignore', 'pipe']
+    });
+    mcpServeProcess.stderr.on('data', data => console.error('[mcp serve]', data.toString().trim()));
+
+    await new Promise((resolve, reject) => {
+      mcpServeProcess.once('error', reject);
+      mcpServeProcess.once('spawn', resolve);
+    }).catch(error => {
+      mcpServeProcess = null;
+      throw new CommandError(`Failed to start Claude Code MCP server: ${error.message}`, 500);
+    });
+    return 'Claude Code MCP server started';
+  },
+
+  async mcp_test_connection({ name }) {
+    const found = await findMcpServer(name);
+    if (!found) {
+      throw new CommandError(`MCP server not found: ${name}`, 404);
+    }
+    const status = await checkServer(toMcpServer(name, found.config, found.scope));
+    if (!status.running) {
+      throw new CommandError(`Could not connect to "${name}": ${status.error}`, 502);
+    }
+
+    const serverName = status.server_info?.name ? ` (${status.server_info.name}${status.server_info.version ? ` ${status.server_info.version}` : ''})` : '';
+    const counts = [
+      `${status.tools.length} tool${status.tools.length !== 1 ? 's' : ''}`,
+      `${status.resources.length} resource${status.resources.length !== 1 ? 's' : ''}`,
+      `${status.prompts.length} prompt${status.prompts.length !== 1 ? 's' : ''}`
+    ].join(', ');
+    return `Connected to "${name}"${serverName} in ${status.startup_ms} ms: ${counts}`;
+  },
+
+  async mcp_export({ scope, names, format = 'mcp_json', valueMode = 'keep' }) {
+    if (!MCP_EXPORT_FORMATS.includes(format)) {
+      throw new CommandError(`Invalid export format: ${format}`);
+    }
+    if (!EXPORT_VALUE_MODES.includes(valueMode)) {
+      throw new CommandError(`Invalid value mode: ${valueMode}`);
+    }
+
+    let servers;
+    if (scope) {
+      validateScope(scope);
+      servers = await readScopeServers(scope);
+    } else {
+      servers = {};
+      for (const candidate of MCP_SCOPES) {
+        for (const [name, config] of Object.entries(await readScopeServers(candidate))) {
+          servers[name] ??= config;
+        }
+      }
+    }
+    if (Array.isArray(names)) {
+      const missing = names.filter(name => !servers[name]);
+      if (missing.length > 0) {
+        throw new CommandError(`MCP server not found: ${missing.join(', ')}`, 404);
+      }
+      servers = Object.fromEntries(names.map(name => [name, servers[name]]));
+    }
+    return buildExport(servers, format, valueMode);
+  },
+
+  async mcp_call_tool({ name, toolName, arguments: args = {} }) {
+    const found = await findMcpServer(name);
+    if (!found) {
+      throw new CommandError(`MCP server not found: ${name}`, 404);
+    }
+    if (!toolName?.trim()) {
+      throw new CommandError('Tool name is required');
+    }
+    if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+      throw new CommandError('Tool arguments must be a JSON object');
+    }
+    return callMcpTool(toMcpServer(name, found.config, found.scope), toolName, args);
+  },
+
+  async mcp_list_tool_calls({ name, limit = 100 } = {}) {
+    return listToolCalls(name, Math.min(Math.max(Number(limit) || 100, 1), 500));
+  },
+
+  async mcp_delete_tool_call({ id }) {
+    const { changes } = getDb().prepare('DELETE FROM mcp_tool_calls WHERE id = ?').run(Number(id));
+    if (changes === 0) {
+      throw new CommandError(`Tool call not found: ${id}`, 404);
+    }
+  },
+
+  async mcp_clear_tool_calls({ name } = {}) {
+    const db = getDb();
+    const { changes } = name
+      ? db.prepare('DELETE FROM mcp_tool_calls WHERE server_name = ?').run(name)
+      : db.prepare('DELETE FROM mcp_tool_calls').run();
+    return changes;
+  },
+
+  async mcp_reset_project_choices() {
+    const config = await readJsonFile(CLAUDE_JSON_FILE, {});
+    const project = config.projects?.[MCP_SCOPE_DIR];
+    if (project) {
+      delete project.enabledMcpjsonServers;
+      delete project.disabledMcpjsonServers;
+      delete project.enableAllProjectMcpServers;
+      await writeJsonFile(CLAUDE_JSON_FILE, config);
+    }
+    return 'Project-scoped server approvals have been reset';
+  },
+
+  async mcp_get_server_status() {
+    const result = {};
+    for (const server of await listMcpServers()) {
+      const status = getServerStatus(server);
+      if (status) result[server.name] = status;
+    }
+    return result;
+  },
+
+  async mcp_check_servers() {
+    await checkAllServers();
+    return mcpCommands.mcp_get_server_status();
+  },
+
+  async mcp_read_project_config({ projectPath }) {
+    if (!projectPath) {
+      throw new CommandError('projectPath is required');
+    }
+    return { mcpServers: await readScopeServers('project', projectPath) };
+  },
+
+  async mcp_save_project_config({ projectPath, config }) {
+    if (!projectPath) {
+      throw new CommandError('projectPath is required');
+    }
+    await writeScopeServers('project', config?.mcpServers || {}, projectPath);
+    return 'Project MCP configuration saved';
+  }
+};
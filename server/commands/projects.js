@@ -0,0 +1,193 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { CLAUDE_PROJECTS_DIR, CLAUDE_TODOS_DIR } from '../config.js';
+import { CommandError } from '../invoke.js';
+import {
+  encodeProjectPath,
+  listSessionFiles,
+  readJsonlFile,
+  readJsonlPage,
+  resolveProjectPath,
+  statTimestamp
+} from '../lib/claudeProjects.js';
+import { readJsonFile } from '../lib/fsUtils.js';
+
+const DEFAULT_HISTORY_PAGE_SIZE = 500;
+const MAX_HISTORY_PAGE_SIZE = 5000;
+
+// User entries written by the CLI itself rather than typed by the user
+const GENERATED_MESSAGE_PREFIXES = ['Caveat:', '<command-name>', '<command-message>', '<local-command-stdout>'];
+
+function isPathSegment(value) {
+  return typeof value === 'string' && value !== '.' && value !== '..' && value !== '' && path.basename(value) === value;
+}
+
+function projectDirFor(projectId) {
+  if (!isPathSegment(projectId)) {
+    throw new CommandError(`Invalid project id: ${projectId}`);
+  }
+  return path.join(CLAUDE_PROJECTS_DIR, projectId);
+}
+
+async function requireSessionFile(projectId, sessionId) {
+  if (!isPathSegment(sessionId)) {
+    throw new CommandError(`Invalid session id: ${sessionId}`);
+  }
+  const sessionFile = path.join(projectDirFor(projectId), `${sessionId}.jsonl`);
+  try {
+    await fs.access(sessionFile);
+  } catch {
+    throw new CommandError(`Session not found: ${sessionId}`, 404);
+  }
+  return sessionFile;
+}
+
+/**
+ * Text the user typed in a user entry; null for tool results and CLI notices
+ */
+function userMessageText(entry) {
+  if (entry.type !== 'user' || entry.isMeta || entry.message?.role !== 'user') return null;
+
+  const { content } = entry.message;
+  const text = typeof content === 'string'
+    ? content
+    : Array.isArray(content)
+      ? content.filter(block => block.type === 'text').map(block => block.text).join('\n')
+      : '';
+
+  if (!text.trim() || GENERATED_MESSAGE_PREFIXES.some(prefix => text.startsWith(prefix))) {
+    return null;
+  }
+  return text;
+}
+
+async function readFirstMessage(sessionFile) {
+  let firstMessage = null;
+  await readJsonlFile(sessionFile, entry => {
+    const text = userMessageText(entry);
+    if (text) {
+      firstMessage = { text, timestamp: entry.timestamp };
+      return false;
+    }
+  });
+  return firstMessage;
+}
+
+/**
+ * Todo list the CLI saved for a session, if any
+ */
+async function readTodoData(sessionId) {
+  // Current CLI versions name the file after the session and its agent
+  for (const fileName of [`${sessionId}-agent-${sessionId}.json`, `${sessionId}.json`]) {
+    const todos = await readJsonFile(path.join(CLAUDE_TODOS_DIR, fileName), null);
+    if (todos) return todos;
+  }
+  return undefined;
+}
+
+async function buildProject(projectId) {
+  const projectDir = path.join(CLAUDE_PROJECTS_DIR, projectId);
+  const stats = await fs.stat(projectDir);
+  const sessionFiles = await listSessionFiles(projectDir);
+
+  let mostRecent;
+  for (const sessionFile of sessionFiles) {
+    const sessionStats = await fs.stat(sessionFile);
+    const modified = Math.floor(sessionStats.mtimeMs / 1000);
+    if (!mostRecent || modified > mostRecent) {
+      mostRecent = modified;
+    }
+  }
+
+  return {
+    id: projectId,
+    path: await resolveProjectPath(projectId),
+    sessions: sessionFiles.map(file => path.basename(file, '.jsonl')),
+    created_at: statTimestamp(stats),
+    most_recent_session: mostRecent
+  };
+}
+
+/**
+ * Commands for the Claude CLI project history in ~/.claude/projects
+ */
+export const projectCommands = {
+  async list_projects() {
+    let entries;
+    try {
+      entries = await fs.readdir(CLAUDE_PROJECTS_DIR, { withFileTypes: true });
+    } catch (error) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const projects = await Promise.all(
+      entries.filter(entry => entry.isDirectory()).map(entry => buildProject(entry.name))
+    );
+    return projects.sort((a, b) =>
+      (b.most_recent_session || b.created_at) - (a.most_recent_session || a.created_at)
+    );
+  },
+
+  async create_project({ path: projectPath }) {
+    if (!projectPath) {
+      throw new CommandError('path is required');
+    }
+    const projectId = encodeProjectPath(projectPath);
+    await fs.mkdir(path.join(CLAUDE_PROJECTS_DIR, projectId), { recursive: true });
+    const project = await buildProject(projectId);
+    return { ...project, path: projectPath };
+  },
+
+  async get_project_sessions({ projectId }) {
+    const projectDir = projectDirFor(projectId);
+    const projectPath = await resolveProjectPath(projectId);
+
+    const sessions = await Promise.all((await listSessionFiles(projectDir)).map(async sessionFile => {
+      const sessionId = path.basename(sessionFile, '.jsonl');
+      const [stats, firstMessage, todoData] = await Promise.all([
+        fs.stat(sessionFile),
+        readFirstMessage(sessionFile),
+        readTodoData(sessionId)
+      ]);
+      return {
+        id: sessionId,
+        project_id: projectId,
+        project_path: projectPath,
+        todo_data: todoData,
+        created_at: statTimestamp(stats),
+        first_message: firstMessage?.text,
+        message_timestamp: firstMessage?.timestamp
+      };
+    }));
+    return sessions.sort((a, b) => b.created_at - a.created_at);
+  },
+
+  async load_session_history({ sessionId, projectId }) {
+    const sessionFile = await requireSessionFile(projectId, sessionId);
+    const messages = [];
+    await readJsonlFile(sessionFile, entry => {
+      messages.push(entry);
+    });
+    return messages;
+  },
+
+  /**
+   * One page of a session's history; `cursor` is the byte offset returned as
+   * `next_cursor` by the previous page
+   */
+  async load_session_history_page({ sessionId, projectId, cursor = 0, limit = DEFAULT_HISTORY_PAGE_SIZE }) {
+    const sessionFile = await requireSessionFile(projectId, sessionId);
+    if (!Number.isInteger(cursor) || cursor < 0) {
+      throw new CommandError(`Invalid cursor: ${cursor}`);
+    }
+    const pageSize = Math.min(Math.max(1, Number(limit) || DEFAULT_HISTORY_PAGE_SIZE), MAX_HISTORY_PAGE_SIZE);
+
+    const { entries, nextOffset, done } = await readJsonlPage(sessionFile, cursor, pageSize);
+    return {
+      messages: entries,
+      next_cursor: nextOffset,
+      has_more: !done
+    };
+  }
+};
@@ -0,0 +1,19 @@
+import { deleteSecret, listSecrets, secretsEnabled, setSecret } from '../lib/secrets.js';
+
+/**
+ * Commands for the encrypted secrets vault. Values can be written but are
+ * never returned; they are only resolved when a process is started.
+ */
+export const secretCommands = {
+  async list_secrets() {
+    return { enabled: secretsEnabled(), secrets: listSecrets() };
+  },
+
+  async set_secret({ name, value }) {
+    setSecret(name, value);
+  },
+
+  async delete_secret({ name }) {
+    deleteSecret(name);
+  }
+};
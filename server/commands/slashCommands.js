@@ -0,0 +1,197 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { CLAUDE_DIR } from '../config.js';
+import { CommandError } from '../invoke.js';
+
+const USER_COMMANDS_DIR = path.join(CLAUDE_DIR, 'commands');
+
+// Built-in Claude Code commands shown in the picker's Default tab
+const DEFAULT_COMMANDS = [
+  { name: 'add-dir', description: 'Add additional working directories' },
+  { name: 'init', description: 'Initialize project with CLAUDE.md guide' },
+  { name: 'review', description: 'Request code review' }
+].map(({ name, description }) => ({
+  id: `default:${name}`,
+  name,
+  full_command: `/${name}`,
+  scope: 'default',
+  file_path: '',
+  content: description,
+  description,
+  allowed_tools: [],
+  has_bash_commands: false,
+  has_file_references: false,
+  accepts_arguments: name === 'add-dir'
+}));
+
+function commandsDirForScope(scope, projectPath) {
+  if (scope === 'user') return USER_COMMANDS_DIR;
+  if (scope === 'project') {
+    if (!projectPath) {
+      throw new CommandError('projectPath is required for project commands');
+    }
+    return path.join(projectPath, '.claude', 'commands');
+  }
+  throw new CommandError(`Invalid command scope: ${scope}`);
+}
+
+/**
+ * Splits YAML-ish frontmatter (description, allowed-tools) from the body
+ */
+function parseFrontmatter(raw) {
+  const match = raw.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) {
+    return { meta: {}, body: raw };
+  }
+
+  const meta = {};
+  let listKey = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      meta[listKey].push(item[1].trim());
+      continue;
+    }
+    const pair = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!pair) continue;
+    const [, key, value] = pair;
+    if (value === '') {
+      listKey = key;
+      meta[key] = [];
+    } else {
+      listKey = null;
+      meta[key] = value.trim().replace(/^["']|["']$/g, '');
+    }
+  }
+  return { meta, body: match[2] };
+}
+
+function parseAllowedTools(value) {
+  if (!value) return [];
+  if (Array.isArray(value)) return value;
+  return value.replace(/^\[|\]$/g, '')
+    .split(/,(?![^(]*\))/)
+    .map(tool => tool.trim().replace(/^["']|["']$/g, ''))
+    .filter(Boolean);
+}
+
+async function loadCommandFile(filePath, commandsDir, scope) {
+  const raw = await fs.readFile(filePath, 'utf-8');
+  const { meta, body } = parseFrontmatter(raw);
+  const relative = path.relative(commandsDir, filePath).replace(/\.md$/, '');
+  const parts = relative.split(path.sep);
+  const name = parts.pop();
+  const namespace = parts.length ? parts.join(':') : undefined;
+
+  return {
+    id: `${scope}:${relative.split(path.sep).join('/')}`,
+    name,
+    full_command: `/${namespace ? `${namespace}:` : ''}${name}`,
+    scope,
+    namespace,
+    file_path: filePath,
+    content: body,
+    description: meta.description || undefined,
+    allowed_tools: parseAllowedTools(meta['allowed-tools']),
+    has_bash_commands: /!`[^`]+`/.test(body),
+    has_file_references: /(^|\s)@[\w./-]+/.test(body),
+    accepts_arguments: body.includes('$ARGUMENTS')
+  };
+}
+
+async function collectCommands(dirPath, commandsDir, scope, results) {
+  let entries;
+  try {
+    entries = await fs.readdir(dirPath, { withFileTypes: true });
+  } catch (error) {
+    if (error.code === 'ENOENT') return;
+    throw error;
+  }
+  for (const entry of entries) {
+    const fullPath = path.join(dirPath, entry.name);
+    if (entry.isDirectory()) {
+      await collectCommands(fullPath, commandsDir, scope, results);
+    } else if (entry.isFile() && entry.name.endsWith('.md')) {
+      results.push(await loadCommandFile(fullPath, commandsDir, scope));
+    }
+  }
+}
+
+/**
+ * Maps a command id (`scope:namespace/name`) back to its markdown file
+ */
+function resolveCommandId(commandId, projectPath) {
+  const [scope, ...rest] = (commandId || '').split(':');
+  const relative = rest.join(':');
+  if (!relative || relative.split('/').some(part => !part || part === '..')) {
+    throw new CommandError(`Invalid command id: ${commandId}`);
+  }
+  const commandsDir = commandsDirForScope(scope, projectPath);
+  return { scope, commandsDir, filePath: path.join(commandsDir, `${relative}.md`) };
+}
+
+function validateName(value, label) {
+  if (!/^[\w-]+$/.test(value)) {
+    throw new CommandError(`${label} may only contain letters, numbers, dashes and underscores`);
+  }
+}
+
+/**
+ * Commands for custom slash commands in ~/.claude/commands and .claude/commands
+ */
+export const slashCommandCommands = {
+  async slash_commands_list({ projectPath }) {
+    const commands = [...DEFAULT_COMMANDS];
+    if (projectPath) {
+      const projectDir = commandsDirForScope('project', projectPath);
+      await collectCommands(projectDir, projectDir, 'project', commands);
+    }
+    await collectCommands(USER_COMMANDS_DIR, USER_COMMANDS_DIR, 'user', commands);
+    return commands;
+  },
+
+  async slash_command_get({ commandId, projectPath }) {
+    const { scope, commandsDir, filePath } = resolveCommandId(commandId, projectPath);
+    try {
+      return await loadCommandFile(filePath, commandsDir, scope);
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new CommandError(`Command not found: ${commandId}`, 404);
+      }
+      throw error;
+    }
+  },
+
+  async slash_command_save({ scope, name, namespace, content, description, allowedTools = [], projectPath }) {
+    validateName(name || '', 'Command name');
+    const namespaceParts = namespace ? namespace.split(':') : [];
+    namespaceParts.forEach(part => validateName(part, 'Namespace'));
+
+    const commandsDir = commandsDirForScope(scope, projectPath);
+    const filePath = path.join(commandsDir, ...namespaceParts, `${name}.md`);
+
+    const frontmatter = [];
+    if (description) frontmatter.push(`description: ${description}`);
+    if (allowedTools.length) frontmatter.push(`allowed-tools: ${allowedTools.join(', ')}`);
+    const raw = frontmatter.length
+      ? `---\n${frontmatter.join('\n')}\n---\n\n${content ?? ''}`
+      : content ?? '';
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, raw, 'utf-8');
+    return loadCommandFile(filePath, commandsDir, scope);
+  },
+
+  async slash_command_delete({ commandId, projectPath }) {
+    const { filePath } = resolveCommandId(commandId, projectPath);
+    try {
+      await fs.unlink(filePath);
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new CommandError(`Command not found: ${commandId}`, 404);
+      }
+      throw error;
+    }
+    return `Deleted command ${commandId}`;
+  }
+};
@@ -0,0 +1,200 @@
+import { CommandError } from '../invoke.js';
+import { VAULT_TABLES, getDb, resetDatabase } from '../lib/db.js';
+import { forgetEncryptionKey } from '../lib/secrets.js';
+
+function quoteIdentifier(name) {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+// Any mention of a vault table, quoted or not
+const VAULT_TABLE_PATTERN = new RegExp(`\\b(?:${VAULT_TABLES.join('|')})\\b`, 'i');
+
+// The vault tables are left out; they hold nothing that is useful to browse
+// and editing them would make the secrets unreadable
+function listTableNames() {
+  return getDb()
+    .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name")
+    .pluck()
+    .all()
+    .filter(name => !VAULT_TABLES.includes(name));
+}
+
+function tableColumns(tableName) {
+  return getDb()
+    .prepare(`PRAGMA table_info(${quoteIdentifier(tableName)})`)
+    .all()
+    .map(column => ({
+      cid: column.cid,
+      name: column.name,
+      type_name: column.type,
+      notnull: column.notnull === 1,
+      dflt_value: column.dflt_value,
+      pk: column.pk > 0
+    }));
+}
+
+// Rows returned by one storage_read_table call at most
+const MAX_PAGE_SIZE = 500;
+
+function positiveInteger(value, name) {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new CommandError(`${name} must be a positive integer`);
+  }
+  return value;
+}
+
+function requireTable(tableName) {
+  if (!listTableNames().includes(tableName)) {
+    throw new CommandError(`Unknown table: ${tableName}`, 404);
+  }
+  return tableColumns(tableName);
+}
+
+/**
+ * Validates the given column names against the table and returns them quoted
+ */
+function checkedColumns(tableName, columns, names) {
+  const known = new Set(columns.map(column => column.name));
+  for (const name of names) {
+    if (!known.has(name)) {
+      throw new CommandError(`Unknown column ${name} in ${tableName}`);
+    }
+  }
+  return names.map(quoteIdentifier);
+}
+
+// Surfaces constraint and syntax errors from SQLite as client errors
+function runSql(fn) {
+  try {
+    return fn();
+  } catch (error) {
+    if (error.code?.startsWith('SQLITE_') || error instanceof RangeError || error instanceof TypeError) {
+      throw new CommandError(error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Commands backing the Storage tab's SQLite table browser
+ */
+export const storageCommands = {
+  async storage_list_tables() {
+    return listTableNames().map(name => ({
+      name,
+      row_count: getDb().prepare(`SELECT COUNT(*) FROM ${quoteIdentifier(name)}`).pluck().get(),
+      columns: tableColumns(name)
+    }));
+  },
+
+  async storage_read_table({ tableName, page = 1, pageSize = 50, searchQuery }) {
+    positiveInteger(page, 'page');
+    pageSize = Math.min(positiveInteger(pageSize, 'pageSize'), MAX_PAGE_SIZE);
+    const columns = requireTable(tableName);
+    const table = quoteIdentifier(tableName);
+
+    let where = '';
+    const params = [];
+    const searchable = columns.filter(column => /CHAR|CLOB|TEXT/i.test(column.type_name));
+    if (searchQuery && searchable.length > 0) {
+      where = `WHERE ${searchable.map(column => `${quoteIdentifier(column.name)} LIKE ?`).join(' OR ')}`;
+      params.push(...searchable.map(() => `%${searchQuery}%`));
+    }
+
+    const totalRows = getDb().prepare(`SELECT COUNT(*) FROM ${table} ${where}`).pluck().get(params);
+    const rows = getDb()
+      .prepare(`SELECT * FROM ${table} ${where} LIMIT ? OFFSET ?`)
+      .all(...params, pageSize, (page - 1) * pageSize);
+
+    return {
+      table_name: tableName,
+      columns,
+      rows,
+      total_rows: totalRows,
+      page,
+      page_size: pageSize,
+      total_pages: Math.max(1, Math.ceil(totalRows / pageSize))
+    };
+  },
+
+  async storage_update_row({ tableName, primaryKeyValues, updates }) {
+    const columns = requireTable(tableName);
+    const setColumns = checkedColumns(tableName, columns, Object.keys(updates || {}));
+    const keyColumns = checkedColumns(tableName, columns, Object.keys(primaryKeyValues || {}));
+    if (setColumns.length === 0 || keyColumns.length === 0) {
+      throw new CommandError('Both updates and primary key values are required');
+    }
+
+    const { changes } = runSql(() => getDb()
+      .prepare(`UPDATE ${quoteIdentifier(tableName)}
+                SET ${setColumns.map(column => `${column} = ?`).join(', ')}
+                WHERE ${keyColumns.map(column => `${column} = ?`).join(' AND ')}`)
+      .run(...Object.values(updates), ...Object.values(primaryKeyValues)));
+
+    if (changes === 0) {
+      throw new CommandError(`Row not found in ${tableName}`, 404);
+    }
+  },
+
+  async storage_delete_row({ tableName, primaryKeyValues }) {
+    const columns = requireTable(tableName);
+    const keyColumns = checkedColumns(tableName, columns, Object.keys(primaryKeyValues || {}));
+    if (keyColumns.length === 0) {
+      throw new CommandError('Primary key values are required');
+    }
+
+    const { changes } = runSql(() => getDb()
+      .prepare(`DELETE FROM ${quoteIdentifier(tableName)}
+                WHERE ${keyColumns.map(column => `${column} = ?`).join(' AND ')}`)
+      .run(...Object.values(primaryKeyValues)));
+
+    if (changes === 0) {
+      throw new CommandError(`Row not found in ${tableName}`, 404);
+    }
+  },
+
+  async storage_insert_row({ tableName, values }) {
+    const columns = requireTable(tableName);
+    const insertColumns = checkedColumns(tableName, columns, Object.keys(values || {}));
+
+    const statement = insertColumns.length > 0
+      ? `INSERT INTO ${quoteIdentifier(tableName)} (${insertColumns.join(', ')})
+         VALUES (${insertColumns.map(() => '?').join(', ')})`
+      : `INSERT INTO ${quoteIdentifier(tableName)} DEFAULT VALUES`;
+
+    const { lastInsertRowid } = runSql(() => getDb().prepare(statement).run(...Object.values(values || {})));
+    return Number(lastInsertRowid);
+  },
+
+  async storage_execute_sql({ query }) {
+    if (!query?.trim()) {
+      throw new CommandError('Query is required');
+    }
+    if (VAULT_TABLE_PATTERN.test(query) || /\battach\b/i.test(query)) {
+      throw new CommandError('Queries may not use the secrets vault tables or attach databases');
+    }
+
+    return runSql(() => {
+      const statement = getDb().prepare(query);
+      if (statement.reader) {
+        return {
+          columns: statement.columns().map(column => column.name),
+          rows: statement.raw().all()
+        };
+      }
+
+      const { changes, lastInsertRowid } = statement.run();
+      return {
+        columns: [],
+        rows: [],
+        rows_affected: changes,
+        last_insert_rowid: Number(lastInsertRowid)
+      };
+    });
+  },
+
+  async storage_reset_database() {
+    resetDatabase();
+    forgetEncryptionKey();
+  }
+};
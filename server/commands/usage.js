@@ -0,0 +1,179 @@
+import path from 'path';
+import { CommandError } from '../invoke.js';
+import { getDb } from '../lib/db.js';
+import { calculateCost } from '../lib/pricing.js';
+import { USAGE_SUMS, groupCost, refreshUsageIndex, totalTokens } from '../lib/usageIndex.js';
+
+// Accepts ISO timestamps or compact YYYYMMDD dates and returns YYYY-MM-DD
+function toDateKey(value) {
+  if (!value) return null;
+  const compact = typeof value === 'string' && /^\d{8}$/.test(value)
+    ? `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`
+    : null;
+  const date = typeof value === 'string' ? new Date(compact ? `${compact}T00:00:00Z` : value) : new Date(NaN);
+  // Out of range days (e.g. 20240231) would otherwise roll over into the next month
+  if (Number.isNaN(date.getTime()) || (compact && date.toISOString().slice(0, 10) !== compact)) {
+    throw new CommandError(`Invalid date: ${value}`);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * WHERE clause limiting entries to an inclusive range of UTC dates
+ */
+function dateFilter(start, end) {
+  const conditions = [];
+  const params = [];
+  const startKey = toDateKey(start);
+  const endKey = toDateKey(end);
+  if (startKey) {
+    conditions.push('timestamp >= ?');
+    params.push(startKey);
+  }
+  if (endKey) {
+    const dayAfter = new Date(Date.parse(`${endKey}T00:00:00Z`) + 86400000).toISOString().slice(0, 10);
+    conditions.push('timestamp < ?');
+    params.push(dayAfter);
+  }
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+/**
+ * Sums cost and tokens of (key, model) rows per key
+ */
+function mergeByKey(rows, key, init) {
+  const groups = new Map();
+  for (const row of rows) {
+    const group = groups.get(row[key]) || { ...init(row), total_cost: 0, total_tokens: 0, models: new Set() };
+    group.total_cost += groupCost(row);
+    group.total_tokens += totalTokens(row);
+    group.models.add(row.model);
+    groups.set(row[key], group);
+  }
+  return groups;
+}
+
+/**
+ * Builds the UsageStats shape from the usage index
+ */
+function aggregateUsage({ where, params }) {
+  const db = getDb();
+
+  const byModel = db
+    .prepare(`SELECT model, COUNT(DISTINCT session_id) AS session_count, ${USAGE_SUMS}
+              FROM usage_entries ${where} GROUP BY model`)
+    .all(params)
+    .map(row => ({
+      model: row.model,
+      total_cost: groupCost(row),
+      total_tokens: totalTokens(row),
+      input_tokens: row.input_tokens,
+      output_tokens: row.output_tokens,
+      cache_creation_tokens: row.cache_write_tokens,
+      cache_read_tokens: row.cache_read_tokens,
+      session_count: row.session_count
+    }))
+    .sort((a, b) => b.total_cost - a.total_cost);
+
+  const byDate = mergeByKey(
+    db.prepare(`SELECT substr(timestamp, 1, 10) AS date, model, ${USAGE_SUMS}
+                FROM usage_entries ${where} GROUP BY date, model`).all(params),
+    'date',
+    row => ({ date: row.date })
+  );
+
+  const projectDetails = new Map(
+    db.prepare(`SELECT project_path, COUNT(DISTINCT session_id) AS session_count, MAX(timestamp) AS last_used
+                FROM usage_entries ${where} GROUP BY project_path`)
+      .all(params)
+      .map(row => [row.project_path, row])
+  );
+  const byProject = mergeByKey(
+    db.prepare(`SELECT project_path, model, ${USAGE_SUMS}
+                FROM usage_entries ${where} GROUP BY project_path, model`).all(params),
+    'project_path',
+    row => ({
+      project_path: row.project_path,
+      project_name: path.basename(row.project_path) || row.project_path
+    })
+  );
+
+  return {
+    total_cost: byModel.reduce((sum, model) => sum + model.total_cost, 0),
+    total_tokens: byModel.reduce((sum, model) => sum + model.total_tokens, 0),
+    total_input_tokens: byModel.reduce((sum, model) => sum + model.input_tokens, 0),
+    total_output_tokens: byModel.reduce((sum, model) => sum + model.output_tokens, 0),
+    total_cache_creation_tokens: byModel.reduce((sum, model) => sum + model.cache_creation_tokens, 0),
+    total_cache_read_tokens: byModel.reduce((sum, model) => sum + model.cache_read_tokens, 0),
+    total_sessions: db.prepare(`SELECT COUNT(DISTINCT session_id) FROM usage_entries ${where}`).pluck().get(params),
+    by_model: byModel,
+    by_date: [...byDate.values()]
+      .map(({ models, ...day }) => ({ ...day, models_used: [...models] }))
+      .sort((a, b) => b.date.localeCompare(a.date)),
+    by_project: [...byProject.values()]
+      .map(({ models, ...project }) => ({
+        ...project,
+        session_count: projectDetails.get(project.project_path).session_count,
+        last_used: projectDetails.get(project.project_path).last_used
+      }))
+      .sort((a, b) => b.total_cost - a.total_cost)
+  };
+}
+
+/**
+ * Commands for the usage dashboard, served from the incremental usage index
+ */
+export const usageCommands = {
+  async get_usage_stats() {
+    await refreshUsageIndex();
+    return aggregateUsage(dateFilter());
+  },
+
+  async get_usage_by_date_range({ startDate, endDate }) {
+    await refreshUsageIndex();
+    return aggregateUsage(dateFilter(startDate, endDate));
+  },
+
+  async get_session_stats({ since, until, order = 'desc' }) {
+    await refreshUsageIndex();
+    const { where, params } = dateFilter(since, until);
+    const rows = getDb()
+      .prepare(`SELECT session_id, model, MAX(project_path) AS project_path, MAX(timestamp) AS last_used, ${USAGE_SUMS}
+                FROM usage_entries ${where} GROUP BY session_id, model`)
+      .all(params);
+
+    const sessions = mergeByKey(rows, 'session_id', row => ({
+      project_path: row.project_path,
+      project_name: row.session_id,
+      session_count: 1,
+      last_used: row.last_used
+    }));
+    for (const row of rows) {
+      const session = sessions.get(row.session_id);
+      if (row.last_used > session.last_used) session.last_used = row.last_used;
+    }
+
+    const direction = order === 'asc' ? 1 : -1;
+    return [...sessions.values()]
+      .map(({ models, ...session }) => session)
+      .sort((a, b) => direction * a.last_used.localeCompare(b.last_used));
+  },
+
+  async get_usage_details({ limit }) {
+    await refreshUsageIndex();
+    const rows = getDb()
+      .prepare(`SELECT * FROM usage_entries ORDER BY timestamp DESC ${limit ? 'LIMIT ?' : ''}`)
+      .all(limit ? [Number(limit)] : []);
+
+    return rows.map(row => ({
+      project: row.project_path,
+      timestamp: row.timestamp,
+      model: row.model,
+      input_tokens: row.input_tokens,
+      output_tokens: row.output_tokens,
+      cache_write_tokens: row.cache_write_tokens,
+      cache_read_tokens: row.cache_read_tokens,
+      cost: row.reported_cost ?? calculateCost(row.model, row)
+    }));
+  }
+};
@@ -0,0 +1,63 @@
+import os from 'os';
+import path from 'path';
+
+// Environment-derived locations shared by the server modules
+export const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY;
+export const WORKSPACE_DIR = process.env.DEFAULT_WORKSPACE || '/workspace';
+export const CONFIG_DIR = process.env.CONFIG_DIR || '/config';
+export const HOME_DIR = os.homedir();
+
+// Claude CLI state (~/.claude), honouring the CLI's own override
+export const CLAUDE_DIR = process.env.CLAUDE_CONFIG_DIR || path.join(HOME_DIR, '.claude');
+export const CLAUDE_PROJECTS_DIR = path.join(CLAUDE_DIR, 'projects');
+export const CLAUDE_TODOS_DIR = path.join(CLAUDE_DIR, 'todos');
+export const CLAUDE_SETTINGS_FILE = path.join(CLAUDE_DIR, 'settings.json');
+
+// Global CLI config holding user and local scoped MCP servers; the CLI keeps it
+// inside CLAUDE_CONFIG_DIR when that is set, otherwise next to ~/.claude
+export const CLAUDE_JSON_FILE = process.env.CLAUDE_CONFIG_DIR
+  ? path.join(CLAUDE_DIR, '.claude.json')
+  : path.join(HOME_DIR, '.claude.json');
+
+// Login for the web UI and API; authentication is off unless both are set
+export const AUTH_USERNAME = process.env.AUTH_USERNAME || '';
+export const AUTH_PASSWORD = process.env.AUTH_PASSWORD || '';
+
+// Express `trust proxy` setting, so rate limiting sees the real client address
+// behind a reverse proxy
+export const TRUSTED_PROXIES = process.env.TRUSTED_PROXIES || '';
+
+// Files uploaded outside any project (e.g. agent files to import), kept for a
+// day; dot directories in the workspace are not listed as projects
+export const TEMP_UPLOADS_DIR = path.join(WORKSPACE_DIR, '.claudia-uploads');
+
+// Git worktrees of agent runs started in isolation, one per run
+export const AGENT_WORKTREES_DIR = path.join(WORKSPACE_DIR, '.claudia-worktrees');
+
+// Largest single file accepted by the workspace upload endpoint
+export const MAX_UPLOAD_BYTES = Math.floor(Number(process.env.MAX_UPLOAD_MB || 1024) * 1024 * 1024);
+
+// Permission mode of the Claude CLI runs started from the UI (`default`,
+// `acceptEdits`, `plan` or `bypassPermissions`); unset keeps the CLI's own
+// settings, so tools it would prompt for are denied
+export const CLAUDE_PERMISSION_MODE = process.env.CLAUDE_PERMISSION_MODE || '';
+
+// Key the secrets vault is encrypted with; secrets can't be stored or used
+// without it
+export const SECRETS_MASTER_KEY = process.env.SECRETS_MASTER_KEY || '';
+
+// Server-only credentials: the vault key would let any child process decrypt
+// the vault straight from the database
+const SERVER_ONLY_VARIABLES = ['SECRETS_MASTER_KEY', 'AUTH_USERNAME', 'AUTH_PASSWORD'];
+
+/**
+ * Environment for a child process: the server's own, without its server-only
+ * credentials, plus `extra`. Every spawn goes through this.
+ */
+export function childProcessEnv(extra = {}) {
+  const env = { ...process.env };
+  for (const name of SERVER_ONLY_VARIABLES) {
+    delete env[name];
+  }
+  return { ...env, ...extra };
+}
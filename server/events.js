@@ -0,0 +1,79 @@
+import express from 'express';
+
+// Connected Server-Sent Events responses
+const clients = new Set();
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+// Recent frames replayed to clients that reconnect with Last-Event-ID
+const BACKLOG_SIZE = 2000;
+const backlog = [];
+let lastEventId = 0;
+
+/**
+ * Sends an event to every connected browser; the client re-emits it on
+ * webEventSystem under the same name
+ */
+export function broadcast(event, payload) {
+  lastEventId += 1;
+  const frame = `id: ${lastEventId}\ndata: ${JSON.stringify({ event, payload })}\n\n`;
+
+  backlog.push({ id: lastEventId, frame });
+  if (backlog.length > BACKLOG_SIZE) {
+    backlog.shift();
+  }
+
+  for (const client of clients) {
+    client.write(frame);
+  }
+}
+
+/**
+ * Broadcasts on the `name:scope` channel (when a scope is known) and then on
+ * the generic `name` channel
+ */
+export function broadcastScoped(name, scope, payload) {
+  if (scope !== null && scope !== undefined && scope !== '') {
+    broadcast(`${name}:${scope}`, payload);
+  }
+  broadcast(name, payload);
+}
+
+/**
+ * Express router exposing the event stream at GET /events
+ */
+export function createEventsRouter() {
+  const router = express.Router();
+
+  router.get('/events', (req, res) => {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    // Disable response buffering in nginx-style reverse proxies
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+    res.write('retry: 3000\n\n');
+
+    // A reconnecting EventSource resumes from the last frame it saw
+    const resumeFrom = Number(req.get('Last-Event-ID'));
+    if (Number.isInteger(resumeFrom)) {
+      for (const { id, frame } of backlog) {
+        if (id > resumeFrom) res.write(frame);
+      }
+    }
+
+    clients.add(res);
+    req.on('close', () => {
+      clients.delete(res);
+    });
+  });
+
+  return router;
+}
+
+// Comment frames keep idle connections open through proxies
+setInterval(() => {
+  for (const client of clients) {
+    client.write(': ping\n\n');
+  }
+}, HEARTBEAT_INTERVAL_MS).unref();
@@ -0,0 +1,94 @@
+import express from 'express';
+import { promises as fs } from 'fs';
+import { CommandError, sendError } from './invoke.js';
+import { resolveProjectPath, toPathError } from './lib/workspacePaths.js';
+import {
+  gitStatus,
+  gitDiff,
+  gitLog,
+  gitBranches,
+  gitCheckout,
+  gitStage,
+  gitUnstage,
+  gitCommit
+} from './lib/git.js';
+
+const MAX_LOG_LIMIT = 500;
+
+/**
+ * Paths inside the project as git expects them, relative to the project root
+ */
+async function projectRelativePaths(projectId, paths = []) {
+  if (!Array.isArray(paths)) {
+    throw new CommandError('paths must be an array');
+  }
+  return Promise.all(paths.map(async requested => {
+    const { relativePath } = await resolveProjectPath(projectId, requested, { followLastLink: false });
+    return relativePath || '.';
+  }));
+}
+
+/**
+ * Express router for git operations on workspace projects under
+ * /workspace/projects/:projectId/git. Each runs git in the project directory;
+ * failures are reported as `{ error, code }` with git's own message.
+ */
+export function createGitRouter() {
+  const router = express.Router();
+
+  const projectRoute = (method, route, fallbackMessage, handler) => {
+    router[method](`/workspace/projects/:projectId/git${route}`, async (req, res) => {
+      try {
+        const { root } = await resolveProjectPath(req.params.projectId);
+        await fs.stat(root).catch(error => {
+          throw toPathError(error, req.params.projectId);
+        });
+        res.json(await handler(root, req));
+      } catch (error) {
+        sendError(res, error, fallbackMessage);
+      }
+    });
+  };
+
+  // Branch, upstream and changed files; `{ is_repository: false }` outside git
+  projectRoute('get', '/status', 'Failed to get git status', root => gitStatus(root));
+
+  // Old and new content of one file; `?staged=1` compares HEAD with the index
+  projectRoute('get', '/diff', 'Failed to get diff', async (root, req) => {
+    const { path: filePath, original_path: originalPath, staged } = req.query;
+    const [relativePath, originalRelativePath] = await projectRelativePaths(
+      req.params.projectId,
+      [filePath, originalPath || filePath]
+    );
+    return gitDiff(root, relativePath, { staged: staged === '1', originalPath: originalRelativePath });
+  });
+
+  projectRoute('get', '/log', 'Failed to get commit history', (root, req) => {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), MAX_LOG_LIMIT);
+    const skip = Math.max(Number(req.query.skip) || 0, 0);
+    return gitLog(root, { limit, skip });
+  });
+
+  projectRoute('get', '/branches', 'Failed to list branches', root => gitBranches(root));
+
+  projectRoute('post', '/checkout', 'Failed to switch branch', async (root, req) => {
+    const { branch, create = false } = req.body;
+    await gitCheckout(root, branch, { create: Boolean(create) });
+    return gitStatus(root);
+  });
+
+  // Stage or unstage paths; all changes when `paths` is empty
+  projectRoute('post', '/stage', 'Failed to stage changes', async (root, req) => {
+    await gitStage(root, await projectRelativePaths(req.params.projectId, req.body.paths));
+    return gitStatus(root);
+  });
+
+  projectRoute('post', '/unstage', 'Failed to unstage changes', async (root, req) => {
+    await gitUnstage(root, await projectRelativePaths(req.params.projectId, req.body.paths));
+    return gitStatus(root);
+  });
+
+  projectRoute('post', '/commit', 'Failed to commit', (root, req) => gitCommit(root, req.body.message));
+
+  return router;
+}
@@ -0,0 +1,71 @@
+import express from 'express';
+
+/**
+ * Error raised by command handlers; `status` becomes the HTTP response code
+ * and the optional `code` a machine-readable reason in the response body
+ */
+export class CommandError extends Error {
+  constructor(message, status = 400, code = undefined) {
+    super(message);
+    this.name = 'CommandError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * Sends an error as `{ error, code? }` JSON, logging unexpected (5xx) failures.
+ * The message of any other 5xx error is internal and replaced by the fallback;
+ * CommandError messages are written for the client and always sent.
+ */
+export function sendError(res, error, fallbackMessage) {
+  const status = error.status || 500;
+  if (status >= 500) {
+    console.error(`${fallbackMessage}:`, error);
+  }
+  const exposed = status < 500 || error instanceof CommandError;
+  const body = { error: (exposed && error.message) || fallbackMessage };
+  if (error instanceof CommandError && error.code) body.code = error.code;
+  res.status(status).json(body);
+}
+
+// Command name -> async handler(payload)
+const commands = new Map();
+
+/**
+ * Registers a map of command handlers under their invoke names
+ * @param {Record<string, (payload: any) => Promise<any>>} handlers
+ */
+export function registerCommands(handlers) {
+  for (const [name, handler] of Object.entries(handlers)) {
+    if (commands.has(name)) {
+      throw new Error(`Command already registered: ${name}`);
+    }
+    commands.set(name, handler);
+  }
+}
+
+/**
+ * Express router exposing every registered command as POST /invoke/:command
+ */
+export function createInvokeRouter() {
+  const router = express.Router();
+
+  router.post('/invoke/:command', async (req, res) => {
+    const { command } = req.params;
+    const handler = commands.get(command);
+
+    if (!handler) {
+      return res.status(404).json({ error: `Unknown command: ${command}` });
+    }
+
+    try {
+      const result = await handler(req.body || {});
+      res.json(result === undefined ? null : result);
+    } catch (error) {
+      sendError(res, error, `Command ${command} failed`);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,264 @@
+import path from 'path';
+import readline from 'readline';
+import { createWriteStream, promises as fs } from 'fs';
+import { CONFIG_DIR } from '../config.js';
+import { broadcastScoped } from '../events.js';
+import { getDb } from './db.js';
+import { buildClaudeArgs, launchClaude } from './claudeProcess.js';
+import { processRegistry } from './processRegistry.js';
+import { readJsonlFile } from './claudeProjects.js';
+import { calculateCost } from './pricing.js';
+import { createRunWorktree, removeRunWorktree } from './worktrees.js';
+
+// Raw stream-json output of every agent run, kept independently of the
+// Claude session files so a run can be replayed after the browser reconnects
+export const AGENT_RUNS_DIR = path.join(CONFIG_DIR, 'agent-runs');
+
+// Metrics of finished runs, computed once from their output file
+const finishedMetrics = new Map();
+
+export function runOutputFile(runId) {
+  return path.join(AGENT_RUNS_DIR, `${runId}.jsonl`);
+}
+
+function runProcessKey(runId) {
+  return `agent-run-${runId}`;
+}
+
+function now() {
+  return new Date().toISOString();
+}
+
+/**
+ * Accumulates AgentRunMetrics from stream-json messages as they arrive
+ */
+export class RunMetrics {
+  constructor() {
+    this.messageCount = 0;
+    this.totalTokens = 0;
+    this.estimatedCost = 0;
+    this.reportedCost = null;
+    this.reportedDuration = null;
+    this.seenMessageIds = new Set();
+  }
+
+  add(message) {
+    this.messageCount += 1;
+
+    if (message.type === 'result') {
+      if (typeof message.total_cost_usd === 'number') this.reportedCost = message.total_cost_usd;
+      if (typeof message.duration_ms === 'number') this.reportedDuration = message.duration_ms;
+      return;
+    }
+
+    const usage = message.type === 'assistant' && message.message?.usage;
+    if (!usage) return;
+
+    // Every content block of a response repeats the same message ID and usage
+    const messageId = message.message.id;
+    if (messageId) {
+      if (this.seenMessageIds.has(messageId)) return;
+      this.seenMessageIds.add(messageId);
+    }
+
+    const tokens = {
+      input_tokens: usage.input_tokens || 0,
+      output_tokens: usage.output_tokens || 0,
+      cache_write_tokens: usage.cache_creation_input_tokens || 0,
+      cache_read_tokens: usage.cache_read_input_tokens || 0
+    };
+    this.totalTokens += tokens.input_tokens + tokens.output_tokens;
+    this.estimatedCost += calculateCost(message.message.model || '', tokens);
+  }
+
+  /**
+   * AgentRunMetrics for a run row; duration runs up to now while it is live
+   */
+  summarize(run) {
+    const startedAt = Date.parse(run.process_started_at || run.created_at);
+    const endedAt = run.completed_at ? Date.parse(run.completed_at) : Date.now();
+    return {
+      duration_ms: this.reportedDuration ?? Math.max(0, endedAt - startedAt),
+      total_tokens: this.totalTokens,
+      cost_usd: this.reportedCost ?? this.estimatedCost,
+      message_count: this.messageCount
+    };
+  }
+}
+
+async function loadMetricsFromFile(runId) {
+  const metrics = new RunMetrics();
+  try {
+    await readJsonlFile(runOutputFile(runId), message => {
+      metrics.add(message);
+    });
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+  }
+  return metrics;
+}
+
+/**
+ * Returns the process registry entry of a live run, if any
+ */
+export function getLiveRun(runId) {
+  return processRegistry.get(runProcessKey(Number(runId)));
+}
+
+/**
+ * Computes AgentRunMetrics for a run, live or finished
+ */
+export async function getRunMetrics(run) {
+  const live = getLiveRun(run.id);
+  if (live) {
+    return live.metrics.summarize(run);
+  }
+
+  let metrics = finishedMetrics.get(run.id);
+  if (!metrics) {
+    metrics = await loadMetricsFromFile(run.id);
+    // Only cache once the run can no longer produce output
+    if (run.status !== 'running' && run.status !== 'pending') {
+      finishedMetrics.set(run.id, metrics);
+    }
+  }
+  return metrics.summarize(run);
+}
+
+/**
+ * Launches an agent in the background: the agent's system prompt plus the task
+ * run with the chosen model in the project directory. Output is appended to
+ * the run's JSONL file and streamed as agent-output / agent-error /
+ * agent-complete events, independently of any connected browser.
+ *
+ * An `isolated` run works in its own git worktree and branch (see
+ * worktrees.js), so runs against the same project cannot overwrite each
+ * other's edits; its changes reach the project only when merged.
+ * @returns {Promise<number>} the new run ID
+ */
+export async function startAgentRun({ agent, projectPath, task, model, isolated = false }) {
+  const db = getDb();
+  const { lastInsertRowid } = db
+    .prepare(`INSERT INTO agent_runs (agent_id, agent_name, agent_icon, task, model, project_path)
+              VALUES (?, ?, ?, ?, ?, ?)`)
+    .run(agent.id, agent.name, agent.icon, task, model, projectPath);
+  const runId = Number(lastInsertRowid);
+
+  let child;
+  let worktree = null;
+  try {
+    await fs.mkdir(AGENT_RUNS_DIR, { recursive: true });
+    if (isolated) {
+      worktree = await createRunWorktree(projectPath, runId);
+      db.prepare(`UPDATE agent_runs
+                  SET worktree_path = ?, worktree_branch = ?, base_commit = ?, worktree_status = 'active'
+                  WHERE id = ?`)
+        .run(worktree.worktreePath, worktree.branch, worktree.baseCommit, runId);
+    }
+    child = await launchClaude(worktree ? worktree.cwd : projectPath, buildClaudeArgs({
+      prompt: task,
+      model,
+      systemPrompt: agent.system_prompt
+    }));
+  } catch (error) {
+    db.prepare("UPDATE agent_runs SET status = 'failed', completed_at = ? WHERE id = ?").run(now(), runId);
+    if (worktree) {
+      await removeRunWorktree(db.prepare('SELECT * FROM agent_runs WHERE id = ?').get(runId)).catch(() => {});
+      db.prepare("UPDATE agent_runs SET worktree_status = 'discarded' WHERE id = ?").run(runId);
+    }
+    throw error;
+  }
+
+  db.prepare("UPDATE agent_runs SET status = 'running', pid = ?, process_started_at = ? WHERE id = ?")
+    .run(child.pid, now(), runId);
+
+  const entry = processRegistry.register({
+    key: runProcessKey(runId),
+    runId,
+    child,
+    processType: { AgentRun: { agent_id: agent.id, agent_name: agent.name } },
+    projectPath,
+    task,
+    model
+  });
+  entry.metrics = new RunMetrics();
+
+  const outputFile = createWriteStream(runOutputFile(runId), { flags: 'a' });
+  outputFile.on('error', error => console.error(`Failed to write output of agent run ${runId}:`, error));
+
+  const lines = readline.createInterface({ input: child.stdout, crlfDelay: Infinity });
+  lines.on('line', line => {
+    if (!line.trim()) return;
+    outputFile.write(`${line}\n`);
+    entry.output.push(line);
+    try {
+      const message = JSON.parse(line);
+      entry.metrics.add(message);
+      if (message.type === 'system' && message.subtype === 'init' && message.session_id) {
+        db.prepare('UPDATE agent_runs SET session_id = ? WHERE id = ?').run(message.session_id, runId);
+      }
+    } catch {
+      // Non-JSON lines are still recorded and forwarded
+    }
+    broadcastScoped('agent-output', runId, line);
+  });
+
+  child.stderr.on('data', data => {
+    broadcastScoped('agent-error', runId, data.toString());
+  });
+
+  child.on('close', code => {
+    outputFile.end();
+    finishedMetrics.set(runId, entry.metrics);
+
+    // Cancelled runs were already finalized by cancelAgentRun
+    const status = db.prepare('SELECT status FROM agent_runs WHERE id = ?').pluck().get(runId);
+    if (status !== 'running') return;
+
+    const success = code === 0;
+    db.prepare('UPDATE agent_runs SET status = ?, completed_at = ? WHERE id = ?')
+      .run(success ? 'completed' : 'failed', now(), runId);
+    broadcastScoped('agent-complete', runId, success);
+  });
+
+  return runId;
+}
+
+/**
+ * Marks a run cancelled and stops its process
+ * @returns {Promise<boolean>} false when the run was not running
+ */
+export async function cancelAgentRun(run) {
+  const live = getLiveRun(run.id);
+  if (!live && run.status !== 'running') return false;
+
+  getDb()
+    .prepare("UPDATE agent_runs SET status = 'cancelled', completed_at = ? WHERE id = ?")
+    .run(now(), run.id);
+  broadcastScoped('agent-cancelled', run.id, true);
+
+  if (live) {
+    await processRegistry.kill(live.key);
+  }
+  return true;
+}
+
+/**
+ * Fails runs recorded as running whose process is gone, e.g. after a server
+ * restart severed their output pipe
+ * @returns {number[]} IDs of the runs that were updated
+ */
+export function reconcileOrphanedRuns() {
+  const db = getDb();
+  const orphaned = db
+    .prepare("SELECT id FROM agent_runs WHERE status = 'running'")
+    .pluck()
+    .all()
+    .filter(runId => !getLiveRun(runId));
+
+  const markFailed = db.prepare("UPDATE agent_runs SET status = 'failed', completed_at = ? WHERE id = ?");
+  for (const runId of orphaned) {
+    markFailed.run(now(), runId);
+  }
+  return orphaned;
+}
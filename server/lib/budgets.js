@@ -0,0 +1,192 @@
+import path from 'path';
+import { AGENT_WORKTREES_DIR } from '../config.js';
+import { CommandError } from '../invoke.js';
+import { broadcast } from '../events.js';
+import { getDb } from './db.js';
+import { runHookEvent } from './hooks.js';
+import { refreshUsageIndex, sumUsageCost } from './usageIndex.js';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+const LEVEL_RANK = { ok: 0, warning: 1, exceeded: 2 };
+
+let alertCheckInFlight = null;
+
+/**
+ * Budget row in the shape returned to the UI
+ */
+export function toBudget(row) {
+  return {
+    id: row.id,
+    scope: row.scope,
+    target: row.target,
+    period: row.period,
+    limit_usd: row.limit_usd,
+    warn_percent: row.warn_percent,
+    hard_stop: row.hard_stop === 1,
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+}
+
+/**
+ * First day (UTC) of the budget period containing `now`, as YYYY-MM-DD
+ */
+function periodStart(period, now = new Date()) {
+  const day = now.toISOString().slice(0, 10);
+  return period === 'monthly' ? `${day.slice(0, 7)}-01` : day;
+}
+
+// Model budgets match by substring, so "opus" covers every Opus model ID
+function modelsOverlap(target, model) {
+  const a = target.toLowerCase();
+  const b = model.toLowerCase();
+  return a.includes(b) || b.includes(a);
+}
+
+/**
+ * Project a path is budgeted under. Isolated agent runs work in a worktree
+ * under AGENT_WORKTREES_DIR; those count against the project the run was
+ * started for.
+ */
+function budgetProjectPath(projectPath) {
+  const resolved = path.resolve(projectPath);
+  const relative = path.relative(AGENT_WORKTREES_DIR, resolved);
+  if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) return resolved;
+
+  const worktreePath = path.join(AGENT_WORKTREES_DIR, relative.split(path.sep)[0]);
+  const run = getDb().prepare('SELECT project_path FROM agent_runs WHERE worktree_path = ?').get(worktreePath);
+  return run ? path.resolve(run.project_path) : resolved;
+}
+
+// Worktrees of the project's isolated runs, including removed ones whose
+// usage is still in the index
+function projectWorktrees(projectPath) {
+  return getDb()
+    .prepare('SELECT project_path, worktree_path FROM agent_runs WHERE worktree_path IS NOT NULL')
+    .all()
+    .filter(run => path.resolve(run.project_path) === projectPath)
+    .map(run => run.worktree_path);
+}
+
+function budgetSpend(budget, since) {
+  if (budget.scope === 'project') {
+    // Runs work in the worktree's counterpart of the project, which is a
+    // subdirectory of it when the project is nested in its repository
+    const worktrees = projectWorktrees(budget.target);
+    const worktreeConditions = worktrees
+      .map(() => ' OR project_path = ? OR substr(project_path, 1, length(?)) = ?')
+      .join('');
+    const worktreeParams = worktrees.flatMap(worktree => {
+      const prefix = `${worktree}${path.sep}`;
+      return [worktree, prefix, prefix];
+    });
+    return sumUsageCost(
+      `WHERE timestamp >= ? AND (project_path = ?${worktreeConditions})`,
+      [since, budget.target, ...worktreeParams]
+    );
+  }
+  return sumUsageCost("WHERE timestamp >= ? AND model LIKE '%' || ? || '%'", [since, budget.target]);
+}
+
+function evaluate(budget) {
+  const since = periodStart(budget.period);
+  const spent = budgetSpend(budget, since);
+  const percentUsed = budget.limit_usd > 0 ? (spent / budget.limit_usd) * 100 : 100;
+  const level = percentUsed >= 100 ? 'exceeded' : percentUsed >= budget.warn_percent ? 'warning' : 'ok';
+  return {
+    budget: toBudget(budget),
+    period_start: since,
+    spent_usd: spent,
+    percent_used: percentUsed,
+    level
+  };
+}
+
+/**
+ * Current spend against every budget, from an up to date usage index
+ */
+export async function getBudgetStatuses() {
+  await refreshUsageIndex();
+  return getDb().prepare('SELECT * FROM budgets ORDER BY scope, target').all().map(evaluate);
+}
+
+/**
+ * Refuses to start Claude when a hard-stop budget covering the project or
+ * model has been used up
+ */
+export async function assertWithinBudget({ projectPath, model }) {
+  const hardStops = getDb().prepare('SELECT * FROM budgets WHERE hard_stop = 1').all();
+  if (hardStops.length === 0) return;
+
+  const resolvedProject = projectPath ? budgetProjectPath(projectPath) : null;
+  const applicable = hardStops.filter(budget =>
+    budget.scope === 'project'
+      ? budget.target === resolvedProject
+      : Boolean(model) && modelsOverlap(budget.target, model)
+  );
+  if (applicable.length === 0) return;
+
+  await refreshUsageIndex();
+  const exceeded = applicable.map(evaluate).find(status => status.level === 'exceeded');
+  if (exceeded) {
+    const { budget, spent_usd } = exceeded;
+    throw new CommandError(
+      `The ${budget.period} budget for ${budget.scope} ${budget.target} is exhausted ` +
+      `($${spent_usd.toFixed(2)} of $${budget.limit_usd.toFixed(2)})`,
+      402
+    );
+  }
+}
+
+function alertMessage({ budget, spent_usd, percent_used, level }) {
+  const state = level === 'exceeded' ? 'has exceeded' : `is at ${Math.floor(percent_used)}% of`;
+  return `Claudia: ${budget.period} spend for ${budget.scope} ${budget.target} ${state} its ` +
+    `$${budget.limit_usd.toFixed(2)} budget ($${spent_usd.toFixed(2)} spent)`;
+}
+
+async function sendBudgetAlerts() {
+  const db = getDb();
+  const recordAlert = db.prepare('UPDATE budgets SET last_alert_level = ?, last_alert_period = ? WHERE id = ?');
+
+  for (const status of await getBudgetStatuses()) {
+    if (status.level === 'ok') continue;
+
+    const row = db.prepare('SELECT last_alert_level, last_alert_period FROM budgets WHERE id = ?').get(status.budget.id);
+    const alreadyAlerted = row.last_alert_period === status.period_start &&
+      LEVEL_RANK[row.last_alert_level] >= LEVEL_RANK[status.level];
+    if (alreadyAlerted) continue;
+
+    recordAlert.run(status.level, status.period_start, status.budget.id);
+    const message = alertMessage(status);
+    broadcast('budget-alert', { ...status, message });
+    await runHookEvent(
+      'Notification',
+      { message },
+      status.budget.scope === 'project' ? status.budget.target : undefined
+    );
+  }
+}
+
+/**
+ * Sends a budget-alert event and runs Notification hooks for each budget that
+ * crossed its warning or limit threshold since the last alert in its period.
+ * Overlapping calls share one check so an alert is never sent twice.
+ */
+export function checkBudgetAlerts() {
+  if (!alertCheckInFlight) {
+    alertCheckInFlight = sendBudgetAlerts().finally(() => {
+      alertCheckInFlight = null;
+    });
+  }
+  return alertCheckInFlight;
+}
+
+/**
+ * Re-checks budgets periodically so alerts fire while sessions run
+ */
+export function startBudgetMonitor() {
+  const check = () => checkBudgetAlerts().catch(error => console.error('Budget check failed:', error));
+  check();
+  setInterval(check, CHECK_INTERVAL_MS).unref();
+}
@@ -0,0 +1,693 @@
+import path from 'path';
+import { promisify } from 'util';
+import { createHash, randomUUID } from 'crypto';
+import { gzip, gunzip } from 'zlib';
+import { promises as fs } from 'fs';
+import { diffLines, createTwoFilesPatch } from 'diff';
+import { CLAUDE_PROJECTS_DIR, CONFIG_DIR } from '../config.js';
+import { CommandError } from '../invoke.js';
+import { listProjectFiles } from './fileSearch.js';
+import { pathExists, readJsonFile, writeJsonFile } from './fsUtils.js';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+// Per project: `objects/` holds file and message contents by SHA-256, shared
+// by every session of the project; `sessions/<id>/timeline.json` holds a
+// session's checkpoint tree and `sessions/<id>/checkpoints/<id>.json` the
+// file manifest of each checkpoint
+export const CHECKPOINTS_DIR = path.join(CONFIG_DIR, 'checkpoints');
+
+export const CHECKPOINT_STRATEGIES = ['manual', 'per_prompt', 'per_tool_use', 'smart'];
+
+// Larger files are left out of snapshots (and left alone by restores)
+const MAX_SNAPSHOT_FILE_BYTES = 10 * 1024 * 1024;
+const MAX_SNAPSHOT_FILES = 20000;
+
+// Line diffs are only computed for files up to this size
+const MAX_DIFF_FILE_BYTES = 1024 * 1024;
+
+// Tools that change files; the smart strategy checkpoints after them
+const FILE_EDITING_TOOLS = new Set(['Write', 'Edit', 'MultiEdit', 'NotebookEdit']);
+const DESTRUCTIVE_COMMAND = /\b(rm|mv|cp|sed\s+-i|truncate|git\s+(checkout|reset|clean|restore|stash))\b/;
+
+// Project ID -> tail of the queue of checkpoint operations on that project
+const projectQueues = new Map();
+
+/**
+ * Runs checkpoint operations on a project one at a time, since they share
+ * the object store and may rewrite the project's files
+ */
+function inProjectQueue(projectId, task) {
+  const previous = projectQueues.get(projectId) ?? Promise.resolve();
+  const next = previous.catch(() => {}).then(task);
+  projectQueues.set(projectId, next);
+  next.catch(() => {}).finally(() => {
+    if (projectQueues.get(projectId) === next) projectQueues.delete(projectId);
+  });
+  return next;
+}
+
+function assertSegment(value, label) {
+  if (typeof value !== 'string' || !value || value === '.' || value === '..' || path.basename(value) !== value) {
+    throw new CommandError(`Invalid ${label}: ${value}`);
+  }
+}
+
+function projectStore(projectId) {
+  assertSegment(projectId, 'project id');
+  return path.join(CHECKPOINTS_DIR, projectId);
+}
+
+function sessionStore(projectId, sessionId) {
+  assertSegment(sessionId, 'session id');
+  return path.join(projectStore(projectId), 'sessions', sessionId);
+}
+
+function manifestFile(projectId, sessionId, checkpointId) {
+  assertSegment(checkpointId, 'checkpoint id');
+  return path.join(sessionStore(projectId, sessionId), 'checkpoints', `${checkpointId}.json`);
+}
+
+function sessionFile(projectId, sessionId) {
+  assertSegment(projectId, 'project id');
+  assertSegment(sessionId, 'session id');
+  return path.join(CLAUDE_PROJECTS_DIR, projectId, `${sessionId}.jsonl`);
+}
+
+function objectFile(projectId, hash) {
+  return path.join(projectStore(projectId), 'objects', hash.slice(0, 2), hash.slice(2));
+}
+
+function hashContent(content) {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Adds content to the project's object store
+ * @returns {Promise<string>} its hash
+ */
+async function storeObject(projectId, content) {
+  const hash = hashContent(content);
+  const file = objectFile(projectId, hash);
+  if (!(await pathExists(file))) {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmpPath = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, await gzipAsync(content));
+    await fs.rename(tmpPath, file);
+  }
+  return hash;
+}
+
+async function readObject(projectId, hash) {
+  try {
+    return await gunzipAsync(await fs.readFile(objectFile(projectId, hash)));
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      throw new CommandError(`Checkpoint content ${hash.slice(0, 12)} is missing`, 500);
+    }
+    throw error;
+  }
+}
+
+function emptyTimeline(sessionId) {
+  return {
+    version: 1,
+    sessionId,
+    projectPath: null,
+    currentCheckpointId: null,
+    autoCheckpointEnabled: false,
+    checkpointStrategy: 'smart',
+    // { checkpoint, fileSnapshotIds } in creation order
+    checkpoints: []
+  };
+}
+
+async function loadTimeline(projectId, sessionId) {
+  const timeline = await readJsonFile(path.join(sessionStore(projectId, sessionId), 'timeline.json'), null);
+  return timeline ?? emptyTimeline(sessionId);
+}
+
+async function saveTimeline(projectId, timeline) {
+  await writeJsonFile(path.join(sessionStore(projectId, timeline.sessionId), 'timeline.json'), timeline);
+}
+
+function findRecord(timeline, checkpointId) {
+  const record = timeline.checkpoints.find(entry => entry.checkpoint.id === checkpointId);
+  if (!record) {
+    throw new CommandError(`Checkpoint not found: ${checkpointId}`, 404);
+  }
+  return record;
+}
+
+async function readManifest(projectId, sessionId, checkpointId) {
+  const manifest = await readJsonFile(manifestFile(projectId, sessionId, checkpointId), null);
+  if (!manifest) {
+    throw new CommandError(`Checkpoint not found: ${checkpointId}`, 404);
+  }
+  return manifest;
+}
+
+async function assertProjectDirectory(projectPath) {
+  if (typeof projectPath !== 'string' || !path.isAbsolute(projectPath) || path.resolve(projectPath) === path.parse(projectPath).root) {
+    throw new CommandError(`Invalid project path: ${projectPath}`);
+  }
+  const stats = await fs.stat(projectPath).catch(() => null);
+  if (!stats?.isDirectory()) {
+    throw new CommandError(`Project directory not found: ${projectPath}`, 404);
+  }
+}
+
+/**
+ * Non-empty, parseable lines of a session file, numbered the way the session
+ * history is (see readJsonlPage); empty for a session not written yet
+ */
+async function readSessionEntries(projectId, sessionId) {
+  let content;
+  try {
+    content = await fs.readFile(sessionFile(projectId, sessionId), 'utf-8');
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+  const entries = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push({ line, entry: JSON.parse(line) });
+    } catch {
+      // Skipped by the history loader too
+    }
+  }
+  return entries;
+}
+
+function entryText(entry) {
+  const content = entry.message?.content;
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content.filter(block => block.type === 'text').map(block => block.text).join('\n');
+}
+
+function toolUses(entry) {
+  const content = entry.type === 'assistant' ? entry.message?.content : null;
+  return Array.isArray(content) ? content.filter(block => block.type === 'tool_use') : [];
+}
+
+function summarizeMessages(entries) {
+  let totalTokens = 0;
+  let modelUsed = '';
+  let userPrompt = '';
+  for (const { entry } of entries) {
+    const usage = entry.message?.usage;
+    if (usage) totalTokens += (usage.input_tokens || 0) + (usage.output_tokens || 0);
+    if (entry.message?.model) modelUsed = entry.message.model;
+    if (entry.type === 'user' && !entry.isMeta) {
+      const text = entryText(entry).trim();
+      if (text) userPrompt = text;
+    }
+  }
+  return { totalTokens, modelUsed, userPrompt };
+}
+
+/**
+ * Hashes and stores the project's files. Files unchanged in size and mtime
+ * since `previous` reuse its hashes instead of being read again.
+ */
+async function snapshotFiles(projectId, projectPath, previous = {}) {
+  const { files, truncated } = await listProjectFiles(projectPath, { maxFiles: MAX_SNAPSHOT_FILES });
+  const snapshot = {};
+  const skipped = [];
+  const warnings = [];
+  if (truncated) {
+    warnings.push(`Only the first ${MAX_SNAPSHOT_FILES} files were saved; restoring will not remove files`);
+  }
+
+  for (const { fullPath, relativePath } of files) {
+    const stats = await fs.stat(fullPath).catch(() => null);
+    if (!stats) continue;
+    if (stats.size > MAX_SNAPSHOT_FILE_BYTES) {
+      skipped.push(relativePath);
+      warnings.push(`Skipped ${relativePath}: larger than ${MAX_SNAPSHOT_FILE_BYTES / 1024 / 1024}MB`);
+      continue;
+    }
+
+    const known = previous[relativePath];
+    let hash;
+    if (known && known.size === stats.size && known.mtimeMs === stats.mtimeMs) {
+      hash = known.hash;
+    } else {
+      const content = await fs.readFile(fullPath).catch(() => null);
+      if (!content) continue;
+      hash = await storeObject(projectId, content);
+    }
+    snapshot[relativePath] = { hash, size: stats.size, mode: stats.mode & 0o777, mtimeMs: stats.mtimeMs };
+  }
+  return { files: snapshot, skipped, complete: !truncated, warnings };
+}
+
+function changedPaths(fromFiles, toFiles) {
+  const paths = new Set([...Object.keys(fromFiles), ...Object.keys(toFiles)]);
+  return [...paths].filter(filePath => fromFiles[filePath]?.hash !== toFiles[filePath]?.hash);
+}
+
+function resolveInProject(projectPath, relativePath) {
+  const fullPath = path.resolve(projectPath, relativePath);
+  if (!fullPath.startsWith(`${path.resolve(projectPath)}${path.sep}`)) {
+    throw new CommandError(`Checkpoint path escapes the project: ${relativePath}`, 500);
+  }
+  return fullPath;
+}
+
+async function removeEmptyParents(projectPath, fullPath) {
+  const root = path.resolve(projectPath);
+  for (let dir = path.dirname(fullPath); dir !== root && dir.startsWith(root); dir = path.dirname(dir)) {
+    if (!(await fs.rmdir(dir).then(() => true, () => false))) break;
+  }
+}
+
+/**
+ * Puts the project's files back the way a manifest recorded them: changed
+ * and deleted files are rewritten, files created since are removed. Ignored
+ * files and files too large to snapshot are left alone.
+ * @returns {Promise<{ filesProcessed: number, warnings: string[] }>}
+ */
+async function restoreFiles(projectId, projectPath, manifest) {
+  const warnings = [];
+  let filesProcessed = 0;
+  const { files: current, truncated } = await listProjectFiles(projectPath, { maxFiles: MAX_SNAPSHOT_FILES });
+
+  if (manifest.complete && !truncated) {
+    const kept = new Set([...Object.keys(manifest.files), ...manifest.skipped]);
+    for (const { fullPath, relativePath } of current) {
+      if (kept.has(relativePath)) continue;
+      const stats = await fs.stat(fullPath).catch(() => null);
+      if (!stats || stats.size > MAX_SNAPSHOT_FILE_BYTES) continue;
+      await fs.rm(fullPath, { force: true });
+      await removeEmptyParents(projectPath, fullPath);
+      filesProcessed += 1;
+    }
+  } else {
+    warnings.push('Files created after the checkpoint were kept because the project is too large to track completely');
+  }
+
+  for (const [relativePath, entry] of Object.entries(manifest.files)) {
+    const fullPath = resolveInProject(projectPath, relativePath);
+    const stats = await fs.stat(fullPath).catch(() => null);
+    if (stats?.isFile() && stats.size === entry.size) {
+      const content = await fs.readFile(fullPath).catch(() => null);
+      if (content && hashContent(content) === entry.hash) continue;
+    }
+    try {
+      if (stats?.isDirectory()) await fs.rm(fullPath, { recursive: true, force: true });
+      await fs.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.writeFile(fullPath, await readObject(projectId, entry.hash));
+      await fs.chmod(fullPath, entry.mode);
+      filesProcessed += 1;
+    } catch (error) {
+      if (error instanceof CommandError) throw error;
+      warnings.push(`Could not restore ${relativePath}: ${error.message}`);
+    }
+  }
+  return { filesProcessed, warnings };
+}
+
+async function writeSessionFile(projectId, sessionId, content) {
+  const file = sessionFile(projectId, sessionId);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmpPath = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, content);
+  await fs.rename(tmpPath, file);
+}
+
+async function addCheckpoint(projectId, timeline, { checkpoint, manifest, parentFiles }) {
+  await writeJsonFile(manifestFile(projectId, timeline.sessionId, checkpoint.id), manifest);
+  const fileSnapshotIds = changedPaths(parentFiles, manifest.files)
+    .map(filePath => manifest.files[filePath]?.hash)
+    .filter(Boolean);
+  timeline.checkpoints.push({ checkpoint, fileSnapshotIds });
+  timeline.currentCheckpointId = checkpoint.id;
+  await saveTimeline(projectId, timeline);
+}
+
+async function createCheckpointUnlocked({ projectId, sessionId, projectPath, messageIndex, description }) {
+  const timeline = await loadTimeline(projectId, sessionId);
+  const root = timeline.projectPath ?? projectPath;
+  await assertProjectDirectory(root);
+  timeline.projectPath = root;
+
+  const entries = await readSessionEntries(projectId, sessionId);
+  const messageCount = Number.isInteger(messageIndex)
+    ? Math.min(Math.max(messageIndex + 1, 0), entries.length)
+    : entries.length;
+  const messages = entries.slice(0, messageCount);
+  const messagesHash = await storeObject(
+    projectId,
+    Buffer.from(messages.map(({ line }) => `${line}\n`).join(''), 'utf-8')
+  );
+
+  const parent = timeline.currentCheckpointId
+    ? await readManifest(projectId, sessionId, timeline.currentCheckpointId)
+    : null;
+  const snapshot = await snapshotFiles(projectId, root, parent?.files);
+  const parentFiles = parent?.files ?? {};
+
+  const checkpoint = {
+    id: randomUUID(),
+    sessionId,
+    projectId,
+    messageIndex: messageCount - 1,
+    timestamp: new Date().toISOString(),
+    ...(description && { description }),
+    ...(timeline.currentCheckpointId && { parentCheckpointId: timeline.currentCheckpointId }),
+    metadata: {
+      ...summarizeMessages(messages),
+      fileChanges: changedPaths(parentFiles, snapshot.files).length,
+      snapshotSize: Object.values(snapshot.files).reduce((total, file) => total + file.size, 0)
+    }
+  };
+  const manifest = {
+    checkpointId: checkpoint.id,
+    messages: messagesHash,
+    messageCount,
+    files: snapshot.files,
+    skipped: snapshot.skipped,
+    complete: snapshot.complete
+  };
+  await addCheckpoint(projectId, timeline, { checkpoint, manifest, parentFiles });
+
+  return { checkpoint, filesProcessed: Object.keys(snapshot.files).length, warnings: snapshot.warnings };
+}
+
+/**
+ * Saves the project's files and the session's first `messageIndex + 1`
+ * messages (all of them when omitted) as a checkpoint under the session's
+ * current one
+ * @returns {Promise<CheckpointResult>}
+ */
+export function createCheckpoint(options) {
+  return inProjectQueue(options.projectId, () => createCheckpointUnlocked(options));
+}
+
+/**
+ * Returns the project's files and the session file to a checkpoint, which
+ * becomes the session's current checkpoint
+ */
+export function restoreCheckpoint({ projectId, sessionId, checkpointId }) {
+  return inProjectQueue(projectId, async () => {
+    const timeline = await loadTimeline(projectId, sessionId);
+    const { checkpoint } = findRecord(timeline, checkpointId);
+    const manifest = await readManifest(projectId, sessionId, checkpointId);
+    await assertProjectDirectory(timeline.projectPath);
+
+    const result = await restoreFiles(projectId, timeline.projectPath, manifest);
+    await writeSessionFile(projectId, sessionId, await readObject(projectId, manifest.messages));
+    timeline.currentCheckpointId = checkpointId;
+    await saveTimeline(projectId, timeline);
+    return { checkpoint, ...result };
+  });
+}
+
+/**
+ * Starts a new session from a checkpoint: the project's files are restored
+ * to it and the new session gets its messages, with a timeline whose root
+ * is a copy of the checkpoint
+ */
+export function forkFromCheckpoint({ projectId, sessionId, checkpointId, newSessionId, description }) {
+  return inProjectQueue(projectId, async () => {
+    const timeline = await loadTimeline(projectId, sessionId);
+    const source = findRecord(timeline, checkpointId).checkpoint;
+    const manifest = await readManifest(projectId, sessionId, checkpointId);
+    await assertProjectDirectory(timeline.projectPath);
+    if (await pathExists(sessionFile(projectId, newSessionId))) {
+      throw new CommandError(`Session already exists: ${newSessionId}`, 409);
+    }
+
+    const result = await restoreFiles(projectId, timeline.projectPath, manifest);
+
+    const messages = (await readObject(projectId, manifest.messages)).toString('utf-8');
+    const forkedMessages = messages.split('\n').filter(Boolean).map(line => {
+      try {
+        const entry = JSON.parse(line);
+        return JSON.stringify(entry.sessionId === sessionId ? { ...entry, sessionId: newSessionId } : entry);
+      } catch {
+        return line;
+      }
+    });
+    await writeSessionFile(projectId, newSessionId, forkedMessages.map(line => `${line}\n`).join(''));
+
+    const fork = {
+      ...emptyTimeline(newSessionId),
+      projectPath: timeline.projectPath,
+      autoCheckpointEnabled: timeline.autoCheckpointEnabled,
+      checkpointStrategy: timeline.checkpointStrategy
+    };
+    const checkpoint = {
+      ...source,
+      id: randomUUID(),
+      sessionId: newSessionId,
+      timestamp: new Date().toISOString(),
+      description: description || `Forked from ${source.description || source.id.slice(0, 8)}`,
+      parentCheckpointId: undefined
+    };
+    await addCheckpoint(projectId, fork, {
+      checkpoint,
+      manifest: { ...manifest, checkpointId: checkpoint.id },
+      parentFiles: {}
+    });
+    return { checkpoint, ...result };
+  });
+}
+
+export async function listCheckpoints({ projectId, sessionId }) {
+  const timeline = await loadTimeline(projectId, sessionId);
+  return timeline.checkpoints
+    .map(record => record.checkpoint)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * The session's checkpoints as a tree of TimelineNodes
+ */
+export async function getSessionTimeline({ projectId, sessionId }) {
+  const timeline = await loadTimeline(projectId, sessionId);
+  const nodes = new Map(timeline.checkpoints.map(({ checkpoint, fileSnapshotIds }) => [
+    checkpoint.id,
+    { checkpoint, children: [], fileSnapshotIds }
+  ]));
+  let rootNode;
+  for (const node of nodes.values()) {
+    const parent = nodes.get(node.checkpoint.parentCheckpointId);
+    if (parent) parent.children.push(node);
+    else rootNode ??= node;
+  }
+  return {
+    sessionId,
+    rootNode,
+    currentCheckpointId: timeline.currentCheckpointId ?? undefined,
+    autoCheckpointEnabled: timeline.autoCheckpointEnabled,
+    checkpointStrategy: timeline.checkpointStrategy,
+    totalCheckpoints: timeline.checkpoints.length
+  };
+}
+
+export async function getCheckpointSettings({ projectId, sessionId }) {
+  const timeline = await loadTimeline(projectId, sessionId);
+  return {
+    auto_checkpoint_enabled: timeline.autoCheckpointEnabled,
+    checkpoint_strategy: timeline.checkpointStrategy,
+    total_checkpoints: timeline.checkpoints.length,
+    current_checkpoint_id: timeline.currentCheckpointId ?? undefined
+  };
+}
+
+export function updateCheckpointSettings({ projectId, sessionId, projectPath, autoCheckpointEnabled, checkpointStrategy }) {
+  if (!CHECKPOINT_STRATEGIES.includes(checkpointStrategy)) {
+    throw new CommandError(`Invalid checkpoint strategy: ${checkpointStrategy}`);
+  }
+  return inProjectQueue(projectId, async () => {
+    const timeline = await loadTimeline(projectId, sessionId);
+    timeline.projectPath ??= projectPath ?? null;
+    timeline.autoCheckpointEnabled = Boolean(autoCheckpointEnabled);
+    timeline.checkpointStrategy = checkpointStrategy;
+    await saveTimeline(projectId, timeline);
+  });
+}
+
+function isBinary(content) {
+  return content.subarray(0, 8000).includes(0);
+}
+
+/**
+ * Files added, deleted and modified between two checkpoints of a session,
+ * with line counts and a unified diff for modified text files
+ */
+export async function getCheckpointDiff({ projectId, sessionId, fromCheckpointId, toCheckpointId }) {
+  const timeline = await loadTimeline(projectId, sessionId);
+  const from = findRecord(timeline, fromCheckpointId).checkpoint;
+  const to = findRecord(timeline, toCheckpointId).checkpoint;
+  const [fromManifest, toManifest] = await Promise.all([
+    readManifest(projectId, sessionId, fromCheckpointId),
+    readManifest(projectId, sessionId, toCheckpointId)
+  ]);
+
+  const addedFiles = [];
+  const deletedFiles = [];
+  const modifiedFiles = [];
+  for (const filePath of changedPaths(fromManifest.files, toManifest.files).sort()) {
+    const before = fromManifest.files[filePath];
+    const after = toManifest.files[filePath];
+    if (!before) {
+      addedFiles.push(filePath);
+    } else if (!after) {
+      deletedFiles.push(filePath);
+    } else if (before.size > MAX_DIFF_FILE_BYTES || after.size > MAX_DIFF_FILE_BYTES) {
+      modifiedFiles.push({ path: filePath, additions: 0, deletions: 0 });
+    } else {
+      const [oldContent, newContent] = await Promise.all([
+        readObject(projectId, before.hash),
+        readObject(projectId, after.hash)
+      ]);
+      if (isBinary(oldContent) || isBinary(newContent)) {
+        modifiedFiles.push({ path: filePath, additions: 0, deletions: 0 });
+        continue;
+      }
+      const oldText = oldContent.toString('utf-8');
+      const newText = newContent.toString('utf-8');
+      let additions = 0;
+      let deletions = 0;
+      for (const part of diffLines(oldText, newText)) {
+        if (part.added) additions += part.count ?? 0;
+        if (part.removed) deletions += part.count ?? 0;
+      }
+      modifiedFiles.push({
+        path: filePath,
+        additions,
+        deletions,
+        diffContent: createTwoFilesPatch(`a/${filePath}`, `b/${filePath}`, oldText, newText)
+      });
+    }
+  }
+
+  return {
+    fromCheckpointId,
+    toCheckpointId,
+    modifiedFiles,
+    addedFiles,
+    deletedFiles,
+    tokenDelta: to.metadata.totalTokens - from.metadata.totalTokens
+  };
+}
+
+function wantsCheckpoint(strategy, newEntries) {
+  if (newEntries.length === 0) return false;
+  const uses = newEntries.flatMap(({ entry }) => toolUses(entry));
+  switch (strategy) {
+    case 'per_prompt':
+      return true;
+    case 'per_tool_use':
+      return uses.length > 0;
+    case 'smart':
+      return uses.some(use => FILE_EDITING_TOOLS.has(use.name)
+        || (use.name === 'Bash' && DESTRUCTIVE_COMMAND.test(String(use.input?.command ?? ''))));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Called after a prompt completes: creates a checkpoint when the session's
+ * strategy calls for one given the messages since its current checkpoint
+ * @returns {Promise<boolean>} whether a checkpoint was created
+ */
+export function checkAutoCheckpoint({ projectId, sessionId, projectPath, message }) {
+  return inProjectQueue(projectId, async () => {
+    const timeline = await loadTimeline(projectId, sessionId);
+    if (!timeline.autoCheckpointEnabled) return false;
+
+    const current = timeline.currentCheckpointId
+      ? findRecord(timeline, timeline.currentCheckpointId).checkpoint
+      : null;
+    const entries = await readSessionEntries(projectId, sessionId);
+    const newEntries = entries.slice(current ? current.messageIndex + 1 : 0);
+    if (!wantsCheckpoint(timeline.checkpointStrategy, newEntries)) return false;
+
+    const prompt = typeof message === 'string' ? message.trim().split('\n')[0] : '';
+    await createCheckpointUnlocked({
+      projectId,
+      sessionId,
+      projectPath,
+      description: prompt ? `Auto: ${prompt.length > 50 ? `${prompt.slice(0, 50)}…` : prompt}` : 'Auto checkpoint'
+    });
+    return true;
+  });
+}
+
+/**
+ * Deletes objects no checkpoint of the project refers to any more
+ */
+async function collectGarbage(projectId) {
+  const store = projectStore(projectId);
+  const referenced = new Set();
+  const sessions = await fs.readdir(path.join(store, 'sessions')).catch(() => []);
+  for (const session of sessions) {
+    const dir = path.join(store, 'sessions', session, 'checkpoints');
+    for (const name of await fs.readdir(dir).catch(() => [])) {
+      const manifest = await readJsonFile(path.join(dir, name), null);
+      if (!manifest) continue;
+      referenced.add(manifest.messages);
+      for (const file of Object.values(manifest.files)) referenced.add(file.hash);
+    }
+  }
+
+  const objectsDir = path.join(store, 'objects');
+  for (const prefix of await fs.readdir(objectsDir).catch(() => [])) {
+    for (const name of await fs.readdir(path.join(objectsDir, prefix)).catch(() => [])) {
+      if (!referenced.has(`${prefix}${name}`)) {
+        await fs.rm(path.join(objectsDir, prefix, name), { force: true });
+      }
+    }
+  }
+}
+
+/**
+ * Keeps the `keepCount` newest checkpoints of a session, plus its first and
+ * current ones; children of a removed checkpoint move up to its parent
+ * @returns {Promise<number>} how many checkpoints were removed
+ */
+export function cleanupOldCheckpoints({ projectId, sessionId, keepCount }) {
+  const keep = Math.max(0, Math.floor(Number(keepCount)));
+  if (!Number.isFinite(keep)) {
+    throw new CommandError(`Invalid keep count: ${keepCount}`);
+  }
+  return inProjectQueue(projectId, async () => {
+    const timeline = await loadTimeline(projectId, sessionId);
+    const newest = [...timeline.checkpoints]
+      .sort((a, b) => b.checkpoint.timestamp.localeCompare(a.checkpoint.timestamp))
+      .slice(0, keep)
+      .map(record => record.checkpoint.id);
+    const kept = new Set([...newest, timeline.currentCheckpointId, timeline.checkpoints[0]?.checkpoint.id]);
+    const removed = timeline.checkpoints.filter(record => !kept.has(record.checkpoint.id));
+    if (removed.length === 0) return 0;
+
+    const parents = new Map(timeline.checkpoints.map(({ checkpoint }) => [checkpoint.id, checkpoint.parentCheckpointId]));
+    const survivingParent = id => {
+      let parent = parents.get(id);
+      while (parent && !kept.has(parent)) parent = parents.get(parent);
+      return parent;
+    };
+    timeline.checkpoints = timeline.checkpoints
+      .filter(record => kept.has(record.checkpoint.id))
+      .map(record => {
+        const parentCheckpointId = record.checkpoint.parentCheckpointId && survivingParent(record.checkpoint.id);
+        return { ...record, checkpoint: { ...record.checkpoint, parentCheckpointId: parentCheckpointId || undefined } };
+      });
+    await saveTimeline(projectId, timeline);
+
+    for (const { checkpoint } of removed) {
+      await fs.rm(manifestFile(projectId, sessionId, checkpoint.id), { force: true });
+    }
+    await collectGarbage(projectId);
+    return removed.length;
+  });
+}
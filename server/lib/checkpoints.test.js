@@ -0,0 +1,111 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+// config.js reads the store locations when it is first imported
+const base = await fs.mkdtemp(path.join(os.tmpdir(), 'claudia-checkpoints-test-'));
+process.env.CONFIG_DIR = path.join(base, 'config');
+process.env.CLAUDE_CONFIG_DIR = path.join(base, 'claude');
+const {
+  createCheckpoint,
+  forkFromCheckpoint,
+  getCheckpointDiff,
+  getSessionTimeline,
+  restoreCheckpoint
+} = await import('./checkpoints.js');
+
+const projectId = '-tmp-app';
+const sessionId = 'session-1';
+const project = path.join(base, 'app');
+const sessionFile = id => path.join(base, 'claude', 'projects', projectId, `${id}.jsonl`);
+
+const line = (type, text) => JSON.stringify({ type, sessionId, message: { role: type, content: text } });
+
+async function write(relativePath, content) {
+  await fs.mkdir(path.dirname(path.join(project, relativePath)), { recursive: true });
+  await fs.writeFile(path.join(project, relativePath), content);
+}
+
+const read = relativePath => fs.readFile(path.join(project, relativePath), 'utf-8');
+const exists = relativePath => fs.access(path.join(project, relativePath)).then(() => true, () => false);
+
+describe('checkpoint snapshots and restores', () => {
+  let first;
+  let second;
+
+  before(async () => {
+    await write('.gitignore', 'build/\n');
+    await write('a.txt', 'one\n');
+    await write('src/b.txt', 'kept\n');
+    await fs.mkdir(path.dirname(sessionFile(sessionId)), { recursive: true });
+    await fs.writeFile(sessionFile(sessionId), `${line('user', 'first')}\n${line('assistant', 'done')}\n`);
+    ({ checkpoint: first } = await createCheckpoint({ projectId, sessionId, projectPath: project, description: 'first' }));
+
+    await write('a.txt', 'one\ntwo\n');
+    await fs.rm(path.join(project, 'src', 'b.txt'));
+    await write('new/deep/c.txt', 'created\n');
+    await write('build/out.txt', 'ignored\n');
+    await fs.appendFile(sessionFile(sessionId), `${line('user', 'second')}\n`);
+    ({ checkpoint: second } = await createCheckpoint({ projectId, sessionId, projectPath: project }));
+  });
+
+  after(async () => {
+    await fs.rm(base, { recursive: true, force: true });
+  });
+
+  it('records the changes between checkpoints', async () => {
+    assert.equal(second.parentCheckpointId, first.id);
+    const diff = await getCheckpointDiff({ projectId, sessionId, fromCheckpointId: first.id, toCheckpointId: second.id });
+    assert.deepEqual(diff.addedFiles, ['new/deep/c.txt']);
+    assert.deepEqual(diff.deletedFiles, ['src/b.txt']);
+    assert.deepEqual(diff.modifiedFiles.map(file => [file.path, file.additions, file.deletions]), [['a.txt', 1, 0]]);
+  });
+
+  it('restores files and messages, removing files created since and leaving ignored ones', async () => {
+    await restoreCheckpoint({ projectId, sessionId, checkpointId: first.id });
+
+    assert.equal(await read('a.txt'), 'one\n');
+    assert.equal(await read('src/b.txt'), 'kept\n');
+    assert.equal(await exists('new'), false);
+    assert.equal(await read('build/out.txt'), 'ignored\n');
+    assert.equal((await fs.readFile(sessionFile(sessionId), 'utf-8')).trim().split('\n').length, 2);
+
+    const timeline = await getSessionTimeline({ projectId, sessionId });
+    assert.equal(timeline.currentCheckpointId, first.id);
+  });
+
+  it('restores forward to a later checkpoint', async () => {
+    await restoreCheckpoint({ projectId, sessionId, checkpointId: second.id });
+
+    assert.equal(await read('a.txt'), 'one\ntwo\n');
+    assert.equal(await exists('src/b.txt'), false);
+    assert.equal(await read('new/deep/c.txt'), 'created\n');
+    assert.equal((await fs.readFile(sessionFile(sessionId), 'utf-8')).trim().split('\n').length, 3);
+  });
+
+  it('forks a new session from a checkpoint', async () => {
+    const { checkpoint } = await forkFromCheckpoint({ projectId, sessionId, checkpointId: first.id, newSessionId: 'session-2' });
+
+    assert.equal(checkpoint.sessionId, 'session-2');
+    assert.equal(await read('a.txt'), 'one\n');
+    const forked = (await fs.readFile(sessionFile('session-2'), 'utf-8')).trim().split('\n').map(entry => JSON.parse(entry));
+    assert.deepEqual(forked.map(entry => entry.sessionId), ['session-2', 'session-2']);
+
+    await assert.rejects(
+      forkFromCheckpoint({ projectId, sessionId, checkpointId: first.id, newSessionId: 'session-2' }),
+      error => error.status === 409
+    );
+  });
+
+  it('rejects ids that would leave the checkpoint store', async () => {
+    for (const options of [
+      { projectId: '..', sessionId, checkpointId: first.id },
+      { projectId, sessionId: '../session-1', checkpointId: first.id },
+      { projectId, sessionId, checkpointId: '../timeline' }
+    ]) {
+      await assert.rejects(restoreCheckpoint(options), error => error.status === 400 || error.status === 404);
+    }
+  });
+});
@@ -0,0 +1,80 @@
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { HOME_DIR, childProcessEnv } from '../config.js';
+import { pathExists } from './fsUtils.js';
+import { getAppSetting } from './db.js';
+
+const execFileAsync = promisify(execFile);
+
+export const CLAUDE_BINARY_SETTING = 'claude_binary_path';
+
+// Well-known install locations checked in addition to PATH lookups
+const KNOWN_LOCATIONS = [
+  { path: path.join(HOME_DIR, '.claude', 'local', 'claude'), source: 'claude-local' },
+  { path: path.join(HOME_DIR, '.npm-global', 'bin', 'claude'), source: 'npm-global' },
+  { path: path.join(HOME_DIR, '.local', 'bin', 'claude'), source: 'local-bin' },
+  { path: '/usr/local/bin/claude', source: 'system' },
+  { path: '/usr/bin/claude', source: 'system' }
+];
+
+/**
+ * Runs `<binary> --version` and returns the version string, or null on failure
+ */
+export async function getClaudeVersion(binaryPath) {
+  try {
+    const { stdout } = await execFileAsync(binaryPath, ['--version'], { env: childProcessEnv(), timeout: 10000 });
+    const match = stdout.match(/\d+\.\d+\.\d+(?:-[\w.]+)?/);
+    return match ? match[0] : stdout.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Lists Claude CLI installations found on PATH and in well-known locations
+ */
+export async function discoverClaudeInstallations() {
+  const candidates = [];
+
+  try {
+    const { stdout } = await execFileAsync('which', ['-a', 'claude'], { env: childProcessEnv(), timeout: 5000 });
+    for (const line of stdout.split('\n').map(l => l.trim()).filter(Boolean)) {
+      candidates.push({ path: line, source: 'which' });
+    }
+  } catch {
+    // `which` exits non-zero when nothing is found
+  }
+
+  for (const location of KNOWN_LOCATIONS) {
+    if (await pathExists(location.path)) {
+      candidates.push(location);
+    }
+  }
+
+  const seen = new Set();
+  const installations = [];
+  for (const candidate of candidates) {
+    if (seen.has(candidate.path)) continue;
+    seen.add(candidate.path);
+    installations.push({
+      path: candidate.path,
+      version: (await getClaudeVersion(candidate.path)) || undefined,
+      source: candidate.source,
+      installation_type: 'System'
+    });
+  }
+  return installations;
+}
+
+/**
+ * Resolves the Claude CLI to run: the stored custom path if set, else PATH
+ */
+export async function resolveClaudeBinary() {
+  const stored = getAppSetting(CLAUDE_BINARY_SETTING);
+  if (stored && await pathExists(stored)) {
+    return stored;
+  }
+  const [first] = await discoverClaudeInstallations();
+  return first ? first.path : 'claude';
+}
@@ -0,0 +1,200 @@
+import os from 'os';
+import path from 'path';
+import readline from 'readline';
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import { ANTHROPIC_API_KEY, CLAUDE_PERMISSION_MODE, childProcessEnv } from '../config.js';
+import { CommandError } from '../invoke.js';
+import { broadcastScoped } from '../events.js';
+import { resolveClaudeBinary } from './claudeBinary.js';
+import { readJsonFile } from './fsUtils.js';
+import { listHookCommands, settingsFileForScope } from './hooks.js';
+import { MCP_SCOPES, readScopeServers } from './mcpConfig.js';
+import { processRegistry } from './processRegistry.js';
+import { hasSecretReferences, hookSecretEnv, resolveSecretMap } from './secrets.js';
+
+/**
+ * Builds the CLI arguments for a streamed, non-interactive Claude run
+ */
+export function buildClaudeArgs({ prompt, model, mode = 'new', sessionId, systemPrompt }) {
+  const args = [];
+  if (mode === 'continue') {
+    args.push('--continue');
+  } else if (mode === 'resume') {
+    args.push('--resume', sessionId);
+  }
+  if (systemPrompt) {
+    args.push('--system-prompt', systemPrompt);
+  }
+  args.push(
+    '-p', prompt,
+    '--model', model,
+    '--output-format', 'stream-json',
+    '--verbose'
+  );
+  // There is no terminal to answer permission prompts from the browser, so
+  // what the CLI may do unasked is left to the settings' permission rules
+  // unless the server is configured otherwise
+  if (CLAUDE_PERMISSION_MODE) {
+    args.push('--permission-mode', CLAUDE_PERMISSION_MODE);
+  }
+  return args;
+}
+
+/**
+ * The CLI reads settings and MCP servers itself and knows nothing about the
+ * vault, so the values of the secrets they reference are handed to it per
+ * run: settings env entries and MCP servers with references go, resolved, in
+ * --settings and --mcp-config files (which take precedence over the files on
+ * disk), and hook commands get their variables in the process environment.
+ * @returns {Promise<{ args: string[], env: object, dir: string | null }>}
+ */
+async function prepareSecrets(cwd) {
+  const settingsEnv = {};
+  const hookCommands = [];
+  for (const scope of ['user', 'project', 'local']) {
+    const settings = await readJsonFile(settingsFileForScope(scope, cwd), {}).catch(() => ({}));
+    for (const [key, value] of Object.entries(settings.env || {})) {
+      if (hasSecretReferences(value)) settingsEnv[key] = value;
+      else delete settingsEnv[key];
+    }
+    hookCommands.push(...listHookCommands(settings.hooks));
+  }
+
+  // MCP_SCOPES is in precedence order
+  const mcpServers = {};
+  const seen = new Set();
+  for (const scope of MCP_SCOPES) {
+    const servers = await readScopeServers(scope, cwd).catch(() => ({}));
+    for (const [name, config] of Object.entries(servers)) {
+      if (seen.has(name)) continue;
+      seen.add(name);
+      if (hasSecretReferences(config.env) || hasSecretReferences(config.headers)) {
+        mcpServers[name] = {
+          ...config,
+          ...(config.env && { env: resolveSecretMap(config.env) }),
+          ...(config.headers && { headers: resolveSecretMap(config.headers) })
+        };
+      }
+    }
+  }
+
+  const env = hookSecretEnv(hookCommands);
+  const overlays = [];
+  if (Object.keys(settingsEnv).length > 0) {
+    overlays.push(['--settings', 'settings.json', { env: resolveSecretMap(settingsEnv) }]);
+  }
+  if (Object.keys(mcpServers).length > 0) {
+    overlays.push(['--mcp-config', 'mcp.json', { mcpServers }]);
+  }
+  if (overlays.length === 0) {
+    return { args: [], env, dir: null };
+  }
+
+  // mkdtemp creates the directory readable by the server user only
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'claudia-secrets-'));
+  const args = [];
+  for (const [flag, fileName, content] of overlays) {
+    const file = path.join(dir, fileName);
+    await fs.writeFile(file, JSON.stringify(content), { mode: 0o600 });
+    args.push(flag, file);
+  }
+  return { args, env, dir };
+}
+
+/**
+ * Starts the Claude binary in its own process group inside projectPath
+ * @param {string} projectPath
+ * @param {string[]} args
+ * @returns {Promise<import('child_process').ChildProcess>}
+ */
+export async function launchClaude(projectPath, args) {
+  try {
+    if (!(await fs.stat(projectPath)).isDirectory()) {
+      throw new CommandError(`Project path is not a directory: ${projectPath}`);
+    }
+  } catch (error) {
+    if (error instanceof CommandError) throw error;
+    throw new CommandError(`Project path does not exist: ${projectPath}`, 404);
+  }
+
+  const binary = await resolveClaudeBinary();
+  const secrets = await prepareSecrets(projectPath);
+  const removeSecrets = () => secrets.dir && fs.rm(secrets.dir, { recursive: true, force: true }).catch(() => {});
+  const child = spawn(binary, [...secrets.args, ...args], {
+    cwd: projectPath,
+    env: childProcessEnv({ ANTHROPIC_API_KEY, ...secrets.env }),
+    stdio: ['ignore', 'pipe', 'pipe'],
+    // Own process group so cancellation also stops tool subprocesses
+    detached: true
+  });
+  child.once('exit', removeSecrets);
+
+  await new Promise((resolve, reject) => {
+    child.once('spawn', resolve);
+    child.once('error', reject);
+  }).catch(error => {
+    removeSecrets();
+    throw new CommandError(`Failed to start Claude Code: ${error.message}`, 500);
+  });
+
+  return child;
+}
+
+/**
+ * Spawns `claude -p` in the project directory and streams its JSONL output
+ * as claude-output / claude-error / claude-complete events
+ * @param {{ projectPath: string, prompt: string, model: string, mode: 'new'|'continue'|'resume', sessionId?: string }} options
+ */
+export async function spawnClaudeSession({ projectPath, prompt, model, mode = 'new', sessionId }) {
+  if (!projectPath) {
+    throw new CommandError('projectPath is required');
+  }
+  if (!prompt?.trim()) {
+    throw new CommandError('prompt is required');
+  }
+  if (mode === 'resume' && !sessionId) {
+    throw new CommandError('sessionId is required to resume a session');
+  }
+
+  const child = await launchClaude(projectPath, buildClaudeArgs({ prompt, model, mode, sessionId }));
+
+  // Resumed runs are scoped immediately; new runs once the init message arrives
+  let currentSessionId = mode === 'resume' ? sessionId : null;
+  const entry = processRegistry.register({
+    key: currentSessionId || `pending-${child.pid}`,
+    child,
+    processType: { ClaudeSession: { session_id: currentSessionId || '' } },
+    projectPath,
+    task: prompt,
+    model
+  });
+
+  const lines = readline.createInterface({ input: child.stdout, crlfDelay: Infinity });
+  lines.on('line', line => {
+    if (!line.trim()) return;
+    try {
+      const message = JSON.parse(line);
+      if (message.type === 'system' && message.subtype === 'init' && message.session_id) {
+        currentSessionId = message.session_id;
+        processRegistry.rekey(entry.key, currentSessionId, {
+          ClaudeSession: { session_id: currentSessionId }
+        });
+      }
+    } catch {
+      // Forward non-JSON lines untouched; the UI reports parse failures
+    }
+    entry.output.push(line);
+    broadcastScoped('claude-output', currentSessionId, line);
+  });
+
+  child.stderr.on('data', data => {
+    broadcastScoped('claude-error', currentSessionId, data.toString());
+  });
+
+  child.on('close', code => {
+    broadcastScoped('claude-complete', currentSessionId, code === 0);
+  });
+
+  return child;
+}
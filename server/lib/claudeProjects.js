@@ -0,0 +1,129 @@
+import path from 'path';
+import readline from 'readline';
+import { createReadStream, promises as fs } from 'fs';
+import { CLAUDE_PROJECTS_DIR } from '../config.js';
+
+/**
+ * Encodes a project path the way the Claude CLI names ~/.claude/projects dirs
+ */
+export function encodeProjectPath(projectPath) {
+  return projectPath.replace(/[^a-zA-Z0-9]/g, '-');
+}
+
+/**
+ * Lossy fallback decoding used when no session records the original cwd
+ */
+export function decodeProjectDirName(dirName) {
+  return dirName.replace(/-/g, '/');
+}
+
+/**
+ * Lists the *.jsonl session files in a project directory
+ */
+export async function listSessionFiles(projectDir) {
+  try {
+    const entries = await fs.readdir(projectDir, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.isFile() && entry.name.endsWith('.jsonl'))
+      .map(entry => path.join(projectDir, entry.name));
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+/**
+ * Calls `onEntry` for every parsed JSONL line; return false to stop early
+ */
+export async function readJsonlFile(filePath, onEntry) {
+  const stream = createReadStream(filePath, { encoding: 'utf-8' });
+  const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+  try {
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      let entry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (onEntry(entry) === false) break;
+    }
+  } finally {
+    lines.close();
+    stream.destroy();
+  }
+}
+
+function parseJsonLine(line) {
+  if (!line.trim()) return undefined;
+  try {
+    return JSON.parse(line);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads up to `limit` JSONL entries starting at byte `offset`, so large
+ * session files can be paged through without loading them whole
+ * @returns {Promise<{ entries: object[], nextOffset: number, done: boolean }>}
+ */
+export async function readJsonlPage(filePath, offset = 0, limit = 500) {
+  const entries = [];
+  let position = offset;
+  let pending = Buffer.alloc(0);
+  const stream = createReadStream(filePath, { start: offset });
+
+  try {
+    for await (const chunk of stream) {
+      pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+      let newline;
+      while (entries.length < limit && (newline = pending.indexOf(0x0a)) !== -1) {
+        const entry = parseJsonLine(pending.subarray(0, newline).toString('utf-8'));
+        if (entry !== undefined) entries.push(entry);
+        pending = pending.subarray(newline + 1);
+        position += newline + 1;
+      }
+      if (entries.length >= limit) {
+        return { entries, nextOffset: position, done: false };
+      }
+    }
+  } finally {
+    stream.destroy();
+  }
+
+  // A final line without a newline may still be mid-write; only take it if it parses
+  const lastEntry = parseJsonLine(pending.toString('utf-8'));
+  if (lastEntry !== undefined) {
+    entries.push(lastEntry);
+    position += pending.length;
+  }
+  return { entries, nextOffset: position, done: true };
+}
+
+/**
+ * Recovers the real project path from the `cwd` recorded in its sessions
+ */
+export async function resolveProjectPath(projectId) {
+  const projectDir = path.join(CLAUDE_PROJECTS_DIR, projectId);
+  for (const sessionFile of await listSessionFiles(projectDir)) {
+    let cwd = null;
+    await readJsonlFile(sessionFile, entry => {
+      if (typeof entry.cwd === 'string') {
+        cwd = entry.cwd;
+        return false;
+      }
+    });
+    if (cwd) return cwd;
+  }
+  return decodeProjectDirName(projectId);
+}
+
+/**
+ * Unix timestamp (seconds) for a stat result, preferring birth time
+ */
+export function statTimestamp(stats) {
+  const ms = stats.birthtimeMs > 0 ? stats.birthtimeMs : stats.mtimeMs;
+  return Math.floor(ms / 1000);
+}
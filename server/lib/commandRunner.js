@@ -0,0 +1,120 @@
+import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import { StringDecoder } from 'string_decoder';
+import { ANTHROPIC_API_KEY, childProcessEnv } from '../config.js';
+
+export const DEFAULT_COMMAND_TIMEOUT_MS = 10 * 60 * 1000;
+export const MAX_COMMAND_TIMEOUT_MS = 60 * 60 * 1000;
+
+// Grace period between SIGTERM and SIGKILL when stopping a command
+const KILL_GRACE_MS = 5000;
+
+// Exec ID -> { child, projectId, stop }
+const runningCommands = new Map();
+
+function signalGroup(child, signal) {
+  try {
+    // Commands run in their own process group so pipelines and background
+    // children are stopped along with the shell
+    process.kill(-child.pid, signal);
+  } catch {
+    try {
+      child.kill(signal);
+    } catch {
+      // Already exited
+    }
+  }
+}
+
+/**
+ * Runs a shell command in `cwd`, reporting output as it arrives. Frames passed
+ * to `onFrame` are `{ type: 'start', exec_id, pid }`, then any number of
+ * `{ type: 'stdout' | 'stderr', data }`, and finally either
+ * `{ type: 'exit', exit_code, signal, timed_out, killed, duration_ms }` or
+ * `{ type: 'error', error }` when the shell could not be started.
+ * @returns {{ execId: string, stop: () => void, done: Promise<void> }}
+ */
+export function startCommand({ command, cwd, projectId, timeoutMs = DEFAULT_COMMAND_TIMEOUT_MS, onFrame }) {
+  const execId = randomUUID();
+  const startedAt = Date.now();
+  const child = spawn('bash', ['-c', command], {
+    cwd,
+    env: childProcessEnv({ ANTHROPIC_API_KEY }),
+    detached: true,
+    stdio: ['ignore', 'pipe', 'pipe']
+  });
+
+  let timedOut = false;
+  let killed = false;
+  let killTimer = null;
+
+  const stop = () => {
+    if (child.exitCode !== null || child.signalCode !== null) return;
+    signalGroup(child, 'SIGTERM');
+    killTimer ??= setTimeout(() => signalGroup(child, 'SIGKILL'), KILL_GRACE_MS);
+  };
+
+  const timeout = setTimeout(() => {
+    timedOut = true;
+    stop();
+  }, Math.min(Math.max(timeoutMs, 1), MAX_COMMAND_TIMEOUT_MS));
+
+  runningCommands.set(execId, {
+    child,
+    projectId,
+    stop: () => {
+      killed = true;
+      stop();
+    }
+  });
+
+  for (const stream of ['stdout', 'stderr']) {
+    const decoder = new StringDecoder('utf8');
+    child[stream].on('data', chunk => {
+      const data = decoder.write(chunk);
+      if (data) onFrame({ type: stream, data });
+    });
+    child[stream].on('end', () => {
+      const rest = decoder.end();
+      if (rest) onFrame({ type: stream, data: rest });
+    });
+  }
+
+  const done = new Promise(resolve => {
+    let finished = false;
+    const finish = frame => {
+      // A failed spawn can emit both 'error' and 'close'
+      if (finished) return;
+      finished = true;
+      clearTimeout(timeout);
+      clearTimeout(killTimer);
+      runningCommands.delete(execId);
+      onFrame(frame);
+      resolve();
+    };
+
+    child.once('spawn', () => onFrame({ type: 'start', exec_id: execId, pid: child.pid }));
+    child.once('error', error => finish({ type: 'error', error: error.message }));
+    child.once('close', (code, signal) => finish({
+      type: 'exit',
+      exit_code: code,
+      signal,
+      timed_out: timedOut,
+      killed,
+      duration_ms: Date.now() - startedAt
+    }));
+  });
+
+  return { execId, stop: () => runningCommands.get(execId)?.stop(), done };
+}
+
+/**
+ * Stops a running command started in the given project
+ * @returns {boolean} false when no such command is running
+ */
+export function killCommand(execId, projectId) {
+  const entry = runningCommands.get(execId);
+  if (!entry || entry.projectId !== projectId) return false;
+  entry.stop();
+  return true;
+}
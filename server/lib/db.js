@@ -0,0 +1,267 @@
+import path from 'path';
+import Database from 'better-sqlite3';
+import { CONFIG_DIR } from '../config.js';
+
+export const DATABASE_FILE = path.join(CONFIG_DIR, 'claudia.db');
+
+const NOW = "(strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))";
+
+/**
+ * Schema migrations, applied in order and tracked with PRAGMA user_version.
+ * Append new entries; never edit one that has shipped.
+ */
+const MIGRATIONS = [
+  {
+    version: 1,
+    name: 'agents, agent runs and app settings',
+    sql: `
+      CREATE TABLE agents (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        icon TEXT NOT NULL,
+        system_prompt TEXT NOT NULL,
+        default_task TEXT,
+        model TEXT NOT NULL DEFAULT 'sonnet',
+        hooks TEXT,
+        created_at TEXT NOT NULL DEFAULT ${NOW},
+        updated_at TEXT NOT NULL DEFAULT ${NOW}
+      );
+
+      CREATE TABLE agent_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        agent_id INTEGER NOT NULL,
+        agent_name TEXT NOT NULL,
+        agent_icon TEXT NOT NULL,
+        task TEXT NOT NULL,
+        model TEXT NOT NULL,
+        project_path TEXT NOT NULL,
+        session_id TEXT NOT NULL DEFAULT '',
+        status TEXT NOT NULL DEFAULT 'pending',
+        pid INTEGER,
+        process_started_at TEXT,
+        created_at TEXT NOT NULL DEFAULT ${NOW},
+        completed_at TEXT,
+        FOREIGN KEY (agent_id) REFERENCES agents(id) ON DELETE CASCADE
+      );
+      CREATE INDEX idx_agent_runs_agent_id ON agent_runs(agent_id);
+      CREATE INDEX idx_agent_runs_status ON agent_runs(status);
+
+      CREATE TABLE app_settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT ${NOW},
+        updated_at TEXT NOT NULL DEFAULT ${NOW}
+      );
+
+      CREATE TRIGGER update_agent_timestamp AFTER UPDATE ON agents FOR EACH ROW
+      WHEN NEW.updated_at = OLD.updated_at
+      BEGIN
+        UPDATE agents SET updated_at = ${NOW} WHERE id = NEW.id;
+      END;
+
+      CREATE TRIGGER update_app_setting_timestamp AFTER UPDATE ON app_settings FOR EACH ROW
+      WHEN NEW.updated_at = OLD.updated_at
+      BEGIN
+        UPDATE app_settings SET updated_at = ${NOW} WHERE key = NEW.key;
+      END;
+    `
+  },
+  {
+    version: 2,
+    name: 'usage index',
+    sql: `
+      CREATE TABLE usage_entries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        source_file TEXT NOT NULL,
+        dedupe_key TEXT UNIQUE,
+        session_id TEXT NOT NULL,
+        project_path TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        model TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+        reported_cost REAL
+      );
+      CREATE INDEX idx_usage_entries_timestamp ON usage_entries(timestamp);
+      CREATE INDEX idx_usage_entries_source_file ON usage_entries(source_file);
+
+      CREATE TABLE usage_indexed_files (
+        file_path TEXT PRIMARY KEY,
+        indexed_bytes INTEGER NOT NULL DEFAULT 0
+      );
+    `
+  },
+  {
+    version: 3,
+    name: 'budgets',
+    sql: `
+      CREATE TABLE budgets (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        scope TEXT NOT NULL CHECK (scope IN ('project', 'model')),
+        target TEXT NOT NULL,
+        period TEXT NOT NULL CHECK (period IN ('daily', 'monthly')),
+        limit_usd REAL NOT NULL,
+        warn_percent INTEGER NOT NULL DEFAULT 80,
+        hard_stop INTEGER NOT NULL DEFAULT 0,
+        last_alert_level TEXT,
+        last_alert_period TEXT,
+        created_at TEXT NOT NULL DEFAULT ${NOW},
+        updated_at TEXT NOT NULL DEFAULT ${NOW}
+      );
+
+      CREATE TRIGGER update_budget_timestamp AFTER UPDATE ON budgets FOR EACH ROW
+      WHEN NEW.updated_at = OLD.updated_at
+      BEGIN
+        UPDATE budgets SET updated_at = ${NOW} WHERE id = NEW.id;
+      END;
+    `
+  },
+  {
+    version: 4,
+    name: 'agent run worktrees',
+    sql: `
+      ALTER TABLE agent_runs ADD COLUMN worktree_path TEXT;
+      ALTER TABLE agent_runs ADD COLUMN worktree_branch TEXT;
+      ALTER TABLE agent_runs ADD COLUMN base_commit TEXT;
+      ALTER TABLE agent_runs ADD COLUMN worktree_status TEXT
+        CHECK (worktree_status IN ('active', 'merged', 'discarded'));
+    `
+  },
+  {
+    version: 5,
+    name: 'mcp tool calls',
+    sql: `
+      CREATE TABLE mcp_tool_calls (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        server_name TEXT NOT NULL,
+        tool_name TEXT NOT NULL,
+        arguments TEXT NOT NULL DEFAULT '{}',
+        result TEXT,
+        is_error INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        duration_ms INTEGER,
+        created_at TEXT NOT NULL DEFAULT ${NOW}
+      );
+
+      CREATE INDEX idx_mcp_tool_calls_server ON mcp_tool_calls(server_name, id);
+    `
+  },
+  {
+    version: 6,
+    name: 'secrets vault',
+    sql: `
+      CREATE TABLE secrets (
+        name TEXT PRIMARY KEY,
+        iv TEXT NOT NULL,
+        auth_tag TEXT NOT NULL,
+        ciphertext TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT ${NOW},
+        updated_at TEXT NOT NULL DEFAULT ${NOW}
+      );
+
+      CREATE TRIGGER update_secret_timestamp AFTER UPDATE ON secrets FOR EACH ROW
+      WHEN NEW.updated_at = OLD.updated_at
+      BEGIN
+        UPDATE secrets SET updated_at = ${NOW} WHERE name = NEW.name;
+      END;
+
+      CREATE TABLE secrets_kdf (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        salt TEXT NOT NULL
+      );
+    `
+  }
+];
+
+/**
+ * Tables of the secrets vault (see secrets.js). They survive a database reset
+ * and are hidden from the storage browser, since the encrypted rows are only
+ * readable together with the salt.
+ */
+export const VAULT_TABLES = ['secrets', 'secrets_kdf'];
+
+let db = null;
+
+function runMigrations(database) {
+  const current = database.pragma('user_version', { simple: true });
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= current) continue;
+    database.transaction(() => {
+      database.exec(migration.sql);
+      database.pragma(`user_version = ${migration.version}`);
+    })();
+    console.log(`Applied database migration ${migration.version}: ${migration.name}`);
+  }
+}
+
+/**
+ * Opens the app database in the config directory and brings its schema up to date
+ */
+export function openDatabase(filePath = DATABASE_FILE) {
+  db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  runMigrations(db);
+  return db;
+}
+
+/**
+ * Returns the open database connection
+ */
+export function getDb() {
+  if (!db) {
+    throw new Error('Database has not been opened');
+  }
+  return db;
+}
+
+/**
+ * Drops every table and recreates the schema from scratch, keeping the
+ * contents of the vault tables
+ */
+export function resetDatabase() {
+  const database = getDb();
+  const objects = database
+    .prepare("SELECT type, name FROM sqlite_master WHERE name NOT LIKE 'sqlite_%' AND type IN ('table', 'view')")
+    .all();
+  const vaultRows = VAULT_TABLES.map(table => [table, database.prepare(`SELECT * FROM ${table}`).all()]);
+
+  database.pragma('foreign_keys = OFF');
+  database.transaction(() => {
+    for (const { type, name } of objects) {
+      database.exec(`DROP ${type.toUpperCase()} IF EXISTS "${name.replace(/"/g, '""')}"`);
+    }
+    database.pragma('user_version = 0');
+  })();
+  database.pragma('foreign_keys = ON');
+  runMigrations(database);
+
+  database.transaction(() => {
+    for (const [table, rows] of vaultRows) {
+      for (const row of rows) {
+        const columns = Object.keys(row);
+        database
+          .prepare(`INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`)
+          .run(columns.map(column => row[column]));
+      }
+    }
+  })();
+}
+
+/**
+ * Reads a value from the app_settings table
+ */
+export function getAppSetting(key) {
+  return getDb().prepare('SELECT value FROM app_settings WHERE key = ?').get(key)?.value ?? null;
+}
+
+/**
+ * Inserts or updates a value in the app_settings table
+ */
+export function setAppSetting(key, value) {
+  getDb()
+    .prepare('INSERT INTO app_settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value')
+    .run(key, value);
+}
@@ -0,0 +1,249 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import ignore from 'ignore';
+
+// Never listed or searched, whatever .gitignore says
+const ALWAYS_IGNORED = new Set(['.git']);
+
+// Skipped by search even when not ignored, since they dwarf the project
+const SEARCH_SKIPPED = new Set(['node_modules']);
+
+export const DEFAULT_SEARCH_LIMIT = 50;
+export const MAX_SEARCH_LIMIT = 500;
+
+// Bounds for one search, so a huge tree answers with what it found so far
+const MAX_SEARCH_ENTRIES = 50000;
+const SEARCH_TIME_BUDGET_MS = 3000;
+
+// .gitignore path -> { mtimeMs, matcher }
+const matcherCache = new Map();
+
+async function loadMatcher(file) {
+  let stats;
+  try {
+    stats = await fs.stat(file);
+  } catch {
+    matcherCache.delete(file);
+    return null;
+  }
+  const cached = matcherCache.get(file);
+  if (cached?.mtimeMs === stats.mtimeMs) return cached.matcher;
+
+  const matcher = ignore().add(await fs.readFile(file, 'utf-8'));
+  matcherCache.set(file, { mtimeMs: stats.mtimeMs, matcher });
+  return matcher;
+}
+
+/**
+ * Ignore rules that apply inside `dir`: those of `parentRules` plus the
+ * directory's own .gitignore (and .git/info/exclude at the project root)
+ */
+async function rulesFor(dir, parentRules, isRoot) {
+  const rules = [...parentRules];
+  const files = isRoot
+    ? [path.join(dir, '.git', 'info', 'exclude'), path.join(dir, '.gitignore')]
+    : [path.join(dir, '.gitignore')];
+  for (const file of files) {
+    const matcher = await loadMatcher(file);
+    if (matcher) rules.push({ base: dir, matcher });
+  }
+  return rules;
+}
+
+function isIgnored(rules, fullPath, isDirectory) {
+  if (ALWAYS_IGNORED.has(path.basename(fullPath))) return true;
+  for (const { base, matcher } of rules) {
+    const relative = path.relative(base, fullPath).split(path.sep).join('/');
+    if (matcher.ignores(isDirectory ? `${relative}/` : relative)) return true;
+  }
+  return false;
+}
+
+/**
+ * Rules for `dir`, collecting the .gitignore files from the project root down
+ */
+async function rulesForPath(root, dir) {
+  let rules = await rulesFor(root, [], true);
+  let current = root;
+  for (const segment of path.relative(root, dir).split(path.sep).filter(Boolean)) {
+    current = path.join(current, segment);
+    rules = await rulesFor(current, rules, false);
+  }
+  return rules;
+}
+
+async function entryInfo(fullPath, displayPath, isDirectory) {
+  const stats = isDirectory ? null : await fs.stat(fullPath).catch(() => null);
+  const name = path.basename(fullPath);
+  const extension = isDirectory ? '' : path.extname(name).slice(1);
+  return {
+    name,
+    path: displayPath,
+    is_directory: isDirectory,
+    size: stats?.size ?? 0,
+    ...(extension && { extension })
+  };
+}
+
+function isDirectoryEntry(dirent, fullPath) {
+  if (dirent.isDirectory()) return Promise.resolve(true);
+  // Symlinks are listed as what they point to, but never descended into
+  if (dirent.isSymbolicLink()) return fs.stat(fullPath).then(stats => stats.isDirectory(), () => false);
+  return Promise.resolve(false);
+}
+
+/**
+ * Lists a directory inside a project without the entries .gitignore excludes,
+ * directories first. `displayDir` is the path the caller asked for, so the
+ * returned paths keep the caller's spelling of the workspace location.
+ */
+export async function listDirectoryEntries({ root, dir, displayDir }) {
+  const [dirents, rules] = await Promise.all([
+    fs.readdir(dir, { withFileTypes: true }),
+    rulesForPath(root, dir)
+  ]);
+
+  const entries = await Promise.all(dirents.map(async dirent => {
+    const fullPath = path.join(dir, dirent.name);
+    const isDirectory = await isDirectoryEntry(dirent, fullPath);
+    if (isIgnored(rules, fullPath, isDirectory)) return null;
+    return entryInfo(fullPath, path.join(displayDir, dirent.name), isDirectory);
+  }));
+
+  return entries
+    .filter(Boolean)
+    .sort((a, b) => (a.is_directory === b.is_directory ? a.name.localeCompare(b.name) : a.is_directory ? -1 : 1));
+}
+
+function isBoundary(text, index) {
+  if (index === 0) return true;
+  const previous = text[index - 1];
+  if ('/\\_-. '.includes(previous)) return true;
+  // camelCase hump
+  return previous === previous.toLowerCase() && text[index] !== text[index].toLowerCase();
+}
+
+/**
+ * Scores `query` as an in-order subsequence of `text`, rewarding consecutive
+ * characters and matches at word boundaries; null when it does not match
+ */
+export function fuzzyScore(query, text) {
+  const lowerQuery = query.toLowerCase();
+  const lowerText = text.toLowerCase();
+  let score = 0;
+  let textIndex = 0;
+  let previousMatch = -2;
+
+  for (const char of lowerQuery) {
+    const found = lowerText.indexOf(char, textIndex);
+    if (found === -1) return null;
+    score += 1;
+    if (found === previousMatch + 1) score += 5;
+    if (isBoundary(text, found)) score += 8;
+    score -= Math.min(found - textIndex, 10) * 0.5;
+    previousMatch = found;
+    textIndex = found + 1;
+  }
+  return score;
+}
+
+/**
+ * Ranks an entry for a query: exact and prefix name matches first, then
+ * fuzzy name matches, then matches against the whole relative path. Shorter,
+ * shallower paths win ties.
+ */
+function rankEntry(query, name, relativePath) {
+  const lowerQuery = query.toLowerCase();
+  const lowerName = name.toLowerCase();
+  let score;
+
+  if (lowerName === lowerQuery) {
+    score = 1000;
+  } else if (lowerName.startsWith(lowerQuery)) {
+    score = 500;
+  } else if (lowerName.includes(lowerQuery)) {
+    score = 300;
+  } else {
+    const nameScore = query.includes('/') ? null : fuzzyScore(query, name);
+    const pathScore = fuzzyScore(query, relativePath);
+    if (nameScore === null && pathScore === null) return null;
+    score = Math.max(nameScore === null ? -Infinity : 100 + nameScore * 2, pathScore ?? -Infinity);
+  }
+
+  return score - relativePath.split('/').length - relativePath.length / 100;
+}
+
+/**
+ * Fuzzy-searches file and directory names below `dir`, skipping what
+ * .gitignore excludes. The walk is breadth-first and bounded in entries and
+ * time, so results on very large trees favour shallower files.
+ */
+export async function searchEntries({ root, dir, displayDir, query, limit = DEFAULT_SEARCH_LIMIT }) {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const startedAt = Date.now();
+  const matches = [];
+  const queue = [{ dir, rules: await rulesForPath(root, dir) }];
+  let visited = 0;
+
+  while (queue.length > 0 && visited < MAX_SEARCH_ENTRIES && Date.now() - startedAt < SEARCH_TIME_BUDGET_MS) {
+    const current = queue.shift();
+    const dirents = await fs.readdir(current.dir, { withFileTypes: true }).catch(() => []);
+
+    for (const dirent of dirents) {
+      visited += 1;
+      const fullPath = path.join(current.dir, dirent.name);
+      const isDirectory = dirent.isDirectory();
+      if (isIgnored(current.rules, fullPath, isDirectory)) continue;
+
+      const relativePath = path.relative(dir, fullPath).split(path.sep).join('/');
+      const score = rankEntry(trimmed, dirent.name, relativePath);
+      if (score !== null) {
+        matches.push({ fullPath, relativePath, isDirectory, score });
+      }
+
+      if (isDirectory && !SEARCH_SKIPPED.has(dirent.name)) {
+        queue.push({ dir: fullPath, rules: await rulesFor(fullPath, current.rules, false) });
+      }
+    }
+  }
+
+  matches.sort((a, b) => b.score - a.score);
+  return Promise.all(matches.slice(0, limit).map(match =>
+    entryInfo(match.fullPath, path.join(displayDir, match.relativePath), match.isDirectory)
+  ));
+}
+
+/**
+ * Lists the regular files below `root` that .gitignore does not exclude,
+ * skipping node_modules and not following symlinks. Stops after `maxFiles`.
+ * @returns {Promise<{ files: Array<{ fullPath: string, relativePath: string }>, truncated: boolean }>}
+ *   with `/`-separated relative paths
+ */
+export async function listProjectFiles(root, { maxFiles = Infinity } = {}) {
+  const files = [];
+  const queue = [{ dir: root, rules: await rulesFor(root, [], true) }];
+
+  while (queue.length > 0) {
+    const current = queue.shift();
+    const dirents = await fs.readdir(current.dir, { withFileTypes: true }).catch(() => []);
+
+    for (const dirent of dirents) {
+      const fullPath = path.join(current.dir, dirent.name);
+      const isDirectory = dirent.isDirectory();
+      if (!isDirectory && !dirent.isFile()) continue;
+      if (isIgnored(current.rules, fullPath, isDirectory)) continue;
+
+      if (isDirectory) {
+        if (!SEARCH_SKIPPED.has(dirent.name)) {
+          queue.push({ dir: fullPath, rules: await rulesFor(fullPath, current.rules, false) });
+        }
+      } else {
+        if (files.length >= maxFiles) return { files, truncated: true };
+        files.push({ fullPath, relativePath: path.relative(root, fullPath).split(path.sep).join('/') });
+      }
+    }
+  }
+  return { files, truncated: false };
+}
@@ -0,0 +1,81 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { fuzzyScore, listDirectoryEntries, listProjectFiles, searchEntries } from './fileSearch.js';
+
+describe('workspace listing and search', () => {
+  let root;
+
+  const write = async (relativePath, content = '') => {
+    await fs.mkdir(path.dirname(path.join(root, relativePath)), { recursive: true });
+    await fs.writeFile(path.join(root, relativePath), content);
+  };
+
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'claudia-search-test-'));
+    await write('.gitignore', 'dist/\n*.log\n');
+    await write('.git/HEAD', 'ref: refs/heads/main\n');
+    await write('README.md');
+    await write('debug.log');
+    await write('dist/bundle.js');
+    await write('src/.gitignore', 'generated.ts\n');
+    await write('src/generated.ts');
+    await write('src/components/Button.tsx');
+    await write('src/components/ButtonGroup.tsx');
+    await write('src/lib/buildUtils.ts');
+    await write('node_modules/pkg/Button.js');
+  });
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('lists directories first and leaves out ignored entries and .git', async () => {
+    const entries = await listDirectoryEntries({ root, dir: root, displayDir: '/display' });
+    assert.deepEqual(entries.map(entry => entry.name), ['node_modules', 'src', '.gitignore', 'README.md']);
+    assert.equal(entries[1].path, path.join('/display', 'src'));
+    assert.equal(entries[1].is_directory, true);
+  });
+
+  it('applies nested .gitignore files below their directory', async () => {
+    const entries = await listDirectoryEntries({ root, dir: path.join(root, 'src'), displayDir: '/display/src' });
+    assert.deepEqual(entries.map(entry => entry.name), ['components', 'lib', '.gitignore']);
+  });
+
+  it('ranks exact and prefix name matches above fuzzy ones', async () => {
+    const results = await searchEntries({ root, dir: root, displayDir: root, query: 'but' });
+    assert.deepEqual(results.map(entry => entry.name), ['Button.tsx', 'ButtonGroup.tsx', 'buildUtils.ts']);
+  });
+
+  it('skips ignored files and node_modules and respects the limit', async () => {
+    assert.deepEqual(await searchEntries({ root, dir: root, displayDir: root, query: 'generated' }), []);
+    assert.deepEqual(await searchEntries({ root, dir: root, displayDir: root, query: 'bundle' }), []);
+    assert.deepEqual(await searchEntries({ root, dir: root, displayDir: root, query: 'pkg' }), []);
+    assert.equal((await searchEntries({ root, dir: root, displayDir: root, query: 'button', limit: 1 })).length, 1);
+    assert.deepEqual(await searchEntries({ root, dir: root, displayDir: root, query: '   ' }), []);
+  });
+
+  it('scores in-order subsequences only', () => {
+    assert.ok(fuzzyScore('bt', 'ButtonGroup') > fuzzyScore('bt', 'aboutText'));
+    assert.equal(fuzzyScore('nb', 'Button'), null);
+  });
+
+  it('lists project files with posix paths and stops at the limit', async () => {
+    const { files, truncated } = await listProjectFiles(root);
+    assert.equal(truncated, false);
+    assert.deepEqual(files.map(file => file.relativePath).sort(), [
+      '.gitignore',
+      'README.md',
+      'src/.gitignore',
+      'src/components/Button.tsx',
+      'src/components/ButtonGroup.tsx',
+      'src/lib/buildUtils.ts'
+    ]);
+
+    const limited = await listProjectFiles(root, { maxFiles: 2 });
+    assert.equal(limited.files.length, 2);
+    assert.equal(limited.truncated, true);
+  });
+});
@@ -0,0 +1,205 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { watch, promises as fs } from 'fs';
+import { broadcastScoped } from '../events.js';
+
+// Never watched: huge, and changing constantly under installs and git commands
+const IGNORED_NAMES = new Set(['node_modules', '.git']);
+
+// Changes are collected until the tree is quiet for DEBOUNCE_MS, but sent at
+// least every MAX_DELAY_MS while it keeps changing
+const DEBOUNCE_MS = 250;
+const MAX_DELAY_MS = 2000;
+
+// Every directory needs its own inotify watch; stay well below the usual
+// per-user limit of 8192
+const MAX_WATCHED_DIRECTORIES = 4000;
+
+// Browsers renew their watch well within this; a closed tab's lease runs out
+export const WATCH_LEASE_MS = 90 * 1000;
+
+// Project ID -> { watcher, leases: Map<watchId, expiresAt> }
+const projects = new Map();
+
+/**
+ * Watches a project tree directory by directory and broadcasts batches of
+ * `{ type: 'create' | 'change' | 'delete', path, relative_path, is_directory }`
+ * on `file-change:<projectId>`. Paths are canonical, like those listed by the
+ * workspace router.
+ */
+function startWatcher(projectId, root) {
+  // Directory -> { watcher, names: Map<name, isDirectory> }
+  const directories = new Map();
+  const pending = new Set();
+  let timer = null;
+  let firstPendingAt = 0;
+  let flushing = Promise.resolve();
+  let closed = false;
+  let truncated = false;
+
+  const schedule = () => {
+    const now = Date.now();
+    clearTimeout(timer);
+    const delay = Math.min(DEBOUNCE_MS, Math.max(0, firstPendingAt + MAX_DELAY_MS - now));
+    timer = setTimeout(() => {
+      flushing = flushing.then(flush);
+    }, delay);
+  };
+
+  const queue = fullPath => {
+    if (closed || IGNORED_NAMES.has(path.basename(fullPath))) return;
+    if (pending.size === 0) firstPendingAt = Date.now();
+    pending.add(fullPath);
+    schedule();
+  };
+
+  const removeDirectory = dir => {
+    for (const [watched, entry] of directories) {
+      if (watched === dir || watched.startsWith(`${dir}${path.sep}`)) {
+        entry.watcher.close();
+        directories.delete(watched);
+      }
+    }
+  };
+
+  const addDirectory = async dir => {
+    if (closed || directories.has(dir)) return;
+    if (directories.size >= MAX_WATCHED_DIRECTORIES) {
+      if (!truncated) console.warn(`Project ${projectId} has over ${MAX_WATCHED_DIRECTORIES} directories; only part of it is watched`);
+      truncated = true;
+      return;
+    }
+
+    let watcher;
+    try {
+      // Without a file name the directory is rescanned as a whole
+      watcher = watch(dir, { persistent: false }, (eventType, filename) => {
+        if (filename) queue(path.join(dir, filename.toString()));
+        else rescan(dir);
+      });
+    } catch {
+      return;
+    }
+    watcher.on('error', () => removeDirectory(dir));
+    const entry = { watcher, names: new Map() };
+    directories.set(dir, entry);
+
+    const dirents = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+    for (const dirent of dirents) {
+      if (IGNORED_NAMES.has(dirent.name) || entry.names.has(dirent.name)) continue;
+      entry.names.set(dirent.name, dirent.isDirectory());
+      if (dirent.isDirectory()) await addDirectory(path.join(dir, dirent.name));
+    }
+  };
+
+  const rescan = async dir => {
+    const entry = directories.get(dir);
+    if (!entry) return;
+    const names = await fs.readdir(dir).catch(() => []);
+    for (const name of new Set([...entry.names.keys(), ...names])) {
+      queue(path.join(dir, name));
+    }
+  };
+
+  // Turns the queued paths into changes by comparing them with what each
+  // directory held before
+  async function flush() {
+    const fullPaths = [...pending];
+    pending.clear();
+    const changes = [];
+
+    for (const fullPath of fullPaths) {
+      const entry = directories.get(path.dirname(fullPath));
+      if (closed || !entry) continue;
+      const name = path.basename(fullPath);
+      const stats = await fs.lstat(fullPath).catch(() => null);
+      const known = entry.names.has(name);
+      const wasDirectory = entry.names.get(name);
+
+      let type;
+      if (!stats) {
+        // Temporary files created and removed within one batch are never seen
+        if (!known) continue;
+        entry.names.delete(name);
+        if (wasDirectory) removeDirectory(fullPath);
+        type = 'delete';
+      } else {
+        const isDirectory = stats.isDirectory();
+        entry.names.set(name, isDirectory);
+        if (known && wasDirectory !== isDirectory) {
+          if (wasDirectory) removeDirectory(fullPath);
+          type = 'create';
+        } else if (!known) {
+          type = 'create';
+        } else if (isDirectory) {
+          // Changes inside a directory are reported by its own watcher
+          continue;
+        } else {
+          type = 'change';
+        }
+        if (isDirectory && type === 'create') await addDirectory(fullPath);
+      }
+
+      changes.push({
+        type,
+        path: fullPath,
+        relative_path: path.relative(root, fullPath).split(path.sep).join('/'),
+        is_directory: stats ? stats.isDirectory() : Boolean(wasDirectory)
+      });
+    }
+
+    if (changes.length > 0 && !closed) {
+      broadcastScoped('file-change', projectId, { project_id: projectId, changes });
+    }
+  }
+
+  const ready = addDirectory(root);
+
+  return {
+    ready,
+    close() {
+      closed = true;
+      clearTimeout(timer);
+      removeDirectory(root);
+    }
+  };
+}
+
+/**
+ * Starts or renews a lease on a project's file watcher. The watcher runs
+ * while any lease is live; leases end with releaseProjectWatch or after
+ * WATCH_LEASE_MS without renewal.
+ * @param {string} root - Canonical project directory (see resolveProjectRoot)
+ * @returns {Promise<string>} the watch ID to renew or release
+ */
+export async function acquireProjectWatch(projectId, root, watchId) {
+  const id = typeof watchId === 'string' && /^[\w-]{1,64}$/.test(watchId) ? watchId : randomUUID();
+
+  let project = projects.get(projectId);
+  if (!project) {
+    project = { watcher: startWatcher(projectId, root), leases: new Map() };
+    projects.set(projectId, project);
+  }
+  project.leases.set(id, Date.now() + WATCH_LEASE_MS);
+  await project.watcher.ready;
+  return id;
+}
+
+export function releaseProjectWatch(projectId, watchId) {
+  const project = projects.get(projectId);
+  if (!project) return;
+  project.leases.delete(watchId);
+  if (project.leases.size === 0) {
+    project.watcher.close();
+    projects.delete(projectId);
+  }
+}
+
+setInterval(() => {
+  const now = Date.now();
+  for (const [projectId, project] of projects) {
+    for (const [watchId, expiresAt] of project.leases) {
+      if (expiresAt <= now) releaseProjectWatch(projectId, watchId);
+    }
+  }
+}, WATCH_LEASE_MS / 3).unref();
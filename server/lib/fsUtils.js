@@ -0,0 +1,37 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+
+/**
+ * Reads and parses a JSON file, returning `fallback` when it does not exist
+ */
+export async function readJsonFile(filePath, fallback = {}) {
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    return content.trim() ? JSON.parse(content) : fallback;
+  } catch (error) {
+    if (error.code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+/**
+ * Writes JSON atomically (temp file + rename) so readers never see partial files
+ */
+export async function writeJsonFile(filePath, data) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(data, null, 2) + '\n', 'utf-8');
+  await fs.rename(tmpPath, filePath);
+}
+
+/**
+ * Returns true when the path exists
+ */
+export async function pathExists(filePath) {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,295 @@
+import path from 'path';
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import { childProcessEnv } from '../config.js';
+import { CommandError } from '../invoke.js';
+
+export const GIT_ERRORS = {
+  NOT_A_REPOSITORY: 'NOT_A_REPOSITORY',
+  NOTHING_TO_COMMIT: 'NOTHING_TO_COMMIT',
+  INVALID_BRANCH: 'INVALID_BRANCH',
+  INVALID_URL: 'INVALID_URL',
+  MERGE_CONFLICT: 'MERGE_CONFLICT',
+  GIT_FAILED: 'GIT_FAILED'
+};
+
+const DEFAULT_GIT_TIMEOUT_MS = 60 * 1000;
+export const CLONE_TIMEOUT_MS = 10 * 60 * 1000;
+const MAX_GIT_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+// Diffs of larger files are not sent to the browser
+const MAX_DIFF_FILE_BYTES = 1024 * 1024;
+
+// Used for commits when git has no user configured, as in a fresh container
+const FALLBACK_IDENTITY = ['-c', 'user.name=Claudia', '-c', 'user.email=claudia@localhost'];
+
+// Remote URLs accepted for cloning: http(s), ssh and git URLs, and scp-style
+// `user@host:path`. Local paths and helper transports (ext::) are refused.
+const CLONE_URL = /^(?:(?:https?|ssh|git):\/\/[^\s]+|[\w.-]+@[\w.-]+:[^\s]+)$/;
+
+function toGitError(error, stderr) {
+  if (error.code === 'ENOENT') {
+    return new CommandError('git is not installed on the server', 500, GIT_ERRORS.GIT_FAILED);
+  }
+  if (error.killed) {
+    return new CommandError('git took too long and was stopped', 504, GIT_ERRORS.GIT_FAILED);
+  }
+  const message = stderr.trim() || error.message;
+  if (/not a git repository/i.test(message)) {
+    return new CommandError('Not a git repository', 400, GIT_ERRORS.NOT_A_REPOSITORY);
+  }
+  return new CommandError(message, 400, GIT_ERRORS.GIT_FAILED);
+}
+
+/**
+ * Runs git in `cwd` without a terminal, so credential prompts fail instead of
+ * hanging, and without taking optional locks that would contend with git
+ * commands run by Claude in the same repository.
+ * @returns {Promise<string | Buffer>} stdout, as a Buffer when `raw` is set
+ */
+export function runGit(cwd, args, { input, raw = false, timeoutMs = DEFAULT_GIT_TIMEOUT_MS } = {}) {
+  return new Promise((resolve, reject) => {
+    const child = execFile('git', args, {
+      cwd,
+      env: childProcessEnv({ GIT_TERMINAL_PROMPT: '0', GIT_OPTIONAL_LOCKS: '0' }),
+      encoding: 'buffer',
+      timeout: timeoutMs,
+      maxBuffer: MAX_GIT_OUTPUT_BYTES
+    }, (error, stdout, stderr) => {
+      if (error) {
+        reject(toGitError(error, stderr?.toString('utf8') ?? ''));
+      } else {
+        resolve(raw ? stdout : stdout.toString('utf8'));
+      }
+    });
+    child.stdin.end(input);
+  });
+}
+
+export async function hasHead(cwd) {
+  return runGit(cwd, ['rev-parse', '--verify', '--quiet', 'HEAD']).then(() => true, () => false);
+}
+
+/**
+ * Runs a git command that records an author (commit, merge), retrying with
+ * FALLBACK_IDENTITY when none is configured
+ */
+export function runGitAsAuthor(cwd, args, options) {
+  return runGit(cwd, args, options).catch(error => {
+    if (!/tell me who you are|unable to auto-detect email/i.test(error.message)) throw error;
+    return runGit(cwd, [...FALLBACK_IDENTITY, ...args], options);
+  });
+}
+
+/**
+ * Branch and changed files of the repository containing `cwd`, limited to
+ * `cwd`. Paths are relative to `cwd` (git prints them relative to the
+ * repository root, so they are mapped back when `cwd` is a subdirectory; the
+ * original path of a file moved in from elsewhere starts with `../`).
+ * Statuses are git's letters (M, A, D, R, C, T, U) or null when that side is
+ * unchanged.
+ */
+export async function gitStatus(cwd) {
+  let output;
+  let prefix;
+  try {
+    output = await runGit(cwd, ['status', '--porcelain=v2', '--branch', '-z', '--untracked-files=all', '--', '.']);
+    prefix = (await runGit(cwd, ['rev-parse', '--show-prefix'])).trim();
+  } catch (error) {
+    if (error.code === GIT_ERRORS.NOT_A_REPOSITORY) return { is_repository: false };
+    throw error;
+  }
+
+  const status = { is_repository: true, branch: null, commit: null, upstream: null, ahead: 0, behind: 0, files: [] };
+  const records = output.split('\0');
+  const side = letter => (letter === '.' ? null : letter);
+  const relative = repoPath => (prefix ? path.posix.relative(prefix, repoPath) : repoPath);
+
+  for (let index = 0; index < records.length; index += 1) {
+    const record = records[index];
+    const fields = record.split(' ');
+    switch (fields[0]) {
+      case '#':
+        if (fields[1] === 'branch.oid' && fields[2] !== '(initial)') status.commit = fields[2];
+        if (fields[1] === 'branch.head' && fields[2] !== '(detached)') status.branch = fields[2];
+        if (fields[1] === 'branch.upstream') status.upstream = fields[2];
+        if (fields[1] === 'branch.ab') {
+          status.ahead = Number(fields[2]);
+          status.behind = Math.abs(Number(fields[3]));
+        }
+        break;
+      case '1':
+        status.files.push({ path: relative(fields.slice(8).join(' ')), index: side(fields[1][0]), working_tree: side(fields[1][1]), conflicted: false });
+        break;
+      case '2':
+        // Renames and copies are followed by the original path
+        status.files.push({
+          path: relative(fields.slice(9).join(' ')),
+          original_path: relative(records[++index]),
+          index: side(fields[1][0]),
+          working_tree: side(fields[1][1]),
+          conflicted: false
+        });
+        break;
+      case 'u':
+        status.files.push({ path: relative(fields.slice(10).join(' ')), index: 'U', working_tree: 'U', conflicted: true });
+        break;
+      case '?':
+        status.files.push({ path: relative(record.slice(2)), index: null, working_tree: '?', conflicted: false });
+        break;
+      default:
+        break;
+    }
+  }
+  return status;
+}
+
+async function blobAt(cwd, spec) {
+  return runGit(cwd, ['show', spec], { raw: true }).catch(() => null);
+}
+
+function diffSide(content) {
+  if (content === null) return { content: '', binary: false, too_large: false };
+  if (content.length > MAX_DIFF_FILE_BYTES) return { content: null, binary: false, too_large: true };
+  if (content.subarray(0, 8000).includes(0)) return { content: null, binary: true, too_large: false };
+  return { content: content.toString('utf8'), binary: false, too_large: false };
+}
+
+/**
+ * Old and new content of a changed file: HEAD against the index when
+ * `staged`, otherwise the index against the working tree, or commit `base`
+ * against the working tree when given. A side that does not exist (added or
+ * deleted files) is empty.
+ */
+export async function gitDiff(cwd, filePath, { staged = false, base = null, originalPath = filePath } = {}) {
+  let before;
+  if (base) before = await blobAt(cwd, `${base}:./${originalPath}`);
+  else if (staged) before = await blobAt(cwd, `HEAD:./${originalPath}`);
+  else before = await blobAt(cwd, `:./${filePath}`);
+  const after = staged && !base
+    ? await blobAt(cwd, `:./${filePath}`)
+    : await fs.readFile(path.join(cwd, filePath)).catch(() => null);
+
+  const oldSide = diffSide(before);
+  const newSide = diffSide(after);
+  return {
+    path: filePath,
+    old_content: oldSide.content,
+    new_content: newSide.content,
+    binary: oldSide.binary || newSide.binary,
+    too_large: oldSide.too_large || newSide.too_large
+  };
+}
+
+/**
+ * Most recent commits first
+ */
+export async function gitLog(cwd, { limit = 50, skip = 0 } = {}) {
+  if (!(await hasHead(cwd))) return [];
+  const format = ['%H', '%h', '%an', '%ae', '%at', '%D', '%s'].join('%x1f') + '%x1e';
+  const output = await runGit(cwd, ['log', `--max-count=${limit}`, `--skip=${skip}`, `--format=${format}`, '--']);
+  return output.split('\x1e').map(record => record.trim()).filter(Boolean).map(record => {
+    const [hash, shortHash, authorName, authorEmail, time, refs, subject] = record.split('\x1f');
+    return {
+      hash,
+      short_hash: shortHash,
+      author_name: authorName,
+      author_email: authorEmail,
+      date: Number(time) * 1000,
+      refs: refs ? refs.split(', ') : [],
+      subject
+    };
+  });
+}
+
+/**
+ * Local branches, then remote-tracking ones
+ */
+export async function gitBranches(cwd) {
+  const format = ['%(refname)', '%(refname:short)', '%(objectname:short)', '%(upstream:short)', '%(HEAD)', '%(committerdate:unix)'].join('%00');
+  const output = await runGit(cwd, ['for-each-ref', `--format=${format}`, 'refs/heads', 'refs/remotes']);
+  return output.split('\n').filter(Boolean).map(line => {
+    const [ref, name, commit, upstream, head, time] = line.split('\0');
+    return {
+      name,
+      remote: ref.startsWith('refs/remotes/'),
+      current: head === '*',
+      commit,
+      upstream: upstream || null,
+      updated_at: Number(time) * 1000
+    };
+  }).filter(branch => !(branch.remote && branch.name.endsWith('/HEAD')));
+}
+
+/**
+ * Switches to a branch, creating it from HEAD when `create` is set. A branch
+ * that only exists on a remote is checked out as a new tracking branch. Local
+ * changes are kept; git refuses the switch if they would be overwritten.
+ */
+export async function gitCheckout(cwd, branch, { create = false } = {}) {
+  if (typeof branch !== 'string' || !branch || branch.startsWith('-')) {
+    throw new CommandError(`Invalid branch name: ${branch}`, 400, GIT_ERRORS.INVALID_BRANCH);
+  }
+  await runGit(cwd, ['check-ref-format', '--branch', branch]).catch(() => {
+    throw new CommandError(`Invalid branch name: ${branch}`, 400, GIT_ERRORS.INVALID_BRANCH);
+  });
+  await runGit(cwd, create ? ['switch', '--create', branch] : ['switch', branch]);
+}
+
+/**
+ * Stages paths (relative to `cwd`), including deletions; everything when
+ * `paths` is empty
+ */
+export async function gitStage(cwd, paths) {
+  await runGit(cwd, ['add', '--all', '--', ...(paths.length > 0 ? paths : ['.'])]);
+}
+
+export async function gitUnstage(cwd, paths) {
+  const pathspec = paths.length > 0 ? paths : ['.'];
+  // Before the first commit there is no HEAD to reset the index to
+  if (await hasHead(cwd)) {
+    await runGit(cwd, ['reset', '--quiet', '--', ...pathspec]);
+  } else {
+    await runGit(cwd, ['rm', '--cached', '-r', '--quiet', '--', ...pathspec]);
+  }
+}
+
+/**
+ * Commits what is staged
+ * @returns {Promise<{ hash: string, short_hash: string, subject: string }>}
+ */
+export async function gitCommit(cwd, message) {
+  if (typeof message !== 'string' || !message.trim()) {
+    throw new CommandError('A commit message is required');
+  }
+  const hasStagedChanges = await runGit(cwd, ['diff', '--cached', '--quiet']).then(() => false, () => true);
+  if (!hasStagedChanges) {
+    throw new CommandError('Nothing is staged to commit', 409, GIT_ERRORS.NOTHING_TO_COMMIT);
+  }
+
+  await runGitAsAuthor(cwd, ['commit', '--file=-'], { input: message });
+
+  const [commitLine] = await gitLog(cwd, { limit: 1 });
+  return { hash: commitLine.hash, short_hash: commitLine.short_hash, subject: commitLine.subject };
+}
+
+/**
+ * Project name for a clone: the last segment of the URL without `.git`
+ */
+export function repositoryName(url) {
+  return url.replace(/\/+$/, '').split(/[/:]/).pop().replace(/\.git$/, '');
+}
+
+export function assertCloneUrl(url) {
+  if (typeof url !== 'string' || !CLONE_URL.test(url.trim())) {
+    throw new CommandError(`Not a repository URL: ${url}`, 400, GIT_ERRORS.INVALID_URL);
+  }
+}
+
+/**
+ * Clones a remote repository into `target`, which must not exist yet
+ */
+export async function cloneRepository(url, target) {
+  assertCloneUrl(url);
+  await runGit(path.dirname(target), ['clone', '--', url.trim(), target], { timeoutMs: CLONE_TIMEOUT_MS });
+}
@@ -0,0 +1,58 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { gitDiff, gitStage, gitStatus, runGit } from './git.js';
+
+const IDENTITY = ['-c', 'user.name=Test', '-c', 'user.email=test@example.com'];
+
+describe('gitStatus in a project nested inside a larger repository', () => {
+  let repo;
+  let project;
+
+  before(async () => {
+    repo = await fs.mkdtemp(path.join(os.tmpdir(), 'claudia-git-test-'));
+    project = path.join(repo, 'packages', 'app');
+    await fs.mkdir(path.join(project, 'src'), { recursive: true });
+    await fs.writeFile(path.join(repo, 'README.md'), 'root\n');
+    await fs.writeFile(path.join(project, 'src', 'index.js'), 'one\n');
+    await fs.writeFile(path.join(project, 'old.js'), 'moved\n');
+    await runGit(repo, ['init', '--quiet']);
+    await runGit(repo, ['add', '--all']);
+    await runGit(repo, [...IDENTITY, 'commit', '--quiet', '-m', 'initial']);
+
+    await fs.writeFile(path.join(repo, 'README.md'), 'root changed\n');
+    await fs.writeFile(path.join(project, 'src', 'index.js'), 'two\n');
+    await fs.writeFile(path.join(project, 'new file.txt'), 'new\n');
+    await runGit(project, ['mv', 'old.js', 'renamed.js']);
+  });
+
+  after(async () => {
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  it('reports paths relative to the project and leaves out changes outside it', async () => {
+    const status = await gitStatus(project);
+    const paths = status.files.map(file => file.path).sort();
+    assert.deepEqual(paths, ['new file.txt', 'renamed.js', 'src/index.js']);
+
+    const renamed = status.files.find(file => file.path === 'renamed.js');
+    assert.equal(renamed.original_path, 'old.js');
+    assert.equal(renamed.index, 'R');
+  });
+
+  it('returns paths that diff and stage resolve inside the project', async () => {
+    const { files } = await gitStatus(project);
+    const modified = files.find(file => file.path === 'src/index.js');
+
+    const diff = await gitDiff(project, modified.path);
+    assert.equal(diff.old_content, 'one\n');
+    assert.equal(diff.new_content, 'two\n');
+
+    await gitStage(project, [modified.path]);
+    const staged = (await gitStatus(project)).files.find(file => file.path === 'src/index.js');
+    assert.equal(staged.index, 'M');
+    assert.equal(staged.working_tree, null);
+  });
+});
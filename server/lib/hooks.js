@@ -0,0 +1,120 @@
+import path from 'path';
+import { spawn } from 'child_process';
+import { CLAUDE_SETTINGS_FILE, HOME_DIR, childProcessEnv } from '../config.js';
+import { CommandError } from '../invoke.js';
+import { readJsonFile } from './fsUtils.js';
+import { hookSecretEnv, toStoredHookCommand } from './secrets.js';
+
+// Same default as the Claude CLI for hooks without an explicit timeout
+const DEFAULT_HOOK_TIMEOUT_SECONDS = 60;
+
+/**
+ * Resolves the settings file that holds hooks for a scope
+ */
+export function settingsFileForScope(scope, projectPath) {
+  if (scope === 'user') {
+    return CLAUDE_SETTINGS_FILE;
+  }
+  if (scope !== 'project' && scope !== 'local') {
+    throw new CommandError(`Invalid hooks scope: ${scope}`);
+  }
+  if (!projectPath) {
+    throw new CommandError(`projectPath is required for ${scope} scope`);
+  }
+  const fileName = scope === 'project' ? 'settings.json' : 'settings.local.json';
+  return path.join(projectPath, '.claude', fileName);
+}
+
+/**
+ * Copy of a hooks config with `fn` applied to every hook command, e.g. to
+ * convert secret references between their stored and displayed forms
+ */
+export function mapHookCommands(hooks, fn) {
+  if (!hooks || typeof hooks !== 'object') return hooks;
+  return Object.fromEntries(Object.entries(hooks).map(([eventName, matchers]) => [
+    eventName,
+    Array.isArray(matchers)
+      ? matchers.map(matcher => ({
+        ...matcher,
+        hooks: Array.isArray(matcher?.hooks)
+          ? matcher.hooks.map(hook => (typeof hook?.command === 'string' ? { ...hook, command: fn(hook.command) } : hook))
+          : matcher?.hooks
+      }))
+      : matchers
+  ]));
+}
+
+/**
+ * Every command hook in a hooks config
+ */
+export function listHookCommands(hooks) {
+  return Object.values(hooks || {})
+    .flatMap(matchers => (Array.isArray(matchers) ? matchers : []))
+    .flatMap(matcher => (Array.isArray(matcher?.hooks) ? matcher.hooks : []))
+    .filter(hook => hook?.type === 'command' && typeof hook.command === 'string')
+    .map(hook => hook.command);
+}
+
+function runHookCommand(command, input, cwd, timeoutSeconds) {
+  return new Promise(resolve => {
+    let secretEnv;
+    try {
+      secretEnv = hookSecretEnv([command]);
+    } catch (error) {
+      console.error(`Hook command skipped: ${error.message}`);
+      resolve();
+      return;
+    }
+    const child = spawn('bash', ['-c', toStoredHookCommand(command)], {
+      cwd,
+      env: childProcessEnv(secretEnv),
+      stdio: ['pipe', 'ignore', 'pipe'],
+      timeout: timeoutSeconds * 1000
+    });
+
+    let stderr = '';
+    child.stderr.on('data', data => {
+      stderr += data.toString();
+    });
+    child.on('error', error => {
+      console.error(`Hook command failed to start: ${command}`, error);
+      resolve();
+    });
+    child.on('close', code => {
+      if (code !== 0) {
+        console.error(`Hook command exited with ${code}: ${command}${stderr ? `\n${stderr.trim()}` : ''}`);
+      }
+      resolve();
+    });
+
+    child.stdin.on('error', () => {
+      // The hook may exit without reading its input
+    });
+    child.stdin.end(JSON.stringify(input));
+  });
+}
+
+/**
+ * Runs the command hooks configured for an event in the user settings and,
+ * when a project is given, its project and local settings. Hooks receive the
+ * event input as JSON on stdin, like hooks run by the Claude CLI; failures are
+ * logged and never thrown.
+ * @param {string} eventName e.g. 'Notification'
+ * @param {object} input fields added to `{ hook_event_name, cwd }`
+ * @param {string} [projectPath]
+ */
+export async function runHookEvent(eventName, input, projectPath) {
+  const scopes = projectPath ? ['user', 'project', 'local'] : ['user'];
+  const cwd = projectPath || HOME_DIR;
+  const payload = { session_id: '', transcript_path: '', cwd, hook_event_name: eventName, ...input };
+
+  for (const scope of scopes) {
+    const settings = await readJsonFile(settingsFileForScope(scope, projectPath), {}).catch(() => ({}));
+    for (const matcher of settings.hooks?.[eventName] || []) {
+      for (const hook of matcher.hooks || []) {
+        if (hook.type !== 'command' || !hook.command) continue;
+        await runHookCommand(hook.command, payload, cwd, hook.timeout || DEFAULT_HOOK_TIMEOUT_SECONDS);
+      }
+    }
+  }
+}
@@ -0,0 +1,408 @@
+import { spawn } from 'child_process';
+import readline from 'readline';
+import { childProcessEnv } from '../config.js';
+import { MCP_SCOPE_DIR } from './mcpConfig.js';
+import { signalProcessTree } from './processRegistry.js';
+import { resolveSecretMap } from './secrets.js';
+
+export const MCP_PROTOCOL_VERSION = '2025-03-26';
+
+const CLIENT_INFO = { name: 'claudia', version: '1.0.0' };
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+// Grace period between SIGTERM and SIGKILL when stopping a stdio server
+const KILL_GRACE_MS = 2000;
+
+// Tail of a stdio server's stderr kept for error messages
+const MAX_STDERR_CHARS = 2000;
+
+// Upper bound on pages fetched by the list methods
+const MAX_LIST_PAGES = 20;
+
+function withTimeout(promise, ms, label) {
+  let timer;
+  const timeout = new Promise((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${Math.round(ms / 1000)}s`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Reads a Server-Sent Events body, calling `onEvent({ event, data })` per
+ * event. Reading stops early when `onEvent` returns false.
+ */
+async function readSseStream(body, onEvent) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = 'message';
+  let data = [];
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let match;
+    while ((match = /\r\n|\r|\n/.exec(buffer))) {
+      // A trailing \r may be the first half of \r\n
+      if (match[0] === '\r' && match.index === buffer.length - 1) break;
+      const line = buffer.slice(0, match.index);
+      buffer = buffer.slice(match.index + match[0].length);
+
+      if (line === '') {
+        if (data.length > 0 && onEvent({ event, data: data.join('\n') }) === false) return;
+        event = 'message';
+        data = [];
+        continue;
+      }
+      if (line.startsWith(':')) continue;
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      let value = colon === -1 ? '' : line.slice(colon + 1);
+      if (value.startsWith(' ')) value = value.slice(1);
+      if (field === 'event') event = value;
+      else if (field === 'data') data.push(value);
+    }
+  }
+}
+
+async function httpError(response) {
+  const body = await response.text().catch(() => '');
+  const detail = body.trim().slice(0, 300);
+  return new Error(`HTTP ${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`);
+}
+
+/**
+ * Child process speaking newline-delimited JSON-RPC over stdin/stdout
+ */
+function createStdioTransport(server) {
+  let child = null;
+  let stderr = '';
+
+  return {
+    async start(onMessage, onClose) {
+      child = spawn(server.command, server.args || [], {
+        cwd: MCP_SCOPE_DIR,
+        env: childProcessEnv(server.env),
+        detached: true,
+        stdio: ['pipe', 'pipe', 'pipe']
+      });
+
+      readline.createInterface({ input: child.stdout }).on('line', line => {
+        if (!line.trim()) return;
+        let message;
+        try {
+          message = JSON.parse(line);
+        } catch {
+          // Some servers log to stdout; anything that isn't JSON-RPC is ignored
+          return;
+        }
+        onMessage(message);
+      });
+      child.stderr.on('data', data => {
+        stderr = (stderr + data).slice(-MAX_STDERR_CHARS);
+      });
+      child.stdin.on('error', () => {});
+      child.on('exit', (code, signal) => {
+        const reason = signal ? `was killed by ${signal}` : `exited with code ${code}`;
+        const tail = stderr.trim().split('\n').slice(-5).join('\n');
+        onClose(new Error(`Server process ${reason}${tail ? `: ${tail}` : ''}`));
+      });
+
+      await new Promise((resolve, reject) => {
+        child.once('spawn', resolve);
+        child.once('error', error => reject(new Error(`Failed to start ${server.command}: ${error.message}`)));
+      });
+    },
+
+    async send(message) {
+      child.stdin.write(`${JSON.stringify(message)}\n`);
+    },
+
+    async close() {
+      if (!child || child.exitCode !== null || child.signalCode !== null || !child.pid) return;
+      child.stdin.end();
+      signalProcessTree(child.pid, 'SIGTERM');
+      const target = child;
+      setTimeout(() => {
+        if (target.exitCode === null && target.signalCode === null) signalProcessTree(target.pid, 'SIGKILL');
+      }, KILL_GRACE_MS).unref();
+    }
+  };
+}
+
+/**
+ * Streamable HTTP: every message is POSTed to the endpoint, and responses come
+ * back either as JSON or as an event stream on that same request
+ */
+function createHttpTransport(server) {
+  let onMessage = null;
+  let sessionId = null;
+  const controllers = new Set();
+
+  const transport = {
+    protocolVersion: null,
+
+    async start(handler) {
+      onMessage = handler;
+    },
+
+    async send(message) {
+      const controller = new AbortController();
+      controllers.add(controller);
+      try {
+        const response = await fetch(server.url, {
+          method: 'POST',
+          headers: {
+            ...server.headers,
+            'content-type': 'application/json',
+            accept: 'application/json, text/event-stream',
+            ...(sessionId && { 'mcp-session-id': sessionId }),
+            ...(transport.protocolVersion && { 'mcp-protocol-version': transport.protocolVersion })
+          },
+          body: JSON.stringify(message),
+          signal: controller.signal
+        });
+        sessionId = response.headers.get('mcp-session-id') || sessionId;
+        if (!response.ok) throw await httpError(response);
+
+        const contentType = response.headers.get('content-type') || '';
+        if (response.status === 202 || !('id' in message)) {
+          await response.body?.cancel();
+        } else if (contentType.includes('text/event-stream')) {
+          await readSseStream(response.body, ({ data }) => {
+            const reply = JSON.parse(data);
+            onMessage(reply);
+            return reply.id !== message.id || 'method' in reply;
+          });
+        } else {
+          const body = await response.json();
+          for (const reply of Array.isArray(body) ? body : [body]) onMessage(reply);
+        }
+      } finally {
+        controllers.delete(controller);
+      }
+    },
+
+    async close() {
+      for (const controller of controllers) controller.abort();
+      if (sessionId) {
+        await fetch(server.url, {
+          method: 'DELETE',
+          headers: { ...server.headers, 'mcp-session-id': sessionId },
+          signal: AbortSignal.timeout(2000)
+        }).catch(() => {});
+      }
+    }
+  };
+  return transport;
+}
+
+/**
+ * HTTP+SSE (the older remote transport): replies arrive on a long-lived event
+ * stream, which first announces the endpoint messages are POSTed to
+ */
+function createSseTransport(server) {
+  const controller = new AbortController();
+  let endpoint = null;
+
+  return {
+    async start(onMessage, onClose) {
+      const response = await fetch(server.url, {
+        headers: { ...server.headers, accept: 'text/event-stream' },
+        signal: controller.signal
+      });
+      if (!response.ok) throw await httpError(response);
+
+      await new Promise((resolve, reject) => {
+        readSseStream(response.body, ({ event, data }) => {
+          if (event === 'endpoint') {
+            endpoint = new URL(data, server.url).toString();
+            resolve();
+          } else if (event === 'message') {
+            try {
+              onMessage(JSON.parse(data));
+            } catch {
+              // Not JSON-RPC
+            }
+          }
+        }).then(
+          () => {
+            const error = new Error('Event stream closed by the server');
+            reject(error);
+            onClose(error);
+          },
+          error => {
+            reject(error);
+            onClose(error);
+          }
+        );
+      });
+    },
+
+    async send(message) {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { ...server.headers, 'content-type': 'application/json' },
+        body: JSON.stringify(message),
+        signal: controller.signal
+      });
+      if (!response.ok) throw await httpError(response);
+      await response.body?.cancel();
+    },
+
+    async close() {
+      controller.abort();
+    }
+  };
+}
+
+function createTransport(configured) {
+  // Secret references are resolved here and only kept by the transport
+  const server = {
+    ...configured,
+    env: resolveSecretMap(configured.env),
+    headers: resolveSecretMap(configured.headers)
+  };
+  switch (server.transport) {
+    case 'stdio':
+      return createStdioTransport(server);
+    case 'sse':
+      return createSseTransport(server);
+    case 'http':
+      return createHttpTransport(server);
+    default:
+      throw new Error(`Unsupported transport: ${server.transport}`);
+  }
+}
+
+/**
+ * Minimal MCP client over any of the three transports: performs the
+ * initialize handshake and sends JSON-RPC requests to a configured server
+ * (in the MCPServer shape returned by toMcpServer)
+ */
+export class McpClient {
+  constructor(server, { timeoutMs = DEFAULT_TIMEOUT_MS } = {}) {
+    this.server = server;
+    this.timeoutMs = timeoutMs;
+    this.transport = createTransport(server);
+    this.pending = new Map();
+    this.nextId = 1;
+    this.closed = false;
+    this.closeError = null;
+    this.serverInfo = null;
+    this.capabilities = {};
+    this.protocolVersion = null;
+  }
+
+  /**
+   * Opens the transport and completes the initialize handshake
+   */
+  async connect() {
+    await withTimeout(
+      this.transport.start(message => this.handleMessage(message), error => this.handleClose(error)),
+      this.timeoutMs,
+      'Connecting'
+    );
+    const result = await this.request('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO
+    });
+    this.serverInfo = result.serverInfo || null;
+    this.capabilities = result.capabilities || {};
+    this.protocolVersion = result.protocolVersion || null;
+    this.transport.protocolVersion = this.protocolVersion;
+    await this.notify('notifications/initialized');
+    return result;
+  }
+
+  request(method, params, timeoutMs = this.timeoutMs) {
+    if (this.closed) {
+      return Promise.reject(this.closeError || new Error('Connection is closed'));
+    }
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`${method} timed out after ${Math.round(timeoutMs / 1000)}s`));
+      }, timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+      this.transport
+        .send({ jsonrpc: '2.0', id, method, ...(params && { params }) })
+        .catch(error => this.settle(id, { error }));
+    });
+  }
+
+  notify(method, params) {
+    return this.transport.send({ jsonrpc: '2.0', method, ...(params && { params }) });
+  }
+
+  /**
+   * Fetches every page of a list method (tools/list, resources/list, ...)
+   */
+  async listAll(method, key) {
+    const items = [];
+    let cursor;
+    for (let page = 0; page < MAX_LIST_PAGES; page++) {
+      const result = await this.request(method, cursor ? { cursor } : undefined);
+      items.push(...(result?.[key] || []));
+      cursor = result?.nextCursor;
+      if (!cursor) break;
+    }
+    return items;
+  }
+
+  settle(id, { result, error }) {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+    this.pending.delete(id);
+    clearTimeout(entry.timer);
+    if (error) entry.reject(error);
+    else entry.resolve(result);
+  }
+
+  handleMessage(message) {
+    if (message.method) {
+      // Requests from the server; only ping is answered
+      if ('id' in message) {
+        const reply = message.method === 'ping'
+          ? { jsonrpc: '2.0', id: message.id, result: {} }
+          : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } };
+        this.transport.send(reply).catch(() => {});
+      }
+      return;
+    }
+    if (message.error) {
+      const error = new Error(message.error.message || 'Request failed');
+      error.code = message.error.code;
+      error.data = message.error.data;
+      this.settle(message.id, { error });
+    } else {
+      this.settle(message.id, { result: message.result });
+    }
+  }
+
+  handleClose(error) {
+    if (this.closed) return;
+    this.closed = true;
+    this.closeError = error;
+    for (const id of [...this.pending.keys()]) this.settle(id, { error });
+  }
+
+  async close() {
+    this.handleClose(new Error('Connection is closed'));
+    await this.transport.close();
+  }
+}
+
+/**
+ * Connects to a server, runs `fn` with the client, and always disconnects
+ */
+export async function withMcpClient(server, fn, options) {
+  const client = new McpClient(server, options);
+  try {
+    await client.connect();
+    return await fn(client);
+  } finally {
+    await client.close().catch(() => {});
+  }
+}
@@ -0,0 +1,110 @@
+import path from 'path';
+import { CLAUDE_JSON_FILE, HOME_DIR } from '../config.js';
+import { readJsonFile, writeJsonFile } from './fsUtils.js';
+
+export const MCP_SCOPES = ['local', 'project', 'user'];
+
+// Directory the local and project scopes are keyed to, matching a CLI run
+// from the server user's home directory
+export const MCP_SCOPE_DIR = HOME_DIR;
+
+/**
+ * Reads the mcpServers map for a scope
+ */
+export async function readScopeServers(scope, projectPath = MCP_SCOPE_DIR) {
+  switch (scope) {
+    case 'user': {
+      const config = await readJsonFile(CLAUDE_JSON_FILE, {});
+      return config.mcpServers || {};
+    }
+    case 'local': {
+      const config = await readJsonFile(CLAUDE_JSON_FILE, {});
+      return config.projects?.[projectPath]?.mcpServers || {};
+    }
+    case 'project': {
+      const config = await readJsonFile(path.join(projectPath, '.mcp.json'), {});
+      return config.mcpServers || {};
+    }
+    default:
+      throw new Error(`Unknown MCP scope: ${scope}`);
+  }
+}
+
+/**
+ * Replaces the mcpServers map for a scope
+ */
+export async function writeScopeServers(scope, servers, projectPath = MCP_SCOPE_DIR) {
+  switch (scope) {
+    case 'user': {
+      const config = await readJsonFile(CLAUDE_JSON_FILE, {});
+      config.mcpServers = servers;
+      await writeJsonFile(CLAUDE_JSON_FILE, config);
+      break;
+    }
+    case 'local': {
+      const config = await readJsonFile(CLAUDE_JSON_FILE, {});
+      config.projects = config.projects || {};
+      config.projects[projectPath] = { ...config.projects[projectPath], mcpServers: servers };
+      await writeJsonFile(CLAUDE_JSON_FILE, config);
+      break;
+    }
+    case 'project': {
+      const configPath = path.join(projectPath, '.mcp.json');
+      const config = await readJsonFile(configPath, {});
+      config.mcpServers = servers;
+      await writeJsonFile(configPath, config);
+      break;
+    }
+    default:
+      throw new Error(`Unknown MCP scope: ${scope}`);
+  }
+}
+
+/**
+ * Converts a stored server config into the MCPServer shape used by the UI
+ */
+export function toMcpServer(name, config, scope) {
+  const transport = config.type || (config.url ? 'sse' : 'stdio');
+  return {
+    name,
+    transport,
+    command: config.command,
+    args: config.args || [],
+    env: config.env || {},
+    url: config.url,
+    headers: config.headers || {},
+    scope,
+    is_active: false,
+    status: { running: false }
+  };
+}
+
+/**
+ * Lists servers from every scope; local overrides project overrides user
+ */
+export async function listMcpServers() {
+  const servers = [];
+  const seen = new Set();
+  for (const scope of MCP_SCOPES) {
+    const scopeServers = await readScopeServers(scope);
+    for (const [name, config] of Object.entries(scopeServers)) {
+      if (seen.has(name)) continue;
+      seen.add(name);
+      servers.push(toMcpServer(name, config, scope));
+    }
+  }
+  return servers;
+}
+
+/**
+ * Finds a server by name, honouring scope precedence
+ */
+export async function findMcpServer(name) {
+  for (const scope of MCP_SCOPES) {
+    const scopeServers = await readScopeServers(scope);
+    if (scopeServers[name]) {
+      return { scope, config: scopeServers[name] };
+    }
+  }
+  return null;
+}
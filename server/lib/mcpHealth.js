@@ -0,0 +1,122 @@
+import { broadcast } from '../events.js';
+import { listMcpServers } from './mcpConfig.js';
+import { McpClient } from './mcpClient.js';
+import { maskSecretValues } from './secrets.js';
+
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+// Per check; covers starting the server, the handshake and each list request
+const CHECK_TIMEOUT_MS = 30 * 1000;
+
+// Server name -> { fingerprint, status }
+const statuses = new Map();
+
+// Server name -> promise of the check in progress
+const checksInFlight = new Map();
+
+let checkAllInFlight = null;
+
+// A status only applies to the configuration it was taken with
+function fingerprint(server) {
+  return JSON.stringify([server.transport, server.command, server.args, server.env, server.url, server.headers]);
+}
+
+function setStatus(server, status) {
+  statuses.set(server.name, { fingerprint: fingerprint(server), status });
+  broadcast('mcp-status', { name: server.name, status });
+}
+
+async function probe(server) {
+  const client = new McpClient(server, { timeoutMs: CHECK_TIMEOUT_MS });
+  const startedAt = Date.now();
+  try {
+    await client.connect();
+    const startupMs = Date.now() - startedAt;
+
+    // Ping is optional for servers in practice, so a failure isn't fatal
+    const pingStartedAt = Date.now();
+    const latencyMs = await client.request('ping').then(() => Date.now() - pingStartedAt, () => undefined);
+
+    const { tools, resources, prompts } = client.capabilities;
+    return {
+      running: true,
+      last_checked: Date.now(),
+      latency_ms: latencyMs,
+      startup_ms: startupMs,
+      protocol_version: client.protocolVersion,
+      server_info: client.serverInfo,
+      tools: tools ? await client.listAll('tools/list', 'tools') : [],
+      resources: resources ? await client.listAll('resources/list', 'resources') : [],
+      prompts: prompts ? await client.listAll('prompts/list', 'prompts') : []
+    };
+  } finally {
+    await client.close().catch(() => {});
+  }
+}
+
+/**
+ * Last known status of a server, or undefined when it hasn't been checked
+ * since it was added or its configuration changed
+ */
+export function getServerStatus(server) {
+  const entry = statuses.get(server.name);
+  return entry && entry.fingerprint === fingerprint(server) ? entry.status : undefined;
+}
+
+/**
+ * Starts the server, performs the initialize handshake and lists its tools,
+ * resources and prompts. The result is kept as the server's status and sent
+ * to clients as an mcp-status event; concurrent checks of a server share one
+ * run.
+ */
+export function checkServer(server) {
+  if (!checksInFlight.has(server.name)) {
+    const previous = getServerStatus(server);
+    setStatus(server, { ...(previous || { running: false }), checking: true });
+
+    const check = probe(server)
+      .catch(error => ({ running: false, last_checked: Date.now(), error: maskSecretValues(error.message) }))
+      .then(status => {
+        setStatus(server, status);
+        return status;
+      })
+      .finally(() => checksInFlight.delete(server.name));
+    checksInFlight.set(server.name, check);
+  }
+  return checksInFlight.get(server.name);
+}
+
+/**
+ * Checks every configured server one at a time and drops statuses of servers
+ * that are no longer configured
+ */
+export function checkAllServers() {
+  if (!checkAllInFlight) {
+    checkAllInFlight = (async () => {
+      const servers = await listMcpServers();
+      const names = new Set(servers.map(server => server.name));
+      for (const name of statuses.keys()) {
+        if (!names.has(name)) statuses.delete(name);
+      }
+      for (const server of servers) {
+        await checkServer(server);
+      }
+    })().finally(() => {
+      checkAllInFlight = null;
+    });
+  }
+  return checkAllInFlight;
+}
+
+export function forgetServerStatus(name) {
+  statuses.delete(name);
+}
+
+/**
+ * Re-checks all servers periodically so their status stays current
+ */
+export function startMcpHealthMonitor() {
+  const check = () => checkAllServers().catch(error => console.error('MCP health check failed:', error));
+  check();
+  setInterval(check, CHECK_INTERVAL_MS).unref();
+}
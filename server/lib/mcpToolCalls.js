@@ -0,0 +1,94 @@
+import { getDb } from './db.js';
+import { withMcpClient } from './mcpClient.js';
+import { maskSecretValues } from './secrets.js';
+
+// Covers starting the server and the call itself
+const TOOL_CALL_TIMEOUT_MS = 2 * 60 * 1000;
+
+// History is trimmed to the most recent calls
+const MAX_TOOL_CALLS = 500;
+
+// Results larger than this are returned but not kept in the history
+const MAX_STORED_RESULT_BYTES = 1024 * 1024;
+
+function parseJson(text, fallback) {
+  if (text === null || text === undefined) return fallback;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Tool call row in the shape returned to the UI
+ */
+export function toToolCall(row) {
+  return {
+    id: row.id,
+    server_name: row.server_name,
+    tool_name: row.tool_name,
+    arguments: parseJson(row.arguments, {}),
+    result: parseJson(row.result, null),
+    is_error: row.is_error === 1,
+    error: row.error,
+    duration_ms: row.duration_ms,
+    created_at: row.created_at
+  };
+}
+
+function storedResult(result) {
+  if (result === undefined) return null;
+  const json = JSON.stringify(result);
+  if (Buffer.byteLength(json) <= MAX_STORED_RESULT_BYTES) return json;
+  return JSON.stringify({
+    content: [{ type: 'text', text: `Result too large to keep in history (${Math.round(Buffer.byteLength(json) / 1024)} KB)` }],
+    isError: result?.isError === true
+  });
+}
+
+/**
+ * Connects to a server, calls one of its tools and records the call. Failures
+ * to connect or JSON-RPC errors are recorded too, with `error` set, rather
+ * than thrown.
+ * @param {object} server - Server in the MCPServer shape
+ * @returns {Promise<object>} the recorded call, with the full result
+ */
+export async function callMcpTool(server, toolName, args) {
+  const startedAt = Date.now();
+  let result;
+  let error = null;
+  try {
+    result = await withMcpClient(
+      server,
+      client => client.request('tools/call', { name: toolName, arguments: args }),
+      { timeoutMs: TOOL_CALL_TIMEOUT_MS }
+    );
+  } catch (callError) {
+    error = maskSecretValues(callError.message);
+  }
+  const durationMs = Date.now() - startedAt;
+  const isError = error !== null || result?.isError === true;
+
+  const db = getDb();
+  const { lastInsertRowid } = db
+    .prepare(`INSERT INTO mcp_tool_calls (server_name, tool_name, arguments, result, is_error, error, duration_ms)
+              VALUES (?, ?, ?, ?, ?, ?, ?)`)
+    .run(server.name, toolName, JSON.stringify(args), storedResult(result), isError ? 1 : 0, error, durationMs);
+  db.prepare(`DELETE FROM mcp_tool_calls WHERE id NOT IN
+              (SELECT id FROM mcp_tool_calls ORDER BY id DESC LIMIT ?)`).run(MAX_TOOL_CALLS);
+
+  const row = db.prepare('SELECT * FROM mcp_tool_calls WHERE id = ?').get(lastInsertRowid);
+  return { ...toToolCall(row), result: result ?? null };
+}
+
+/**
+ * Recorded calls, newest first, optionally for one server only
+ */
+export function listToolCalls(serverName, limit = 100) {
+  const db = getDb();
+  const rows = serverName
+    ? db.prepare('SELECT * FROM mcp_tool_calls WHERE server_name = ? ORDER BY id DESC LIMIT ?').all(serverName, limit)
+    : db.prepare('SELECT * FROM mcp_tool_calls ORDER BY id DESC LIMIT ?').all(limit);
+  return rows.map(toToolCall);
+}
@@ -0,0 +1,29 @@
+// USD per million tokens: input, output, cache write (5m), cache read.
+// Matched in order against the model ID, so more specific entries come first.
+const MODEL_PRICING = [
+  { match: 'opus-4-5', input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  { match: 'opus-4', input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  { match: '3-opus', input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  { match: 'sonnet-4', input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  { match: '3-7-sonnet', input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  { match: '3-5-sonnet', input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  { match: 'haiku-4-5', input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  { match: '3-5-haiku', input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  { match: '3-haiku', input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 }
+];
+
+/**
+ * Estimates the USD cost of a usage block from the model price table
+ * @param {string} model
+ * @param {{ input_tokens: number, output_tokens: number, cache_write_tokens: number, cache_read_tokens: number }} usage
+ */
+export function calculateCost(model, usage) {
+  const pricing = MODEL_PRICING.find(price => model.includes(price.match));
+  if (!pricing) return 0;
+  return (
+    usage.input_tokens * pricing.input +
+    usage.output_tokens * pricing.output +
+    usage.cache_write_tokens * pricing.cacheWrite +
+    usage.cache_read_tokens * pricing.cacheRead
+  ) / 1_000_000;
+}
@@ -0,0 +1,134 @@
+// How long a SIGINT'd process gets to exit before it is SIGKILLed
+const KILL_GRACE_MS = 5000;
+
+// Output retained per process for reattaching browsers
+const MAX_OUTPUT_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Line buffer that drops the oldest lines once `maxBytes` is exceeded
+ */
+export class OutputRingBuffer {
+  constructor(maxBytes = MAX_OUTPUT_BYTES) {
+    this.maxBytes = maxBytes;
+    this.lines = [];
+    this.bytes = 0;
+  }
+
+  push(line) {
+    this.lines.push(line);
+    this.bytes += Buffer.byteLength(line);
+    while (this.bytes > this.maxBytes && this.lines.length > 1) {
+      this.bytes -= Buffer.byteLength(this.lines.shift());
+    }
+  }
+
+  toString() {
+    return this.lines.join('\n');
+  }
+}
+
+/**
+ * Signals a child spawned with `detached: true` together with its descendants
+ */
+export function signalProcessTree(pid, signal) {
+  try {
+    // Children are spawned detached, so -pid addresses the whole group
+    process.kill(-pid, signal);
+  } catch {
+    try {
+      process.kill(pid, signal);
+    } catch {
+      // Already exited
+    }
+  }
+}
+
+/**
+ * Tracks running Claude processes by key (session ID or run key)
+ */
+class ProcessRegistry {
+  constructor() {
+    this.processes = new Map();
+    this.nextRunId = 1;
+  }
+
+  /**
+   * Registers a spawned child; it is removed automatically when it exits.
+   * Agent runs pass their database run ID; other processes get a counter value.
+   * @param {{ key: string, child: import('child_process').ChildProcess, processType: object, projectPath: string, task: string, model: string, runId?: number }} options
+   */
+  register({ key, child, processType, projectPath, task, model, runId }) {
+    const entry = {
+      key,
+      runId: runId ?? this.nextRunId++,
+      child,
+      processType,
+      projectPath,
+      task,
+      model,
+      startedAt: new Date().toISOString(),
+      output: new OutputRingBuffer(),
+      exited: new Promise(resolve => child.once('close', resolve))
+    };
+    this.processes.set(key, entry);
+    entry.exited.then(() => {
+      if (this.processes.get(entry.key) === entry) {
+        this.processes.delete(entry.key);
+      }
+    });
+    return entry;
+  }
+
+  /**
+   * Moves an entry to a new key, e.g. once the CLI reports its session ID
+   */
+  rekey(oldKey, newKey, processType) {
+    const entry = this.processes.get(oldKey);
+    if (!entry || oldKey === newKey) return entry;
+    this.processes.delete(oldKey);
+    entry.key = newKey;
+    if (processType) entry.processType = processType;
+    this.processes.set(newKey, entry);
+    return entry;
+  }
+
+  get(key) {
+    return this.processes.get(key) || null;
+  }
+
+  list() {
+    return [...this.processes.values()];
+  }
+
+  /**
+   * Interrupts a process with SIGINT, escalating to SIGKILL after a grace period
+   * @returns {Promise<boolean>} false when nothing was running under the key
+   */
+  async kill(key) {
+    const entry = this.processes.get(key);
+    if (!entry) return false;
+
+    signalProcessTree(entry.child.pid, 'SIGINT');
+    const timer = setTimeout(() => signalProcessTree(entry.child.pid, 'SIGKILL'), KILL_GRACE_MS);
+    await entry.exited;
+    clearTimeout(timer);
+    return true;
+  }
+
+  /**
+   * ProcessInfo shape consumed by the UI
+   */
+  toProcessInfo(entry) {
+    return {
+      run_id: entry.runId,
+      process_type: entry.processType,
+      pid: entry.child.pid,
+      started_at: entry.startedAt,
+      project_path: entry.projectPath,
+      task: entry.task,
+      model: entry.model
+    };
+  }
+}
+
+export const processRegistry = new ProcessRegistry();
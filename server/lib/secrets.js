@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import { SECRETS_MASTER_KEY } from '../config.js';
+import { CommandError } from '../invoke.js';
+import { getDb } from './db.js';
+
+// Same rules as environment variable names, so a secret can become one
+const SECRET_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// `${secret:NAME}` in MCP server env and headers, settings env and hooks
+const SECRET_REFERENCE = /\$\{secret:([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+// Hook commands are run by a shell, including by the Claude CLI which knows
+// nothing about the vault, so references in them are stored as variables
+// that are set from the vault when the shell or the CLI is started
+const HOOK_SECRET_PREFIX = 'CLAUDIA_SECRET_';
+const HOOK_SECRET_VARIABLE = /\$\{CLAUDIA_SECRET_([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+// Values shorter than this are too likely to appear by chance to be masked
+const MIN_MASKED_LENGTH = 4;
+
+// Key derived from the master key, and the salt it was derived with
+let derivedKey = null;
+
+export function secretsEnabled() {
+  return SECRETS_MASTER_KEY !== '';
+}
+
+function encryptionKey() {
+  if (!secretsEnabled()) {
+    throw new CommandError('Secrets are disabled: set SECRETS_MASTER_KEY in the server environment to use them');
+  }
+  // The salt is random and created with the first secret
+  const db = getDb();
+  let salt = db.prepare('SELECT salt FROM secrets_kdf WHERE id = 1').pluck().get();
+  if (!salt) {
+    salt = crypto.randomBytes(16).toString('base64');
+    db.prepare('INSERT INTO secrets_kdf (id, salt) VALUES (1, ?)').run(salt);
+  }
+  if (derivedKey?.salt !== salt) {
+    derivedKey = { salt, key: crypto.scryptSync(SECRETS_MASTER_KEY, Buffer.from(salt, 'base64'), 32) };
+  }
+  return derivedKey.key;
+}
+
+/**
+ * Drops the cached encryption key, e.g. after the database was reset
+ */
+export function forgetEncryptionKey() {
+  derivedKey = null;
+}
+
+function validateName(name) {
+  if (typeof name !== 'string' || !SECRET_NAME_PATTERN.test(name)) {
+    throw new CommandError('Secret names may only contain letters, digits and underscores, and may not start with a digit');
+  }
+}
+
+// The name is authenticated with the value, so rows can't be swapped
+function decryptRow(row) {
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), Buffer.from(row.iv, 'base64'));
+    decipher.setAAD(Buffer.from(row.name));
+    decipher.setAuthTag(Buffer.from(row.auth_tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(row.ciphertext, 'base64')), decipher.final()]).toString('utf8');
+  } catch (error) {
+    if (error instanceof CommandError) throw error;
+    throw new CommandError(`Secret ${row.name} could not be decrypted; SECRETS_MASTER_KEY may have changed since it was stored`, 500);
+  }
+}
+
+/**
+ * Stored secrets without their values, in the shape returned to the UI
+ */
+export function listSecrets() {
+  return getDb()
+    .prepare('SELECT name, created_at, updated_at FROM secrets ORDER BY name')
+    .all();
+}
+
+/**
+ * Encrypts and stores a secret, replacing any value it had
+ */
+export function setSecret(name, value) {
+  validateName(name);
+  if (typeof value !== 'string' || value === '') {
+    throw new CommandError('Secret value is required');
+  }
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  cipher.setAAD(Buffer.from(name));
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  getDb()
+    .prepare(`INSERT INTO secrets (name, iv, auth_tag, ciphertext) VALUES (?, ?, ?, ?)
+              ON CONFLICT(name) DO UPDATE SET iv = excluded.iv, auth_tag = excluded.auth_tag, ciphertext = excluded.ciphertext`)
+    .run(name, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64'));
+}
+
+export function deleteSecret(name) {
+  const { changes } = getDb().prepare('DELETE FROM secrets WHERE name = ?').run(name);
+  if (changes === 0) {
+    throw new CommandError(`Secret not found: ${name}`, 404);
+  }
+}
+
+function getSecretValue(name) {
+  const row = getDb().prepare('SELECT * FROM secrets WHERE name = ?').get(name);
+  if (!row) {
+    throw new CommandError(`Secret not found: ${name}`, 404);
+  }
+  return decryptRow(row);
+}
+
+/**
+ * Whether a string, or any string value of an object, references a secret
+ */
+export function hasSecretReferences(value) {
+  if (typeof value === 'string') return new RegExp(SECRET_REFERENCE.source).test(value);
+  return Object.values(value || {}).some(hasSecretReferences);
+}
+
+/**
+ * Replaces the `${secret:NAME}` references in a string with the secrets'
+ * values. Only meant for what is handed to a process being started; resolved
+ * values must never be written back to a config file or sent to the UI.
+ */
+export function resolveSecretReferences(text) {
+  if (typeof text !== 'string' || !hasSecretReferences(text)) return text;
+  return text.replace(SECRET_REFERENCE, (_, name) => getSecretValue(name));
+}
+
+/**
+ * Copy of a string map (env or headers) with its references resolved
+ */
+export function resolveSecretMap(values) {
+  return Object.fromEntries(
+    Object.entries(values || {}).map(([key, value]) => [key, resolveSecretReferences(value)])
+  );
+}
+
+/**
+ * Converts the references in a hook command to the variables it is stored with
+ */
+export function toStoredHookCommand(command) {
+  return typeof command === 'string'
+    ? command.replace(SECRET_REFERENCE, (_, name) => `\${${HOOK_SECRET_PREFIX}${name}}`)
+    : command;
+}
+
+/**
+ * Converts the variables in a stored hook command back to references
+ */
+export function fromStoredHookCommand(command) {
+  return typeof command === 'string'
+    ? command.replace(HOOK_SECRET_VARIABLE, (_, name) => `\${secret:${name}}`)
+    : command;
+}
+
+/**
+ * Environment variables a shell running these hook commands needs for the
+ * secrets they reference, in either form
+ */
+export function hookSecretEnv(commands) {
+  const env = {};
+  for (const command of commands) {
+    const stored = toStoredHookCommand(command);
+    for (const [, name] of stored.matchAll(HOOK_SECRET_VARIABLE)) {
+      env[`${HOOK_SECRET_PREFIX}${name}`] ??= getSecretValue(name);
+    }
+  }
+  return env;
+}
+
+/**
+ * Replaces any secret value appearing in text (e.g. a server's stderr) with
+ * its reference
+ */
+export function maskSecretValues(text) {
+  if (typeof text !== 'string' || !secretsEnabled()) return text;
+  let masked = text;
+  for (const row of getDb().prepare('SELECT * FROM secrets').all()) {
+    let value;
+    try {
+      value = decryptRow(row);
+    } catch {
+      continue;
+    }
+    if (value.length >= MIN_MASKED_LENGTH) {
+      masked = masked.split(value).join(`\${secret:${row.name}}`);
+    }
+  }
+  return masked;
+}
@@ -0,0 +1,87 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+// config.js reads the master key when it is first imported
+process.env.SECRETS_MASTER_KEY = 'test master key';
+const { getDb, openDatabase, resetDatabase } = await import('./db.js');
+const {
+  deleteSecret,
+  forgetEncryptionKey,
+  fromStoredHookCommand,
+  hookSecretEnv,
+  listSecrets,
+  maskSecretValues,
+  resolveSecretMap,
+  resolveSecretReferences,
+  setSecret,
+  toStoredHookCommand
+} = await import('./secrets.js');
+
+describe('secrets vault', () => {
+  let dir;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'claudia-secrets-test-'));
+    openDatabase(path.join(dir, 'claudia.db'));
+    setSecret('API_TOKEN', 'tok-123456');
+    setSecret('PIN', '42');
+  });
+
+  after(async () => {
+    getDb().close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('stores values encrypted and lists secrets without them', () => {
+    assert.deepEqual(listSecrets().map(secret => Object.keys(secret).sort()), [
+      ['created_at', 'name', 'updated_at'],
+      ['created_at', 'name', 'updated_at']
+    ]);
+    const row = getDb().prepare("SELECT * FROM secrets WHERE name = 'API_TOKEN'").get();
+    assert.ok(!Buffer.from(row.ciphertext, 'base64').toString('utf8').includes('tok-123456'));
+  });
+
+  it('resolves references in strings and maps', () => {
+    assert.equal(resolveSecretReferences('Bearer ${secret:API_TOKEN}'), 'Bearer tok-123456');
+    assert.equal(resolveSecretReferences('no references'), 'no references');
+    assert.deepEqual(resolveSecretMap({ TOKEN: '${secret:API_TOKEN}', PLAIN: 'x' }), { TOKEN: 'tok-123456', PLAIN: 'x' });
+    assert.throws(() => resolveSecretReferences('${secret:MISSING}'), error => error.status === 404);
+  });
+
+  it('validates names and values', () => {
+    assert.throws(() => setSecret('1BAD', 'value'), error => error.status === 400);
+    assert.throws(() => setSecret('BAD-NAME', 'value'), error => error.status === 400);
+    assert.throws(() => setSecret('EMPTY', ''), error => error.status === 400);
+  });
+
+  it('refuses to decrypt a value moved to another name', () => {
+    setSecret('OTHER', 'other-value');
+    const source = getDb().prepare("SELECT iv, auth_tag, ciphertext FROM secrets WHERE name = 'API_TOKEN'").get();
+    getDb()
+      .prepare("UPDATE secrets SET iv = ?, auth_tag = ?, ciphertext = ? WHERE name = 'OTHER'")
+      .run(source.iv, source.auth_tag, source.ciphertext);
+    assert.throws(() => resolveSecretReferences('${secret:OTHER}'), error => error.status === 500);
+    deleteSecret('OTHER');
+  });
+
+  it('masks stored values in text, except ones too short to mask', () => {
+    assert.equal(maskSecretValues('token tok-123456, pin 42'), 'token ${secret:API_TOKEN}, pin 42');
+  });
+
+  it('stores hook references as variables and sets them from the vault', () => {
+    const stored = toStoredHookCommand('curl -H "Authorization: ${secret:API_TOKEN}" x');
+    assert.equal(stored, 'curl -H "Authorization: ${CLAUDIA_SECRET_API_TOKEN}" x');
+    assert.equal(fromStoredHookCommand(stored), 'curl -H "Authorization: ${secret:API_TOKEN}" x');
+    assert.deepEqual(hookSecretEnv([stored]), { CLAUDIA_SECRET_API_TOKEN: 'tok-123456' });
+  });
+
+  it('keeps secrets readable across a database reset', () => {
+    resetDatabase();
+    forgetEncryptionKey();
+    assert.deepEqual(listSecrets().map(secret => secret.name), ['API_TOKEN', 'PIN']);
+    assert.equal(resolveSecretReferences('${secret:API_TOKEN}'), 'tok-123456');
+  });
+});
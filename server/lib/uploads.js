@@ -0,0 +1,165 @@
+import path from 'path';
+import crypto from 'crypto';
+import { createWriteStream, promises as fs } from 'fs';
+import { pipeline } from 'stream/promises';
+import busboy from 'busboy';
+import { MAX_UPLOAD_BYTES, TEMP_UPLOADS_DIR } from '../config.js';
+import { CommandError } from '../invoke.js';
+import { toPathError, PATH_ERRORS } from './workspacePaths.js';
+
+export const UPLOAD_ERRORS = {
+  FILE_TOO_LARGE: 'FILE_TOO_LARGE',
+  INVALID_UPLOAD: 'INVALID_UPLOAD'
+};
+
+// What to do when an uploaded file's destination already exists
+export const UPLOAD_CONFLICTS = ['error', 'overwrite', 'rename'];
+
+const MAX_UPLOAD_FILES = 10000;
+
+// Uploads outside any project are removed after this long
+const TEMP_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+async function exists(fullPath) {
+  return fs.lstat(fullPath).then(() => true, () => false);
+}
+
+// "photo.png" -> "photo (1).png", "photo (2).png", ...
+async function freeName(fullPath) {
+  const { dir, name, ext } = path.parse(fullPath);
+  for (let index = 1; ; index += 1) {
+    const candidate = path.join(dir, `${name} (${index})${ext}`);
+    if (!(await exists(candidate))) return candidate;
+  }
+}
+
+/**
+ * Receives a multipart/form-data upload. `resolveTarget(filename)` maps each
+ * file part's filename (which may contain directories, so a dropped folder
+ * keeps its structure) to its destination, or throws to reject it. Files are
+ * streamed to temporary names next to their destination and only moved into
+ * place once the whole request arrived, so a failed or rejected upload leaves
+ * existing files unchanged (apart from new directories).
+ * @param {{ resolveTarget: (filename: string) => Promise<string>, conflict?: 'error' | 'overwrite' | 'rename' }} options
+ * @returns {Promise<string[]>} full paths of the stored files, in upload order
+ */
+export async function receiveUpload(req, { resolveTarget, conflict = 'error' }) {
+  let parser;
+  try {
+    parser = busboy({
+      headers: req.headers,
+      preservePath: true,
+      limits: { fileSize: MAX_UPLOAD_BYTES, files: MAX_UPLOAD_FILES }
+    });
+  } catch (error) {
+    throw new CommandError(`Expected a multipart upload: ${error.message}`, 400, UPLOAD_ERRORS.INVALID_UPLOAD);
+  }
+
+  const pending = [];
+  let failure = null;
+  const fail = error => {
+    failure ??= error;
+  };
+
+  const receiveFile = async (stream, filename) => {
+    // Once the upload has failed, the rest is only drained
+    if (failure) return stream.resume();
+
+    const requested = filename.replace(/\\/g, '/');
+    const entry = { temporary: null, fullPath: null, requested };
+    pending.push(entry);
+    try {
+      if (!requested) {
+        throw new CommandError('Uploaded files need a file name', 400, PATH_ERRORS.INVALID_PATH);
+      }
+      const fullPath = await resolveTarget(requested);
+      entry.fullPath = fullPath;
+      await fs.mkdir(path.dirname(fullPath), { recursive: true });
+
+      entry.temporary = path.join(path.dirname(fullPath), `.${path.basename(fullPath)}.${crypto.randomBytes(6).toString('hex')}.upload`);
+      await pipeline(stream, createWriteStream(entry.temporary, { flags: 'wx' }));
+      if (stream.truncated) {
+        throw new CommandError(
+          `${filename} is larger than the ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)}MB upload limit`,
+          413,
+          UPLOAD_ERRORS.FILE_TOO_LARGE
+        );
+      }
+    } catch (error) {
+      stream.resume();
+      fail(toPathError(error, requested));
+    }
+  };
+
+  const received = new Promise((resolve, reject) => {
+    const files = [];
+    parser.on('file', (name, stream, info) => files.push(receiveFile(stream, info.filename || '')));
+    parser.on('filesLimit', () => fail(new CommandError(
+      `At most ${MAX_UPLOAD_FILES} files can be uploaded at once`,
+      413,
+      UPLOAD_ERRORS.INVALID_UPLOAD
+    )));
+    parser.on('error', error => reject(new CommandError(`Malformed upload: ${error.message}`, 400, UPLOAD_ERRORS.INVALID_UPLOAD)));
+    parser.on('close', () => Promise.all(files).then(resolve, reject));
+    req.on('close', () => {
+      if (!req.complete) reject(new CommandError('Upload was interrupted', 400, UPLOAD_ERRORS.INVALID_UPLOAD));
+    });
+    req.pipe(parser);
+  });
+
+  const discard = () => Promise.all(pending.map(entry => entry.temporary && fs.rm(entry.temporary, { force: true })));
+
+  try {
+    await received;
+    if (failure) throw failure;
+    if (pending.length === 0) {
+      throw new CommandError('No files were uploaded', 400, UPLOAD_ERRORS.INVALID_UPLOAD);
+    }
+
+    if (conflict === 'error') {
+      for (const entry of pending) {
+        if (await exists(entry.fullPath)) {
+          throw new CommandError(`Already exists: ${entry.requested}`, 409, PATH_ERRORS.ALREADY_EXISTS);
+        }
+      }
+    }
+
+    const stored = [];
+    for (const entry of pending) {
+      const destination = conflict === 'rename' && await exists(entry.fullPath)
+        ? await freeName(entry.fullPath)
+        : entry.fullPath;
+      await fs.rename(entry.temporary, destination).catch(error => {
+        throw toPathError(error, entry.requested);
+      });
+      entry.temporary = null;
+      stored.push(destination);
+    }
+    return stored;
+  } catch (error) {
+    await discard();
+    throw error;
+  }
+}
+
+/**
+ * Directory for one upload that does not belong to a project (e.g. an agent
+ * file to import); see pruneTemporaryUploads
+ */
+export function createTemporaryUploadDir() {
+  return path.join(TEMP_UPLOADS_DIR, `${Date.now()}-${crypto.randomBytes(6).toString('hex')}`);
+}
+
+/**
+ * Removes temporary upload directories older than a day
+ */
+export async function pruneTemporaryUploads() {
+  const entries = await fs.readdir(TEMP_UPLOADS_DIR).catch(() => []);
+  const cutoff = Date.now() - TEMP_UPLOAD_TTL_MS;
+  for (const name of entries) {
+    const createdAt = Number(name.split('-')[0]);
+    if (createdAt && createdAt < cutoff) {
+      await fs.rm(path.join(TEMP_UPLOADS_DIR, name), { recursive: true, force: true });
+    }
+  }
+}
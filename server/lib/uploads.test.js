@@ -0,0 +1,97 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { CommandError } from '../invoke.js';
+import { receiveUpload } from './uploads.js';
+
+describe('receiveUpload conflict modes', () => {
+  let dir;
+  let server;
+  let baseUrl;
+
+  before(async () => {
+    // Stores the files under `dir`, answering with their names or the error
+    server = http.createServer(async (req, res) => {
+      const conflict = new URL(req.url, 'http://localhost').searchParams.get('conflict');
+      try {
+        const stored = await receiveUpload(req, {
+          conflict,
+          resolveTarget: async filename => {
+            if (filename.includes('..')) throw new CommandError(`Rejected: ${filename}`, 403);
+            return path.join(dir, filename);
+          }
+        });
+        res.end(JSON.stringify({ stored: stored.map(file => path.relative(dir, file)) }));
+      } catch (error) {
+        res.statusCode = error.status || 500;
+        res.end(JSON.stringify({ error: error.message }));
+      }
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'claudia-upload-test-'));
+    await fs.writeFile(path.join(dir, 'a.txt'), 'original');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  const upload = async (conflict, files) => {
+    const form = new FormData();
+    for (const [name, content] of Object.entries(files)) {
+      form.append('files', new Blob([content]), name);
+    }
+    const response = await fetch(`${baseUrl}/?conflict=${conflict}`, { method: 'POST', body: form });
+    return { status: response.status, body: await response.json() };
+  };
+
+  const read = name => fs.readFile(path.join(dir, name), 'utf-8');
+  const listDir = async () => (await fs.readdir(dir, { recursive: true })).sort();
+
+  it('refuses the whole upload when any file exists in error mode', async () => {
+    const { status } = await upload('error', { 'b.txt': 'new', 'a.txt': 'replaced' });
+    assert.equal(status, 409);
+    assert.equal(await read('a.txt'), 'original');
+    assert.deepEqual(await listDir(), ['a.txt']);
+  });
+
+  it('replaces existing files in overwrite mode', async () => {
+    const { status, body } = await upload('overwrite', { 'a.txt': 'replaced' });
+    assert.equal(status, 200);
+    assert.deepEqual(body.stored, ['a.txt']);
+    assert.equal(await read('a.txt'), 'replaced');
+    assert.deepEqual(await listDir(), ['a.txt']);
+  });
+
+  it('stores under the next free name in rename mode', async () => {
+    await upload('rename', { 'a.txt': 'first copy' });
+    const { body } = await upload('rename', { 'a.txt': 'second copy' });
+    assert.deepEqual(body.stored, ['a (2).txt']);
+    assert.equal(await read('a.txt'), 'original');
+    assert.equal(await read('a (1).txt'), 'first copy');
+    assert.equal(await read('a (2).txt'), 'second copy');
+  });
+
+  it('keeps the folder structure of uploaded paths', async () => {
+    const { body } = await upload('error', { 'docs/guide/intro.md': '# Intro' });
+    assert.deepEqual(body.stored, [path.join('docs', 'guide', 'intro.md')]);
+    assert.equal(await read('docs/guide/intro.md'), '# Intro');
+  });
+
+  it('stores nothing when a file is rejected', async () => {
+    const { status } = await upload('overwrite', { 'b.txt': 'new', '../escape.txt': 'bad' });
+    assert.equal(status, 403);
+    assert.deepEqual(await listDir(), ['a.txt']);
+  });
+});
@@ -0,0 +1,164 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { CLAUDE_PROJECTS_DIR } from '../config.js';
+import { getDb } from './db.js';
+import { calculateCost } from './pricing.js';
+import { decodeProjectDirName, listSessionFiles, readJsonlPage } from './claudeProjects.js';
+
+// Lines parsed and inserted per transaction while catching up on a file
+const INDEX_BATCH_SIZE = 2000;
+
+let refreshInFlight = null;
+
+// Token sums for a group of usage entries. Entries that carry a cost reported
+// by the CLI keep it; the tokens of the rest are summed separately so they can
+// be priced from the model price table.
+export const USAGE_SUMS = `
+  SUM(input_tokens) AS input_tokens,
+  SUM(output_tokens) AS output_tokens,
+  SUM(cache_write_tokens) AS cache_write_tokens,
+  SUM(cache_read_tokens) AS cache_read_tokens,
+  SUM(CASE WHEN reported_cost IS NULL THEN input_tokens ELSE 0 END) AS priced_input_tokens,
+  SUM(CASE WHEN reported_cost IS NULL THEN output_tokens ELSE 0 END) AS priced_output_tokens,
+  SUM(CASE WHEN reported_cost IS NULL THEN cache_write_tokens ELSE 0 END) AS priced_cache_write_tokens,
+  SUM(CASE WHEN reported_cost IS NULL THEN cache_read_tokens ELSE 0 END) AS priced_cache_read_tokens,
+  COALESCE(SUM(reported_cost), 0) AS reported_cost`;
+
+export function totalTokens(row) {
+  return row.input_tokens + row.output_tokens + row.cache_write_tokens + row.cache_read_tokens;
+}
+
+// Cost of a row grouped by model (pricing is linear, so per-model sums price exactly)
+export function groupCost(row) {
+  return row.reported_cost + calculateCost(row.model, {
+    input_tokens: row.priced_input_tokens,
+    output_tokens: row.priced_output_tokens,
+    cache_write_tokens: row.priced_cache_write_tokens,
+    cache_read_tokens: row.priced_cache_read_tokens
+  });
+}
+
+/**
+ * Row for usage_entries from an assistant message with a usage block
+ */
+function toUsageRow(entry, sourceFile, fallbackProject) {
+  const usage = entry.message?.usage;
+  if (entry.type !== 'assistant' || !usage || !entry.timestamp) return null;
+
+  return {
+    source_file: sourceFile,
+    // Resumed sessions replay earlier messages; count each API response once
+    dedupe_key: entry.message.id && entry.requestId ? `${entry.message.id}:${entry.requestId}` : null,
+    session_id: entry.sessionId || path.basename(sourceFile, '.jsonl'),
+    project_path: entry.cwd || fallbackProject,
+    timestamp: entry.timestamp,
+    model: entry.message.model || 'unknown',
+    input_tokens: usage.input_tokens || 0,
+    output_tokens: usage.output_tokens || 0,
+    cache_write_tokens: usage.cache_creation_input_tokens || 0,
+    cache_read_tokens: usage.cache_read_input_tokens || 0,
+    reported_cost: typeof entry.costUSD === 'number' ? entry.costUSD : null
+  };
+}
+
+/**
+ * Indexes the bytes appended to a session file since the last refresh. A file
+ * that shrank was rewritten (e.g. a checkpoint restore), so it is re-read.
+ */
+async function indexSessionFile(sessionFile, fallbackProject, size) {
+  const db = getDb();
+  let offset = db
+    .prepare('SELECT indexed_bytes FROM usage_indexed_files WHERE file_path = ?')
+    .pluck()
+    .get(sessionFile) ?? 0;
+
+  if (size < offset) {
+    db.prepare('DELETE FROM usage_entries WHERE source_file = ?').run(sessionFile);
+    offset = 0;
+  }
+  if (size === offset) return;
+
+  const insertEntry = db.prepare(`
+    INSERT OR IGNORE INTO usage_entries (
+      source_file, dedupe_key, session_id, project_path, timestamp, model,
+      input_tokens, output_tokens, cache_write_tokens, cache_read_tokens, reported_cost
+    ) VALUES (
+      @source_file, @dedupe_key, @session_id, @project_path, @timestamp, @model,
+      @input_tokens, @output_tokens, @cache_write_tokens, @cache_read_tokens, @reported_cost
+    )`);
+  const saveOffset = db.prepare(`
+    INSERT INTO usage_indexed_files (file_path, indexed_bytes) VALUES (?, ?)
+    ON CONFLICT(file_path) DO UPDATE SET indexed_bytes = excluded.indexed_bytes`);
+
+  for (;;) {
+    const { entries, nextOffset, done } = await readJsonlPage(sessionFile, offset, INDEX_BATCH_SIZE);
+    db.transaction(() => {
+      for (const entry of entries) {
+        const row = toUsageRow(entry, sessionFile, fallbackProject);
+        if (row) insertEntry.run(row);
+      }
+      saveOffset.run(sessionFile, nextOffset);
+    })();
+    offset = nextOffset;
+    if (done) break;
+  }
+}
+
+async function refresh() {
+  const db = getDb();
+  let projectDirs;
+  try {
+    projectDirs = await fs.readdir(CLAUDE_PROJECTS_DIR, { withFileTypes: true });
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+    projectDirs = [];
+  }
+
+  const seen = new Set();
+  for (const dir of projectDirs.filter(entry => entry.isDirectory())) {
+    const fallbackProject = decodeProjectDirName(dir.name);
+    for (const sessionFile of await listSessionFiles(path.join(CLAUDE_PROJECTS_DIR, dir.name))) {
+      let stats;
+      try {
+        stats = await fs.stat(sessionFile);
+      } catch {
+        continue;
+      }
+      seen.add(sessionFile);
+      await indexSessionFile(sessionFile, fallbackProject, stats.size);
+    }
+  }
+
+  // Forget sessions whose files were deleted
+  const removeFile = db.transaction(filePath => {
+    db.prepare('DELETE FROM usage_entries WHERE source_file = ?').run(filePath);
+    db.prepare('DELETE FROM usage_indexed_files WHERE file_path = ?').run(filePath);
+  });
+  for (const filePath of db.prepare('SELECT file_path FROM usage_indexed_files').pluck().all()) {
+    if (!seen.has(filePath)) removeFile(filePath);
+  }
+}
+
+/**
+ * Brings the usage_entries table up to date with ~/.claude/projects, reading
+ * only what was appended since the previous refresh. Concurrent callers share
+ * a single pass.
+ */
+export function refreshUsageIndex() {
+  if (!refreshInFlight) {
+    refreshInFlight = refresh().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+/**
+ * Total cost of the indexed entries matching a WHERE clause
+ */
+export function sumUsageCost(where = '', params = []) {
+  return getDb()
+    .prepare(`SELECT model, ${USAGE_SUMS} FROM usage_entries ${where} GROUP BY model`)
+    .all(params)
+    .reduce((sum, row) => sum + groupCost(row), 0);
+}
@@ -0,0 +1,186 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { WORKSPACE_DIR } from '../config.js';
+import { CommandError } from '../invoke.js';
+
+// Error codes returned to the client alongside the message
+export const PATH_ERRORS = {
+  INVALID_PATH: 'INVALID_PATH',
+  OUTSIDE_WORKSPACE: 'OUTSIDE_WORKSPACE',
+  NOT_FOUND: 'NOT_FOUND',
+  ALREADY_EXISTS: 'ALREADY_EXISTS',
+  NOT_EMPTY: 'NOT_EMPTY',
+  IS_DIRECTORY: 'IS_DIRECTORY',
+  NOT_A_DIRECTORY: 'NOT_A_DIRECTORY',
+  PERMISSION_DENIED: 'PERMISSION_DENIED'
+};
+
+function isWithin(parent, child) {
+  const relative = path.relative(parent, child);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+function invalidPath(message) {
+  return new CommandError(message, 400, PATH_ERRORS.INVALID_PATH);
+}
+
+function outsideWorkspace(requested) {
+  return new CommandError(`Path is outside the project: ${requested}`, 403, PATH_ERRORS.OUTSIDE_WORKSPACE);
+}
+
+// Symlinks followed while resolving one path before giving up (as ELOOP would)
+const MAX_SYMLINK_HOPS = 40;
+
+/**
+ * Resolves symlinks in the longest existing prefix of `target`, so paths that
+ * do not exist yet (e.g. a file about to be written) are checked through
+ * their closest existing parent. Dangling symlinks are followed too, since
+ * writing through one would create its target.
+ */
+async function realpathOfExisting(target) {
+  let existing = target;
+  let missing = [];
+  for (let hops = 0; hops <= MAX_SYMLINK_HOPS;) {
+    try {
+      const real = await fs.realpath(existing);
+      return path.join(real, ...missing);
+    } catch (error) {
+      if (error.code !== 'ENOENT' && error.code !== 'ENOTDIR') throw error;
+    }
+
+    const link = await fs.readlink(existing).catch(() => null);
+    if (link !== null) {
+      hops += 1;
+      existing = path.resolve(path.dirname(existing), link);
+      continue;
+    }
+
+    const parent = path.dirname(existing);
+    if (parent === existing) return path.join(existing, ...missing);
+    missing = [path.basename(existing), ...missing];
+    existing = parent;
+  }
+  throw invalidPath(`Too many levels of symbolic links: ${target}`);
+}
+
+/**
+ * Canonical root directory of a workspace project. The project ID must be a
+ * single directory name, and the directory may not be a symlink leading out
+ * of the workspace.
+ * @returns {Promise<string>}
+ */
+export async function resolveProjectRoot(projectId) {
+  if (
+    typeof projectId !== 'string' ||
+    projectId === '' ||
+    projectId === '.' ||
+    projectId === '..' ||
+    projectId.includes('\0') ||
+    path.basename(projectId) !== projectId ||
+    projectId.includes('\\')
+  ) {
+    throw invalidPath(`Invalid project id: ${projectId}`);
+  }
+
+  const workspaceRoot = await realpathOfExisting(path.resolve(WORKSPACE_DIR));
+  const projectRoot = await realpathOfExisting(path.join(workspaceRoot, projectId));
+  if (!isWithin(workspaceRoot, projectRoot) || projectRoot === workspaceRoot) {
+    throw outsideWorkspace(projectId);
+  }
+  return projectRoot;
+}
+
+/**
+ * Resolves a path inside a workspace project. `requested` may be relative to
+ * the project root or absolute; either way the canonical result, with
+ * symlinks followed, must stay inside the project.
+ *
+ * With `followLastLink: false` only the parent directory is canonicalized, so
+ * the result names a symlink itself rather than its target; use it for
+ * operations on the entry (delete, rename) instead of its contents.
+ * @returns {Promise<{ root: string, fullPath: string, relativePath: string }>}
+ */
+export async function resolveProjectPath(projectId, requested = '', { followLastLink = true } = {}) {
+  if (typeof requested !== 'string') {
+    throw invalidPath('Path must be a string');
+  }
+  if (requested.includes('\0')) {
+    throw invalidPath('Path contains a null byte');
+  }
+
+  const root = await resolveProjectRoot(projectId);
+  const lexicalRoot = path.join(path.resolve(WORKSPACE_DIR), projectId);
+
+  // Absolute paths may name the project through the configured (possibly
+  // symlinked) workspace location or through its canonical location
+  let target;
+  if (path.isAbsolute(requested)) {
+    target = isWithin(lexicalRoot, path.resolve(requested))
+      ? path.join(root, path.relative(lexicalRoot, path.resolve(requested)))
+      : path.resolve(requested);
+  } else {
+    target = path.resolve(root, requested);
+  }
+  if (!isWithin(root, target)) {
+    throw outsideWorkspace(requested);
+  }
+
+  const fullPath = followLastLink || target === root
+    ? await realpathOfExisting(target)
+    : path.join(await realpathOfExisting(path.dirname(target)), path.basename(target));
+  if (!isWithin(root, fullPath)) {
+    throw outsideWorkspace(requested);
+  }
+
+  return { root, fullPath, relativePath: path.relative(root, fullPath) };
+}
+
+/**
+ * Resolves an absolute path anywhere inside the workspace to the project it
+ * belongs to, with the same checks as resolveProjectPath. The workspace root
+ * itself is not inside any project and is rejected.
+ * @returns {Promise<{ projectId: string, root: string, fullPath: string, relativePath: string }>}
+ */
+export async function resolveWorkspacePath(requested) {
+  if (typeof requested !== 'string' || !path.isAbsolute(requested)) {
+    throw invalidPath(`Expected an absolute path: ${requested}`);
+  }
+
+  const lexicalWorkspace = path.resolve(WORKSPACE_DIR);
+  const canonicalWorkspace = await realpathOfExisting(lexicalWorkspace);
+  const target = path.resolve(requested);
+  const base = [lexicalWorkspace, canonicalWorkspace].find(candidate => isWithin(candidate, target));
+  if (!base || target === base) {
+    throw new CommandError(`Path is outside the workspace: ${requested}`, 403, PATH_ERRORS.OUTSIDE_WORKSPACE);
+  }
+
+  const relative = path.relative(base, target);
+  const projectId = relative.split(path.sep)[0];
+  const resolved = await resolveProjectPath(projectId, path.join(lexicalWorkspace, relative));
+  return { projectId, ...resolved };
+}
+
+/**
+ * Maps file system errors about the requested path to CommandErrors (404 for
+ * missing paths, 409 for conflicts with what is already there, 400 for the
+ * wrong kind of entry, 403 for permissions); other errors pass through
+ * unchanged
+ */
+export function toPathError(error, requested) {
+  switch (error.code) {
+    case 'ENOENT':
+    case 'ENOTDIR':
+      return new CommandError(`No such file or directory: ${requested}`, 404, PATH_ERRORS.NOT_FOUND);
+    case 'EEXIST':
+      return new CommandError(`Already exists: ${requested}`, 409, PATH_ERRORS.ALREADY_EXISTS);
+    case 'ENOTEMPTY':
+      return new CommandError(`Directory is not empty: ${requested}`, 409, PATH_ERRORS.NOT_EMPTY);
+    case 'EISDIR':
+      return new CommandError(`Is a directory: ${requested}`, 400, PATH_ERRORS.IS_DIRECTORY);
+    case 'EACCES':
+    case 'EPERM':
+      return new CommandError(`Permission denied: ${requested}`, 403, PATH_ERRORS.PERMISSION_DENIED);
+    default:
+      return error;
+  }
+}
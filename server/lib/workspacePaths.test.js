@@ -0,0 +1,104 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+// config.js reads the workspace location when it is first imported
+const base = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'claudia-paths-test-')));
+const workspace = path.join(base, 'workspace');
+const outside = path.join(base, 'outside');
+process.env.DEFAULT_WORKSPACE = workspace;
+const {
+  PATH_ERRORS,
+  resolveProjectPath,
+  resolveProjectRoot,
+  resolveWorkspacePath,
+  toPathError
+} = await import('./workspacePaths.js');
+
+const project = path.join(workspace, 'app');
+await fs.mkdir(path.join(project, 'src'), { recursive: true });
+await fs.mkdir(outside, { recursive: true });
+await fs.writeFile(path.join(project, 'src', 'index.js'), '');
+await fs.writeFile(path.join(outside, 'secret.txt'), 'secret');
+await fs.symlink(path.join(outside, 'secret.txt'), path.join(project, 'secret-link'));
+await fs.symlink(outside, path.join(project, 'outside-dir'));
+await fs.symlink(path.join(outside, 'created-by-write.txt'), path.join(project, 'dangling'));
+await fs.symlink('src', path.join(project, 'src-link'));
+await fs.symlink(outside, path.join(workspace, 'escaped'));
+
+const rejectsWith = (promise, status, code) =>
+  assert.rejects(promise, error => error.status === status && error.code === code);
+
+describe('workspace path confinement', () => {
+  after(async () => {
+    await fs.rm(base, { recursive: true, force: true });
+  });
+
+  it('accepts only single directory names as project ids', async () => {
+    assert.equal(await resolveProjectRoot('app'), project);
+    for (const id of ['', '.', '..', 'app/src', '../outside', 'a\\b', 'app\0']) {
+      await rejectsWith(resolveProjectRoot(id), 400, PATH_ERRORS.INVALID_PATH);
+    }
+  });
+
+  it('rejects a project directory that is a symlink out of the workspace', async () => {
+    await rejectsWith(resolveProjectRoot('escaped'), 403, PATH_ERRORS.OUTSIDE_WORKSPACE);
+  });
+
+  it('resolves relative and absolute paths inside the project', async () => {
+    const relative = await resolveProjectPath('app', 'src/index.js');
+    assert.equal(relative.fullPath, path.join(project, 'src', 'index.js'));
+    assert.equal(relative.relativePath, path.join('src', 'index.js'));
+
+    const absolute = await resolveProjectPath('app', path.join(project, 'src'));
+    assert.equal(absolute.relativePath, 'src');
+
+    const missing = await resolveProjectPath('app', 'src/new/file.txt');
+    assert.equal(missing.fullPath, path.join(project, 'src', 'new', 'file.txt'));
+  });
+
+  it('rejects paths that climb or point out of the project', async () => {
+    for (const requested of ['..', '../outside/secret.txt', 'src/../../outside', path.join(outside, 'secret.txt')]) {
+      await rejectsWith(resolveProjectPath('app', requested), 403, PATH_ERRORS.OUTSIDE_WORKSPACE);
+    }
+    await rejectsWith(resolveProjectPath('app', 'src\0.js'), 400, PATH_ERRORS.INVALID_PATH);
+    await rejectsWith(resolveProjectPath('app', 42), 400, PATH_ERRORS.INVALID_PATH);
+  });
+
+  it('rejects symlinks that escape the project, including dangling ones and paths below them', async () => {
+    for (const requested of ['secret-link', 'outside-dir', 'outside-dir/new.txt', 'dangling']) {
+      await rejectsWith(resolveProjectPath('app', requested), 403, PATH_ERRORS.OUTSIDE_WORKSPACE);
+    }
+  });
+
+  it('follows symlinks that stay inside the project', async () => {
+    const { fullPath } = await resolveProjectPath('app', 'src-link/index.js');
+    assert.equal(fullPath, path.join(project, 'src', 'index.js'));
+  });
+
+  it('names the link itself when the last link is not followed', async () => {
+    const { fullPath } = await resolveProjectPath('app', 'secret-link', { followLastLink: false });
+    assert.equal(fullPath, path.join(project, 'secret-link'));
+  });
+
+  it('maps absolute workspace paths to their project', async () => {
+    const resolved = await resolveWorkspacePath(path.join(project, 'src', 'index.js'));
+    assert.equal(resolved.projectId, 'app');
+    assert.equal(resolved.relativePath, path.join('src', 'index.js'));
+
+    await rejectsWith(resolveWorkspacePath('app/src'), 400, PATH_ERRORS.INVALID_PATH);
+    await rejectsWith(resolveWorkspacePath(workspace), 403, PATH_ERRORS.OUTSIDE_WORKSPACE);
+    await rejectsWith(resolveWorkspacePath(path.join(workspace, '..', 'outside')), 403, PATH_ERRORS.OUTSIDE_WORKSPACE);
+    await rejectsWith(resolveWorkspacePath(path.join(workspace, 'app', 'secret-link')), 403, PATH_ERRORS.OUTSIDE_WORKSPACE);
+  });
+
+  it('maps file system errors to path errors', () => {
+    assert.equal(toPathError({ code: 'ENOENT' }, 'x').code, PATH_ERRORS.NOT_FOUND);
+    assert.equal(toPathError({ code: 'EEXIST' }, 'x').status, 409);
+    assert.equal(toPathError({ code: 'EACCES' }, 'x').code, PATH_ERRORS.PERMISSION_DENIED);
+    const other = new Error('boom');
+    assert.equal(toPathError(other, 'x'), other);
+  });
+});
@@ -0,0 +1,149 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { AGENT_WORKTREES_DIR } from '../config.js';
+import { CommandError } from '../invoke.js';
+import { GIT_ERRORS, gitDiff, hasHead, runGit, runGitAsAuthor } from './git.js';
+
+// Subject lines of the commits made when merging a run are cut to this length
+const MAX_SUBJECT_LENGTH = 72;
+
+export function runBranchName(runId) {
+  return `claudia/run-${runId}`;
+}
+
+/**
+ * Creates a worktree on a new branch from the project's HEAD for an isolated
+ * agent run. Uncommitted changes in the project are not part of it.
+ * @param {string} projectPath - Directory the agent was asked to work in,
+ *   anywhere inside a repository with at least one commit
+ * @returns {Promise<{ worktreePath: string, branch: string, baseCommit: string, cwd: string }>}
+ *   where `cwd` is `projectPath`'s counterpart inside the worktree
+ */
+export async function createRunWorktree(projectPath, runId) {
+  let topLevel;
+  try {
+    topLevel = (await runGit(projectPath, ['rev-parse', '--show-toplevel'])).trim();
+  } catch (error) {
+    if (error.code === GIT_ERRORS.NOT_A_REPOSITORY) {
+      throw new CommandError('Isolated runs need the project to be a git repository', 400, GIT_ERRORS.NOT_A_REPOSITORY);
+    }
+    throw error;
+  }
+  if (!(await hasHead(topLevel))) {
+    throw new CommandError('Isolated runs need a repository with at least one commit', 400, GIT_ERRORS.GIT_FAILED);
+  }
+
+  const baseCommit = (await runGit(topLevel, ['rev-parse', 'HEAD'])).trim();
+  const subpath = path.relative(topLevel, await fs.realpath(projectPath));
+  const worktreePath = path.join(AGENT_WORKTREES_DIR, `run-${runId}`);
+  const branch = runBranchName(runId);
+
+  await fs.mkdir(AGENT_WORKTREES_DIR, { recursive: true });
+  await runGit(topLevel, ['worktree', 'add', '-b', branch, worktreePath, baseCommit]);
+  return { worktreePath, branch, baseCommit, cwd: path.join(worktreePath, subpath) };
+}
+
+function assertActive(run) {
+  if (run.worktree_status !== 'active') {
+    throw new CommandError(`Agent run ${run.id} has no worktree to work with`, 409);
+  }
+}
+
+/**
+ * Files the run changed since its base commit, including files it committed
+ * itself and new files not yet added. Paths are relative to the repository
+ * root.
+ * @returns {Promise<Array<{ path: string, status: string }>>} statuses are
+ *   git's letters (A, M, D, T)
+ */
+export async function runWorktreeChanges(run) {
+  assertActive(run);
+  const [tracked, untracked] = await Promise.all([
+    runGit(run.worktree_path, ['diff', '--name-status', '--no-renames', '-z', run.base_commit, '--']),
+    runGit(run.worktree_path, ['ls-files', '--others', '--exclude-standard', '-z'])
+  ]);
+
+  const changes = [];
+  const fields = tracked.split('\0');
+  for (let index = 0; index + 1 < fields.length; index += 2) {
+    changes.push({ path: fields[index + 1], status: fields[index] });
+  }
+  for (const filePath of untracked.split('\0').filter(Boolean)) {
+    changes.push({ path: filePath, status: 'A' });
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Content of one file at the run's base commit and in its worktree
+ */
+export async function runWorktreeFileDiff(run, filePath) {
+  assertActive(run);
+  const relativePath = typeof filePath === 'string' ? path.posix.normalize(filePath) : '';
+  if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    throw new CommandError(`Invalid path: ${filePath}`);
+  }
+  return gitDiff(run.worktree_path, relativePath, { base: run.base_commit });
+}
+
+/**
+ * Commits whatever the run left uncommitted on its branch, merges the branch
+ * into the project's current branch, then removes the worktree and branch. A
+ * merge that conflicts is aborted, leaving both the project and the run as
+ * they were.
+ * @returns {Promise<{ hash: string }>} the project's new HEAD
+ */
+export async function mergeRunWorktree(run) {
+  assertActive(run);
+  const branch = run.worktree_branch;
+
+  await runGit(run.worktree_path, ['add', '--all']);
+  const hasUncommitted = await runGit(run.worktree_path, ['diff', '--cached', '--quiet']).then(() => false, () => true);
+  if (hasUncommitted) {
+    const firstLine = run.task.trim().split('\n')[0];
+    const subject = `${run.agent_name}: ${firstLine}`;
+    const message = subject.length > MAX_SUBJECT_LENGTH
+      ? `${subject.slice(0, MAX_SUBJECT_LENGTH - 1)}…`
+      : subject;
+    await runGitAsAuthor(run.worktree_path, ['commit', '--file=-'], { input: `${message}\n\n${run.task.trim()}\n` });
+  }
+
+  const commitCount = Number((await runGit(run.worktree_path, ['rev-list', '--count', `${run.base_commit}..HEAD`])).trim());
+  if (commitCount === 0) {
+    throw new CommandError(`Agent run ${run.id} made no changes to merge`, 409, GIT_ERRORS.NOTHING_TO_COMMIT);
+  }
+
+  try {
+    await runGitAsAuthor(run.project_path, ['merge', '--no-edit', branch]);
+  } catch (error) {
+    const merging = await runGit(run.project_path, ['rev-parse', '--quiet', '--verify', 'MERGE_HEAD']).then(() => true, () => false);
+    if (!merging) throw error;
+    await runGit(run.project_path, ['merge', '--abort']);
+    throw new CommandError(
+      `The changes of agent run ${run.id} conflict with the project; they are kept on branch ${branch}`,
+      409,
+      GIT_ERRORS.MERGE_CONFLICT
+    );
+  }
+
+  const hash = (await runGit(run.project_path, ['rev-parse', 'HEAD'])).trim();
+  await removeRunWorktree(run);
+  return { hash };
+}
+
+/**
+ * Deletes a run's worktree and branch. Works when either is already gone,
+ * including when the project itself was deleted.
+ */
+export async function removeRunWorktree(run) {
+  if (!run.worktree_path) return;
+  const projectExists = await fs.stat(run.project_path).then(() => true, () => false);
+  if (projectExists) {
+    await runGit(run.project_path, ['worktree', 'remove', '--force', run.worktree_path]).catch(() => {});
+  }
+  await fs.rm(run.worktree_path, { recursive: true, force: true });
+  if (projectExists) {
+    await runGit(run.project_path, ['worktree', 'prune']).catch(() => {});
+    await runGit(run.project_path, ['branch', '-D', run.worktree_branch]).catch(() => {});
+  }
+}
@@ -0,0 +1,224 @@
+import http from 'http';
+import express from 'express';
+import { promises as fs } from 'fs';
+import { WebSocketServer } from 'ws';
+import pty from 'node-pty';
+import { ANTHROPIC_API_KEY, childProcessEnv } from './config.js';
+import { isRequestAuthenticated } from './auth.js';
+import { resolveProjectRoot } from './lib/workspacePaths.js';
+
+const TERMINAL_PATH = /^\/api\/terminals\/([\w-]{1,64})\/ws$/;
+
+// Output kept per terminal and replayed when a browser (re)attaches
+const SCROLLBACK_BYTES = 512 * 1024;
+
+// A terminal nobody is attached to is closed after this long, so a reload or
+// a flaky connection can reattach without leaking shells forever
+const DETACHED_TTL_MS = 30 * 60 * 1000;
+
+// Terminal ID -> { id, projectId, pty, clients, scrollback, exit, detachTimer }
+const terminals = new Map();
+
+function send(socket, message) {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function appendScrollback(terminal, data) {
+  terminal.scrollback += data;
+  if (terminal.scrollback.length > SCROLLBACK_BYTES) {
+    terminal.scrollback = terminal.scrollback.slice(-SCROLLBACK_BYTES);
+  }
+}
+
+function clampSize(value, fallback) {
+  const size = Number(value);
+  return Number.isInteger(size) && size > 0 && size <= 1000 ? size : fallback;
+}
+
+// Browsers send cookies on cross-site WebSocket handshakes, so the page
+// opening the socket has to be served by this server
+function isSameOrigin(req) {
+  const { origin } = req.headers;
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+function scheduleDetachedClose(terminal) {
+  clearTimeout(terminal.detachTimer);
+  if (terminal.clients.size > 0) return;
+  terminal.detachTimer = setTimeout(() => closeTerminal(terminal.id), DETACHED_TTL_MS);
+  terminal.detachTimer.unref();
+}
+
+function spawnTerminal({ id, projectId, cwd, cols, rows }) {
+  const shell = process.env.SHELL || 'bash';
+  const terminal = {
+    id,
+    projectId,
+    pty: pty.spawn(shell, ['-l'], {
+      name: 'xterm-256color',
+      cols,
+      rows,
+      cwd,
+      env: childProcessEnv({ ANTHROPIC_API_KEY, TERM: 'xterm-256color', COLORTERM: 'truecolor' })
+    }),
+    clients: new Set(),
+    scrollback: '',
+    exit: null,
+    detachTimer: null
+  };
+
+  terminal.pty.onData(data => {
+    appendScrollback(terminal, data);
+    for (const socket of terminal.clients) {
+      send(socket, { type: 'output', data });
+    }
+  });
+
+  terminal.pty.onExit(({ exitCode, signal }) => {
+    terminal.exit = { exit_code: exitCode, signal: signal || null };
+    for (const socket of terminal.clients) {
+      send(socket, { type: 'exit', ...terminal.exit });
+      socket.close(1000, 'Shell exited');
+    }
+    clearTimeout(terminal.detachTimer);
+    terminals.delete(id);
+  });
+
+  terminals.set(id, terminal);
+  return terminal;
+}
+
+/**
+ * Ends a terminal's shell
+ * @returns {boolean} false when there was no such terminal
+ */
+export function closeTerminal(id) {
+  const terminal = terminals.get(id);
+  if (!terminal) return false;
+  try {
+    terminal.pty.kill('SIGHUP');
+  } catch {
+    // Already exited
+  }
+  terminals.delete(id);
+  clearTimeout(terminal.detachTimer);
+  return true;
+}
+
+function attachClient(terminal, socket, replay) {
+  clearTimeout(terminal.detachTimer);
+  terminal.clients.add(socket);
+
+  send(socket, { type: 'ready', terminal_id: terminal.id, project_id: terminal.projectId, reattached: replay });
+  if (replay && terminal.scrollback) {
+    send(socket, { type: 'output', data: terminal.scrollback });
+  }
+
+  socket.on('message', raw => {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+    if (message.type === 'input' && typeof message.data === 'string') {
+      terminal.pty.write(message.data);
+    } else if (message.type === 'resize') {
+      terminal.pty.resize(clampSize(message.cols, terminal.pty.cols), clampSize(message.rows, terminal.pty.rows));
+    } else if (message.type === 'close') {
+      closeTerminal(terminal.id);
+      socket.close(1000, 'Terminal closed');
+    }
+  });
+
+  socket.on('close', () => {
+    terminal.clients.delete(socket);
+    if (terminals.has(terminal.id)) scheduleDetachedClose(terminal);
+  });
+}
+
+/**
+ * Accepts WebSocket upgrades on /api/terminals/:terminalId/ws. Connecting to
+ * an unknown ID starts a login shell in the project given by `?projectId=`;
+ * connecting to a live one reattaches and replays its scrollback. Messages
+ * are JSON: the client sends `input`, `resize` and `close`, the server sends
+ * `ready`, `output` and `exit`.
+ */
+export function attachTerminalServer(httpServer) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on('upgrade', async (req, socket, head) => {
+    const url = new URL(req.url, 'http://localhost');
+    const match = TERMINAL_PATH.exec(url.pathname);
+    if (!match) return;
+
+    const reject = status => {
+      socket.end(`HTTP/1.1 ${status} ${http.STATUS_CODES[status]}\r\nConnection: close\r\n\r\n`);
+    };
+
+    if (!isSameOrigin(req)) {
+      return reject(403);
+    }
+    if (!isRequestAuthenticated(req)) {
+      return reject(401);
+    }
+
+    const terminalId = match[1];
+    let terminal = terminals.get(terminalId);
+    const replay = Boolean(terminal);
+    if (!terminal) {
+      const projectId = url.searchParams.get('projectId');
+      try {
+        const cwd = await resolveProjectRoot(projectId);
+        if (!(await fs.stat(cwd)).isDirectory()) throw new Error('Not a directory');
+        terminal = terminals.get(terminalId) || spawnTerminal({
+          id: terminalId,
+          projectId,
+          cwd,
+          cols: clampSize(url.searchParams.get('cols'), 80),
+          rows: clampSize(url.searchParams.get('rows'), 24)
+        });
+      } catch (error) {
+        console.error(`Failed to open terminal in ${projectId}:`, error.message);
+        return reject(error.status || 404);
+      }
+    }
+
+    wss.handleUpgrade(req, socket, head, ws => attachClient(terminal, ws, replay));
+  });
+
+  return wss;
+}
+
+/**
+ * Express router for terminal management: GET /terminals and
+ * DELETE /terminals/:terminalId
+ */
+export function createTerminalsRouter() {
+  const router = express.Router();
+
+  router.get('/terminals', (req, res) => {
+    res.json([...terminals.values()].map(terminal => ({
+      id: terminal.id,
+      project_id: terminal.projectId,
+      pid: terminal.pty.pid,
+      attached_clients: terminal.clients.size
+    })));
+  });
+
+  router.delete('/terminals/:terminalId', (req, res) => {
+    if (!closeTerminal(req.params.terminalId)) {
+      return res.status(404).json({ error: `No such terminal: ${req.params.terminalId}`, code: 'NOT_FOUND' });
+    }
+    res.json({ success: true });
+  });
+
+  return router;
+}
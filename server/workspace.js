@@ -0,0 +1,614 @@
+import path from 'path';
+import express from 'express';
+import { promises as fs } from 'fs';
+import yazl from 'yazl';
+import { WORKSPACE_DIR } from './config.js';
+import { CommandError, sendError } from './invoke.js';
+import { startCommand, killCommand, DEFAULT_COMMAND_TIMEOUT_MS } from './lib/commandRunner.js';
+import { resolveProjectPath, resolveProjectRoot, toPathError, PATH_ERRORS } from './lib/workspacePaths.js';
+import {
+  receiveUpload,
+  createTemporaryUploadDir,
+  pruneTemporaryUploads,
+  UPLOAD_CONFLICTS
+} from './lib/uploads.js';
+import { assertCloneUrl, cloneRepository, repositoryName } from './lib/git.js';
+import { acquireProjectWatch, releaseProjectWatch, WATCH_LEASE_MS } from './lib/fileWatcher.js';
+
+// Served files may be HTML or SVG written by anyone with access to the
+// project; sandboxing keeps them from running scripts as this origin
+const DOWNLOAD_HEADERS = {
+  'Content-Security-Policy': 'sandbox',
+  'X-Content-Type-Options': 'nosniff'
+};
+
+/**
+ * File or directory as returned to the client (see ContainerFile)
+ */
+async function entryInfo(fullPath) {
+  // Fall back to the link itself for dangling symlinks
+  const stats = await fs.stat(fullPath).catch(() => fs.lstat(fullPath));
+  const name = path.basename(fullPath);
+  const isDirectory = stats.isDirectory();
+  const extension = isDirectory ? '' : path.extname(name).slice(1);
+  return {
+    name,
+    path: fullPath,
+    is_directory: isDirectory,
+    size: isDirectory ? 0 : stats.size,
+    modified: Math.round(stats.mtimeMs),
+    ...(extension && { extension })
+  };
+}
+
+async function listDirectory(dirPath) {
+  const entries = await fs.readdir(dirPath);
+  const files = await Promise.all(entries.map(name => entryInfo(path.join(dirPath, name)).catch(() => null)));
+  // Entries removed between readdir and stat are skipped
+  return files.filter(Boolean);
+}
+
+async function projectInfo(projectId) {
+  const root = await resolveProjectRoot(projectId);
+  const stats = await fs.stat(root).catch(error => {
+    throw toPathError(error, projectId);
+  });
+  if (!stats.isDirectory()) {
+    throw new CommandError(`Not a project: ${projectId}`, 404, PATH_ERRORS.NOT_FOUND);
+  }
+  return {
+    id: projectId,
+    name: projectId,
+    path: path.join(WORKSPACE_DIR, projectId),
+    created_at: Math.round(stats.birthtimeMs || stats.ctimeMs),
+    modified: Math.round(stats.mtimeMs),
+    most_recent_session: null
+  };
+}
+
+/**
+ * Resolves an entry to be removed, renamed or replaced: symlinks are not
+ * followed, and the project root itself is refused
+ */
+async function resolveEntry(projectId, requested) {
+  const resolved = await resolveProjectPath(projectId, requested, { followLastLink: false });
+  if (resolved.fullPath === resolved.root) {
+    throw new CommandError('The project root cannot be modified', 400, PATH_ERRORS.INVALID_PATH);
+  }
+  return resolved;
+}
+
+async function lstatOrNull(fullPath) {
+  return fs.lstat(fullPath).catch(error => {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  });
+}
+
+function alreadyExists(requested) {
+  return new CommandError(`Already exists: ${requested}`, 409, PATH_ERRORS.ALREADY_EXISTS);
+}
+
+/**
+ * Adds a directory tree to a zip archive. Symlinks are stored as links rather
+ * than followed, so the archive cannot pick up files outside the project.
+ */
+async function addToZip(zip, fullPath, zipPath) {
+  const entries = await fs.readdir(fullPath, { withFileTypes: true });
+  if (entries.length === 0 && zipPath) {
+    zip.addEmptyDirectory(zipPath);
+  }
+  for (const entry of entries) {
+    const entryPath = path.join(fullPath, entry.name);
+    const entryZipPath = zipPath ? `${zipPath}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      await addToZip(zip, entryPath, entryZipPath);
+    } else if (entry.isSymbolicLink()) {
+      zip.addBuffer(Buffer.from(await fs.readlink(entryPath)), entryZipPath, { mode: 0o120777, compress: false });
+    } else if (entry.isFile()) {
+      zip.addFile(entryPath, entryZipPath);
+    }
+  }
+}
+
+function requirePath(value, name = 'path') {
+  if (typeof value !== 'string' || value === '') {
+    throw new CommandError(`A ${name} is required`, 400, PATH_ERRORS.INVALID_PATH);
+  }
+  return value;
+}
+
+/**
+ * Express router for workspace projects under /workspace/projects: project
+ * listing and creation, file operations inside a project, and command
+ * execution. Every path is confined to its project (see workspacePaths.js)
+ * and failures are reported as `{ error, code }`.
+ */
+export function createWorkspaceRouter() {
+  const router = express.Router();
+
+  pruneTemporaryUploads();
+  setInterval(pruneTemporaryUploads, 60 * 60 * 1000).unref();
+
+  // List workspace projects
+  router.get('/workspace/projects', async (req, res) => {
+    try {
+      const entries = await fs.readdir(WORKSPACE_DIR, { withFileTypes: true });
+      const projects = await Promise.all(entries
+        .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
+        .map(entry => projectInfo(entry.name).catch(() => null)));
+      res.json(projects.filter(Boolean));
+    } catch (error) {
+      sendError(res, error, 'Failed to list projects');
+    }
+  });
+
+  // Create new project
+  router.post('/workspace/projects', async (req, res) => {
+    try {
+      const { name } = req.body;
+      if (!name) {
+        return res.status(400).json({ error: 'Project name is required', code: PATH_ERRORS.INVALID_PATH });
+      }
+
+      const projectPath = await resolveProjectRoot(name);
+      await fs.mkdir(projectPath, { recursive: true });
+
+      // Create initial README
+      const readmePath = path.join(projectPath, 'README.md');
+      await fs.writeFile(readmePath, `# ${name}\n\nProject created on ${new Date().toISOString()}\n`);
+
+      res.json(await projectInfo(name));
+    } catch (error) {
+      sendError(res, error, 'Failed to create project');
+    }
+  });
+
+  // Clone a remote repository into a new project, named after the
+  // repository unless `name` is given
+  router.post('/workspace/projects/clone', async (req, res) => {
+    try {
+      const { url, name } = req.body;
+      assertCloneUrl(url);
+      const projectId = name || repositoryName(url.trim());
+      if (!projectId) {
+        return res.status(400).json({ error: 'Project name is required', code: PATH_ERRORS.INVALID_PATH });
+      }
+
+      const projectPath = await resolveProjectRoot(projectId);
+      if (await lstatOrNull(projectPath)) {
+        throw alreadyExists(projectId);
+      }
+      await cloneRepository(url, projectPath);
+
+      res.json(await projectInfo(projectId));
+    } catch (error) {
+      sendError(res, error, 'Failed to clone repository');
+    }
+  });
+
+  // Get a single project
+  router.get('/workspace/projects/:projectId', async (req, res) => {
+    try {
+      res.json(await projectInfo(req.params.projectId));
+    } catch (error) {
+      sendError(res, error, 'Failed to get project');
+    }
+  });
+
+  // List a directory
+  router.get('/workspace/projects/:projectId/files', async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { path: subPath = '' } = req.query;
+
+      const { fullPath } = await resolveProjectPath(projectId, subPath);
+
+      const stats = await fs.stat(fullPath).catch(error => {
+        throw toPathError(error, subPath);
+      });
+      if (!stats.isDirectory()) {
+        throw new CommandError(`Not a directory: ${subPath}`, 400, PATH_ERRORS.NOT_A_DIRECTORY);
+      }
+
+      res.json(await listDirectory(fullPath));
+    } catch (error) {
+      sendError(res, error, 'Failed to list files');
+    }
+  });
+
+  // Size, modification time and type of a single entry
+  router.get('/workspace/projects/:projectId/files/stat', async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { path: filePath = '' } = req.query;
+
+      const { fullPath } = await resolveProjectPath(projectId, filePath);
+      res.json(await entryInfo(fullPath).catch(error => {
+        throw toPathError(error, filePath);
+      }));
+    } catch (error) {
+      sendError(res, error, 'Failed to stat file');
+    }
+  });
+
+  // Read file content
+  router.post('/workspace/projects/:projectId/files/content', async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { path: filePath } = req.body;
+
+      const { fullPath } = await resolveProjectPath(projectId, filePath);
+
+      const content = await fs.readFile(fullPath, 'utf-8').catch(error => {
+        throw toPathError(error, filePath);
+      });
+      res.send(content);
+    } catch (error) {
+      sendError(res, error, 'Failed to read file');
+    }
+  });
+
+  // Write file content
+  router.put('/workspace/projects/:projectId/files/content', async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { path: filePath, content } = req.body;
+      if (typeof content !== 'string') {
+        throw new CommandError('File content must be a string');
+      }
+
+      const { root, fullPath } = await resolveProjectPath(projectId, filePath);
+      if (fullPath === root) {
+        return res.status(400).json({ error: 'A file path is required', code: PATH_ERRORS.INVALID_PATH });
+      }
+
+      // Ensure directory exists
+      await fs.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.writeFile(fullPath, content, 'utf-8').catch(error => {
+        throw toPathError(error, filePath);
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error, 'Failed to write file');
+    }
+  });
+
+  // Upload files as multipart/form-data into `?path=` (default: the project
+  // root). File names may contain directories; `?conflict=` is error (409 if
+  // any destination exists), overwrite or rename ("name (1).ext"). Each
+  // stored file is returned with its `relative_path` inside the project.
+  router.post('/workspace/projects/:projectId/files/upload', async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { path: directory = '', conflict = 'error' } = req.query;
+      if (!UPLOAD_CONFLICTS.includes(conflict)) {
+        throw new CommandError(`Unknown conflict mode: ${conflict}`, 400);
+      }
+
+      const root = await resolveProjectRoot(projectId);
+      const stored = await receiveUpload(req, {
+        conflict,
+        resolveTarget: async filename => {
+          const { fullPath } = await resolveEntry(projectId, path.posix.join(directory, filename));
+          return fullPath;
+        }
+      });
+      res.json(await Promise.all(stored.map(async fullPath => ({
+        ...(await entryInfo(fullPath)),
+        relative_path: path.relative(root, fullPath)
+      }))));
+    } catch (error) {
+      // Stop reading a body that was rejected before it was consumed
+      if (!req.complete) res.setHeader('Connection', 'close');
+      sendError(res, error, 'Failed to upload files');
+    }
+  });
+
+  // Upload files that belong to no project (e.g. an agent file to import).
+  // They are kept for a day under the workspace, and returned with their
+  // `relative_path` inside the workspace.
+  router.post('/workspace/uploads', async (req, res) => {
+    try {
+      const directory = createTemporaryUploadDir();
+      const stored = await receiveUpload(req, {
+        conflict: 'rename',
+        resolveTarget: async filename => {
+          const name = path.posix.basename(filename);
+          if (!name || name === '.' || name === '..') {
+            throw new CommandError(`Invalid file name: ${filename}`, 400, PATH_ERRORS.INVALID_PATH);
+          }
+          return path.join(directory, name);
+        }
+      });
+      res.json(await Promise.all(stored.map(async fullPath => ({
+        ...(await entryInfo(fullPath)),
+        relative_path: path.relative(WORKSPACE_DIR, fullPath)
+      }))));
+    } catch (error) {
+      if (!req.complete) res.setHeader('Connection', 'close');
+      sendError(res, error, 'Failed to upload files');
+    }
+  });
+
+  // Raw file content with its MIME type, supporting Range requests. Sent as an
+  // attachment unless `?inline=1`.
+  router.get('/workspace/projects/:projectId/files/download', async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { path: filePath = '', inline } = req.query;
+
+      const { fullPath } = await resolveProjectPath(projectId, filePath);
+      const stats = await fs.stat(fullPath).catch(error => {
+        throw toPathError(error, filePath);
+      });
+      if (stats.isDirectory()) {
+        throw new CommandError(`Is a directory: ${filePath}`, 400, PATH_ERRORS.IS_DIRECTORY);
+      }
+
+      res.set(DOWNLOAD_HEADERS);
+      if (inline !== '1') res.attachment(path.basename(fullPath));
+      res.sendFile(fullPath, { dotfiles: 'allow', lastModified: true }, error => {
+        if (error && !res.headersSent) sendError(res, toPathError(error, filePath), 'Failed to download file');
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to download file');
+    }
+  });
+
+  // Zip of the whole project, or of the directory given by `?path=`
+  router.get('/workspace/projects/:projectId/export', async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const { path: dirPath = '' } = req.query;
+
+      const { root, fullPath } = await resolveProjectPath(projectId, dirPath);
+      const stats = await fs.stat(fullPath).catch(error => {
+        throw toPathError(error, dirPath);
+      });
+      if (!stats.isDirectory()) {
+        throw new CommandError(`Not a directory: ${dirPath}`, 400, PATH_ERRORS.NOT_A_DIRECTORY);
+      }
+
+      // Collect the entries first so a walk error can still become a JSON error
+      const zip = new yazl.ZipFile();
+      const name = fullPath === root ? projectId : path.basename(fullPath);
+      await addToZip(zip, fullPath, name);
+      zip.end();
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.attachment(`${name}.zip`);
+      zip.on('error', error => {
+        console.error(`Failed to export ${projectId}/${dirPath}:`, error.message);
+        res.destroy(error);
+      });
+      zip.outputStream.pipe(res);
+    } catch (error) {
+      sendError(res, error, 'Failed to export project');
+    }
+  });
+
+  // Delete a file (or symlink); directories are refused
+  router.delete('/workspace/projects/:projectId/files/content', async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const filePath = requirePath(req.body?.path);
+
+      const { fullPath } = await resolveEntry(projectId, filePath);
+      const stats = await fs.lstat(fullPath).catch(error => {
+        throw toPathError(error, filePath);
+      });
+      if (stats.isDirectory()) {
+        throw new CommandError(`Is a directory: ${filePath}`, 400, PATH_ERRORS.IS_DIRECTORY);
+      }
+
+      await fs.unlink(fullPath).catch(error => {
+        throw toPathError(error, filePath);
+      });
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error, 'Failed to delete file');
+    }
+  });
+
+  // Delete a file or directory; a non-empty directory needs `recursive`
+  router.delete('/workspace/projects/:projectId/files', async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const filePath = requirePath(req.body?.path);
+      const recursive = req.body?.recursive === true;
+
+      const { fullPath } = await resolveEntry(projectId, filePath);
+      const stats = await fs.lstat(fullPath).catch(error => {
+        throw toPathError(error, filePath);
+      });
+
+      const remove = !stats.isDirectory()
+        ? fs.unlink(fullPath)
+        : recursive ? fs.rm(fullPath, { recursive: true }) : fs.rmdir(fullPath);
+      await remove.catch(error => {
+        throw toPathError(error, filePath);
+      });
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error, 'Failed to delete');
+    }
+  });
+
+  // Rename or move an entry within the project
+  router.post('/workspace/projects/:projectId/files/rename', async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const from = requirePath(req.body?.from, 'source path');
+      const to = requirePath(req.body?.to, 'destination path');
+      const overwrite = req.body?.overwrite === true;
+
+      const source = await resolveEntry(projectId, from);
+      const target = await resolveEntry(projectId, to);
+      const sourceStats = await fs.lstat(source.fullPath).catch(error => {
+        throw toPathError(error, from);
+      });
+
+      if (target.fullPath !== source.fullPath) {
+        if (sourceStats.isDirectory() && target.fullPath.startsWith(`${source.fullPath}${path.sep}`)) {
+          throw new CommandError(`Cannot move a directory into itself: ${to}`, 400, PATH_ERRORS.INVALID_PATH);
+        }
+        if (!overwrite && await lstatOrNull(target.fullPath)) {
+          throw alreadyExists(to);
+        }
+
+        await fs.mkdir(path.dirname(target.fullPath), { recursive: true }).catch(error => {
+          throw toPathError(error, to);
+        });
+        await fs.rename(source.fullPath, target.fullPath).catch(error => {
+          throw toPathError(error, to);
+        });
+      }
+
+      res.json(await entryInfo(target.fullPath));
+    } catch (error) {
+      sendError(res, error, 'Failed to rename');
+    }
+  });
+
+  // Create a directory, along with any missing parents
+  router.post('/workspace/projects/:projectId/files/mkdir', async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const dirPath = requirePath(req.body?.path);
+
+      const { fullPath } = await resolveEntry(projectId, dirPath);
+      if (await lstatOrNull(fullPath)) {
+        throw alreadyExists(dirPath);
+      }
+
+      await fs.mkdir(fullPath, { recursive: true }).catch(error => {
+        throw toPathError(error, dirPath);
+      });
+      res.json(await entryInfo(fullPath));
+    } catch (error) {
+      sendError(res, error, 'Failed to create directory');
+    }
+  });
+
+  // Copy a file or directory tree; symlinks inside it are copied as links
+  router.post('/workspace/projects/:projectId/files/copy', async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const from = requirePath(req.body?.from, 'source path');
+      const to = requirePath(req.body?.to, 'destination path');
+      const overwrite = req.body?.overwrite === true;
+
+      const source = await resolveProjectPath(projectId, from);
+      const target = await resolveEntry(projectId, to);
+      const sourceStats = await fs.stat(source.fullPath).catch(error => {
+        throw toPathError(error, from);
+      });
+
+      if (
+        target.fullPath === source.fullPath ||
+        (sourceStats.isDirectory() && target.fullPath.startsWith(`${source.fullPath}${path.sep}`))
+      ) {
+        throw new CommandError(`Cannot copy into itself: ${to}`, 400, PATH_ERRORS.INVALID_PATH);
+      }
+      // Overwriting would delete the source along with the target
+      if (source.fullPath.startsWith(`${target.fullPath}${path.sep}`)) {
+        throw new CommandError(`Cannot copy over a folder that contains the source: ${to}`, 400, PATH_ERRORS.INVALID_PATH);
+      }
+      if (await lstatOrNull(target.fullPath)) {
+        if (!overwrite) throw alreadyExists(to);
+        await fs.rm(target.fullPath, { recursive: true });
+      }
+
+      await fs.cp(source.fullPath, target.fullPath, {
+        recursive: true,
+        errorOnExist: true,
+        force: false,
+        verbatimSymlinks: true
+      }).catch(error => {
+        throw toPathError(error, to);
+      });
+      res.json(await entryInfo(target.fullPath));
+    } catch (error) {
+      sendError(res, error, 'Failed to copy');
+    }
+  });
+
+  // Execute command, streaming its output as newline-delimited JSON frames
+  // (see startCommand). The command is stopped when the client disconnects.
+  router.post('/workspace/projects/:projectId/execute', async (req, res) => {
+    let projectPath;
+    try {
+      const { projectId } = req.params;
+      const { command } = req.body;
+      if (typeof command !== 'string' || !command.trim()) {
+        return res.status(400).json({ error: 'Command is required' });
+      }
+
+      projectPath = await resolveProjectRoot(projectId);
+      await fs.stat(projectPath).catch(error => {
+        throw toPathError(error, projectId);
+      });
+    } catch (error) {
+      return sendError(res, error, 'Failed to execute command');
+    }
+
+    const timeoutMs = Number(req.body.timeout_ms) || DEFAULT_COMMAND_TIMEOUT_MS;
+
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    const execution = startCommand({
+      command: req.body.command,
+      cwd: projectPath,
+      projectId: req.params.projectId,
+      timeoutMs,
+      onFrame: frame => {
+        if (!res.writableEnded) res.write(`${JSON.stringify(frame)}\n`);
+      }
+    });
+
+    res.on('close', () => {
+      if (!res.writableFinished) execution.stop();
+    });
+
+    await execution.done;
+    res.end();
+  });
+
+  // Stop a running command
+  router.post('/workspace/projects/:projectId/execute/:execId/kill', (req, res) => {
+    const { projectId, execId } = req.params;
+    if (!killCommand(execId, projectId)) {
+      return res.status(404).json({ error: `No running command: ${execId}`, code: PATH_ERRORS.NOT_FOUND });
+    }
+    res.json({ success: true });
+  });
+
+  // Start or renew watching a project for file changes, which are pushed as
+  // `file-change:<projectId>` events. Pass the returned watch_id back to
+  // renew within expires_in milliseconds.
+  router.post('/workspace/projects/:projectId/watch', async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      // Fails for projects that do not exist
+      await projectInfo(projectId);
+      const root = await resolveProjectRoot(projectId);
+      const watchId = await acquireProjectWatch(projectId, root, req.body?.watch_id);
+      res.json({ watch_id: watchId, expires_in: WATCH_LEASE_MS });
+    } catch (error) {
+      sendError(res, error, 'Failed to watch project');
+    }
+  });
+
+  // Stop watching; the project's watcher closes with its last watch
+  router.delete('/workspace/projects/:projectId/watch/:watchId', (req, res) => {
+    releaseProjectWatch(req.params.projectId, req.params.watchId);
+    res.json({ success: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,107 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import express from 'express';
+
+// config.js reads the workspace location when it is first imported
+const base = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'claudia-workspace-test-')));
+const workspace = path.join(base, 'workspace');
+process.env.DEFAULT_WORKSPACE = workspace;
+const { createWorkspaceRouter } = await import('./workspace.js');
+
+const project = path.join(workspace, 'app');
+
+describe('workspace file routes', () => {
+  let server;
+  let filesUrl;
+
+  before(async () => {
+    await fs.mkdir(path.join(project, 'a', 'b'), { recursive: true });
+    await fs.writeFile(path.join(project, 'a', 'b', 'data.txt'), 'data');
+    await fs.writeFile(path.join(base, 'outside.txt'), 'outside');
+    await fs.symlink(path.join(base, 'outside.txt'), path.join(project, 'escape'));
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api', createWorkspaceRouter());
+    await new Promise(resolve => {
+      server = app.listen(0, '127.0.0.1', resolve);
+    });
+    filesUrl = `http://127.0.0.1:${server.address().port}/api/workspace/projects/app/files`;
+  });
+
+  after(async () => {
+    server.close();
+    await fs.rm(base, { recursive: true, force: true });
+  });
+
+  const call = async (method, route, body) => {
+    const response = await fetch(`${filesUrl}${route}`, {
+      method,
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    const text = await response.text();
+    return { status: response.status, body: text.startsWith('{') ? JSON.parse(text) : text };
+  };
+
+  const read = relativePath => fs.readFile(path.join(project, relativePath), 'utf-8');
+
+  it('copies files and directory trees', async () => {
+    assert.equal((await call('POST', '/copy', { from: 'a', to: 'copy' })).status, 200);
+    assert.equal(await read('copy/b/data.txt'), 'data');
+
+    const exists = await call('POST', '/copy', { from: 'a', to: 'copy' });
+    assert.equal(exists.status, 409);
+    assert.equal(exists.body.code, 'ALREADY_EXISTS');
+  });
+
+  it('refuses to copy a folder into itself or over a folder containing the source', async () => {
+    const into = await call('POST', '/copy', { from: 'a', to: 'a/b/nested' });
+    assert.equal(into.status, 400);
+
+    const over = await call('POST', '/copy', { from: 'a/b', to: 'a', overwrite: true });
+    assert.equal(over.status, 400);
+    assert.equal(await read('a/b/data.txt'), 'data');
+  });
+
+  it('refuses to move a folder into itself', async () => {
+    const { status } = await call('POST', '/rename', { from: 'a', to: 'a/b/moved' });
+    assert.equal(status, 400);
+    assert.equal(await read('a/b/data.txt'), 'data');
+  });
+
+  it('writes only string content', async () => {
+    assert.equal((await call('PUT', '/content', { path: 'notes.txt', content: 'hello' })).status, 200);
+    assert.equal(await read('notes.txt'), 'hello');
+    for (const content of [undefined, 42, { text: 'x' }]) {
+      assert.equal((await call('PUT', '/content', { path: 'notes.txt', content })).status, 400);
+    }
+    assert.equal(await read('notes.txt'), 'hello');
+  });
+
+  it('does not read or write through symlinks leading out of the project', async () => {
+    const readLink = await call('POST', '/content', { path: 'escape' });
+    assert.equal(readLink.status, 403);
+    assert.equal(readLink.body.code, 'OUTSIDE_WORKSPACE');
+
+    assert.equal((await call('PUT', '/content', { path: 'escape', content: 'x' })).status, 403);
+    assert.equal(await fs.readFile(path.join(base, 'outside.txt'), 'utf-8'), 'outside');
+  });
+
+  it('deletes the link itself rather than its target', async () => {
+    assert.equal((await call('DELETE', '', { path: 'escape' })).status, 200);
+    assert.equal(await fs.readFile(path.join(base, 'outside.txt'), 'utf-8'), 'outside');
+  });
+
+  it('deletes non-empty directories only when asked to', async () => {
+    const refused = await call('DELETE', '', { path: 'copy' });
+    assert.equal(refused.status, 409);
+    assert.equal(refused.body.code, 'NOT_EMPTY');
+
+    assert.equal((await call('DELETE', '', { path: 'copy', recursive: true })).status, 200);
+    await assert.rejects(fs.access(path.join(project, 'copy')));
+  });
+});
@@ -16,6 +16,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Popover } from "@/components/ui/popover";
 import {
   Dialog,
@@ -32,6 +33,7 @@ import { ExecutionControlBar } from "./ExecutionControlBar";
 import { ErrorBoundary } from "./ErrorBoundary";
 import { useVirtualizer } from "@tanstack/react-virtual";
 import { HooksEditor } from "./HooksEditor";
+import { AgentRunWorktreeActions } from "./AgentRunWorktreeActions";
 import { useTrackEvent, useComponentMetrics, useFeatureAdoptionTracking } from "@/hooks";
 import { useTabState } from "@/hooks/useTabState";
 
@@ -124,6 +126,10 @@ export const AgentExecution: React.FC<AgentExecutionProps> = ({
   const unlistenRefs = useRef<UnlistenFn[]>([]);
   const elapsedTimeIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const [runId, setRunId] = useState<number | null>(null);
+  // Isolated runs work on their own git worktree and branch; `isolatedRunId`
+  // is the last one started, reviewed once it finishes
+  const [isolated, setIsolated] = useState(false);
+  const [isolatedRunId, setIsolatedRunId] = useState<number | null>(null);
 
   // Filter out messages that shouldn't be displayed
   const displayableMessages = React.useMemo(() => {
@@ -295,15 +301,17 @@ export const AgentExecution: React.FC<AgentExecutionProps> = ({
       setMessages([]);
       setRawJsonlOutput([]);
       setRunId(null);
+      setIsolatedRunId(null);
       
       // Clear any existing listeners
       unlistenRefs.current.forEach(unlisten => unlisten());
       unlistenRefs.current = [];
       
       // Execute the agent and get the run ID
-      const executionRunId = await api.executeAgent(agent.id!, projectPath, task, model);
+      const executionRunId = await api.executeAgent(agent.id!, projectPath, task, model, isolated);
       console.log("Agent execution started with run ID:", executionRunId);
       setRunId(executionRunId);
+      if (isolated) setIsolatedRunId(executionRunId);
       
       // Track agent execution start
       trackEvent.agentStarted({
@@ -738,9 +746,25 @@ export const AgentExecution: React.FC<AgentExecutionProps> = ({
                 </motion.div>
               </div>
               {projectPath && (
-                <p className="text-caption text-muted-foreground">
-                  Working in: <span className="font-mono">{projectPath.split('/').pop() || projectPath}</span>
-                </p>
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-caption text-muted-foreground">
+                    Working in: <span className="font-mono">{projectPath.split('/').pop() || projectPath}</span>
+                  </p>
+                  <div className="flex items-center gap-2" title="Run on a git worktree and branch of its own, then merge or discard its changes">
+                    <Label htmlFor="agent-isolated-run" className="text-caption text-muted-foreground">
+                      Isolated run
+                    </Label>
+                    <Switch
+                      id="agent-isolated-run"
+                      checked={isolated}
+                      onCheckedChange={setIsolated}
+                      disabled={isRunning}
+                    />
+                  </div>
+                </div>
+              )}
+              {isolatedRunId !== null && !isRunning && (
+                <AgentRunWorktreeActions runId={isolatedRunId} />
               )}
             </div>
           </div>
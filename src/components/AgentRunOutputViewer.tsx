@@ -11,7 +11,8 @@ import {
   Clock,
   Hash,
   DollarSign,
-  StopCircle
+  StopCircle,
+  Trash2
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -25,6 +26,7 @@ import { StreamMessage } from './StreamMessage';
 import { ErrorBoundary } from './ErrorBoundary';
 import { formatISOTimestamp } from '@/lib/date-utils';
 import { AGENT_ICONS } from './CCAgents';
+import { AgentRunWorktreeActions } from './AgentRunWorktreeActions';
 import type { ClaudeStreamMessage } from './AgentExecution';
 import { useTabState } from '@/hooks/useTabState';
 
@@ -57,7 +59,7 @@ export function AgentRunOutputViewer({
   tabId,
   className 
 }: AgentRunOutputViewerProps) {
-  const { updateTabTitle, updateTabStatus } = useTabState();
+  const { updateTabTitle, updateTabStatus, closeTab } = useTabState();
   const [run, setRun] = useState<AgentRunWithMetrics | null>(null);
   const [messages, setMessages] = useState<ClaudeStreamMessage[]>([]);
   const [rawJsonlOutput, setRawJsonlOutput] = useState<string[]>([]);
@@ -390,6 +392,25 @@ export function AgentRunOutputViewer({
     setRefreshing(false);
   };
 
+  const handleDelete = async () => {
+    if (!run?.id) return;
+    const message = run.worktree_status === 'active'
+      ? 'Delete this run, its output and its unmerged changes?'
+      : 'Delete this run and its output?';
+    if (!window.confirm(message)) return;
+
+    try {
+      await api.deleteAgentRun(run.id);
+      await closeTab(tabId, true);
+    } catch (err) {
+      console.error('[AgentRunOutputViewer] Failed to delete agent run:', err);
+      setToast({
+        message: `Failed to delete run: ${err instanceof Error ? err.message : 'Unknown error'}`,
+        type: 'error'
+      });
+    }
+  };
+
   const handleStop = async () => {
     if (!run?.id) {
       console.error('[AgentRunOutputViewer] No run ID available to stop');
@@ -662,8 +683,33 @@ export function AgentRunOutputViewer({
                     <StopCircle className="h-4 w-4" />
                   </Button>
                 )}
+                {run.status !== 'running' && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleDelete}
+                    title="Delete run"
+                    className="h-8 px-2 text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
           </div>
+          {run.id && run.worktree_status === 'active' && run.status !== 'running' && (
+            <AgentRunWorktreeActions
+              runId={run.id}
+              branch={run.worktree_branch}
+              onResolved={(worktreeStatus) => {
+                setRun({ ...run, worktree_status: worktreeStatus });
+                setToast({
+                  message: worktreeStatus === 'merged' ? 'Changes merged into the project' : 'Changes discarded',
+                  type: 'success'
+                });
+              }}
+              className="mt-3"
+            />
+          )}
         </CardHeader>
         <CardContent className={`${isFullscreen ? 'h-[calc(100vh-120px)]' : 'flex-1'} p-0 overflow-hidden`}>
           {loading ? (
@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { GitBranch, GitMerge, FileDiff, Trash2, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { LineDiff } from '@/components/ToolWidgets';
+import { api, type AgentRunChange, type AgentRunWorktreeStatus } from '@/lib/api';
+import type { GitDiff } from '@/lib/containerAPI';
+import { cn } from '@/lib/utils';
+
+interface AgentRunWorktreeActionsProps {
+  /**
+   * A finished isolated run whose worktree is still active
+   */
+  runId: number;
+  /**
+   * Branch the run worked on
+   */
+  branch?: string | null;
+  /**
+   * Called once the run's changes were merged or discarded
+   */
+  onResolved?: (status: Exclude<AgentRunWorktreeStatus, 'active'>) => void;
+  className?: string;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  M: 'text-yellow-500',
+  A: 'text-green-500',
+  D: 'text-red-500',
+  T: 'text-blue-500'
+};
+
+/**
+ * Review step of an isolated agent run: lists what the run changed on its
+ * branch and lets the user merge it into the project, inspect the diffs, or
+ * discard it.
+ */
+export const AgentRunWorktreeActions: React.FC<AgentRunWorktreeActionsProps> = ({
+  runId,
+  branch,
+  onResolved,
+  className
+}) => {
+  const [changes, setChanges] = useState<AgentRunChange[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [resolved, setResolved] = useState<Exclude<AgentRunWorktreeStatus, 'active'> | null>(null);
+  const [showChanges, setShowChanges] = useState(false);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [diff, setDiff] = useState<GitDiff | null>(null);
+
+  const loadChanges = useCallback(async () => {
+    try {
+      setChanges(await api.getAgentRunChanges(runId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the run\'s changes');
+    }
+  }, [runId]);
+
+  useEffect(() => {
+    setChanges(null);
+    setResolved(null);
+    setError(null);
+    loadChanges();
+  }, [loadChanges]);
+
+  // Load the diff of the selected file
+  useEffect(() => {
+    if (!selected) return;
+    let cancelled = false;
+    setDiff(null);
+    api.getAgentRunFileDiff(runId, selected)
+      .then(result => {
+        if (!cancelled) setDiff(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load diff');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [runId, selected]);
+
+  const resolve = async (status: 'merged' | 'discarded') => {
+    if (status === 'discarded' && !window.confirm('Discard all changes made by this run? This cannot be undone.')) {
+      return;
+    }
+    try {
+      setBusy(true);
+      setError(null);
+      if (status === 'merged') {
+        await api.mergeAgentRun(runId);
+      } else {
+        await api.discardAgentRun(runId);
+      }
+      setResolved(status);
+      setShowChanges(false);
+      onResolved?.(status);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${status === 'merged' ? 'merge' : 'discard'} the run`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openChanges = () => {
+    setSelected(changes?.[0]?.path ?? null);
+    setShowChanges(true);
+  };
+
+  if (resolved) {
+    return (
+      <div className={cn('flex items-center gap-2 rounded-md border p-2 text-caption text-muted-foreground', className)}>
+        <GitBranch className="h-3.5 w-3.5" />
+        {resolved === 'merged' ? 'Changes merged into the project' : 'Changes discarded'}
+      </div>
+    );
+  }
+
+  const renderDiff = () => {
+    if (!selected) {
+      return <div className="p-4 text-center text-sm text-muted-foreground">No changes</div>;
+    }
+    if (!diff) {
+      return (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+    if (diff.binary || diff.too_large) {
+      return (
+        <div className="p-4 text-center text-sm text-muted-foreground">
+          {diff.binary ? 'Binary file changed' : 'File is too large to show a diff'}
+        </div>
+      );
+    }
+    return <LineDiff file_path={diff.path} old_string={diff.old_content ?? ''} new_string={diff.new_content ?? ''} />;
+  };
+
+  return (
+    <div className={cn('rounded-md border p-2 space-y-2', className)}>
+      <div className="flex items-center gap-2">
+        <GitBranch className="h-3.5 w-3.5 text-muted-foreground" />
+        <span className="flex-1 min-w-0 truncate text-caption text-muted-foreground">
+          {branch ? <>Isolated on <span className="font-mono">{branch}</span></> : 'Isolated run'}
+          {changes && ` · ${changes.length} file${changes.length !== 1 ? 's' : ''} changed`}
+        </span>
+        <Button variant="outline" size="sm" className="h-7" disabled={busy || !changes} onClick={openChanges}>
+          <FileDiff className="h-3.5 w-3.5 mr-1.5" />
+          View Changes
+        </Button>
+        <Button size="sm" className="h-7" disabled={busy || !changes || changes.length === 0} onClick={() => resolve('merged')}>
+          {busy ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <GitMerge className="h-3.5 w-3.5 mr-1.5" />}
+          Merge
+        </Button>
+        <Button variant="ghost" size="sm" className="h-7 text-destructive hover:text-destructive" disabled={busy} onClick={() => resolve('discarded')}>
+          <Trash2 className="h-3.5 w-3.5 mr-1.5" />
+          Discard
+        </Button>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-destructive/50 bg-destructive/10 p-2 text-xs text-destructive whitespace-pre-wrap">
+          {error}
+        </div>
+      )}
+
+      <Dialog open={showChanges} onOpenChange={setShowChanges}>
+        <DialogContent className="max-w-6xl max-h-[85vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="text-sm">
+              {branch ? <>Changes on <span className="font-mono">{branch}</span></> : 'Changes of the isolated run'}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="flex gap-3 min-h-0 flex-1">
+            <div className="w-64 shrink-0 overflow-y-auto border-r pr-2">
+              {changes?.map(change => (
+                <div
+                  key={change.path}
+                  className={cn(
+                    'flex items-center gap-2 px-2 py-1 text-sm cursor-pointer rounded-sm hover:bg-accent/50',
+                    selected === change.path && 'bg-accent'
+                  )}
+                  title={change.path}
+                  onClick={() => setSelected(change.path)}
+                >
+                  <span className="truncate flex-1">{change.path}</span>
+                  <span className={cn('w-3 text-xs font-mono text-center', STATUS_COLORS[change.status])}>
+                    {change.status}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="flex-1 min-w-0 overflow-y-auto">
+              {renderDiff()}
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => resolve('discarded')} disabled={busy}>
+              Discard
+            </Button>
+            <Button onClick={() => resolve('merged')} disabled={busy || !changes || changes.length === 0}>
+              Merge into Project
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { TooltipProvider, TooltipSimple } from "@/components/ui/tooltip-modern";
+import { api, type BudgetStatus } from "@/lib/api";
+import { listen } from "@/lib/webEventSystem";
+import { cn } from "@/lib/utils";
+
+interface BudgetIndicatorProps {
+  /**
+   * Callback when the indicator is clicked, e.g. to open the usage dashboard
+   */
+  onClick?: () => void;
+  /**
+   * Optional className for styling
+   */
+  className?: string;
+}
+
+// Budgets are also re-checked whenever the server sends a budget-alert event
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Warning icon shown while any budget is near or over its limit
+ *
+ * @example
+ * <BudgetIndicator onClick={() => createUsageTab()} />
+ */
+export const BudgetIndicator: React.FC<BudgetIndicatorProps> = ({ onClick, className }) => {
+  const [alerts, setAlerts] = useState<BudgetStatus[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const statuses = await api.getBudgetStatus();
+      setAlerts(statuses.filter(status => status.level !== "ok"));
+    } catch (err) {
+      console.error("Failed to check budgets:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    const unlistenPromise = listen("budget-alert", () => refresh());
+    return () => {
+      clearInterval(interval);
+      unlistenPromise.then(unlisten => unlisten());
+    };
+  }, [refresh]);
+
+  if (alerts.length === 0) return null;
+
+  const exceeded = alerts.some(status => status.level === "exceeded");
+
+  const summary = alerts
+    .map(({ budget, percent_used, level }) => {
+      const state = level === "exceeded" ? "budget exceeded" : `${Math.floor(percent_used)}% used`;
+      const blocked = level === "exceeded" && budget.hard_stop ? " – new runs blocked" : "";
+      return `${budget.target} (${budget.period}): ${state}${blocked}`;
+    })
+    .join("\n");
+
+  return (
+    <TooltipProvider>
+      <TooltipSimple side="bottom" content={summary} contentClassName="whitespace-pre-line">
+        <button
+          onClick={onClick}
+          className={cn(
+            "p-2 rounded-md hover:bg-accent transition-colors tauri-no-drag",
+            exceeded ? "text-destructive" : "text-yellow-500",
+            className
+          )}
+        >
+          <AlertTriangle size={16} />
+        </button>
+      </TooltipSimple>
+    </TooltipProvider>
+  );
+};
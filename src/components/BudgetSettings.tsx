@@ -0,0 +1,314 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { SelectComponent } from "@/components/ui/select";
+import {
+  api,
+  type BudgetPeriod,
+  type BudgetScope,
+  type BudgetStatus
+} from "@/lib/api";
+import { listen } from "@/lib/webEventSystem";
+import { cn } from "@/lib/utils";
+
+interface BudgetFormState {
+  id?: number;
+  scope: BudgetScope;
+  target: string;
+  period: BudgetPeriod;
+  limitUsd: string;
+  warnPercent: string;
+  hardStop: boolean;
+}
+
+const EMPTY_FORM: BudgetFormState = {
+  scope: "project",
+  target: "",
+  period: "monthly",
+  limitUsd: "",
+  warnPercent: "80",
+  hardStop: false
+};
+
+const scopeOptions = [
+  { value: "project", label: "Project" },
+  { value: "model", label: "Model" }
+];
+
+const periodOptions = [
+  { value: "daily", label: "Daily" },
+  { value: "monthly", label: "Monthly" }
+];
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+
+/**
+ * Manages daily and monthly spend budgets for projects and models
+ *
+ * @example
+ * <BudgetSettings />
+ */
+export const BudgetSettings: React.FC = () => {
+  const [statuses, setStatuses] = useState<BudgetStatus[]>([]);
+  const [projectPaths, setProjectPaths] = useState<string[]>([]);
+  const [form, setForm] = useState<BudgetFormState | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatuses = useCallback(async () => {
+    try {
+      setStatuses(await api.getBudgetStatus());
+    } catch (err) {
+      console.error("Failed to load budgets:", err);
+      setError("Failed to load budgets");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatuses();
+    api.listProjects()
+      .then(projects => setProjectPaths(projects.map(project => project.path)))
+      .catch(() => setProjectPaths([]));
+
+    const unlistenPromise = listen("budget-alert", () => loadStatuses());
+    return () => {
+      unlistenPromise.then(unlisten => unlisten());
+    };
+  }, [loadStatuses]);
+
+  const handleSave = async () => {
+    if (!form) return;
+    const limitUsd = parseFloat(form.limitUsd);
+    const warnPercent = parseInt(form.warnPercent, 10);
+    if (!form.target.trim() || !(limitUsd > 0)) {
+      setError("Enter a target and a limit greater than zero");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await api.saveBudget({
+        id: form.id,
+        scope: form.scope,
+        target: form.target,
+        period: form.period,
+        limitUsd,
+        warnPercent: Number.isNaN(warnPercent) ? undefined : warnPercent,
+        hardStop: form.hardStop
+      });
+      setForm(null);
+      await loadStatuses();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save budget");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      await api.deleteBudget(id);
+      await loadStatuses();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete budget");
+    }
+  };
+
+  const handleEdit = ({ budget }: BudgetStatus) => {
+    setError(null);
+    setForm({
+      id: budget.id,
+      scope: budget.scope,
+      target: budget.target,
+      period: budget.period,
+      limitUsd: String(budget.limit_usd),
+      warnPercent: String(budget.warn_percent),
+      hardStop: budget.hard_stop
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      <Card className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-sm font-semibold">Budgets</h3>
+            <p className="text-caption text-muted-foreground">
+              Spend limits per project or model, reset each UTC day or month
+            </p>
+          </div>
+          {!form && (
+            <Button size="sm" onClick={() => { setError(null); setForm(EMPTY_FORM); }}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Budget
+            </Button>
+          )}
+        </div>
+
+        {statuses.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No budgets configured</p>
+        ) : (
+          <div className="space-y-4">
+            {statuses.map((status) => (
+              <div key={status.budget.id} className="space-y-2">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Badge variant="outline" className="text-xs capitalize">{status.budget.scope}</Badge>
+                    <span className="text-sm font-medium truncate" title={status.budget.target}>
+                      {status.budget.target}
+                    </span>
+                    <span className="text-xs text-muted-foreground capitalize">{status.budget.period}</span>
+                    {status.budget.hard_stop && (
+                      <Badge variant="secondary" className="text-xs">Hard stop</Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="text-sm">
+                      {formatCurrency(status.spent_usd)} / {formatCurrency(status.budget.limit_usd)}
+                    </span>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleEdit(status)}>
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-destructive"
+                      onClick={() => handleDelete(status.budget.id)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+                  <div
+                    className={cn(
+                      "h-full rounded-full transition-all",
+                      status.level === "exceeded" && "bg-destructive",
+                      status.level === "warning" && "bg-yellow-500",
+                      status.level === "ok" && "bg-primary"
+                    )}
+                    style={{ width: `${Math.min(status.percent_used, 100)}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      {form && (
+        <Card className="p-6 space-y-4">
+          <h3 className="text-sm font-semibold">{form.id ? "Edit Budget" : "New Budget"}</h3>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Applies to</Label>
+              <SelectComponent
+                value={form.scope}
+                onValueChange={(value) => setForm({ ...form, scope: value as BudgetScope, target: "" })}
+                options={scopeOptions}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <SelectComponent
+                value={form.period}
+                onValueChange={(value) => setForm({ ...form, period: value as BudgetPeriod })}
+                options={periodOptions}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="budget-target">{form.scope === "project" ? "Project path" : "Model"}</Label>
+            <Input
+              id="budget-target"
+              list={form.scope === "project" ? "budget-project-paths" : undefined}
+              value={form.target}
+              onChange={(e) => setForm({ ...form, target: e.target.value })}
+              placeholder={form.scope === "project" ? "/workspace/my-project" : "opus, sonnet, claude-sonnet-4-5..."}
+            />
+            <datalist id="budget-project-paths">
+              {projectPaths.map((projectPath) => (
+                <option key={projectPath} value={projectPath} />
+              ))}
+            </datalist>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="budget-limit">Limit (USD)</Label>
+              <Input
+                id="budget-limit"
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.limitUsd}
+                onChange={(e) => setForm({ ...form, limitUsd: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget-warn">Warn at (%)</Label>
+              <Input
+                id="budget-warn"
+                type="number"
+                min="1"
+                max="100"
+                value={form.warnPercent}
+                onChange={(e) => setForm({ ...form, warnPercent: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="budget-hard-stop">Hard stop</Label>
+              <p className="text-caption text-muted-foreground">
+                Refuse new Claude Code sessions and agent runs once the limit is reached
+              </p>
+            </div>
+            <Switch
+              id="budget-hard-stop"
+              checked={form.hardStop}
+              onCheckedChange={(checked) => setForm({ ...form, hardStop: checked })}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setForm(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Budget
+            </Button>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -14,7 +14,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Popover } from "@/components/ui/popover";
 import { api, type Session } from "@/lib/api";
-import { cn } from "@/lib/utils";
+import { cn, randomUUID } from "@/lib/utils";
 import { listen, type UnlistenFn } from "@/lib/webEventSystem";
 import { StreamMessage } from "./StreamMessage";
 import { FloatingPromptInput, type FloatingPromptInputRef } from "./FloatingPromptInput";
@@ -299,7 +299,18 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
       setIsLoading(true);
       setError(null);
       
-      const history = await api.loadSessionHistory(session.id, session.project_id);
+      setMessages([]);
+      setRawJsonlOutput([]);
+
+      // Render each page as it arrives so long sessions show up quickly
+      const history = await api.loadSessionHistory(session.id, session.project_id, (page) => {
+        const pageMessages: ClaudeStreamMessage[] = page.map(entry => ({
+          ...entry,
+          type: entry.type || "assistant"
+        }));
+        setMessages(prev => [...prev, ...pageMessages]);
+        setRawJsonlOutput(prev => [...prev, ...page.map(h => JSON.stringify(h))]);
+      });
       
       // Save session data for restoration
       if (history && history.length > 0) {
@@ -311,22 +322,13 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
         );
       }
       
-      // Convert history to messages format
-      const loadedMessages: ClaudeStreamMessage[] = history.map(entry => ({
-        ...entry,
-        type: entry.type || "assistant"
-      }));
-      
-      setMessages(loadedMessages);
-      setRawJsonlOutput(history.map(h => JSON.stringify(h)));
-      
       // After loading history, we're continuing a conversation
       setIsFirstPrompt(false);
       
       // Scroll to bottom after loading history
       setTimeout(() => {
-        if (loadedMessages.length > 0) {
-          rowVirtualizer.scrollToIndex(loadedMessages.length - 1, { align: 'end', behavior: 'auto' });
+        if (history.length > 0) {
+          rowVirtualizer.scrollToIndex(history.length - 1, { align: 'end', behavior: 'auto' });
         }
       }, 100);
     } catch (err) {
@@ -1033,8 +1035,9 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
       setIsLoading(true);
       setError(null);
       
-      const newSessionId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      await api.forkFromCheckpoint(
+      // The CLI only resumes sessions with UUID ids
+      const newSessionId = randomUUID();
+      const result = await api.forkFromCheckpoint(
         forkCheckpointId,
         effectiveSession.id,
         effectiveSession.project_id,
@@ -1043,9 +1046,15 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
         forkSessionName
       );
       
-      // Open the new forked session
-      // You would need to implement navigation to the new session
-      console.log("Forked to new session:", newSessionId);
+      // Open the forked session in its own tab
+      const forkedSession: Session = {
+        id: newSessionId,
+        project_id: effectiveSession.project_id,
+        project_path: projectPath,
+        created_at: Math.floor(Date.now() / 1000),
+        first_message: result.checkpoint.metadata.userPrompt || undefined
+      };
+      window.dispatchEvent(new CustomEvent('open-session-in-tab', { detail: { session: forkedSession } }));
       
       setShowForkDialog(false);
       setForkCheckpointId(null);
@@ -1,10 +1,11 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import MDEditor from "@uiw/react-md-editor";
 import { motion } from "framer-motion";
-import { ArrowLeft, Save, Loader2 } from "lucide-react";
+import { ArrowLeft, Save, Loader2, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Toast, ToastContainer } from "@/components/ui/toast";
 import { api, type ClaudeMdFile } from "@/lib/api";
+import { containerAPI } from "@/lib/containerAPI";
 import { cn } from "@/lib/utils";
 
 interface ClaudeFileEditorProps {
@@ -42,13 +43,70 @@ export const ClaudeFileEditor: React.FC<ClaudeFileEditorProps> = ({
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [toast, setToast] = useState<{ message: string; type: "success" | "error" } | null>(null);
+  // Set when the file changed on disk while there were unsaved edits; null
+  // content means it was deleted
+  const [diskConflict, setDiskConflict] = useState<{ content: string | null } | null>(null);
   
   const hasChanges = content !== originalContent;
+
+  // Read from the file watcher callback, which outlives renders
+  const editorStateRef = useRef({ content, originalContent });
+  editorStateRef.current = { content, originalContent };
   
   // Load the file content on mount
   useEffect(() => {
     loadFileContent();
   }, [file.absolute_path]);
+
+  // Follow changes made on disk, e.g. by Claude: reload when there are no
+  // unsaved edits, otherwise ask which version to keep
+  useEffect(() => {
+    let stopWatching: (() => void) | undefined;
+    let disposed = false;
+
+    const handleDiskChange = async (deleted: boolean) => {
+      const diskContent = deleted
+        ? null
+        : await api.readClaudeMdFile(file.absolute_path).catch(() => null);
+      const { content: current, originalContent: loaded } = editorStateRef.current;
+      // Our own save, or a change that leaves the text as it is
+      if (disposed || diskContent === loaded) return;
+
+      if (current === loaded && diskContent !== null) {
+        setContent(diskContent);
+        setOriginalContent(diskContent);
+      } else {
+        setDiskConflict({ content: diskContent });
+      }
+    };
+
+    containerAPI.locateWorkspacePath(file.absolute_path).then(location => {
+      if (!location || disposed) return;
+      stopWatching = containerAPI.watchProjectFiles(location.projectId, changes => {
+        const change = changes.find(item => item.relative_path === location.path);
+        if (change) handleDiskChange(change.type === "delete");
+      });
+    }).catch(err => console.warn("Failed to watch file for changes:", err));
+
+    return () => {
+      disposed = true;
+      stopWatching?.();
+    };
+  }, [file.absolute_path]);
+
+  const reloadFromDisk = () => {
+    if (diskConflict?.content != null) {
+      setContent(diskConflict.content);
+      setOriginalContent(diskConflict.content);
+    }
+    setDiskConflict(null);
+  };
+
+  // Keeps the edits; saving then overwrites what is on disk
+  const keepLocalChanges = () => {
+    setOriginalContent(diskConflict?.content ?? "");
+    setDiskConflict(null);
+  };
   
   const loadFileContent = async () => {
     try {
@@ -72,6 +130,7 @@ export const ClaudeFileEditor: React.FC<ClaudeFileEditorProps> = ({
       setToast(null);
       await api.saveClaudeMdFile(file.absolute_path, content);
       setOriginalContent(content);
+      setDiskConflict(null);
       setToast({ message: "File saved successfully", type: "success" });
     } catch (err) {
       console.error("Failed to save file:", err);
@@ -144,6 +203,30 @@ export const ClaudeFileEditor: React.FC<ClaudeFileEditorProps> = ({
           </motion.div>
         )}
         
+        {/* Changed on disk while edited here */}
+        {diskConflict && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="mx-4 mt-4 flex items-center gap-3 rounded-lg border border-yellow-500/50 bg-yellow-500/10 p-3 text-xs"
+          >
+            <AlertTriangle className="h-4 w-4 flex-shrink-0 text-yellow-600" />
+            <span className="flex-1">
+              {diskConflict.content === null
+                ? "This file was deleted on disk. Saving will create it again."
+                : "This file changed on disk since you started editing."}
+            </span>
+            {diskConflict.content !== null && (
+              <Button variant="outline" size="sm" onClick={reloadFromDisk}>
+                Reload from disk
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={keepLocalChanges}>
+              Keep my changes
+            </Button>
+          </motion.div>
+        )}
+        
         {/* Editor */}
         <div className="flex-1 p-4 overflow-hidden">
           {loading ? (
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { GitBranch, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { containerAPI, type ContainerProject } from '@/lib/containerAPI';
+
+interface CloneRepositoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /**
+   * Called with the new workspace project once the clone finished
+   */
+  onCloned: (project: ContainerProject) => void;
+}
+
+// Same forms the server accepts: http(s), ssh and git URLs, or scp-like
+// user@host:path
+const CLONE_URL = /^(?:(?:https?|ssh|git):\/\/\S+|[\w.-]+@[\w.-]+:\S+)$/;
+
+// Project name the server derives from the URL when none is given
+const repositoryName = (url: string) =>
+  url.replace(/\/+$/, '').split(/[/:]/).pop()?.replace(/\.git$/, '') ?? '';
+
+/**
+ * Asks for a repository URL and clones it into a new workspace project,
+ * showing git's error in place when the clone fails
+ */
+export const CloneRepositoryDialog: React.FC<CloneRepositoryDialogProps> = ({ open, onOpenChange, onCloned }) => {
+  const [url, setUrl] = useState('');
+  const [name, setName] = useState('');
+  const [cloning, setCloning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setUrl('');
+      setName('');
+      setError(null);
+    }
+  }, [open]);
+
+  const trimmedUrl = url.trim();
+  const urlInvalid = trimmedUrl !== '' && !CLONE_URL.test(trimmedUrl);
+
+  const handleClone = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!CLONE_URL.test(trimmedUrl)) {
+      setError('Enter an https://, ssh://, git:// or user@host:path repository URL');
+      return;
+    }
+
+    try {
+      setCloning(true);
+      setError(null);
+      const project = await containerAPI.cloneRepository(trimmedUrl, name.trim() || undefined);
+      onOpenChange(false);
+      onCloned(project);
+    } catch (err) {
+      console.error('Failed to clone repository:', err);
+      setError(err instanceof Error ? err.message : 'Failed to clone repository');
+    } finally {
+      setCloning(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !cloning && onOpenChange(next)}>
+      <DialogContent className="max-w-lg">
+        <form onSubmit={handleClone} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <GitBranch className="h-4 w-4" />
+              Clone Repository
+            </DialogTitle>
+            <DialogDescription>
+              The repository is cloned into a new project in the workspace.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="clone-url">Repository URL</Label>
+            <Input
+              id="clone-url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://github.com/owner/repo.git"
+              className="font-mono"
+              autoFocus
+              disabled={cloning}
+            />
+            {urlInvalid && (
+              <p className="text-xs text-destructive">
+                Not a repository URL: use https://, ssh://, git:// or user@host:path
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="clone-name">Project name</Label>
+            <Input
+              id="clone-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={repositoryName(trimmedUrl) || 'Taken from the URL'}
+              disabled={cloning}
+            />
+          </div>
+
+          {error && (
+            <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-xs text-destructive whitespace-pre-wrap">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={cloning}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={cloning || !trimmedUrl || urlInvalid}>
+              {cloning && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {cloning ? 'Cloning...' : 'Clone'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
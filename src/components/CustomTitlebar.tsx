@@ -2,6 +2,8 @@ import React, { useState, useRef, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { Settings, Minus, Square, X, Bot, BarChart3, FileText, Network, Info, MoreVertical } from 'lucide-react';
 import { TooltipProvider, TooltipSimple } from '@/components/ui/tooltip-modern';
+import { BudgetIndicator } from '@/components/BudgetIndicator';
+import { LogoutButton } from '@/components/LogoutButton';
 
 interface CustomTitlebarProps {
   onSettingsClick?: () => void;
@@ -114,6 +116,8 @@ export const CustomTitlebar: React.FC<CustomTitlebarProps> = ({
       <div className="flex items-center pr-5 gap-3 tauri-no-drag">
         {/* Primary actions group */}
         <div className="flex items-center gap-1">
+          <BudgetIndicator onClick={onUsageClick} />
+
           {onAgentsClick && (
             <TooltipSimple content="Agents" side="bottom">
               <motion.button
@@ -217,6 +221,8 @@ export const CustomTitlebar: React.FC<CustomTitlebarProps> = ({
               </div>
             )}
           </div>
+
+          <LogoutButton />
         </div>
       </div>
     </div>
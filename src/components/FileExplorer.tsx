@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   ChevronRight, 
@@ -8,13 +8,24 @@ import {
   FolderOpen,
   Plus,
   MoreHorizontal,
-  Search
+  Search,
+  Upload,
+  FolderUp,
+  Download,
+  FileArchive
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Tooltip, TooltipTrigger, TooltipContent, TooltipProvider } from '@/components/ui/tooltip';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { api } from '@/lib/api';
-import { containerAPI } from '@/lib/containerAPI';
+import { containerAPI, ContainerAPIError, type ContainerFile, type UploadEntry } from '@/lib/containerAPI';
+import { getCurrentWebviewWindow } from '@/lib/webWindow';
 
 interface FileEntry {
   name: string;
@@ -26,6 +37,31 @@ interface FileEntry {
   expanded?: boolean;
 }
 
+const toFileEntry = (file: ContainerFile): FileEntry => ({
+  name: file.name,
+  path: file.path,
+  is_directory: file.is_directory,
+  size: file.size,
+  modified: new Date(file.modified).toISOString(),
+  children: file.is_directory ? [] : undefined,
+  expanded: false
+});
+
+/**
+ * A directory's new listing, keeping the loaded children of subdirectories
+ * that are still there
+ */
+const mergeEntries = (previous: FileEntry[], next: FileEntry[]): FileEntry[] => {
+  const byPath = new Map(previous.map(entry => [entry.path, entry]));
+  return next.map(entry => {
+    const existing = byPath.get(entry.path);
+    if (existing?.is_directory && entry.is_directory) {
+      return { ...entry, children: existing.children, expanded: existing.expanded };
+    }
+    return { ...entry, children: entry.is_directory ? [] : undefined, expanded: false };
+  });
+};
+
 interface FileExplorerProps {
   projectPath?: string;
   projectId?: string;
@@ -44,8 +80,16 @@ export const FileExplorer: React.FC<FileExplorerProps> = ({
   const [fileTree, setFileTree] = useState<FileEntry[]>([]);
   const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [filteredFiles, setFilteredFiles] = useState<FileEntry[]>([]);
+  const [dropActive, setDropActive] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const expandedPathsRef = useRef(expandedPaths);
+  expandedPathsRef.current = expandedPaths;
 
   // Load file tree when project path changes
   useEffect(() => {
@@ -64,25 +108,97 @@ export const FileExplorer: React.FC<FileExplorerProps> = ({
     }
   }, [searchQuery, fileTree]);
 
+  /**
+   * Uploads into a directory (the project root when omitted), asking before
+   * replacing existing files, then refreshes that directory
+   */
+  const uploadEntries = async (entries: UploadEntry[], directory?: string) => {
+    if (!projectId || entries.length === 0) return;
+
+    const upload = (conflict: 'error' | 'overwrite') => containerAPI.uploadFiles(projectId, entries, {
+      directory,
+      conflict,
+      onProgress: (loaded, total) => setUploadProgress(Math.round((loaded / total) * 100))
+    });
+
+    try {
+      setError(null);
+      setUploadProgress(0);
+      try {
+        await upload('error');
+      } catch (err) {
+        if (!(err instanceof ContainerAPIError && err.code === 'ALREADY_EXISTS')) throw err;
+        if (!window.confirm(`${err.message}. Replace existing files?`)) return;
+        setUploadProgress(0);
+        await upload('overwrite');
+      }
+      await loadFileTree(directory);
+    } catch (err) {
+      console.error('Failed to upload files:', err);
+      setError(err instanceof Error ? err.message : 'Failed to upload files');
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  const handleInputFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Folder picks carry the folder structure in webkitRelativePath
+    uploadEntries(files.map(file => ({ file, path: file.webkitRelativePath || file.name })));
+    event.target.value = '';
+  };
+
+  // Files and folders dropped on the explorer are uploaded, into the
+  // directory under the pointer when there is one
+  useEffect(() => {
+    if (!projectId) return;
+
+    const isInside = (position?: { x: number; y: number }) => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      return Boolean(rect && position &&
+        position.x >= rect.left && position.x <= rect.right &&
+        position.y >= rect.top && position.y <= rect.bottom);
+    };
+
+    let unlisten: (() => void) | undefined;
+    let disposed = false;
+    getCurrentWebviewWindow().onDragDropEvent(event => {
+      const { type, position, files } = event.payload;
+      if (type === 'enter' || type === 'over') {
+        setDropActive(isInside(position));
+      } else if (type === 'leave') {
+        setDropActive(false);
+      } else if (type === 'drop') {
+        setDropActive(false);
+        if (!isInside(position) || !files?.length) return;
+        const target = position && document.elementFromPoint(position.x, position.y)
+          ?.closest<HTMLElement>('[data-directory-path]');
+        uploadEntries(
+          files.map(dropped => ({ file: dropped.file, path: dropped.relativePath })),
+          target?.dataset.directoryPath
+        );
+      }
+    }).then(fn => {
+      if (disposed) fn();
+      else unlisten = fn;
+    });
+
+    return () => {
+      disposed = true;
+      unlisten?.();
+    };
+  }, [projectId]);
+
   const loadFileTree = async (path?: string) => {
     if (!projectPath || !projectId) return;
 
     try {
       setLoading(true);
+      setError(null);
       
       // Use container API to list project files
       const containerFiles = await containerAPI.listProjectFiles(projectId, path);
-      
-      // Convert container files to file entries
-      const entries = containerFiles.map(file => ({
-        name: file.name,
-        path: file.path,
-        is_directory: file.is_directory,
-        size: file.size,
-        modified: new Date(file.modified).toISOString(),
-        children: file.is_directory ? [] : undefined,
-        expanded: false
-      }));
+      const entries = containerFiles.map(toFileEntry);
       
       if (!path) {
         // Initial load - set root
@@ -93,6 +209,12 @@ export const FileExplorer: React.FC<FileExplorerProps> = ({
       }
     } catch (error) {
       console.error('Failed to load file tree:', error);
+
+      // The server rejected the request (e.g. a path outside the project)
+      if (error instanceof ContainerAPIError) {
+        setError(error.message);
+        return;
+      }
       
       // Fallback to regular API if container API fails
       try {
@@ -122,11 +244,7 @@ export const FileExplorer: React.FC<FileExplorerProps> = ({
       if (item.path === targetPath && item.is_directory) {
         return {
           ...item,
-          children: children.map(child => ({
-            ...child,
-            children: child.is_directory ? [] : undefined,
-            expanded: false
-          })),
+          children: mergeEntries(item.children ?? [], children),
           expanded: true
         };
       } else if (item.children) {
@@ -139,6 +257,35 @@ export const FileExplorer: React.FC<FileExplorerProps> = ({
     });
   };
 
+  // Files changed on disk (e.g. edited by Claude or a terminal) refresh the
+  // directories that contain them, if those are shown
+  useEffect(() => {
+    if (!projectId) return;
+
+    const refreshDirectory = async (directory?: string) => {
+      try {
+        const entries = (await containerAPI.listProjectFiles(projectId, directory)).map(toFileEntry);
+        setFileTree(prev => directory ? updateTreeWithChildren(prev, directory, entries) : mergeEntries(prev, entries));
+      } catch (err) {
+        // The directory itself may be gone; its parent's refresh drops it
+        console.warn('Failed to refresh directory:', err);
+      }
+    };
+
+    return containerAPI.watchProjectFiles(projectId, changes => {
+      const directories = new Set<string | undefined>();
+      for (const change of changes) {
+        if (!change.relative_path.includes('/')) {
+          directories.add(undefined);
+        } else {
+          const parent = change.path.slice(0, change.path.lastIndexOf('/'));
+          if (expandedPathsRef.current.has(parent)) directories.add(parent);
+        }
+      }
+      directories.forEach(directory => refreshDirectory(directory));
+    });
+  }, [projectId, projectPath]);
+
   const toggleDirectory = async (entry: FileEntry) => {
     if (!entry.is_directory) return;
 
@@ -226,11 +373,23 @@ export const FileExplorer: React.FC<FileExplorerProps> = ({
           `}
           style={{ paddingLeft: `${depth * 12 + 8}px` }}
           onClick={() => handleFileClick(entry)}
+          data-directory-path={entry.is_directory ? entry.path : undefined}
         >
-          <div className="flex items-center flex-1 gap-2">
+          <div className="group flex items-center flex-1 gap-2">
             {getChevronIcon(entry)}
             {getFileIcon(entry)}
             <span className="truncate flex-1">{entry.name}</span>
+            {projectId && (
+              <a
+                href={entry.is_directory ? containerAPI.exportUrl(projectId, entry.path) : containerAPI.fileUrl(projectId, entry.path)}
+                download
+                title={entry.is_directory ? 'Download as zip' : 'Download'}
+                className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <Download className="h-3 w-3" />
+              </a>
+            )}
           </div>
         </div>
         
@@ -281,7 +440,20 @@ export const FileExplorer: React.FC<FileExplorerProps> = ({
   }
 
   return (
-    <div className={`border-r bg-muted/30 flex flex-col ${className}`}>
+    <div
+      ref={containerRef}
+      data-file-drop-zone
+      className={`border-r bg-muted/30 flex flex-col ${dropActive ? 'ring-2 ring-inset ring-primary' : ''} ${className}`}
+    >
+      <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleInputFiles} />
+      <input
+        ref={folderInputRef}
+        type="file"
+        className="hidden"
+        onChange={handleInputFiles}
+        {...{ webkitdirectory: '' }}
+      />
+
       {/* Header */}
       <div className="flex items-center justify-between p-2 border-b">
         <h3 className="text-sm font-medium">Explorer</h3>
@@ -301,20 +473,37 @@ export const FileExplorer: React.FC<FileExplorerProps> = ({
               <TooltipContent>New File</TooltipContent>
             </Tooltip>
           </TooltipProvider>
-          <TooltipProvider>
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="h-6 w-6"
-                >
-                  <MoreHorizontal className="h-3 w-3" />
-                </Button>
-              </TooltipTrigger>
-              <TooltipContent>More Actions</TooltipContent>
-            </Tooltip>
-          </TooltipProvider>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                title="More Actions"
+                disabled={!projectId}
+              >
+                <MoreHorizontal className="h-3 w-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => fileInputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-2" />
+                Upload Files
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => folderInputRef.current?.click()}>
+                <FolderUp className="h-4 w-4 mr-2" />
+                Upload Folder
+              </DropdownMenuItem>
+              {projectId && (
+                <DropdownMenuItem asChild>
+                  <a href={containerAPI.exportUrl(projectId)} download>
+                    <FileArchive className="h-4 w-4 mr-2" />
+                    Download as Zip
+                  </a>
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </div>
 
@@ -336,6 +525,21 @@ export const FileExplorer: React.FC<FileExplorerProps> = ({
         {projectPath.split('/').pop() || 'Project'}
       </div>
 
+      {uploadProgress !== null && (
+        <div className="px-2 py-1 border-b">
+          <div className="text-xs text-muted-foreground mb-1">Uploading... {uploadProgress}%</div>
+          <div className="h-1 rounded-full bg-muted overflow-hidden">
+            <div className="h-full bg-primary transition-all" style={{ width: `${uploadProgress}%` }} />
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mx-2 mt-2 rounded-md border border-destructive/50 bg-destructive/10 p-2 text-xs text-destructive">
+          {error}
+        </div>
+      )}
+
       {/* File tree */}
       <div className="flex-1 overflow-y-auto">
         {loading ? (
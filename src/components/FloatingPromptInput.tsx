@@ -12,7 +12,7 @@ import {
   Lightbulb,
   Cpu,
   Rocket,
-  
+  ImagePlus,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -23,7 +23,9 @@ import { FilePicker } from "./FilePicker";
 import { SlashCommandPicker } from "./SlashCommandPicker";
 import { ImagePreview } from "./ImagePreview";
 import { type FileEntry, type SlashCommand } from "@/lib/api";
-import { getCurrentWebviewWindow } from "@/lib/webWindow";
+import { getCurrentWebviewWindow, type DroppedFile } from "@/lib/webWindow";
+import { containerAPI, UPLOADS_DIR } from "@/lib/containerAPI";
+import { open as openFileDialog } from "@/lib/webFileDialog";
 
 interface FloatingPromptInputProps {
   /**
@@ -229,6 +231,9 @@ const FloatingPromptInputInner = (
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const expandedTextareaRef = useRef<HTMLTextAreaElement>(null);
   const unlistenDragDropRef = useRef<(() => void) | null>(null);
+  // Read by the drop listener, which is only registered once
+  const projectPathRef = useRef(projectPath);
+  projectPathRef.current = projectPath;
   const [textareaHeight, setTextareaHeight] = useState<number>(48);
 
   // Expose a method to add images programmatically
@@ -345,6 +350,86 @@ const FloatingPromptInputInner = (
     }
   }, [prompt, projectPath, isExpanded]);
 
+  /**
+   * Appends `@path` mentions for images that are not mentioned yet
+   */
+  const appendImageMentions = (imagePaths: string[]) => {
+    setPrompt(currentPrompt => {
+      const existingPaths = extractImagePaths(currentPrompt);
+      const newPaths = imagePaths.filter(p => !existingPaths.includes(p));
+
+      if (newPaths.length === 0) {
+        return currentPrompt; // All images are already in the prompt
+      }
+
+      // Wrap paths with spaces in quotes for clarity
+      const mentionsToAdd = newPaths.map(p => {
+        // If path contains spaces, wrap in quotes
+        if (p.includes(' ')) {
+          return `@"${p}"`;
+        }
+        return `@${p}`;
+      }).join(' ');
+      const newPrompt = currentPrompt + (currentPrompt.endsWith(' ') || currentPrompt === '' ? '' : ' ') + mentionsToAdd + ' ';
+
+      setTimeout(() => {
+        const target = isExpanded ? expandedTextareaRef.current : textareaRef.current;
+        target?.focus();
+        target?.setSelectionRange(newPrompt.length, newPrompt.length);
+      }, 0);
+
+      return newPrompt;
+    });
+  };
+
+  const currentProjectId = async (): Promise<string | null> => {
+    const currentProjectPath = projectPathRef.current?.replace(/\/+$/, '');
+    if (!currentProjectPath) return null;
+    const projectId = await containerAPI.projectIdForPath(currentProjectPath);
+    if (!projectId) {
+      console.warn(`Attaching images needs a workspace project; ${currentProjectPath} is not one`);
+    }
+    return projectId;
+  };
+
+  /**
+   * Stores dropped images in the project's uploads directory so Claude can
+   * read them, then mentions them by their path inside the project
+   */
+  const uploadDroppedImages = async (droppedImages: DroppedFile[]) => {
+    try {
+      const projectId = await currentProjectId();
+      if (!projectId) return;
+
+      const uploaded = await containerAPI.uploadFiles(
+        projectId,
+        droppedImages.map(dropped => ({ file: dropped.file, path: dropped.file.name })),
+        { directory: UPLOADS_DIR, conflict: 'rename' }
+      );
+      appendImageMentions(uploaded.map(file => file.relative_path ?? `${UPLOADS_DIR}/${file.name}`));
+    } catch (error) {
+      console.error('Failed to upload dropped images:', error);
+    }
+  };
+
+  const handleAttachImages = async () => {
+    try {
+      const projectId = await currentProjectId();
+      if (!projectId) return;
+
+      const picked = await openFileDialog({
+        multiple: true,
+        filters: [{ name: 'Images', extensions: ['png', 'jpg', 'jpeg', 'gif', 'svg', 'webp', 'bmp'] }],
+        uploadTo: { projectId }
+      });
+      if (picked) {
+        appendImageMentions(Array.isArray(picked) ? picked : [picked]);
+      }
+    } catch (error) {
+      console.error('Failed to attach images:', error);
+    }
+  };
+
   // Set up Tauri drag-drop event listener
   useEffect(() => {
     // This effect runs only once on component mount to set up the listener.
@@ -374,36 +459,15 @@ const FloatingPromptInputInner = (
             }
             lastDropTime = currentTime;
 
-            const droppedPaths = event.payload.paths as string[];
-            const imagePaths = droppedPaths.filter(isImageFile);
-
-            if (imagePaths.length > 0) {
-              setPrompt(currentPrompt => {
-                const existingPaths = extractImagePaths(currentPrompt);
-                const newPaths = imagePaths.filter(p => !existingPaths.includes(p));
-
-                if (newPaths.length === 0) {
-                  return currentPrompt; // All dropped images are already in the prompt
-                }
+            // Drops on a file explorer upload there instead
+            const { position } = event.payload;
+            if (position && document.elementFromPoint(position.x, position.y)?.closest('[data-file-drop-zone]')) {
+              return;
+            }
 
-                // Wrap paths with spaces in quotes for clarity
-                const mentionsToAdd = newPaths.map(p => {
-                  // If path contains spaces, wrap in quotes
-                  if (p.includes(' ')) {
-                    return `@"${p}"`;
-                  }
-                  return `@${p}`;
-                }).join(' ');
-                const newPrompt = currentPrompt + (currentPrompt.endsWith(' ') || currentPrompt === '' ? '' : ' ') + mentionsToAdd + ' ';
-
-                setTimeout(() => {
-                  const target = isExpanded ? expandedTextareaRef.current : textareaRef.current;
-                  target?.focus();
-                  target?.setSelectionRange(newPrompt.length, newPrompt.length);
-                }, 0);
-
-                return newPrompt;
-              });
+            const droppedImages = (event.payload.files ?? []).filter(dropped => isImageFile(dropped.relativePath));
+            if (droppedImages.length > 0) {
+              uploadDroppedImages(droppedImages);
             }
           }
         });
@@ -1161,7 +1225,8 @@ const FloatingPromptInputInner = (
                   placeholder={dragActive ? "Drop images here..." : "Message Claude (@ for files, / for commands)..."}
                   disabled={disabled}
                   className={cn(
-                    "resize-none pr-20 pl-3 py-2.5 transition-all duration-150",
+                    "resize-none pl-3 py-2.5 transition-all duration-150",
+                    projectPath?.trim() ? "pr-28" : "pr-20",
                     dragActive && "border-primary",
                     textareaHeight >= 240 && "overflow-y-auto scrollbar-thin"
                   )}
@@ -1173,6 +1238,25 @@ const FloatingPromptInputInner = (
 
                 {/* Action buttons inside input - fixed at bottom right */}
                 <div className="absolute right-1.5 bottom-1.5 flex items-center gap-0.5">
+                  {projectPath?.trim() && (
+                    <TooltipSimple content="Attach images" side="top">
+                      <motion.div
+                        whileTap={{ scale: 0.97 }}
+                        transition={{ duration: 0.15 }}
+                      >
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={handleAttachImages}
+                          disabled={disabled}
+                          className="h-8 w-8 hover:bg-accent/50 transition-colors"
+                        >
+                          <ImagePlus className="h-3.5 w-3.5" />
+                        </Button>
+                      </motion.div>
+                    </TooltipSimple>
+                  )}
+
                   <TooltipSimple content="Expand (Ctrl+Shift+E)" side="top">
                     <motion.div
                       whileTap={{ scale: 0.97 }}
@@ -0,0 +1,381 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  GitBranch,
+  GitCommit as GitCommitIcon,
+  RefreshCw,
+  Plus,
+  Minus,
+  ChevronDown,
+  ChevronRight,
+  Check,
+  Loader2
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { LineDiff } from '@/components/ToolWidgets';
+import {
+  containerAPI,
+  type GitBranch as GitBranchInfo,
+  type GitCommit,
+  type GitDiff,
+  type GitFileStatus,
+  type GitStatus
+} from '@/lib/containerAPI';
+import { cn } from '@/lib/utils';
+
+interface GitPanelProps {
+  projectId: string;
+  className?: string;
+}
+
+interface SelectedChange {
+  file: GitFileStatus;
+  staged: boolean;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  M: 'text-yellow-500',
+  A: 'text-green-500',
+  '?': 'text-green-500',
+  D: 'text-red-500',
+  R: 'text-blue-500',
+  C: 'text-blue-500',
+  U: 'text-orange-500'
+};
+
+/**
+ * Source control for a workspace project: branch switching, staged and
+ * unstaged changes with their diffs, committing, and recent history. Follows
+ * file changes on disk, so edits made by a session show up as they happen.
+ */
+export const GitPanel: React.FC<GitPanelProps> = ({ projectId, className = '' }) => {
+  const [status, setStatus] = useState<GitStatus | null>(null);
+  const [branches, setBranches] = useState<GitBranchInfo[]>([]);
+  const [commits, setCommits] = useState<GitCommit[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [message, setMessage] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<SelectedChange | null>(null);
+  const [diff, setDiff] = useState<GitDiff | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const nextStatus = await containerAPI.getGitStatus(projectId);
+      setStatus(nextStatus);
+      if (nextStatus.is_repository) {
+        const [nextBranches, nextCommits] = await Promise.all([
+          containerAPI.listGitBranches(projectId),
+          containerAPI.getGitLog(projectId, 20)
+        ]);
+        setBranches(nextBranches);
+        setCommits(nextCommits);
+      }
+    } catch (err) {
+      console.error('Failed to load git status:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load git status');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    setStatus(null);
+    setError(null);
+    refresh();
+    return containerAPI.watchProjectFiles(projectId, () => refresh());
+  }, [projectId, refresh]);
+
+  // Load the diff of the selected change
+  useEffect(() => {
+    if (!selected) return;
+    let cancelled = false;
+    setDiff(null);
+    containerAPI.getGitDiff(projectId, selected.file, selected.staged)
+      .then(result => {
+        if (!cancelled) setDiff(result);
+      })
+      .catch(err => {
+        console.error('Failed to load diff:', err);
+        if (!cancelled) {
+          setSelected(null);
+          setError(err instanceof Error ? err.message : 'Failed to load diff');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, selected]);
+
+  /**
+   * Runs a git operation, showing its error and refreshing afterwards
+   */
+  const run = async (operation: () => Promise<unknown>) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await operation();
+    } catch (err) {
+      console.error('Git operation failed:', err);
+      setError(err instanceof Error ? err.message : 'Git operation failed');
+    } finally {
+      setBusy(false);
+      await refresh();
+    }
+  };
+
+  const handleCheckout = (branch: GitBranchInfo) => run(() => containerAPI.checkoutGitBranch(
+    projectId,
+    // A remote branch is checked out as a local branch tracking it
+    branch.remote ? branch.name.slice(branch.name.indexOf('/') + 1) : branch.name
+  ));
+
+  const handleCreateBranch = () => {
+    const name = window.prompt('New branch name:');
+    if (name?.trim()) run(() => containerAPI.checkoutGitBranch(projectId, name.trim(), true));
+  };
+
+  const handleCommit = () => run(async () => {
+    await containerAPI.commitGit(projectId, message);
+    setMessage('');
+  });
+
+  const files = status?.files ?? [];
+  const stagedFiles = files.filter(file => file.index && !file.conflicted);
+  const unstagedFiles = files.filter(file => file.working_tree);
+  const localBranches = branches.filter(branch => !branch.remote);
+  const remoteOnlyBranches = branches.filter(branch =>
+    branch.remote && !localBranches.some(local => local.upstream === branch.name)
+  );
+
+  const renderFile = (file: GitFileStatus, staged: boolean) => {
+    const letter = (staged ? file.index : file.working_tree) ?? '';
+    return (
+      <div
+        key={`${staged ? 'staged' : 'unstaged'}:${file.path}`}
+        className="group flex items-center gap-2 px-2 py-1 text-sm cursor-pointer hover:bg-accent/50 rounded-sm"
+        onClick={() => setSelected({ file, staged })}
+        title={file.original_path ? `${file.original_path} → ${file.path}` : file.path}
+      >
+        <span className="truncate flex-1">
+          {file.path.split('/').pop()}
+          <span className="ml-1 text-xs text-muted-foreground">
+            {file.path.includes('/') ? file.path.slice(0, file.path.lastIndexOf('/')) : ''}
+          </span>
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-5 w-5 opacity-0 group-hover:opacity-100"
+          title={staged ? 'Unstage' : 'Stage'}
+          disabled={busy}
+          onClick={(e) => {
+            e.stopPropagation();
+            run(() => staged
+              ? containerAPI.unstageGitPaths(projectId, [file.path])
+              : containerAPI.stageGitPaths(projectId, [file.path]));
+          }}
+        >
+          {staged ? <Minus className="h-3 w-3" /> : <Plus className="h-3 w-3" />}
+        </Button>
+        <span className={cn('w-3 text-xs font-mono text-center', STATUS_COLORS[letter])}>
+          {letter === '?' ? 'U' : letter}
+        </span>
+      </div>
+    );
+  };
+
+  const renderSection = (title: string, sectionFiles: GitFileStatus[], staged: boolean) => (
+    <div className="mb-2">
+      <div className="flex items-center justify-between px-2 py-1 text-xs font-medium text-muted-foreground">
+        <span>{title} ({sectionFiles.length})</span>
+        {sectionFiles.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-5 px-1 text-xs"
+            disabled={busy}
+            onClick={() => run(() => staged
+              ? containerAPI.unstageGitPaths(projectId, [])
+              : containerAPI.stageGitPaths(projectId, []))}
+          >
+            {staged ? 'Unstage all' : 'Stage all'}
+          </Button>
+        )}
+      </div>
+      {sectionFiles.map(file => renderFile(file, staged))}
+    </div>
+  );
+
+  const renderDiff = () => {
+    if (!diff) {
+      return (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+    if (diff.binary || diff.too_large) {
+      return (
+        <div className="p-4 text-center text-sm text-muted-foreground">
+          {diff.binary ? 'Binary file changed' : 'File is too large to show a diff'}
+        </div>
+      );
+    }
+    return <LineDiff file_path={diff.path} old_string={diff.old_content ?? ''} new_string={diff.new_content ?? ''} />;
+  };
+
+  return (
+    <div className={`border-r bg-muted/30 flex flex-col ${className}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between p-2 border-b">
+        <h3 className="text-sm font-medium">Source Control</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          title="Refresh"
+          onClick={() => refresh()}
+        >
+          <RefreshCw className={cn('h-3 w-3', busy && 'animate-spin')} />
+        </Button>
+      </div>
+
+      {status?.is_repository && (
+        <div className="px-2 py-1 border-b">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-7 w-full justify-start gap-2 px-1" disabled={busy}>
+                <GitBranch className="h-3 w-3" />
+                <span className="truncate flex-1 text-left text-xs">
+                  {status.branch ?? `detached at ${status.commit?.slice(0, 7)}`}
+                </span>
+                {(status.ahead || status.behind) ? (
+                  <span className="text-xs text-muted-foreground">↑{status.ahead} ↓{status.behind}</span>
+                ) : null}
+                <ChevronDown className="h-3 w-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="max-h-80 overflow-y-auto">
+              {localBranches.map(branch => (
+                <DropdownMenuItem key={branch.name} onClick={() => !branch.current && handleCheckout(branch)}>
+                  {branch.current ? <Check className="h-4 w-4 mr-2" /> : <span className="w-4 mr-2" />}
+                  {branch.name}
+                </DropdownMenuItem>
+              ))}
+              {remoteOnlyBranches.length > 0 && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel>Remote</DropdownMenuLabel>
+                  {remoteOnlyBranches.map(branch => (
+                    <DropdownMenuItem key={branch.name} onClick={() => handleCheckout(branch)}>
+                      <span className="w-4 mr-2" />
+                      {branch.name}
+                    </DropdownMenuItem>
+                  ))}
+                </>
+              )}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={handleCreateBranch}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Branch...
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      )}
+
+      {error && (
+        <div className="mx-2 mt-2 rounded-md border border-destructive/50 bg-destructive/10 p-2 text-xs text-destructive whitespace-pre-wrap">
+          {error}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto">
+        {!status ? (
+          <div className="p-4 text-center text-xs text-muted-foreground">
+            Loading...
+          </div>
+        ) : !status.is_repository ? (
+          <div className="p-4 text-center text-sm text-muted-foreground">
+            <GitBranch className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p>Not a git repository</p>
+            <p className="text-xs mt-1">Run git init in a terminal, or clone a repository from the projects list</p>
+          </div>
+        ) : (
+          <div className="p-1">
+            {/* Commit */}
+            <div className="p-1 mb-2 space-y-2">
+              <Textarea
+                placeholder="Commit message"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                className="min-h-[60px] text-xs"
+              />
+              <Button
+                size="sm"
+                className="w-full"
+                disabled={busy || !message.trim() || stagedFiles.length === 0}
+                onClick={handleCommit}
+              >
+                <GitCommitIcon className="h-4 w-4 mr-2" />
+                Commit {stagedFiles.length > 0 ? `${stagedFiles.length} file${stagedFiles.length !== 1 ? 's' : ''}` : ''}
+              </Button>
+            </div>
+
+            {renderSection('Staged Changes', stagedFiles, true)}
+            {renderSection('Changes', unstagedFiles, false)}
+
+            {/* History */}
+            <div
+              className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-muted-foreground cursor-pointer"
+              onClick={() => setShowHistory(!showHistory)}
+            >
+              {showHistory ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+              History
+            </div>
+            {showHistory && (
+              commits.length > 0 ? commits.map(commit => (
+                <div
+                  key={commit.hash}
+                  className="px-2 py-1 text-xs"
+                  title={`${commit.hash}\n${commit.author_name} <${commit.author_email}>\n${new Date(commit.date).toLocaleString()}`}
+                >
+                  <div className="truncate">{commit.subject}</div>
+                  <div className="text-muted-foreground">
+                    <span className="font-mono">{commit.short_hash}</span> · {commit.author_name} · {new Date(commit.date).toLocaleDateString()}
+                  </div>
+                </div>
+              )) : (
+                <div className="px-2 py-1 text-xs text-muted-foreground">No commits yet</div>
+              )
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Diff of the selected change */}
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="font-mono text-sm">
+              {selected?.file.original_path ? `${selected.file.original_path} → ` : ''}
+              {selected?.file.path}
+              <span className="ml-2 text-xs font-sans text-muted-foreground">
+                {selected?.staged ? 'Staged' : 'Working tree'}
+              </span>
+            </DialogTitle>
+          </DialogHeader>
+          {renderDiff()}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
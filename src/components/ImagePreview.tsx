@@ -1,9 +1,9 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { X, Maximize2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
 import { motion, AnimatePresence } from "framer-motion";
-// Removed Tauri convertFileSrc - using direct file paths instead
+import { containerAPI } from "@/lib/containerAPI";
 
 interface ImagePreviewProps {
   /**
@@ -43,10 +43,30 @@ export const ImagePreview: React.FC<ImagePreviewProps> = ({
   const [selectedImageIndex, setSelectedImageIndex] = useState<number | null>(null);
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
   const [imageErrors, setImageErrors] = useState<Set<number>>(new Set());
+  // Image path -> URL serving it from the workspace
+  const [serverUrls, setServerUrls] = useState<Record<string, string>>({});
 
   // Limit to 10 images
   const displayImages = images.slice(0, 10);
 
+  useEffect(() => {
+    const unresolved = displayImages.filter(imagePath =>
+      imagePath.startsWith('/') && !(imagePath in serverUrls)
+    );
+    if (unresolved.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(unresolved.map(async imagePath => {
+      const location = await containerAPI.locateWorkspacePath(imagePath).catch(() => null);
+      return [imagePath, location ? containerAPI.fileUrl(location.projectId, location.path, { inline: true }) : imagePath];
+    })).then(entries => {
+      if (!cancelled) setServerUrls(prev => ({ ...prev, ...Object.fromEntries(entries) }));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [displayImages.join('\n')]);
+
   const handleImageError = (index: number) => {
     setImageErrors(prev => new Set(prev).add(index));
   };
@@ -56,21 +76,10 @@ export const ImagePreview: React.FC<ImagePreviewProps> = ({
     onRemove(index);
   };
 
-  // Helper to get the image source - handles both file paths and data URLs
+  // Data, blob and http(s) URLs are used as is; workspace file paths are
+  // served by the backend
   const getImageSrc = (imagePath: string): string => {
-    // If it's already a data URL or blob URL, return as-is
-    if (imagePath.startsWith('data:') || imagePath.startsWith('blob:')) {
-      return imagePath;
-    }
-    // For file paths in web environment, assume they're either:
-    // 1. Already accessible URLs (http/https)
-    // 2. Local file paths that need to be handled differently
-    if (imagePath.startsWith('http')) {
-      return imagePath;
-    }
-    // For local file paths, return as-is and let the browser handle it
-    // Note: This may not work for all cases in web environment
-    return imagePath;
+    return serverUrls[imagePath] ?? (imagePath.startsWith('/') ? '' : imagePath);
   };
 
   if (displayImages.length === 0) return null;
@@ -98,6 +107,8 @@ export const ImagePreview: React.FC<ImagePreviewProps> = ({
                   <div className="w-full h-full bg-muted flex items-center justify-center">
                     <span className="text-xs text-muted-foreground">Error</span>
                   </div>
+                ) : !getImageSrc(imagePath) ? (
+                  <div className="w-full h-full bg-muted animate-pulse" />
                 ) : (
                   <img
                     src={getImageSrc(imagePath)}
@@ -145,7 +156,7 @@ export const ImagePreview: React.FC<ImagePreviewProps> = ({
       >
         <DialogContent className="max-w-4xl max-h-[90vh] p-0">
           <DialogTitle className="sr-only">Image Preview</DialogTitle>
-          {selectedImageIndex !== null && (
+          {selectedImageIndex !== null && getImageSrc(displayImages[selectedImageIndex]) && (
             <div className="relative w-full h-full flex items-center justify-center p-4">
               <img
                 src={getImageSrc(displayImages[selectedImageIndex])}
@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from "react";
+import { LogOut } from "lucide-react";
+import { TooltipProvider, TooltipSimple } from "@/components/ui/tooltip-modern";
+import { api } from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+interface LogoutButtonProps {
+  /**
+   * Optional className for styling
+   */
+  className?: string;
+}
+
+/**
+ * Signs out of the web UI; hidden when the server does not require a login
+ *
+ * @example
+ * <LogoutButton />
+ */
+export const LogoutButton: React.FC<LogoutButtonProps> = ({ className }) => {
+  const [username, setUsername] = useState<string | null>(null);
+  const [enabled, setEnabled] = useState(false);
+
+  useEffect(() => {
+    api.getAuthStatus()
+      .then(status => {
+        setEnabled(status.enabled);
+        setUsername(status.username);
+      })
+      .catch(err => console.error("Failed to check login:", err));
+  }, []);
+
+  if (!enabled) return null;
+
+  return (
+    <TooltipProvider>
+      <TooltipSimple side="bottom" content={username ? `Sign out ${username}` : "Sign out"}>
+        <button
+          onClick={() => api.logout().catch(() => undefined)}
+          className={cn(
+            "p-2 rounded-md hover:bg-accent hover:text-accent-foreground transition-colors tauri-no-drag",
+            className
+          )}
+        >
+          <LogOut size={16} />
+        </button>
+      </TooltipSimple>
+    </TooltipProvider>
+  );
+};
@@ -1,5 +1,5 @@
 import React, { useState } from "react";
-import { Plus, Terminal, Globe, Trash2, Info, Loader2 } from "lucide-react";
+import { Plus, Terminal, Globe, Cloud, Trash2, Info, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -26,15 +26,28 @@ interface EnvironmentVariable {
   value: string;
 }
 
+type Transport = "stdio" | "sse" | "http";
+
+/**
+ * Converts key/value rows to an object, skipping incomplete rows
+ */
+const rowsToRecord = (rows: EnvironmentVariable[]) =>
+  rows.reduce((acc, { key, value }) => {
+    if (key.trim() && value.trim()) {
+      acc[key.trim()] = value;
+    }
+    return acc;
+  }, {} as Record<string, string>);
+
 /**
  * Component for adding new MCP servers
- * Supports both stdio and SSE transport types
+ * Supports stdio, SSE and streamable HTTP transport types
  */
 export const MCPAddServer: React.FC<MCPAddServerProps> = ({
   onServerAdded,
   onError,
 }) => {
-  const [transport, setTransport] = useState<"stdio" | "sse">("stdio");
+  const [transport, setTransport] = useState<Transport>("stdio");
   const [saving, setSaving] = useState(false);
   
   // Analytics tracking
@@ -53,47 +66,44 @@ export const MCPAddServer: React.FC<MCPAddServerProps> = ({
   const [sseScope, setSseScope] = useState("local");
   const [sseEnvVars, setSseEnvVars] = useState<EnvironmentVariable[]>([]);
 
+  // HTTP server state
+  const [httpName, setHttpName] = useState("");
+  const [httpUrl, setHttpUrl] = useState("");
+  const [httpScope, setHttpScope] = useState("local");
+  const [httpHeaders, setHttpHeaders] = useState<EnvironmentVariable[]>([]);
+
+  const rowSetters = {
+    stdio: setStdioEnvVars,
+    sse: setSseEnvVars,
+    http: setHttpHeaders,
+  };
+
   /**
-   * Adds a new environment variable
+   * Adds a new environment variable (or header, for HTTP servers)
    */
-  const addEnvVar = (type: "stdio" | "sse") => {
+  const addEnvVar = (type: Transport) => {
     const newVar: EnvironmentVariable = {
       id: `env-${Date.now()}`,
       key: "",
       value: "",
     };
-    
-    if (type === "stdio") {
-      setStdioEnvVars(prev => [...prev, newVar]);
-    } else {
-      setSseEnvVars(prev => [...prev, newVar]);
-    }
+    rowSetters[type](prev => [...prev, newVar]);
   };
 
   /**
-   * Updates an environment variable
+   * Updates an environment variable (or header, for HTTP servers)
    */
-  const updateEnvVar = (type: "stdio" | "sse", id: string, field: "key" | "value", value: string) => {
-    if (type === "stdio") {
-      setStdioEnvVars(prev => prev.map(v => 
-        v.id === id ? { ...v, [field]: value } : v
-      ));
-    } else {
-      setSseEnvVars(prev => prev.map(v => 
-        v.id === id ? { ...v, [field]: value } : v
-      ));
-    }
+  const updateEnvVar = (type: Transport, id: string, field: "key" | "value", value: string) => {
+    rowSetters[type](prev => prev.map(v => 
+      v.id === id ? { ...v, [field]: value } : v
+    ));
   };
 
   /**
-   * Removes an environment variable
+   * Removes an environment variable (or header, for HTTP servers)
    */
-  const removeEnvVar = (type: "stdio" | "sse", id: string) => {
-    if (type === "stdio") {
-      setStdioEnvVars(prev => prev.filter(v => v.id !== id));
-    } else {
-      setSseEnvVars(prev => prev.filter(v => v.id !== id));
-    }
+  const removeEnvVar = (type: Transport, id: string) => {
+    rowSetters[type](prev => prev.filter(v => v.id !== id));
   };
 
   /**
@@ -117,12 +127,7 @@ export const MCPAddServer: React.FC<MCPAddServerProps> = ({
       const args = stdioArgs.trim() ? stdioArgs.split(/\s+/) : [];
       
       // Convert env vars to object
-      const env = stdioEnvVars.reduce((acc, { key, value }) => {
-        if (key.trim() && value.trim()) {
-          acc[key] = value;
-        }
-        return acc;
-      }, {} as Record<string, string>);
+      const env = rowsToRecord(stdioEnvVars);
       
       const result = await api.mcpAdd(
         stdioName,
@@ -177,12 +182,7 @@ export const MCPAddServer: React.FC<MCPAddServerProps> = ({
       setSaving(true);
       
       // Convert env vars to object
-      const env = sseEnvVars.reduce((acc, { key, value }) => {
-        if (key.trim() && value.trim()) {
-          acc[key] = value;
-        }
-        return acc;
-      }, {} as Record<string, string>);
+      const env = rowsToRecord(sseEnvVars);
       
       const result = await api.mcpAdd(
         sseName,
@@ -219,13 +219,68 @@ export const MCPAddServer: React.FC<MCPAddServerProps> = ({
   };
 
   /**
-   * Renders environment variable inputs
+   * Validates and adds a streamable HTTP server
+   */
+  const handleAddHttpServer = async () => {
+    if (!httpName.trim()) {
+      onError("Server name is required");
+      return;
+    }
+    
+    if (!httpUrl.trim()) {
+      onError("URL is required");
+      return;
+    }
+    
+    try {
+      setSaving(true);
+      
+      const headers = rowsToRecord(httpHeaders);
+      
+      const result = await api.mcpAdd(
+        httpName,
+        "http",
+        undefined,
+        [],
+        {},
+        httpUrl,
+        httpScope,
+        headers
+      );
+      
+      if (result.success) {
+        // Track server added
+        trackEvent.mcpServerAdded({
+          server_type: "http",
+          configuration_method: "manual"
+        });
+        
+        // Reset form
+        setHttpName("");
+        setHttpUrl("");
+        setHttpHeaders([]);
+        setHttpScope("local");
+        onServerAdded();
+      } else {
+        onError(result.message);
+      }
+    } catch (error) {
+      onError("Failed to add server");
+      console.error("Failed to add HTTP server:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /**
+   * Renders environment variable inputs, or request header inputs for HTTP servers
    */
-  const renderEnvVars = (type: "stdio" | "sse", envVars: EnvironmentVariable[]) => {
+  const renderEnvVars = (type: Transport, envVars: EnvironmentVariable[]) => {
+    const isHeaders = type === "http";
     return (
       <div className="space-y-3">
         <div className="flex items-center justify-between">
-          <Label className="text-sm font-medium">Environment Variables</Label>
+          <Label className="text-sm font-medium">{isHeaders ? "Headers" : "Environment Variables"}</Label>
           <Button
             variant="outline"
             size="sm"
@@ -233,7 +288,7 @@ export const MCPAddServer: React.FC<MCPAddServerProps> = ({
             className="gap-2"
           >
             <Plus className="h-3 w-3" />
-            Add Variable
+            {isHeaders ? "Add Header" : "Add Variable"}
           </Button>
         </div>
         
@@ -242,12 +297,12 @@ export const MCPAddServer: React.FC<MCPAddServerProps> = ({
             {envVars.map((envVar) => (
               <div key={envVar.id} className="flex items-center gap-2">
                 <Input
-                  placeholder="KEY"
+                  placeholder={isHeaders ? "Header-Name" : "KEY"}
                   value={envVar.key}
                   onChange={(e) => updateEnvVar(type, envVar.id, "key", e.target.value)}
                   className="flex-1 font-mono text-sm"
                 />
-                <span className="text-muted-foreground">=</span>
+                <span className="text-muted-foreground">{isHeaders ? ":" : "="}</span>
                 <Input
                   placeholder="value"
                   value={envVar.value}
@@ -279,8 +334,8 @@ export const MCPAddServer: React.FC<MCPAddServerProps> = ({
         </p>
       </div>
 
-      <Tabs value={transport} onValueChange={(v) => setTransport(v as "stdio" | "sse")}>
-        <TabsList className="grid w-full grid-cols-2 max-w-sm mb-6">
+      <Tabs value={transport} onValueChange={(v) => setTransport(v as Transport)}>
+        <TabsList className="grid w-full grid-cols-3 max-w-md mb-6">
           <TabsTrigger value="stdio" className="gap-2">
             <Terminal className="h-4 w-4 text-amber-500" />
             Stdio
@@ -289,6 +344,10 @@ export const MCPAddServer: React.FC<MCPAddServerProps> = ({
             <Globe className="h-4 w-4 text-emerald-500" />
             SSE
           </TabsTrigger>
+          <TabsTrigger value="http" className="gap-2">
+            <Cloud className="h-4 w-4 text-sky-500" />
+            HTTP
+          </TabsTrigger>
         </TabsList>
 
         {/* Stdio Server */}
@@ -442,6 +501,78 @@ export const MCPAddServer: React.FC<MCPAddServerProps> = ({
             </div>
           </Card>
         </TabsContent>
+
+        {/* Streamable HTTP Server */}
+        <TabsContent value="http" className="space-y-6">
+          <Card className="p-6 space-y-6">
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="http-name">Server Name</Label>
+                <Input
+                  id="http-name"
+                  placeholder="http-server"
+                  value={httpName}
+                  onChange={(e) => setHttpName(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  A unique name to identify this server
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="http-url">URL</Label>
+                <Input
+                  id="http-url"
+                  placeholder="https://example.com/mcp"
+                  value={httpUrl}
+                  onChange={(e) => setHttpUrl(e.target.value)}
+                  className="font-mono"
+                />
+                <p className="text-xs text-muted-foreground">
+                  The streamable HTTP endpoint URL
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="http-scope">Scope</Label>
+                <SelectComponent
+                  value={httpScope}
+                  onValueChange={(value: string) => setHttpScope(value)}
+                  options={[
+                    { value: "local", label: "Local (this project only)" },
+                    { value: "project", label: "Project (shared via .mcp.json)" },
+                    { value: "user", label: "User (all projects)" },
+                  ]}
+                />
+              </div>
+
+              {renderEnvVars("http", httpHeaders)}
+              <p className="text-xs text-muted-foreground -mt-2">
+                Sent with every request, e.g. Authorization: Bearer &lt;token&gt;
+              </p>
+            </div>
+
+            <div className="pt-2">
+              <Button
+                onClick={handleAddHttpServer}
+                disabled={saving}
+                className="w-full gap-2 bg-primary hover:bg-primary/90"
+              >
+                {saving ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Adding Server...
+                  </>
+                ) : (
+                  <>
+                    <Plus className="h-4 w-4" />
+                    Add HTTP Server
+                  </>
+                )}
+              </Button>
+            </div>
+          </Card>
+        </TabsContent>
       </Tabs>
 
       {/* Example */}
@@ -456,6 +587,7 @@ export const MCPAddServer: React.FC<MCPAddServerProps> = ({
               <p>• Postgres: /path/to/postgres-mcp-server --connection-string "postgresql://..."</p>
               <p>• Weather API: /usr/local/bin/weather-cli --api-key ABC123</p>
               <p>• SSE Server: https://api.example.com/mcp/stream</p>
+              <p>• HTTP Server: https://api.example.com/mcp with header Authorization: Bearer ...</p>
             </div>
           </div>
         </div>
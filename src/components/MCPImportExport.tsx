@@ -1,10 +1,17 @@
-import React, { useState } from "react";
-import { Download, Upload, FileText, Loader2, Info, Network, Settings2 } from "lucide-react";
+import React, { useState, useEffect } from "react";
+import { Download, Upload, FileText, Loader2, Info, Network, Settings2, Copy, Check } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { SelectComponent } from "@/components/ui/select";
-import { api } from "@/lib/api";
+import {
+  api,
+  type MCPServerConfig,
+  type MCPExportFormat,
+  type MCPExportValueMode,
+  type MCPExportResult
+} from "@/lib/api";
+import { downloadFile } from "@/lib/webFileDialog";
 
 interface MCPImportExportProps {
   /**
@@ -17,6 +24,28 @@ interface MCPImportExportProps {
   onError: (message: string) => void;
 }
 
+/**
+ * Normalizes one entry of an .mcp.json file; entries without a type are
+ * remote when they carry a URL and stdio otherwise
+ */
+const toServerConfig = (config: MCPServerConfig): MCPServerConfig => {
+  const type = config.type || (config.url ? "sse" : "stdio");
+  if (type === "stdio") {
+    return {
+      type,
+      command: config.command,
+      args: config.args || [],
+      env: config.env || {}
+    };
+  }
+  return {
+    type,
+    url: config.url,
+    headers: config.headers || {},
+    env: config.env || {}
+  };
+};
+
 /**
  * Component for importing and exporting MCP server configurations
  */
@@ -27,6 +56,59 @@ export const MCPImportExport: React.FC<MCPImportExportProps> = ({
   const [importingDesktop, setImportingDesktop] = useState(false);
   const [importingJson, setImportingJson] = useState(false);
   const [importScope, setImportScope] = useState("local");
+  
+  // Export state
+  const [exportScope, setExportScope] = useState("all");
+  const [exportFormat, setExportFormat] = useState<MCPExportFormat>("mcp_json");
+  const [exportValueMode, setExportValueMode] = useState<MCPExportValueMode>("placeholder");
+  const [exportableServers, setExportableServers] = useState<string[]>([]);
+  const [selectedServers, setSelectedServers] = useState<Set<string>>(new Set());
+  const [exportPreview, setExportPreview] = useState<MCPExportResult | null>(null);
+  const [exportCopied, setExportCopied] = useState(false);
+
+  // Servers available in the chosen scope, all selected by default
+  useEffect(() => {
+    let cancelled = false;
+    api.mcpExport({ scope: exportScope === "all" ? undefined : exportScope })
+      .then(result => {
+        if (cancelled) return;
+        const names = [...result.exported, ...result.skipped.map(s => s.name)].sort();
+        setExportableServers(names);
+        setSelectedServers(new Set(names));
+      })
+      .catch(error => {
+        console.error("Failed to list servers for export:", error);
+        if (!cancelled) setExportableServers([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [exportScope]);
+
+  // Preview of the export with the current options
+  useEffect(() => {
+    if (selectedServers.size === 0) {
+      setExportPreview(null);
+      return;
+    }
+    let cancelled = false;
+    api.mcpExport({
+      scope: exportScope === "all" ? undefined : exportScope,
+      names: [...selectedServers],
+      format: exportFormat,
+      valueMode: exportValueMode,
+    })
+      .then(result => {
+        if (!cancelled) setExportPreview(result);
+      })
+      .catch(error => {
+        console.error("Failed to export servers:", error);
+        if (!cancelled) setExportPreview(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [exportScope, selectedServers, exportFormat, exportValueMode]);
 
   /**
    * Imports servers from Claude Desktop
@@ -96,12 +178,7 @@ export const MCPImportExport: React.FC<MCPImportExportProps> = ({
 
         for (const [name, config] of Object.entries(jsonData.mcpServers)) {
           try {
-            const serverConfig = {
-              type: "stdio",
-              command: (config as any).command,
-              args: (config as any).args || [],
-              env: (config as any).env || {}
-            };
+            const serverConfig = toServerConfig(config as MCPServerConfig);
             
             const result = await api.mcpAddJson(name, JSON.stringify(serverConfig), importScope);
             if (result.success) {
@@ -115,7 +192,7 @@ export const MCPImportExport: React.FC<MCPImportExportProps> = ({
         }
         
         onImportCompleted(imported, failed);
-      } else if (jsonData.type && jsonData.command) {
+      } else if (jsonData.type && (jsonData.command || jsonData.url)) {
         // Single server format
         const name = prompt("Enter a name for this server:");
         if (!name) return;
@@ -140,11 +217,42 @@ export const MCPImportExport: React.FC<MCPImportExportProps> = ({
   };
 
   /**
-   * Handles exporting servers (placeholder)
+   * Toggles a server in the export selection
+   */
+  const toggleExportServer = (name: string) => {
+    setSelectedServers(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
+  /**
+   * Downloads the exported configuration
    */
   const handleExport = () => {
-    // TODO: Implement export functionality
-    onError("Export functionality coming soon!");
+    if (!exportPreview) return;
+    const filename = exportFormat === "claude_desktop" ? "claude_desktop_config.json" : "mcp.json";
+    downloadFile(exportPreview.content, filename, "application/json");
+  };
+
+  /**
+   * Copies the exported configuration to the clipboard
+   */
+  const handleCopyExport = async () => {
+    if (!exportPreview) return;
+    try {
+      await navigator.clipboard.writeText(exportPreview.content);
+      setExportCopied(true);
+      setTimeout(() => setExportCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy export:", error);
+      onError("Failed to copy to clipboard");
+    }
   };
 
   /**
@@ -271,29 +379,129 @@ export const MCPImportExport: React.FC<MCPImportExportProps> = ({
           </div>
         </Card>
 
-        {/* Export (Coming Soon) */}
-        <Card className="p-4 opacity-60">
-          <div className="space-y-3">
+        {/* Export */}
+        <Card className="p-4 hover:bg-accent/5 transition-colors">
+          <div className="space-y-4">
             <div className="flex items-start gap-3">
-              <div className="p-2.5 bg-muted rounded-lg">
-                <Upload className="h-5 w-5 text-muted-foreground" />
+              <div className="p-2.5 bg-amber-500/10 rounded-lg">
+                <Upload className="h-5 w-5 text-amber-500" />
               </div>
               <div className="flex-1">
                 <h4 className="text-sm font-medium">Export Configuration</h4>
                 <p className="text-xs text-muted-foreground mt-1">
-                  Export your MCP server configuration
+                  Export servers as an .mcp.json or Claude Desktop config to share with your team
                 </p>
               </div>
             </div>
-            <Button
-              onClick={handleExport}
-              disabled={true}
-              variant="secondary"
-              className="w-full gap-2"
-            >
-              <Upload className="h-4 w-4" />
-              Export (Coming Soon)
-            </Button>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs">Scope</Label>
+                <SelectComponent
+                  value={exportScope}
+                  onValueChange={(value: string) => setExportScope(value)}
+                  options={[
+                    { value: "all", label: "All scopes" },
+                    { value: "local", label: "Local" },
+                    { value: "project", label: "Project" },
+                    { value: "user", label: "User" },
+                  ]}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Format</Label>
+                <SelectComponent
+                  value={exportFormat}
+                  onValueChange={(value: string) => setExportFormat(value as MCPExportFormat)}
+                  options={[
+                    { value: "mcp_json", label: ".mcp.json (Claude Code)" },
+                    { value: "claude_desktop", label: "Claude Desktop" },
+                  ]}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Env & header values</Label>
+                <SelectComponent
+                  value={exportValueMode}
+                  onValueChange={(value: string) => setExportValueMode(value as MCPExportValueMode)}
+                  options={[
+                    { value: "placeholder", label: "Replace with ${VAR}" },
+                    { value: "redact", label: "Redact" },
+                    { value: "keep", label: "Keep values" },
+                  ]}
+                />
+              </div>
+            </div>
+
+            {exportableServers.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No servers configured in this scope</p>
+            ) : (
+              <div className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs">Servers</Label>
+                  <button
+                    onClick={() => setSelectedServers(
+                      selectedServers.size === exportableServers.length ? new Set() : new Set(exportableServers)
+                    )}
+                    className="text-xs text-primary hover:underline"
+                  >
+                    {selectedServers.size === exportableServers.length ? "Select none" : "Select all"}
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1.5">
+                  {exportableServers.map(name => (
+                    <label key={name} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedServers.has(name)}
+                        onChange={() => toggleExportServer(name)}
+                      />
+                      <span className="font-mono">{name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {exportPreview && (
+              <>
+                <pre className="bg-muted/50 p-3 rounded-lg overflow-auto max-h-64 text-xs font-mono">
+                  {exportPreview.content}
+                </pre>
+                {exportPreview.skipped.length > 0 && (
+                  <div className="text-xs text-muted-foreground space-y-0.5">
+                    {exportPreview.skipped.map(({ name, reason }) => (
+                      <p key={name}>Skipped <span className="font-mono">{name}</span>: {reason}</p>
+                    ))}
+                  </div>
+                )}
+                {exportValueMode === "keep" && (
+                  <p className="text-xs text-amber-600">
+                    Env and header values are exported as they are and may contain secrets
+                  </p>
+                )}
+              </>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                onClick={handleExport}
+                disabled={!exportPreview || exportPreview.exported.length === 0}
+                className="flex-1 gap-2"
+              >
+                <Download className="h-4 w-4" />
+                Download
+              </Button>
+              <Button
+                onClick={handleCopyExport}
+                disabled={!exportPreview || exportPreview.exported.length === 0}
+                variant="outline"
+                className="gap-2"
+              >
+                {exportCopied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                {exportCopied ? "Copied!" : "Copy"}
+              </Button>
+            </div>
           </div>
         </Card>
 
@@ -339,6 +547,16 @@ export const MCPImportExport: React.FC<MCPImportExportProps> = ({
   "command": "/path/to/server",
   "args": ["--arg1", "value"],
   "env": { "KEY": "value" }
+}`}
+              </pre>
+            </div>
+            <div>
+              <p className="font-medium text-muted-foreground mb-1">Streamable HTTP server:</p>
+              <pre className="bg-background p-3 rounded-lg overflow-x-auto">
+{`{
+  "type": "http",
+  "url": "https://example.com/mcp",
+  "headers": { "Authorization": "Bearer ..." }
 }`}
               </pre>
             </div>
@@ -356,6 +574,11 @@ export const MCPImportExport: React.FC<MCPImportExportProps> = ({
       "command": "/path/to/server2",
       "args": ["--port", "8080"],
       "env": { "API_KEY": "..." }
+    },
+    "server3": {
+      "type": "http",
+      "url": "https://example.com/mcp",
+      "headers": { "Authorization": "Bearer ..." }
     }
   }
 }`}
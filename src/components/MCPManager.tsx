@@ -8,6 +8,7 @@ import { api, type MCPServer } from "@/lib/api";
 import { MCPServerList } from "./MCPServerList";
 import { MCPAddServer } from "./MCPAddServer";
 import { MCPImportExport } from "./MCPImportExport";
+import { MCPToolPlayground } from "./MCPToolPlayground";
 
 interface MCPManagerProps {
   /**
@@ -132,7 +133,7 @@ export const MCPManager: React.FC<MCPManagerProps> = ({
         ) : (
           <div className="flex-1 overflow-y-auto p-6">
             <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-              <TabsList className="grid grid-cols-3 w-full max-w-md mb-6 h-auto p-1">
+              <TabsList className="grid grid-cols-4 w-full max-w-lg mb-6 h-auto p-1">
                 <TabsTrigger value="servers" className="py-2.5 px-3">
                   Servers
                 </TabsTrigger>
@@ -142,6 +143,9 @@ export const MCPManager: React.FC<MCPManagerProps> = ({
                 <TabsTrigger value="import" className="py-2.5 px-3">
                   Import/Export
                 </TabsTrigger>
+                <TabsTrigger value="playground" className="py-2.5 px-3">
+                  Playground
+                </TabsTrigger>
               </TabsList>
 
               {/* Servers Tab */}
@@ -175,6 +179,13 @@ export const MCPManager: React.FC<MCPManagerProps> = ({
                   />
                 </Card>
               </TabsContent>
+
+              {/* Playground Tab */}
+              <TabsContent value="playground" className="space-y-6 mt-6">
+                <Card>
+                  <MCPToolPlayground servers={servers} />
+                </Card>
+              </TabsContent>
             </Tabs>
           </div>
         )}
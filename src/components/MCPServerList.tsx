@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { 
   Network, 
@@ -14,11 +14,18 @@ import {
   FileText,
   ChevronDown,
   ChevronUp,
-  Copy
+  Copy,
+  Cloud,
+  AlertCircle,
+  Activity,
+  Wrench
 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { api, type MCPServer } from "@/lib/api";
+import { api, type MCPServer, type MCPStatusEvent, type ServerStatus } from "@/lib/api";
+import { listen } from "@/lib/webEventSystem";
+import { SecretValue } from "@/components/SecretsManager";
 import { useTrackEvent } from "@/hooks";
 
 interface MCPServerListProps {
@@ -40,9 +47,12 @@ interface MCPServerListProps {
   onRefresh: () => void;
 }
 
+const plural = (count: number, noun: string) => `${count} ${noun}${count !== 1 ? "s" : ""}`;
+
 /**
  * Component for displaying a list of MCP servers
- * Shows servers grouped by scope with status indicators
+ * Shows servers grouped by scope with live health status and the tools,
+ * resources and prompts each server offers
  */
 export const MCPServerList: React.FC<MCPServerListProps> = ({
   servers,
@@ -55,10 +65,31 @@ export const MCPServerList: React.FC<MCPServerListProps> = ({
   const [expandedServers, setExpandedServers] = useState<Set<string>>(new Set());
   const [copiedServer, setCopiedServer] = useState<string | null>(null);
   const [connectedServers] = useState<string[]>([]);
+  // Statuses received since the list was loaded, by server name
+  const [liveStatuses, setLiveStatuses] = useState<Record<string, ServerStatus>>({});
+  const [checkingAll, setCheckingAll] = useState(false);
   
   // Analytics tracking
   const trackEvent = useTrackEvent();
 
+  // A reloaded list carries the latest statuses
+  useEffect(() => {
+    setLiveStatuses({});
+  }, [servers]);
+
+  useEffect(() => {
+    const unlistenPromise = listen<MCPStatusEvent>("mcp-status", (event) => {
+      const { name, status } = event.payload;
+      setLiveStatuses(prev => ({ ...prev, [name]: status }));
+    });
+    return () => {
+      unlistenPromise.then(unlisten => unlisten());
+    };
+  }, []);
+
+  const statusOf = (server: MCPServer): ServerStatus | undefined =>
+    liveStatuses[server.name] ?? server.status;
+
   // Group servers by scope
   const serversByScope = servers.reduce((acc, server) => {
     const scope = server.scope || "local";
@@ -127,14 +158,11 @@ export const MCPServerList: React.FC<MCPServerListProps> = ({
   const handleTestConnection = async (name: string) => {
     try {
       setTestingServer(name);
-      const result = await api.mcpTestConnection(name);
+      await api.mcpTestConnection(name);
       const server = servers.find(s => s.name === name);
       
-      // Track connection result - result is a string message
+      // Track connection result
       trackEvent.mcpServerConnected(name, true, server?.transport || 'unknown');
-      
-      // TODO: Show result in a toast or modal
-      console.log("Test result:", result);
     } catch (error) {
       console.error("Failed to test connection:", error);
       
@@ -145,7 +173,157 @@ export const MCPServerList: React.FC<MCPServerListProps> = ({
       });
     } finally {
       setTestingServer(null);
+      // The result is also sent as an mcp-status event; fetch it in case the
+      // event stream is disconnected
+      api.mcpGetServerStatus()
+        .then(statuses => setLiveStatuses(prev => ({ ...prev, ...statuses })))
+        .catch(() => {});
+    }
+  };
+
+  /**
+   * Re-checks every server
+   */
+  const handleCheckAll = async () => {
+    try {
+      setCheckingAll(true);
+      const statuses = await api.mcpCheckServers();
+      setLiveStatuses(prev => ({ ...prev, ...statuses }));
+    } catch (error) {
+      console.error("Failed to check servers:", error);
+    } finally {
+      setCheckingAll(false);
+    }
+  };
+
+  /**
+   * Renders the badge for a server's last health check
+   */
+  const renderStatusBadge = (status?: ServerStatus) => {
+    if (status?.checking) {
+      return (
+        <Badge variant="outline" className="gap-1 flex-shrink-0">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Checking
+        </Badge>
+      );
+    }
+    if (status?.running) {
+      return (
+        <Badge variant="outline" className="gap-1 flex-shrink-0 border-green-500/50 text-green-600 bg-green-500/10">
+          <CheckCircle className="h-3 w-3" />
+          Running
+          {status.latency_ms !== undefined && (
+            <span className="text-green-600/70">· {status.latency_ms} ms</span>
+          )}
+        </Badge>
+      );
+    }
+    if (status?.error) {
+      return (
+        <Badge variant="outline" className="gap-1 flex-shrink-0 border-destructive/50 text-destructive bg-destructive/10" title={status.error}>
+          <AlertCircle className="h-3 w-3" />
+          Error
+        </Badge>
+      );
     }
+    return null;
+  };
+
+  /**
+   * Renders the health details and catalogs of an expanded server
+   */
+  const renderHealthDetails = (status?: ServerStatus) => {
+    if (!status?.last_checked) {
+      return null;
+    }
+    const tools = status.tools ?? [];
+    const resources = status.resources ?? [];
+    const prompts = status.prompts ?? [];
+    
+    return (
+      <>
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">Health</p>
+          <div className="text-xs bg-muted/50 p-2 rounded space-y-1">
+            {status.server_info && (
+              <div>
+                <span className="text-muted-foreground">Server: </span>
+                <span className="font-mono">
+                  {status.server_info.name}{status.server_info.version ? ` ${status.server_info.version}` : ""}
+                </span>
+                {status.protocol_version && (
+                  <span className="text-muted-foreground"> (protocol {status.protocol_version})</span>
+                )}
+              </div>
+            )}
+            {status.startup_ms !== undefined && (
+              <div>
+                <span className="text-muted-foreground">Startup: </span>{status.startup_ms} ms
+                {status.latency_ms !== undefined && (
+                  <>
+                    <span className="text-muted-foreground"> · Latency: </span>{status.latency_ms} ms
+                  </>
+                )}
+              </div>
+            )}
+            <div>
+              <span className="text-muted-foreground">Last checked: </span>
+              {formatDistanceToNow(new Date(status.last_checked), { addSuffix: true })}
+            </div>
+            {status.error && (
+              <p className="font-mono text-destructive whitespace-pre-wrap break-all">{status.error}</p>
+            )}
+          </div>
+        </div>
+        
+        {tools.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">Tools ({tools.length})</p>
+            <div className="text-xs bg-muted/50 p-2 rounded space-y-1.5">
+              {tools.map(tool => (
+                <div key={tool.name}>
+                  <span className="font-mono text-primary">{tool.name}</span>
+                  {tool.description && (
+                    <p className="text-muted-foreground line-clamp-2">{tool.description}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        
+        {resources.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">Resources ({resources.length})</p>
+            <div className="text-xs bg-muted/50 p-2 rounded space-y-1">
+              {resources.map(resource => (
+                <div key={resource.uri} className="break-all">
+                  <span className="font-mono">{resource.name}</span>
+                  <span className="text-muted-foreground ml-2">{resource.uri}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        
+        {prompts.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">Prompts ({prompts.length})</p>
+            <div className="text-xs bg-muted/50 p-2 rounded space-y-1.5">
+              {prompts.map(prompt => (
+                <div key={prompt.name}>
+                  <span className="font-mono text-primary">{prompt.name}</span>
+                  {prompt.description && (
+                    <p className="text-muted-foreground line-clamp-2">{prompt.description}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </>
+    );
   };
 
   /**
@@ -157,6 +335,8 @@ export const MCPServerList: React.FC<MCPServerListProps> = ({
         return <Terminal className="h-4 w-4 text-amber-500" />;
       case "sse":
         return <Globe className="h-4 w-4 text-emerald-500" />;
+      case "http":
+        return <Cloud className="h-4 w-4 text-sky-500" />;
       default:
         return <Network className="h-4 w-4 text-blue-500" />;
     }
@@ -200,6 +380,8 @@ export const MCPServerList: React.FC<MCPServerListProps> = ({
   const renderServerItem = (server: MCPServer) => {
     const isExpanded = expandedServers.has(server.name);
     const isCopied = copiedServer === server.name;
+    const headerCount = Object.keys(server.headers || {}).length;
+    const status = statusOf(server);
     
     return (
       <motion.div
@@ -217,12 +399,7 @@ export const MCPServerList: React.FC<MCPServerListProps> = ({
                   {getTransportIcon(server.transport)}
                 </div>
                 <h4 className="font-medium truncate">{server.name}</h4>
-                {server.status?.running && (
-                  <Badge variant="outline" className="gap-1 flex-shrink-0 border-green-500/50 text-green-600 bg-green-500/10">
-                    <CheckCircle className="h-3 w-3" />
-                    Running
-                  </Badge>
-                )}
+                {renderStatusBadge(status)}
               </div>
               
               {server.command && !isExpanded && (
@@ -242,11 +419,28 @@ export const MCPServerList: React.FC<MCPServerListProps> = ({
                 </div>
               )}
               
-              {server.transport === "sse" && server.url && !isExpanded && (
-                <div className="overflow-hidden">
-                  <p className="text-xs text-muted-foreground font-mono truncate pl-9" title={server.url}>
+              {server.transport !== "stdio" && server.url && !isExpanded && (
+                <div className="flex items-center gap-2">
+                  <p className="text-xs text-muted-foreground font-mono truncate pl-9 flex-1" title={server.url}>
                     {server.url}
                   </p>
+                  {headerCount > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => toggleExpanded(server.name)}
+                      className="h-6 px-2 text-xs hover:bg-primary/10"
+                    >
+                      <ChevronDown className="h-3 w-3 mr-1" />
+                      Show full
+                    </Button>
+                  )}
+                </div>
+              )}
+              
+              {headerCount > 0 && !isExpanded && (
+                <div className="flex items-center gap-1 text-xs text-muted-foreground pl-9">
+                  <span>Headers: {headerCount}</span>
                 </div>
               )}
               
@@ -255,6 +449,34 @@ export const MCPServerList: React.FC<MCPServerListProps> = ({
                   <span>Environment variables: {Object.keys(server.env).length}</span>
                 </div>
               )}
+              
+              {status?.running && !isExpanded && (
+                <button
+                  onClick={() => toggleExpanded(server.name)}
+                  className="flex items-center gap-1.5 text-xs text-muted-foreground pl-9 hover:text-foreground"
+                >
+                  <Wrench className="h-3 w-3" />
+                  {plural(status.tools?.length ?? 0, "tool")}
+                  {" · "}{plural(status.resources?.length ?? 0, "resource")}
+                  {" · "}{plural(status.prompts?.length ?? 0, "prompt")}
+                  {status.last_checked && (
+                    <span className="text-muted-foreground/60">
+                      · checked {formatDistanceToNow(new Date(status.last_checked), { addSuffix: true })}
+                    </span>
+                  )}
+                  <ChevronDown className="h-3 w-3" />
+                </button>
+              )}
+              
+              {!status?.running && !status?.checking && status?.error && !isExpanded && (
+                <button
+                  onClick={() => toggleExpanded(server.name)}
+                  className="block w-full text-left text-xs text-destructive font-mono truncate pl-9 hover:underline"
+                  title={status.error}
+                >
+                  {status.error}
+                </button>
+              )}
             </div>
             
             <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0">
@@ -262,8 +484,9 @@ export const MCPServerList: React.FC<MCPServerListProps> = ({
                 variant="ghost"
                 size="sm"
                 onClick={() => handleTestConnection(server.name)}
-                disabled={testingServer === server.name}
+                disabled={testingServer === server.name || status?.checking}
                 className="hover:bg-green-500/10 hover:text-green-600"
+                title="Check connection"
               >
                 {testingServer === server.name ? (
                   <Loader2 className="h-4 w-4 animate-spin" />
@@ -341,15 +564,43 @@ export const MCPServerList: React.FC<MCPServerListProps> = ({
                 </div>
               )}
               
-              {server.transport === "sse" && server.url && (
+              {server.transport !== "stdio" && server.url && (
                 <div className="space-y-1">
-                  <p className="text-xs font-medium text-muted-foreground">URL</p>
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs font-medium text-muted-foreground">URL</p>
+                    {!server.command && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => toggleExpanded(server.name)}
+                        className="h-6 px-2 text-xs hover:bg-primary/10"
+                      >
+                        <ChevronUp className="h-3 w-3 mr-1" />
+                        Hide
+                      </Button>
+                    )}
+                  </div>
                   <p className="text-xs font-mono bg-muted/50 p-2 rounded break-all">
                     {server.url}
                   </p>
                 </div>
               )}
               
+              {headerCount > 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground">Headers</p>
+                  <div className="text-xs font-mono bg-muted/50 p-2 rounded space-y-1">
+                    {Object.entries(server.headers!).map(([key, value]) => (
+                      <div key={key} className="break-all">
+                        <span className="text-primary">{key}</span>
+                        <span className="text-muted-foreground mr-1">:</span>
+                        <SecretValue value={value} />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              
               {Object.keys(server.env).length > 0 && (
                 <div className="space-y-1">
                   <p className="text-xs font-medium text-muted-foreground">Environment Variables</p>
@@ -358,12 +609,14 @@ export const MCPServerList: React.FC<MCPServerListProps> = ({
                       <div key={key} className="break-all">
                         <span className="text-primary">{key}</span>
                         <span className="text-muted-foreground mx-1">=</span>
-                        <span>{value}</span>
+                        <SecretValue value={value} />
                       </div>
                     ))}
                   </div>
                 </div>
               )}
+              
+              {renderHealthDetails(status)}
             </motion.div>
           )}
         </div>
@@ -389,15 +642,31 @@ export const MCPServerList: React.FC<MCPServerListProps> = ({
             {servers.length} server{servers.length !== 1 ? "s" : ""} configured
           </p>
         </div>
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={onRefresh}
-          className="gap-2 hover:bg-primary/10 hover:text-primary hover:border-primary/50"
-        >
-          <RefreshCw className="h-4 w-4" />
-          Refresh
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCheckAll}
+            disabled={checkingAll || servers.length === 0}
+            className="gap-2 hover:bg-green-500/10 hover:text-green-600 hover:border-green-500/50"
+          >
+            {checkingAll ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Activity className="h-4 w-4" />
+            )}
+            Check All
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onRefresh}
+            className="gap-2 hover:bg-primary/10 hover:text-primary hover:border-primary/50"
+          >
+            <RefreshCw className="h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
       </div>
 
       {/* Server List */}
@@ -0,0 +1,656 @@
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  Play,
+  Loader2,
+  RefreshCw,
+  Wrench,
+  History,
+  Trash2,
+  Copy,
+  Check,
+  AlertCircle,
+  ChevronDown,
+  ChevronRight,
+  Braces,
+  FormInput
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { SelectComponent } from "@/components/ui/select";
+import { MCPWidget } from "@/components/ToolWidgets";
+import {
+  api,
+  type MCPServer,
+  type MCPStatusEvent,
+  type MCPTool,
+  type MCPToolCall,
+  type ServerStatus
+} from "@/lib/api";
+import { listen } from "@/lib/webEventSystem";
+import { cn } from "@/lib/utils";
+
+interface MCPToolPlaygroundProps {
+  /**
+   * Configured servers to pick from
+   */
+  servers: MCPServer[];
+}
+
+type FieldKind = "string" | "enum" | "number" | "integer" | "boolean" | "json";
+
+interface SchemaField {
+  name: string;
+  kind: FieldKind;
+  required: boolean;
+  description?: string;
+  enumValues?: unknown[];
+  defaultValue?: unknown;
+}
+
+// Radix selects can't hold an empty value
+const UNSET = "__unset__";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Derives form fields from the top-level properties of a tool's input schema.
+ * Objects, arrays and anything without a simple type are edited as JSON.
+ */
+const schemaFields = (schema?: Record<string, unknown>): SchemaField[] => {
+  const required: unknown[] = Array.isArray(schema?.required) ? schema.required : [];
+  const properties = isRecord(schema?.properties) ? schema.properties : {};
+  return Object.entries(properties).map(([name, value]) => {
+    const property = isRecord(value) ? value : {};
+    const types: unknown[] = Array.isArray(property.type) ? property.type : [property.type];
+    const type = types.find(t => t && t !== "null");
+    let kind: FieldKind = "json";
+    if (Array.isArray(property.enum)) {
+      kind = "enum";
+    } else if (type === "string" || type === "number" || type === "integer" || type === "boolean") {
+      kind = type;
+    }
+    return {
+      name,
+      kind,
+      required: required.includes(name),
+      description: typeof property.description === "string" ? property.description : undefined,
+      enumValues: Array.isArray(property.enum) ? property.enum : undefined,
+      defaultValue: property.default,
+    };
+  });
+};
+
+/**
+ * Form values are kept as strings; booleans and enums use their JSON text
+ */
+const toFormValue = (field: SchemaField, value: unknown): string => {
+  if (value === undefined) return "";
+  if (field.kind === "string") return typeof value === "string" ? value : JSON.stringify(value);
+  if (field.kind === "json") return JSON.stringify(value, null, 2);
+  return JSON.stringify(value);
+};
+
+const initialValues = (fields: SchemaField[]) =>
+  Object.fromEntries(fields.map(field => [field.name, toFormValue(field, field.defaultValue)]));
+
+/**
+ * Converts form values to tool arguments, throwing on invalid or missing values
+ */
+const buildArguments = (fields: SchemaField[], values: Record<string, string>) => {
+  const args: Record<string, unknown> = {};
+  for (const field of fields) {
+    const raw = values[field.name] ?? "";
+    if (raw === "") {
+      if (field.required) throw new Error(`${field.name} is required`);
+      continue;
+    }
+    switch (field.kind) {
+      case "string":
+        args[field.name] = raw;
+        break;
+      case "number":
+      case "integer": {
+        const number = Number(raw);
+        if (!Number.isFinite(number) || (field.kind === "integer" && !Number.isInteger(number))) {
+          throw new Error(`${field.name} must be ${field.kind === "integer" ? "an integer" : "a number"}`);
+        }
+        args[field.name] = number;
+        break;
+      }
+      default:
+        try {
+          args[field.name] = JSON.parse(raw);
+        } catch {
+          throw new Error(`${field.name} must be valid JSON`);
+        }
+    }
+  }
+  return args;
+};
+
+/**
+ * JSON-RPC request equivalent to a call, for reproducing it outside the app
+ */
+const toJsonRpc = (call: MCPToolCall) =>
+  JSON.stringify({
+    jsonrpc: "2.0",
+    id: 1,
+    method: "tools/call",
+    params: { name: call.tool_name, arguments: call.arguments },
+  }, null, 2);
+
+/**
+ * Playground for calling the tools of an MCP server by hand: lists the tools
+ * with their input schemas, builds a form from each schema, shows the raw
+ * result, and keeps a history of calls that can be replayed or copied.
+ */
+export const MCPToolPlayground: React.FC<MCPToolPlaygroundProps> = ({ servers }) => {
+  const [serverName, setServerName] = useState<string>(servers[0]?.name ?? "");
+  const [statuses, setStatuses] = useState<Record<string, ServerStatus>>({});
+  const [checking, setChecking] = useState(false);
+  const [toolName, setToolName] = useState<string | null>(null);
+  const [mode, setMode] = useState<"form" | "json">("form");
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [jsonText, setJsonText] = useState("{}");
+  const [showSchema, setShowSchema] = useState(false);
+  const [calling, setCalling] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [selectedCall, setSelectedCall] = useState<MCPToolCall | null>(null);
+  const [history, setHistory] = useState<MCPToolCall[]>([]);
+  const [copiedCall, setCopiedCall] = useState<number | null>(null);
+
+  const server = servers.find(s => s.name === serverName);
+  const status = statuses[serverName] ?? server?.status;
+  const tools: MCPTool[] = status?.tools ?? [];
+  const tool = tools.find(t => t.name === toolName) ?? null;
+  const fields = useMemo(() => schemaFields(tool?.inputSchema), [tool]);
+
+  // Keep the selection valid when the server list changes
+  useEffect(() => {
+    if (!servers.some(s => s.name === serverName)) {
+      setServerName(servers[0]?.name ?? "");
+    }
+  }, [servers, serverName]);
+
+  useEffect(() => {
+    api.mcpGetServerStatus().then(setStatuses).catch(() => {});
+    const unlistenPromise = listen<MCPStatusEvent>("mcp-status", (event) => {
+      const { name, status } = event.payload;
+      setStatuses(prev => ({ ...prev, [name]: status }));
+    });
+    return () => {
+      unlistenPromise.then(unlisten => unlisten());
+    };
+  }, []);
+
+  const loadHistory = useCallback(async () => {
+    if (!serverName) return;
+    try {
+      setHistory(await api.mcpListToolCalls(serverName));
+    } catch (error) {
+      console.error("Failed to load tool call history:", error);
+    }
+  }, [serverName]);
+
+  useEffect(() => {
+    setToolName(null);
+    setSelectedCall(null);
+    loadHistory();
+  }, [loadHistory]);
+
+  /**
+   * Selects a tool, optionally prefilling the arguments of an earlier call
+   */
+  const selectTool = (name: string, args?: Record<string, unknown>) => {
+    const nextTool = tools.find(t => t.name === name);
+    const nextFields = schemaFields(nextTool?.inputSchema);
+    setToolName(name);
+    setFormError(null);
+    if (args) {
+      setValues(Object.fromEntries(nextFields.map(field => [field.name, toFormValue(field, args[field.name])])));
+      setJsonText(JSON.stringify(args, null, 2));
+    } else {
+      const defaults = initialValues(nextFields);
+      setValues(defaults);
+      try {
+        setJsonText(JSON.stringify(buildArguments(nextFields.map(f => ({ ...f, required: false })), defaults), null, 2));
+      } catch {
+        setJsonText("{}");
+      }
+    }
+  };
+
+  /**
+   * Re-checks the server so its tool list is current
+   */
+  const handleRefreshTools = async () => {
+    if (!serverName) return;
+    try {
+      setChecking(true);
+      await api.mcpTestConnection(serverName);
+    } catch (error) {
+      console.error("Failed to refresh tools:", error);
+    } finally {
+      setChecking(false);
+      api.mcpGetServerStatus().then(setStatuses).catch(() => {});
+    }
+  };
+
+  const switchMode = (next: "form" | "json") => {
+    if (next === mode) return;
+    setFormError(null);
+    try {
+      if (next === "json") {
+        setJsonText(JSON.stringify(buildArguments(fields.map(f => ({ ...f, required: false })), values), null, 2));
+      } else {
+        const parsed: unknown = JSON.parse(jsonText || "{}");
+        const args = isRecord(parsed) ? parsed : {};
+        setValues(Object.fromEntries(fields.map(field => [field.name, toFormValue(field, args[field.name])])));
+      }
+      setMode(next);
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Invalid arguments");
+    }
+  };
+
+  const handleCall = async () => {
+    if (!tool) return;
+    let args: Record<string, unknown>;
+    try {
+      if (mode === "json") {
+        const parsed: unknown = JSON.parse(jsonText || "{}");
+        if (!isRecord(parsed)) {
+          throw new Error("Arguments must be a JSON object");
+        }
+        args = parsed;
+      } else {
+        args = buildArguments(fields, values);
+      }
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Invalid arguments");
+      return;
+    }
+
+    try {
+      setCalling(true);
+      setFormError(null);
+      const call = await api.mcpCallTool(serverName, tool.name, args);
+      setSelectedCall(call);
+      setHistory(prev => [call, ...prev.filter(c => c.id !== call.id)]);
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Failed to call tool");
+    } finally {
+      setCalling(false);
+    }
+  };
+
+  const replayCall = (call: MCPToolCall) => {
+    selectTool(call.tool_name, call.arguments);
+    setSelectedCall(call);
+  };
+
+  const copyCall = async (call: MCPToolCall) => {
+    try {
+      await navigator.clipboard.writeText(toJsonRpc(call));
+      setCopiedCall(call.id);
+      setTimeout(() => setCopiedCall(null), 2000);
+    } catch (error) {
+      console.error("Failed to copy call:", error);
+    }
+  };
+
+  const deleteCall = async (call: MCPToolCall) => {
+    try {
+      await api.mcpDeleteToolCall(call.id);
+      setHistory(prev => prev.filter(c => c.id !== call.id));
+      if (selectedCall?.id === call.id) setSelectedCall(null);
+    } catch (error) {
+      console.error("Failed to delete call:", error);
+    }
+  };
+
+  const clearHistory = async () => {
+    if (!window.confirm(`Clear the call history of "${serverName}"?`)) return;
+    try {
+      await api.mcpClearToolCalls(serverName);
+      setHistory([]);
+      setSelectedCall(null);
+    } catch (error) {
+      console.error("Failed to clear history:", error);
+    }
+  };
+
+  /**
+   * Renders the input for one schema field
+   */
+  const renderField = (field: SchemaField) => {
+    const value = values[field.name] ?? "";
+    const setValue = (next: string) => setValues(prev => ({ ...prev, [field.name]: next }));
+    const id = `mcp-arg-${field.name}`;
+
+    let input: React.ReactNode;
+    switch (field.kind) {
+      case "enum":
+      case "boolean": {
+        const options = field.kind === "boolean"
+          ? ["true", "false"]
+          : (field.enumValues ?? []).map(option => JSON.stringify(option));
+        input = (
+          <SelectComponent
+            value={value || UNSET}
+            onValueChange={(next: string) => setValue(next === UNSET ? "" : next)}
+            options={[
+              ...(field.required ? [] : [{ value: UNSET, label: "(not set)" }]),
+              ...options.map(option => ({
+                value: option,
+                label: field.kind === "enum" ? String(JSON.parse(option)) : option,
+              })),
+            ]}
+          />
+        );
+        break;
+      }
+      case "json":
+        input = (
+          <Textarea
+            id={id}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder="JSON value"
+            className="font-mono text-xs min-h-[80px]"
+          />
+        );
+        break;
+      default:
+        input = (
+          <Input
+            id={id}
+            type={field.kind === "string" ? "text" : "number"}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className={cn(field.kind !== "string" && "font-mono")}
+          />
+        );
+    }
+
+    return (
+      <div key={field.name} className="space-y-1.5">
+        <Label htmlFor={id} className="flex items-center gap-2">
+          <span className="font-mono">{field.name}</span>
+          {field.required && <span className="text-destructive">*</span>}
+          <span className="text-xs text-muted-foreground font-normal">{field.kind}</span>
+        </Label>
+        {input}
+        {field.description && (
+          <p className="text-xs text-muted-foreground">{field.description}</p>
+        )}
+      </div>
+    );
+  };
+
+  const renderToolPanel = () => {
+    if (!tool) {
+      return (
+        <div className="flex flex-col items-center justify-center py-16 text-center text-sm text-muted-foreground">
+          <Wrench className="h-8 w-8 mb-3 opacity-50" />
+          Select a tool to call it
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <div>
+          <h4 className="font-mono font-medium">{tool.name}</h4>
+          {tool.description && (
+            <p className="text-sm text-muted-foreground mt-1 whitespace-pre-wrap">{tool.description}</p>
+          )}
+        </div>
+
+        <div>
+          <button
+            onClick={() => setShowSchema(!showSchema)}
+            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+          >
+            {showSchema ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+            Input schema
+          </button>
+          {showSchema && (
+            <pre className="mt-2 text-xs font-mono bg-muted/50 p-3 rounded overflow-x-auto max-h-64">
+              {JSON.stringify(tool.inputSchema ?? {}, null, 2)}
+            </pre>
+          )}
+        </div>
+
+        <div className="flex items-center gap-1">
+          <Button
+            variant={mode === "form" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => switchMode("form")}
+            className="h-7 gap-1.5"
+          >
+            <FormInput className="h-3.5 w-3.5" />
+            Form
+          </Button>
+          <Button
+            variant={mode === "json" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => switchMode("json")}
+            className="h-7 gap-1.5"
+          >
+            <Braces className="h-3.5 w-3.5" />
+            JSON
+          </Button>
+        </div>
+
+        {mode === "form" ? (
+          fields.length > 0 ? (
+            <div className="space-y-4">{fields.map(renderField)}</div>
+          ) : (
+            <p className="text-xs text-muted-foreground italic">This tool takes no arguments</p>
+          )
+        ) : (
+          <Textarea
+            value={jsonText}
+            onChange={(e) => setJsonText(e.target.value)}
+            className="font-mono text-xs min-h-[160px]"
+          />
+        )}
+
+        {formError && (
+          <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-2 text-xs text-destructive">
+            <AlertCircle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+            <span className="whitespace-pre-wrap">{formError}</span>
+          </div>
+        )}
+
+        <Button onClick={handleCall} disabled={calling} className="gap-2">
+          {calling ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+          {calling ? "Calling..." : "Call Tool"}
+        </Button>
+
+        {selectedCall && selectedCall.tool_name === tool.name && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span>
+                {formatDistanceToNow(new Date(selectedCall.created_at), { addSuffix: true })}
+              </span>
+              {selectedCall.duration_ms !== null && <span>· {selectedCall.duration_ms} ms</span>}
+            </div>
+            {selectedCall.error && (
+              <div className="rounded-md border border-destructive/50 bg-destructive/10 p-2 text-xs font-mono text-destructive whitespace-pre-wrap">
+                {selectedCall.error}
+              </div>
+            )}
+            <MCPWidget
+              toolName={`mcp__${serverName}__${selectedCall.tool_name}`}
+              input={selectedCall.arguments}
+              result={selectedCall.result ?? undefined}
+            />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  if (servers.length === 0) {
+    return (
+      <div className="p-6 text-center text-sm text-muted-foreground">
+        Add an MCP server to try its tools here
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h3 className="text-base font-semibold">Tool Playground</h3>
+          <p className="text-sm text-muted-foreground mt-1">
+            Call a server's tools directly to see exactly what it returns
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <SelectComponent
+            value={serverName}
+            onValueChange={setServerName}
+            options={servers.map(s => ({ value: s.name, label: s.name }))}
+            className="w-56"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleRefreshTools}
+            disabled={checking || status?.checking}
+            className="gap-2"
+          >
+            {checking || status?.checking ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4" />
+            )}
+            Reload Tools
+          </Button>
+        </div>
+      </div>
+
+      {status && !status.running && status.error && !status.checking && (
+        <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span className="font-mono text-xs whitespace-pre-wrap break-all">{status.error}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-[14rem_1fr] gap-4">
+        <Card className="p-2 max-h-[32rem] overflow-y-auto">
+          {tools.length === 0 ? (
+            <p className="p-2 text-xs text-muted-foreground">
+              {status?.checking
+                ? "Loading tools..."
+                : status?.running
+                  ? "This server offers no tools"
+                  : "Reload to fetch this server's tools"}
+            </p>
+          ) : (
+            tools.map(t => (
+              <button
+                key={t.name}
+                onClick={() => selectTool(t.name)}
+                className={cn(
+                  "w-full text-left px-2 py-1.5 rounded-sm hover:bg-accent/50",
+                  toolName === t.name && "bg-accent"
+                )}
+                title={t.description}
+              >
+                <div className="text-sm font-mono truncate">{t.name}</div>
+                {t.description && (
+                  <div className="text-xs text-muted-foreground truncate">{t.description}</div>
+                )}
+              </button>
+            ))
+          )}
+        </Card>
+
+        <Card className="p-4 min-w-0">{renderToolPanel()}</Card>
+      </div>
+
+      <Card className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <History className="h-4 w-4 text-muted-foreground" />
+            History
+            <span className="text-muted-foreground/60 font-normal">({history.length})</span>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={clearHistory}
+            disabled={history.length === 0}
+            className="h-7 text-xs hover:text-destructive"
+          >
+            Clear
+          </Button>
+        </div>
+        {history.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Calls made here are kept for later reference</p>
+        ) : (
+          <div className="space-y-1 max-h-72 overflow-y-auto">
+            {history.map(call => (
+              <div
+                key={call.id}
+                onClick={() => replayCall(call)}
+                className={cn(
+                  "group flex items-center gap-2 px-2 py-1.5 rounded-sm cursor-pointer hover:bg-accent/50",
+                  selectedCall?.id === call.id && "bg-accent"
+                )}
+              >
+                <span className="font-mono text-sm truncate">{call.tool_name}</span>
+                {call.is_error && (
+                  <Badge variant="outline" className="text-xs border-destructive/50 text-destructive">
+                    {call.error ? "failed" : "error"}
+                  </Badge>
+                )}
+                <span className="flex-1 truncate text-xs text-muted-foreground font-mono">
+                  {JSON.stringify(call.arguments)}
+                </span>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {formatDistanceToNow(new Date(call.created_at), { addSuffix: true })}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    copyCall(call);
+                  }}
+                  className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                  title="Copy as JSON-RPC request"
+                >
+                  {copiedCall === call.id ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    deleteCall(call);
+                  }}
+                  className="h-6 w-6 opacity-0 group-hover:opacity-100 hover:text-destructive"
+                  title="Remove from history"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
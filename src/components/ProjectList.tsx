@@ -3,7 +3,9 @@ import { motion } from "framer-motion";
 import { 
   FolderOpen,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  GitBranch,
+  Loader2
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -23,6 +25,10 @@ interface ProjectListProps {
    * Callback when open project is clicked
    */
   onOpenProject?: () => void | Promise<void>;
+  /**
+   * Callback when clone repository is clicked
+   */
+  onCloneRepository?: () => void | Promise<void>;
   /**
    * Whether the list is currently loading
    */
@@ -87,9 +93,11 @@ export const ProjectList: React.FC<ProjectListProps> = ({
   projects,
   onProjectClick,
   onOpenProject,
+  onCloneRepository,
   className,
 }) => {
   const [showAll, setShowAll] = useState(false);
+  const [cloning, setCloning] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   
   // Determine how many projects to show
@@ -111,6 +119,15 @@ export const ProjectList: React.FC<ProjectListProps> = ({
     setCurrentPage(1);
   };
 
+  const handleClone = async () => {
+    setCloning(true);
+    try {
+      await onCloneRepository?.();
+    } finally {
+      setCloning(false);
+    }
+  };
+
   return (
     <div className={cn("h-full overflow-y-auto", className)}>
       <div className="max-w-6xl mx-auto flex flex-col h-full">
@@ -123,19 +140,38 @@ export const ProjectList: React.FC<ProjectListProps> = ({
                 Select a project to start working with Claude Code
               </p>
             </div>
-            <motion.div
-              whileTap={{ scale: 0.97 }}
-              transition={{ duration: 0.15 }}
-            >
-              <Button
-                onClick={onOpenProject}
-                size="default"
-                className="flex items-center gap-2"
+            <div className="flex items-center gap-2">
+              {onCloneRepository && (
+                <motion.div
+                  whileTap={{ scale: 0.97 }}
+                  transition={{ duration: 0.15 }}
+                >
+                  <Button
+                    onClick={handleClone}
+                    variant="outline"
+                    size="default"
+                    disabled={cloning}
+                    className="flex items-center gap-2"
+                  >
+                    {cloning ? <Loader2 className="h-4 w-4 animate-spin" /> : <GitBranch className="h-4 w-4" />}
+                    {cloning ? "Cloning..." : "Clone Repository"}
+                  </Button>
+                </motion.div>
+              )}
+              <motion.div
+                whileTap={{ scale: 0.97 }}
+                transition={{ duration: 0.15 }}
               >
-                <FolderOpen className="h-4 w-4" />
-                Open Project
-              </Button>
-            </motion.div>
+                <Button
+                  onClick={onOpenProject}
+                  size="default"
+                  className="flex items-center gap-2"
+                >
+                  <FolderOpen className="h-4 w-4" />
+                  Open Project
+                </Button>
+              </motion.div>
+            </div>
           </div>
         </div>
 
@@ -0,0 +1,281 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Check, Copy, KeyRound, Loader2, Lock, Pencil, Plus, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { api, type Secret } from "@/lib/api";
+
+interface SecretFormState {
+  name: string;
+  value: string;
+  replacing: boolean;
+}
+
+const SECRET_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Splits on references, keeping them, e.g. "Bearer ${secret:TOKEN}"
+const SECRET_REFERENCE = /(\$\{secret:[A-Za-z_][A-Za-z0-9_]*\})/;
+
+const secretReference = (name: string) => `\${secret:${name}}`;
+
+/**
+ * Shows a configured value with its ${secret:NAME} references as locked
+ * badges; the values behind them never reach the browser
+ *
+ * @example
+ * <SecretValue value="Bearer ${secret:API_TOKEN}" />
+ */
+export const SecretValue: React.FC<{ value: string }> = ({ value }) => (
+  <>
+    {value.split(SECRET_REFERENCE).map((part, index) =>
+      index % 2 === 1 ? (
+        <span
+          key={index}
+          className="inline-flex items-center gap-1 rounded bg-primary/10 px-1 text-primary"
+          title="Resolved from the secrets vault when the process starts"
+        >
+          <Lock className="h-3 w-3" />
+          {part.slice("${secret:".length, -1)}
+        </span>
+      ) : (
+        <span key={index}>{part}</span>
+      )
+    )}
+  </>
+);
+
+/**
+ * Manages the server-side secrets vault: secrets can be added, replaced and
+ * removed, but their values are never shown again once saved
+ *
+ * @example
+ * <SecretsManager />
+ */
+export const SecretsManager: React.FC = () => {
+  const [secrets, setSecrets] = useState<Secret[]>([]);
+  const [enabled, setEnabled] = useState(true);
+  const [form, setForm] = useState<SecretFormState | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedName, setCopiedName] = useState<string | null>(null);
+
+  const loadSecrets = useCallback(async () => {
+    try {
+      const list = await api.listSecrets();
+      setEnabled(list.enabled);
+      setSecrets(list.secrets);
+    } catch (err) {
+      console.error("Failed to load secrets:", err);
+      setError("Failed to load secrets");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSecrets();
+  }, [loadSecrets]);
+
+  const handleSave = async () => {
+    if (!form) return;
+    const name = form.name.trim();
+    if (!SECRET_NAME_PATTERN.test(name)) {
+      setError("Names may only contain letters, digits and underscores, and may not start with a digit");
+      return;
+    }
+    if (!form.value) {
+      setError("Enter the secret's value");
+      return;
+    }
+    if (!form.replacing && secrets.some((secret) => secret.name === name)) {
+      setError(`A secret named ${name} already exists`);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await api.setSecret(name, form.value);
+      setForm(null);
+      await loadSecrets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save secret");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (name: string) => {
+    try {
+      await api.deleteSecret(name);
+      await loadSecrets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete secret");
+    }
+  };
+
+  const handleCopy = async (name: string) => {
+    await navigator.clipboard.writeText(secretReference(name));
+    setCopiedName(name);
+    setTimeout(() => setCopiedName(null), 2000);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      {!enabled && (
+        <div className="rounded-md border border-yellow-500/50 bg-yellow-500/10 p-3 text-sm text-yellow-600 dark:text-yellow-400">
+          Secrets are disabled. Set <code>SECRETS_MASTER_KEY</code> in the server environment and restart
+          to store secrets and use references to them.
+        </div>
+      )}
+
+      <Card className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-heading-4">Secrets</h3>
+            <p className="text-sm text-muted-foreground mt-1">
+              Encrypted on the server and only resolved when Claude Code, an MCP server or a hook is started
+            </p>
+          </div>
+          {!form && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              disabled={!enabled}
+              onClick={() => { setError(null); setForm({ name: "", value: "", replacing: false }); }}
+            >
+              <Plus className="h-3 w-3" />
+              Add Secret
+            </Button>
+          )}
+        </div>
+
+        {secrets.length === 0 ? (
+          <p className="text-xs text-muted-foreground py-2">No secrets stored.</p>
+        ) : (
+          <div className="space-y-2">
+            {secrets.map((secret) => (
+              <div
+                key={secret.name}
+                className="flex items-center justify-between gap-4 rounded-md border p-3"
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <KeyRound className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-mono truncate">{secret.name}</p>
+                    <p className="text-caption text-muted-foreground">
+                      Updated {formatDistanceToNow(new Date(secret.updated_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <span className="text-xs font-mono text-muted-foreground mr-1">••••••••</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 gap-1 text-xs"
+                    onClick={() => handleCopy(secret.name)}
+                    title="Copy reference"
+                  >
+                    {copiedName === secret.name ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+                    <code>{secretReference(secret.name)}</code>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={!enabled}
+                    onClick={() => { setError(null); setForm({ name: secret.name, value: "", replacing: true }); }}
+                    title="Replace value"
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-destructive"
+                    onClick={() => handleDelete(secret.name)}
+                    title="Delete"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="pt-4 space-y-1">
+          <p className="text-xs text-muted-foreground">
+            Reference a secret as <code className="px-1 py-0.5 rounded bg-blue-500/10 text-blue-600 dark:text-blue-400">{secretReference("NAME")}</code> in
+            MCP server environment variables and headers, in settings environment variables and in hook commands.
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Configuration files and MCP exports keep the reference, never the value.
+          </p>
+        </div>
+      </Card>
+
+      {form && (
+        <Card className="p-6 space-y-4">
+          <h3 className="text-sm font-semibold">{form.replacing ? `Replace ${form.name}` : "New Secret"}</h3>
+
+          <div className="space-y-2">
+            <Label htmlFor="secret-name">Name</Label>
+            <Input
+              id="secret-name"
+              value={form.name}
+              disabled={form.replacing}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="GITHUB_TOKEN"
+              className="font-mono"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="secret-value">Value</Label>
+            <Input
+              id="secret-value"
+              type="password"
+              autoComplete="new-password"
+              value={form.value}
+              onChange={(e) => setForm({ ...form, value: e.target.value })}
+              className="font-mono"
+            />
+            <p className="text-caption text-muted-foreground">
+              The value can't be viewed again after saving, only replaced
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setForm(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Secret
+            </Button>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -27,6 +27,7 @@ import { StorageTab } from "./StorageTab";
 import { HooksEditor } from "./HooksEditor";
 import { SlashCommandsManager } from "./SlashCommandsManager";
 import { ProxySettings } from "./ProxySettings";
+import { SecretsManager } from "./SecretsManager";
 import { AnalyticsConsent } from "./AnalyticsConsent";
 import { useTheme, useTrackEvent } from "@/hooks";
 import { analytics } from "@/lib/analytics";
@@ -397,10 +398,11 @@ export const Settings: React.FC<SettingsProps> = ({
       ) : (
         <div className="flex-1 overflow-y-auto p-6">
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid grid-cols-8 w-full mb-6 h-auto p-1">
+            <TabsList className="grid grid-cols-9 w-full mb-6 h-auto p-1">
               <TabsTrigger value="general" className="py-2.5 px-3">General</TabsTrigger>
               <TabsTrigger value="permissions" className="py-2.5 px-3">Permissions</TabsTrigger>
               <TabsTrigger value="environment" className="py-2.5 px-3">Environment</TabsTrigger>
+              <TabsTrigger value="secrets" className="py-2.5 px-3">Secrets</TabsTrigger>
               <TabsTrigger value="advanced" className="py-2.5 px-3">Advanced</TabsTrigger>
               <TabsTrigger value="hooks" className="py-2.5 px-3">Hooks</TabsTrigger>
               <TabsTrigger value="commands" className="py-2.5 px-3">Commands</TabsTrigger>
@@ -971,10 +973,18 @@ export const Settings: React.FC<SettingsProps> = ({
                       <li>• <code className="px-1 py-0.5 rounded bg-blue-500/10 text-blue-600 dark:text-blue-400">ANTHROPIC_MODEL</code> - Custom model name</li>
                       <li>• <code className="px-1 py-0.5 rounded bg-blue-500/10 text-blue-600 dark:text-blue-400">DISABLE_COST_WARNINGS</code> - Disable cost warnings (1)</li>
                     </ul>
+                    <p className="text-xs text-muted-foreground">
+                      Values can reference secrets from the Secrets tab as <code className="px-1 py-0.5 rounded bg-blue-500/10 text-blue-600 dark:text-blue-400">{"${secret:NAME}"}</code>; they are resolved only when a session starts.
+                    </p>
                   </div>
                 </div>
               </Card>
             </TabsContent>
+
+            {/* Secrets */}
+            <TabsContent value="secrets" className="space-y-6">
+              <SecretsManager />
+            </TabsContent>
             {/* Advanced Settings */}
             <TabsContent value="advanced" className="space-y-6">
               <Card className="p-6">
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { 
   Terminal, 
   User, 
@@ -77,6 +77,12 @@ const StreamMessageComponent: React.FC<StreamMessageProps> = ({ message, classNa
     setToolResults(results);
   }, [streamMessages]);
   
+  // Working directory of the session, reported by its init message
+  const sessionCwd = useMemo(
+    () => streamMessages.find(msg => msg.type === "system" && msg.subtype === "init" && msg.cwd)?.cwd,
+    [streamMessages]
+  );
+
   // Helper to get tool result for a specific tool call ID
   const getToolResult = (toolId: string | undefined): any => {
     if (!toolId) return null;
@@ -238,7 +244,7 @@ const StreamMessageComponent: React.FC<StreamMessageProps> = ({ message, classNa
                       // Bash tool
                       if (toolName === "bash" && input?.command) {
                         renderedSomething = true;
-                        return <BashWidget command={input.command} description={input.description} result={toolResult} />;
+                        return <BashWidget command={input.command} description={input.description} result={toolResult} cwd={sessionCwd} />;
                       }
                       
                       // Write tool
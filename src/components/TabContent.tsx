@@ -3,12 +3,15 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { useTabState } from '@/hooks/useTabState';
 import { useScreenTracking } from '@/hooks/useAnalytics';
 import { Tab } from '@/contexts/TabContext';
-import { Loader2, Plus, ArrowLeft } from 'lucide-react';
+import { Loader2, Plus, ArrowLeft, SquareTerminal, GitBranch } from 'lucide-react';
 import { api, type Project, type Session, type ClaudeMdFile } from '@/lib/api';
 import { ProjectList } from '@/components/ProjectList';
 import { SessionList } from '@/components/SessionList';
 import { Button } from '@/components/ui/button';
 import { FileExplorer } from '@/components/FileExplorer';
+import { GitPanel } from '@/components/GitPanel';
+import { CloneRepositoryDialog } from '@/components/CloneRepositoryDialog';
+import { containerAPI, type ContainerProject } from '@/lib/containerAPI';
 
 // Lazy load heavy components
 const ClaudeCodeSession = lazy(() => import('@/components/ClaudeCodeSession').then(m => ({ default: m.ClaudeCodeSession })));
@@ -19,6 +22,7 @@ const Agents = lazy(() => import('@/components/Agents').then(m => ({ default: m.
 const UsageDashboard = lazy(() => import('@/components/UsageDashboard').then(m => ({ default: m.UsageDashboard })));
 const MCPManager = lazy(() => import('@/components/MCPManager').then(m => ({ default: m.MCPManager })));
 const Settings = lazy(() => import('@/components/Settings').then(m => ({ default: m.Settings })));
+const WebTerminal = lazy(() => import('@/components/WebTerminal').then(m => ({ default: m.WebTerminal })));
 const MarkdownEditor = lazy(() => import('@/components/MarkdownEditor').then(m => ({ default: m.MarkdownEditor })));
 // const ClaudeFileEditor = lazy(() => import('@/components/ClaudeFileEditor').then(m => ({ default: m.ClaudeFileEditor })));
 
@@ -30,11 +34,13 @@ interface TabPanelProps {
 }
 
 const TabPanel: React.FC<TabPanelProps> = ({ tab, isActive }) => {
-  const { updateTab } = useTabState();
+  const { updateTab, createTerminalTab } = useTabState();
   const [projects, setProjects] = React.useState<Project[]>([]);
   const [selectedProject, setSelectedProject] = React.useState<Project | null>(null);
   const [sessions, setSessions] = React.useState<Session[]>([]);
   const [loading, setLoading] = React.useState(false);
+  const [showGitPanel, setShowGitPanel] = React.useState(false);
+  const [showCloneDialog, setShowCloneDialog] = React.useState(false);
   
   // Track screen when tab becomes active
   useScreenTracking(isActive ? tab.type : undefined, isActive ? tab.id : undefined);
@@ -114,10 +120,16 @@ const TabPanel: React.FC<TabPanelProps> = ({ tab, isActive }) => {
       await handleProjectClick(project);
     } catch (err) {
       console.error('Failed to open folder picker:', err);
-      setError('Failed to open folder picker');
+      setError(err instanceof Error ? err.message : 'Failed to open folder picker');
     }
   };
   
+  const handleRepositoryCloned = async (containerProject: ContainerProject) => {
+    setError(null);
+    await loadProjects();
+    await handleProjectClick({ ...containerProject, sessions: [] });
+  };
+  
   const handleNewSession = () => {
     // Update current tab to show new chat session instead of creating a new tab
     if (selectedProject) {
@@ -165,6 +177,10 @@ const TabPanel: React.FC<TabPanelProps> = ({ tab, isActive }) => {
                     }}
                     className="w-64 flex-shrink-0"
                   />
+
+                  {showGitPanel && (
+                    <GitPanel projectId={selectedProject.id} className="w-72 flex-shrink-0" />
+                  )}
                   
                   {/* Main Project Content */}
                   <div className="flex-1 min-w-0 overflow-y-auto">
@@ -202,18 +218,46 @@ const TabPanel: React.FC<TabPanelProps> = ({ tab, isActive }) => {
                             </p>
                           </div>
                         </div>
-                        <motion.div
-                          whileTap={{ scale: 0.97 }}
-                          transition={{ duration: 0.15 }}
-                        >
-                          <Button
-                            onClick={handleNewSession}
-                            size="default"
+                        <div className="flex items-center gap-2">
+                          <motion.div
+                            whileTap={{ scale: 0.97 }}
+                            transition={{ duration: 0.15 }}
                           >
-                            <Plus className="mr-2 h-4 w-4" />
-                            New session
-                          </Button>
-                        </motion.div>
+                            <Button
+                              variant={showGitPanel ? 'secondary' : 'outline'}
+                              onClick={() => setShowGitPanel(!showGitPanel)}
+                              size="default"
+                            >
+                              <GitBranch className="mr-2 h-4 w-4" />
+                              Git
+                            </Button>
+                          </motion.div>
+                          <motion.div
+                            whileTap={{ scale: 0.97 }}
+                            transition={{ duration: 0.15 }}
+                          >
+                            <Button
+                              variant="outline"
+                              onClick={() => createTerminalTab(selectedProject.path)}
+                              size="default"
+                            >
+                              <SquareTerminal className="mr-2 h-4 w-4" />
+                              Terminal
+                            </Button>
+                          </motion.div>
+                          <motion.div
+                            whileTap={{ scale: 0.97 }}
+                            transition={{ duration: 0.15 }}
+                          >
+                            <Button
+                              onClick={handleNewSession}
+                              size="default"
+                            >
+                              <Plus className="mr-2 h-4 w-4" />
+                              New session
+                            </Button>
+                          </motion.div>
+                        </div>
                       </div>
                     </div>
 
@@ -264,12 +308,26 @@ const TabPanel: React.FC<TabPanelProps> = ({ tab, isActive }) => {
                 </div>
               ) : (
                 /* Projects List View */
-                <ProjectList
-                  projects={projects}
-                  onProjectClick={handleProjectClick}
-                  onOpenProject={handleOpenProject}
-                  loading={loading}
-                />
+                <div className="h-full flex flex-col">
+                  {error && (
+                    <div className="mx-6 mt-4 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-xs text-destructive whitespace-pre-wrap">
+                      {error}
+                    </div>
+                  )}
+                  <ProjectList
+                    projects={projects}
+                    onProjectClick={handleProjectClick}
+                    onOpenProject={handleOpenProject}
+                    onCloneRepository={() => setShowCloneDialog(true)}
+                    loading={loading}
+                    className="flex-1 min-h-0"
+                  />
+                  <CloneRepositoryDialog
+                    open={showCloneDialog}
+                    onOpenChange={setShowCloneDialog}
+                    onCloned={handleRepositoryCloned}
+                  />
+                </div>
               )}
           </div>
         );
@@ -391,6 +449,19 @@ const TabPanel: React.FC<TabPanelProps> = ({ tab, isActive }) => {
           />
         );
       
+      case 'terminal':
+        if (!tab.terminalId || !tab.projectPath) {
+          return <div className="p-4">No terminal specified</div>;
+        }
+        return (
+          <WebTerminal
+            terminalId={tab.terminalId}
+            projectPath={tab.projectPath}
+            isActive={isActive}
+            onRestart={() => updateTab(tab.id, { terminalId: containerAPI.newTerminalId() })}
+          />
+        );
+
       case 'create-agent':
         return (
           <CreateAgent
@@ -50,6 +50,7 @@ import {
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import type { MCPContentBlock, MCPResourceContent } from "@/lib/api";
 import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
 import { getClaudeSyntaxTheme } from "@/lib/claudeSyntaxTheme";
 import { useTheme } from "@/hooks";
@@ -627,71 +628,7 @@ export const GlobWidget: React.FC<{ pattern: string; result?: any }> = ({ patter
 /**
  * Widget for Bash tool
  */
-export const BashWidget: React.FC<{ 
-  command: string; 
-  description?: string;
-  result?: any;
-}> = ({ command, description, result }) => {
-  // Extract result content if available
-  let resultContent = '';
-  let isError = false;
-  
-  if (result) {
-    isError = result.is_error || false;
-    if (typeof result.content === 'string') {
-      resultContent = result.content;
-    } else if (result.content && typeof result.content === 'object') {
-      if (result.content.text) {
-        resultContent = result.content.text;
-      } else if (Array.isArray(result.content)) {
-        resultContent = result.content
-          .map((c: any) => (typeof c === 'string' ? c : c.text || JSON.stringify(c)))
-          .join('\n');
-      } else {
-        resultContent = JSON.stringify(result.content, null, 2);
-      }
-    }
-  }
-  
-  return (
-    <div className="rounded-lg border bg-zinc-950 overflow-hidden">
-      <div className="px-4 py-2 bg-zinc-900/50 flex items-center gap-2 border-b">
-        <Terminal className="h-3.5 w-3.5 text-green-500" />
-        <span className="text-xs font-mono text-muted-foreground">Terminal</span>
-        {description && (
-          <>
-            <ChevronRight className="h-3 w-3 text-muted-foreground" />
-            <span className="text-xs text-muted-foreground">{description}</span>
-          </>
-        )}
-        {/* Show loading indicator when no result yet */}
-        {!result && (
-          <div className="ml-auto flex items-center gap-1 text-xs text-muted-foreground">
-            <div className="h-2 w-2 bg-green-500 rounded-full animate-pulse" />
-            <span>Running...</span>
-          </div>
-        )}
-      </div>
-      <div className="p-4 space-y-3">
-        <code className="text-xs font-mono text-green-400 block">
-          $ {command}
-        </code>
-        
-        {/* Show result if available */}
-        {result && (
-          <div className={cn(
-            "mt-3 p-3 rounded-md border text-xs font-mono whitespace-pre-wrap overflow-x-auto",
-            isError 
-              ? "border-red-500/20 bg-red-500/5 text-red-400" 
-              : "border-green-500/20 bg-green-500/5 text-green-300"
-          )}>
-            {resultContent || (isError ? "Command failed" : "Command completed")}
-          </div>
-        )}
-      </div>
-    </div>
-  );
-};
+export { BashWidget } from "./widgets/BashWidget";
 
 /**
  * Widget for Write tool
@@ -1118,14 +1055,14 @@ const getLanguage = (path: string) => {
 };
 
 /**
- * Widget for Edit tool - shows the edit operation
+ * Syntax-highlighted line diff between two versions of a file, with long
+ * unchanged stretches collapsed
  */
-export const EditWidget: React.FC<{ 
-  file_path: string; 
-  old_string: string; 
+export const LineDiff: React.FC<{
+  file_path: string;
+  old_string: string;
   new_string: string;
-  result?: any;
-}> = ({ file_path, old_string, new_string, result: _result }) => {
+}> = ({ file_path, old_string, new_string }) => {
   const { theme } = useTheme();
   const syntaxTheme = getClaudeSyntaxTheme(theme);
 
@@ -1135,6 +1072,69 @@ export const EditWidget: React.FC<{
   });
   const language = getLanguage(file_path);
 
+  return (
+    <div className="rounded-lg border bg-zinc-950 overflow-hidden text-xs font-mono">
+      <div className="max-h-[440px] overflow-y-auto overflow-x-auto">
+        {diffResult.map((part, index) => {
+          const partClass = part.added 
+            ? 'bg-green-950/20' 
+            : part.removed 
+            ? 'bg-red-950/20'
+            : '';
+          
+          if (!part.added && !part.removed && part.count && part.count > 8) {
+            return (
+              <div key={index} className="px-4 py-1 bg-zinc-900 border-y border-zinc-800 text-center text-zinc-500 text-xs">
+                ... {part.count} unchanged lines ...
+              </div>
+            );
+          }
+          
+          const value = part.value.endsWith('\n') ? part.value.slice(0, -1) : part.value;
+
+          return (
+            <div key={index} className={cn(partClass, "flex")}>
+              <div className="w-8 select-none text-center flex-shrink-0">
+                {part.added ? <span className="text-green-400">+</span> : part.removed ? <span className="text-red-400">-</span> : null}
+              </div>
+              <div className="flex-1">
+                <SyntaxHighlighter
+                  language={language}
+                  style={syntaxTheme}
+                  PreTag="div"
+                  wrapLongLines={false}
+                  customStyle={{
+                    margin: 0,
+                    padding: 0,
+                    background: 'transparent',
+                  }}
+                  codeTagProps={{
+                    style: {
+                      fontSize: '0.75rem',
+                      lineHeight: '1.6',
+                    }
+                  }}
+                >
+                  {value}
+                </SyntaxHighlighter>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Widget for Edit tool - shows the edit operation
+ */
+export const EditWidget: React.FC<{ 
+  file_path: string; 
+  old_string: string; 
+  new_string: string;
+  result?: any;
+}> = ({ file_path, old_string, new_string, result: _result }) => {
   return (
     <div className="space-y-2">
       <div className="flex items-center gap-2 mb-2">
@@ -1145,56 +1145,7 @@ export const EditWidget: React.FC<{
         </code>
       </div>
 
-      <div className="rounded-lg border bg-zinc-950 overflow-hidden text-xs font-mono">
-        <div className="max-h-[440px] overflow-y-auto overflow-x-auto">
-          {diffResult.map((part, index) => {
-            const partClass = part.added 
-              ? 'bg-green-950/20' 
-              : part.removed 
-              ? 'bg-red-950/20'
-              : '';
-            
-            if (!part.added && !part.removed && part.count && part.count > 8) {
-              return (
-                <div key={index} className="px-4 py-1 bg-zinc-900 border-y border-zinc-800 text-center text-zinc-500 text-xs">
-                  ... {part.count} unchanged lines ...
-                </div>
-              );
-            }
-            
-            const value = part.value.endsWith('\n') ? part.value.slice(0, -1) : part.value;
-
-            return (
-              <div key={index} className={cn(partClass, "flex")}>
-                <div className="w-8 select-none text-center flex-shrink-0">
-                  {part.added ? <span className="text-green-400">+</span> : part.removed ? <span className="text-red-400">-</span> : null}
-                </div>
-                <div className="flex-1">
-                  <SyntaxHighlighter
-                    language={language}
-                    style={syntaxTheme}
-                    PreTag="div"
-                    wrapLongLines={false}
-                    customStyle={{
-                      margin: 0,
-                      padding: 0,
-                      background: 'transparent',
-                    }}
-                    codeTagProps={{
-                      style: {
-                        fontSize: '0.75rem',
-                        lineHeight: '1.6',
-                      }
-                    }}
-                  >
-                    {value}
-                  </SyntaxHighlighter>
-                </div>
-              </div>
-            );
-          })}
-        </div>
-      </div>
+      <LineDiff file_path={file_path} old_string={old_string} new_string={new_string} />
     </div>
   );
 };
@@ -1283,6 +1234,51 @@ export const EditResultWidget: React.FC<{ content: string }> = ({ content }) =>
   );
 };
 
+type MCPResultBlock =
+  | MCPContentBlock
+  | { type: 'structured'; data: unknown }
+  | { type: 'other'; data: unknown };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toResourceContent = (value: unknown): MCPResourceContent | null => {
+  if (!isRecord(value) || typeof value.uri !== 'string') return null;
+  const text = (key: string) => (typeof value[key] === 'string' ? (value[key] as string) : undefined);
+  return { uri: value.uri, name: text('name'), mimeType: text('mimeType'), text: text('text') };
+};
+
+/**
+ * Narrows a content block of a tool result to the kinds the widget renders;
+ * anything else, or a block missing its fields, is shown as JSON
+ */
+const toResultBlock = (block: unknown): MCPResultBlock => {
+  if (typeof block === 'string') return { type: 'text', text: block };
+  if (isRecord(block)) {
+    switch (block.type) {
+      case 'text':
+        if (typeof block.text === 'string') return { type: 'text', text: block.text };
+        break;
+      case 'image':
+        if (typeof block.data === 'string' && typeof block.mimeType === 'string') {
+          return { type: 'image', data: block.data, mimeType: block.mimeType };
+        }
+        break;
+      case 'resource': {
+        const resource = toResourceContent(block.resource);
+        if (resource) return { type: 'resource', resource };
+        break;
+      }
+      case 'resource_link': {
+        const resource = toResourceContent(block);
+        if (resource) return { type: 'resource_link', ...resource };
+        break;
+      }
+    }
+  }
+  return { type: 'other', data: block };
+};
+
 /**
  * Widget for MCP (Model Context Protocol) tools
  */
@@ -1290,8 +1286,9 @@ export const MCPWidget: React.FC<{
   toolName: string; 
   input?: any;
   result?: any;
-}> = ({ toolName, input, result: _result }) => {
+}> = ({ toolName, input, result }) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [showRawResult, setShowRawResult] = useState(false);
   const { theme } = useTheme();
   const syntaxTheme = getClaudeSyntaxTheme(theme);
   
@@ -1331,6 +1328,62 @@ export const MCPWidget: React.FC<{
   };
   
   const inputTokens = hasInput ? estimateTokens(inputString) : 0;
+  
+  // Results come either as a session tool_result (content, is_error) or as a
+  // raw MCP tools/call result (content, isError, structuredContent)
+  const isErrorResult = result?.is_error === true || result?.isError === true;
+  const resultBlocks: MCPResultBlock[] = !result
+    ? []
+    : typeof result.content === 'string'
+      ? [{ type: 'text', text: result.content }]
+      : Array.isArray(result.content)
+        ? result.content.map(toResultBlock)
+        : [];
+  if (result?.structuredContent) {
+    resultBlocks.push({ type: 'structured', data: result.structuredContent });
+  }
+  
+  const renderResultBlock = (block: MCPResultBlock, index: number) => {
+    switch (block.type) {
+      case 'text':
+        return (
+          <pre key={index} className="text-xs font-mono whitespace-pre-wrap break-words">
+            {block.text}
+          </pre>
+        );
+      case 'image':
+        return (
+          <img
+            key={index}
+            src={`data:${block.mimeType};base64,${block.data}`}
+            alt="Tool result"
+            className="max-h-64 rounded border"
+          />
+        );
+      case 'resource':
+      case 'resource_link': {
+        const resource = block.type === 'resource' ? block.resource : block;
+        return (
+          <div key={index} className="space-y-1">
+            <div className="text-xs font-mono text-violet-500 break-all">{resource.uri}</div>
+            {resource.text ? (
+              <pre className="text-xs font-mono whitespace-pre-wrap break-words">{resource.text}</pre>
+            ) : (
+              <div className="text-xs text-muted-foreground italic">
+                {resource.name || resource.mimeType || 'Binary resource'}
+              </div>
+            )}
+          </div>
+        );
+      }
+      default:
+        return (
+          <pre key={index} className="text-xs font-mono whitespace-pre-wrap break-words">
+            {JSON.stringify(block.data, null, 2)}
+          </pre>
+        );
+    }
+  };
 
   return (
     <div className="rounded-lg border border-violet-500/20 bg-gradient-to-br from-violet-500/5 to-purple-500/5 overflow-hidden">
@@ -1450,6 +1503,55 @@ export const MCPWidget: React.FC<{
             No parameters required
           </div>
         )}
+        
+        {/* Result */}
+        {result && (
+          <div className={cn(
+            "rounded-lg border bg-zinc-950/50 overflow-hidden",
+            isErrorResult && "border-red-500/30"
+          )}>
+            <div className="px-3 py-2 border-b bg-zinc-900/50 flex items-center gap-2">
+              {isErrorResult ? (
+                <AlertCircle className="h-3 w-3 text-red-500" />
+              ) : (
+                <CheckCircle2 className="h-3 w-3 text-green-500" />
+              )}
+              <span className="text-xs font-mono text-muted-foreground">
+                {isErrorResult ? 'Error' : 'Result'}
+              </span>
+              <button
+                onClick={() => setShowRawResult(!showRawResult)}
+                className="ml-auto text-xs text-violet-500 hover:text-violet-600 transition-colors"
+              >
+                {showRawResult ? 'Formatted' : 'Raw'}
+              </button>
+            </div>
+            <div className="max-h-[400px] overflow-auto">
+              {showRawResult ? (
+                <SyntaxHighlighter
+                  language="json"
+                  style={syntaxTheme}
+                  customStyle={{
+                    margin: 0,
+                    padding: '0.75rem',
+                    background: 'transparent',
+                    fontSize: '0.75rem',
+                    lineHeight: '1.5',
+                  }}
+                  wrapLongLines={true}
+                >
+                  {JSON.stringify(result, null, 2)}
+                </SyntaxHighlighter>
+              ) : (
+                <div className="p-3 space-y-2">
+                  {resultBlocks.length > 0 ? resultBlocks.map(renderResultBlock) : (
+                    <div className="text-xs text-muted-foreground italic">No content</div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
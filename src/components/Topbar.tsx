@@ -3,6 +3,8 @@ import { motion } from "framer-motion";
 import { Circle, ExternalLink } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Popover } from "@/components/ui/popover";
+import { BudgetIndicator } from "@/components/BudgetIndicator";
+import { LogoutButton } from "@/components/LogoutButton";
 import { api, type ClaudeVersionStatus } from "@/lib/api";
 import { cn } from "@/lib/utils";
 
@@ -50,6 +52,7 @@ interface TopbarProps {
  */
 export const Topbar: React.FC<TopbarProps> = ({
   onSettingsClick,
+  onUsageClick,
   className,
 }) => {
   const [versionStatus, setVersionStatus] = useState<ClaudeVersionStatus | null>(null);
@@ -171,8 +174,11 @@ export const Topbar: React.FC<TopbarProps> = ({
       {/* Status Indicator */}
       <StatusIndicator />
       
-      {/* Spacer - Navigation moved to titlebar */}
-      <div></div>
+      {/* Navigation moved to titlebar; only budget warnings and sign out remain here */}
+      <div className="flex items-center gap-1">
+        <BudgetIndicator onClick={onUsageClick} />
+        <LogoutButton />
+      </div>
     </motion.div>
   );
 }; 
\ No newline at end of file
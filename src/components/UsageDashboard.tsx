@@ -4,6 +4,7 @@ import { Card } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { api, type UsageStats, type ProjectUsage } from "@/lib/api";
+import { BudgetSettings } from "@/components/BudgetSettings";
 import { 
   Calendar, 
   Filter,
@@ -366,12 +367,13 @@ export const UsageDashboard: React.FC<UsageDashboardProps> = ({ }) => {
                 setActiveTab(value);
                 setHasLoadedTabs(prev => new Set([...prev, value]));
               }} className="w-full">
-                <TabsList className="grid grid-cols-5 w-full mb-6 h-auto p-1">
+                <TabsList className="grid grid-cols-6 w-full mb-6 h-auto p-1">
                   <TabsTrigger value="overview" className="py-2.5 px-3">Overview</TabsTrigger>
                   <TabsTrigger value="models" className="py-2.5 px-3">By Model</TabsTrigger>
                   <TabsTrigger value="projects" className="py-2.5 px-3">By Project</TabsTrigger>
                   <TabsTrigger value="sessions" className="py-2.5 px-3">By Session</TabsTrigger>
                   <TabsTrigger value="timeline" className="py-2.5 px-3">Timeline</TabsTrigger>
+                  <TabsTrigger value="budgets" className="py-2.5 px-3">Budgets</TabsTrigger>
                 </TabsList>
 
                 {/* Overview Tab */}
@@ -714,6 +716,11 @@ export const UsageDashboard: React.FC<UsageDashboardProps> = ({ }) => {
                     </div>
                   )}
                 </TabsContent>
+
+                {/* Budgets Tab */}
+                <TabsContent value="budgets" className="space-y-6 mt-6">
+                  {hasLoadedTabs.has("budgets") && <BudgetSettings />}
+                </TabsContent>
               </Tabs>
             </div>
           ) : null}
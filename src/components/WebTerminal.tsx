@@ -0,0 +1,254 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Terminal as XTerm, type ILink } from "@xterm/xterm";
+import { FitAddon } from "@xterm/addon-fit";
+import "@xterm/xterm/css/xterm.css";
+import { RotateCcw, SquareTerminal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { WebviewPreview } from "@/components/WebviewPreview";
+import { containerAPI } from "@/lib/containerAPI";
+import { detectLinks } from "@/lib/linkDetector";
+import { cn } from "@/lib/utils";
+
+interface WebTerminalProps {
+  /**
+   * Server terminal to attach to; reusing the ID after a reload reattaches
+   */
+  terminalId: string;
+  /**
+   * Workspace project directory the shell starts in
+   */
+  projectPath: string;
+  /**
+   * Whether the tab is visible, so the terminal can refit when shown
+   */
+  isActive?: boolean;
+  /**
+   * Called with a fresh terminal ID when the user restarts an exited shell
+   */
+  onRestart?: () => void;
+  /**
+   * Optional className for styling
+   */
+  className?: string;
+}
+
+type ConnectionState = "connecting" | "connected" | "reconnecting" | "exited" | "error";
+
+type ServerMessage =
+  | { type: "ready"; terminal_id: string; project_id: string; reattached: boolean }
+  | { type: "output"; data: string }
+  | { type: "exit"; exit_code: number; signal: number | null };
+
+const MAX_RECONNECT_DELAY_MS = 10000;
+
+const stateLabels: Record<ConnectionState, string> = {
+  connecting: "Connecting...",
+  connected: "Connected",
+  reconnecting: "Reconnecting...",
+  exited: "Exited",
+  error: "Unavailable"
+};
+
+/**
+ * Interactive shell in a workspace project, backed by a server PTY over a
+ * WebSocket. Localhost URLs in the output open in a WebviewPreview.
+ *
+ * @example
+ * <WebTerminal terminalId={tab.terminalId} projectPath="/workspace/my-app" />
+ */
+export const WebTerminal: React.FC<WebTerminalProps> = ({
+  terminalId,
+  projectPath,
+  isActive = true,
+  onRestart,
+  className
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fitRef = useRef<FitAddon | null>(null);
+  const [state, setState] = useState<ConnectionState>("connecting");
+  const [error, setError] = useState<string | null>(null);
+  const [exitCode, setExitCode] = useState<number | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isPreviewMaximized, setIsPreviewMaximized] = useState(false);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const term = new XTerm({
+      cursorBlink: true,
+      fontFamily: "ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace",
+      fontSize: 13,
+      scrollback: 10000,
+      theme: { background: "#09090b" }
+    });
+    const fit = new FitAddon();
+    term.loadAddon(fit);
+    term.open(containerRef.current);
+    fit.fit();
+    fitRef.current = fit;
+
+    // Make URLs clickable; localhost ones open in the preview pane
+    const linkProvider = term.registerLinkProvider({
+      provideLinks: (line, callback) => {
+        const text = term.buffer.active.getLine(line - 1)?.translateToString(true) ?? "";
+        const links: ILink[] = detectLinks(text).map(link => ({
+          range: { start: { x: link.startIndex + 1, y: line }, end: { x: link.endIndex, y: line } },
+          text: link.url,
+          activate: () => {
+            if (link.isLocalhost) {
+              setPreviewUrl(link.fullUrl);
+            } else {
+              window.open(link.fullUrl, "_blank", "noopener,noreferrer");
+            }
+          }
+        }));
+        callback(links.length > 0 ? links : undefined);
+      }
+    });
+
+    let socket: WebSocket | null = null;
+    let disposed = false;
+    let exited = false;
+    let reconnectDelay = 1000;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const sendMessage = (message: object) => {
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    };
+
+    const connect = async () => {
+      let projectId: string | null;
+      try {
+        projectId = await containerAPI.projectIdForPath(projectPath);
+      } catch {
+        projectId = null;
+      }
+      if (disposed) return;
+      if (!projectId) {
+        setState("error");
+        setError(`${projectPath} is not a workspace project`);
+        return;
+      }
+
+      socket = new WebSocket(containerAPI.terminalSocketUrl(terminalId, projectId, term.cols, term.rows));
+
+      socket.onmessage = (event: MessageEvent<string>) => {
+        const message = JSON.parse(event.data) as ServerMessage;
+        switch (message.type) {
+          case "ready":
+            reconnectDelay = 1000;
+            setState("connected");
+            setError(null);
+            // The server replays its scrollback next; start from a clean screen
+            if (message.reattached) term.reset();
+            sendMessage({ type: "resize", cols: term.cols, rows: term.rows });
+            break;
+          case "output":
+            term.write(message.data);
+            break;
+          case "exit":
+            exited = true;
+            setExitCode(message.exit_code);
+            setState("exited");
+            term.write(`\r\n\x1b[2m[Process exited with code ${message.exit_code}]\x1b[0m\r\n`);
+            break;
+        }
+      };
+
+      socket.onclose = () => {
+        if (disposed || exited) return;
+        setState("reconnecting");
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+      };
+    };
+
+    const inputListener = term.onData(data => sendMessage({ type: "input", data }));
+    const resizeListener = term.onResize(({ cols, rows }) => sendMessage({ type: "resize", cols, rows }));
+
+    // Hidden tabs have no size; only fit while the container is laid out
+    const observer = new ResizeObserver(() => {
+      if (containerRef.current?.offsetWidth) fit.fit();
+    });
+    observer.observe(containerRef.current);
+
+    connect();
+
+    return () => {
+      // Only disconnect: the shell keeps running so a reload can reattach.
+      // Closing the tab ends it (see useTabState.closeTab).
+      disposed = true;
+      clearTimeout(reconnectTimer);
+      observer.disconnect();
+      inputListener.dispose();
+      resizeListener.dispose();
+      linkProvider.dispose();
+      socket?.close();
+      term.dispose();
+      fitRef.current = null;
+    };
+  }, [terminalId, projectPath]);
+
+  useEffect(() => {
+    if (isActive && containerRef.current?.offsetWidth) {
+      fitRef.current?.fit();
+    }
+  }, [isActive, previewUrl, isPreviewMaximized]);
+
+  const projectName = projectPath.split("/").pop() || projectPath;
+
+  return (
+    <div className={cn("flex flex-col h-full bg-background", className)}>
+      <div className="flex items-center gap-2 px-4 py-2 border-b">
+        <SquareTerminal className="h-4 w-4 text-muted-foreground" />
+        <span className="text-sm font-medium">{projectName}</span>
+        <span
+          className={cn(
+            "h-2 w-2 rounded-full",
+            state === "connected" && "bg-green-500",
+            (state === "connecting" || state === "reconnecting") && "bg-yellow-500 animate-pulse",
+            (state === "exited" || state === "error") && "bg-muted-foreground"
+          )}
+        />
+        <span className="text-xs text-muted-foreground">
+          {state === "exited" && exitCode !== null ? `Exited (${exitCode})` : stateLabels[state]}
+        </span>
+        {error && <span className="text-xs text-destructive truncate">{error}</span>}
+        {state === "exited" && onRestart && (
+          <Button variant="ghost" size="sm" className="ml-auto h-7" onClick={onRestart}>
+            <RotateCcw className="h-3.5 w-3.5 mr-1.5" />
+            Restart
+          </Button>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0 flex">
+        <div className="flex-1 min-w-0 bg-[#09090b] p-2">
+          <div ref={containerRef} className="h-full w-full" />
+        </div>
+
+        {previewUrl && (
+          <div
+            className={cn(
+              isPreviewMaximized ? "fixed inset-0 z-50 bg-background" : "w-1/2 min-w-[400px] border-l"
+            )}
+          >
+            <WebviewPreview
+              initialUrl={previewUrl}
+              onClose={() => {
+                setPreviewUrl(null);
+                setIsPreviewMaximized(false);
+              }}
+              isMaximized={isPreviewMaximized}
+              onToggleMaximize={() => setIsPreviewMaximized(!isPreviewMaximized)}
+              onUrlChange={setPreviewUrl}
+              className="h-full"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,18 +1,101 @@
-import React from "react";
-import { Terminal, ChevronRight } from "lucide-react";
+import React, { useEffect, useRef, useState } from "react";
+import { Terminal, ChevronRight, Play, Square } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { containerAPI, type CommandResult, type CommandStream } from "@/lib/containerAPI";
 
 interface BashWidgetProps {
   command: string;
   description?: string;
   result?: any;
+  /**
+   * Directory the command ran in; when it is a workspace project the command
+   * can be run again there with live output
+   */
+  cwd?: string;
 }
 
-export const BashWidget: React.FC<BashWidgetProps> = ({ command, description, result }) => {
+interface OutputChunk {
+  stream: CommandStream;
+  data: string;
+}
+
+interface LiveRun {
+  projectId: string;
+  execId: string | null;
+  output: OutputChunk[];
+  running: boolean;
+  result: CommandResult | null;
+  error: string | null;
+}
+
+const exitLabel = (result: CommandResult): string => {
+  if (result.timed_out) return "timed out";
+  if (result.killed) return "stopped";
+  if (result.exit_code === null) return result.signal ?? "terminated";
+  return `exit ${result.exit_code}`;
+};
+
+export const BashWidget: React.FC<BashWidgetProps> = ({ command, description, result, cwd }) => {
+  const [live, setLive] = useState<LiveRun | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const outputRef = useRef<HTMLDivElement>(null);
+
+  // Disconnecting stops a command that is still running
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight;
+    }
+  }, [live?.output]);
+
+  const runLive = async () => {
+    if (!cwd) return;
+    let projectId: string | null;
+    try {
+      projectId = await containerAPI.projectIdForPath(cwd);
+    } catch {
+      projectId = null;
+    }
+    if (!projectId) {
+      setLive({ projectId: "", execId: null, output: [], running: false, result: null, error: `${cwd} is not a workspace project` });
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLive({ projectId, execId: null, output: [], running: true, result: null, error: null });
+
+    try {
+      const commandResult = await containerAPI.executeCommand(projectId, command, {
+        signal: controller.signal,
+        onStart: execId => setLive(prev => prev && { ...prev, execId }),
+        onOutput: (stream, data) => setLive(prev => prev && { ...prev, output: [...prev.output, { stream, data }] })
+      });
+      setLive(prev => prev && { ...prev, running: false, result: commandResult });
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setLive(prev => prev && {
+        ...prev,
+        running: false,
+        error: err instanceof Error ? err.message : "Failed to run command"
+      });
+    }
+  };
+
+  const stopLive = async () => {
+    if (!live?.execId) return;
+    try {
+      await containerAPI.killCommand(live.projectId, live.execId);
+    } catch (err) {
+      console.error("Failed to stop command:", err);
+    }
+  };
+
   // Extract result content if available
   let resultContent = '';
   let isError = false;
-  
+
   if (result) {
     isError = result.is_error || false;
     if (typeof result.content === 'string') {
@@ -29,7 +112,9 @@ export const BashWidget: React.FC<BashWidgetProps> = ({ command, description, re
       }
     }
   }
-  
+
+  const liveFailed = live?.result ? live.result.exit_code !== 0 : Boolean(live?.error);
+
   return (
     <div className="rounded-lg border bg-zinc-950 overflow-hidden">
       <div className="px-4 py-2 bg-zinc-900/50 flex items-center gap-2 border-b">
@@ -42,30 +127,72 @@ export const BashWidget: React.FC<BashWidgetProps> = ({ command, description, re
           </>
         )}
         {/* Show loading indicator when no result yet */}
-        {!result && (
+        {(!result || live?.running) && (
           <div className="ml-auto flex items-center gap-1 text-xs text-muted-foreground">
             <div className="h-2 w-2 bg-green-500 rounded-full animate-pulse" />
             <span>Running...</span>
           </div>
         )}
+        {cwd && result && (
+          <button
+            onClick={live?.running ? stopLive : runLive}
+            disabled={live?.running && !live.execId}
+            className={cn(
+              "flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50",
+              !live?.running && "ml-auto"
+            )}
+            title={live?.running ? "Stop command" : "Run again in the project workspace"}
+          >
+            {live?.running ? <Square className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+            <span>{live?.running ? "Stop" : "Run"}</span>
+          </button>
+        )}
       </div>
       <div className="p-4 space-y-3">
         <code className="text-xs font-mono text-green-400 block">
           $ {command}
         </code>
-        
+
         {/* Show result if available */}
-        {result && (
+        {result && !live && (
           <div className={cn(
             "mt-3 p-3 rounded-md border text-xs font-mono whitespace-pre-wrap overflow-x-auto",
-            isError 
-              ? "border-red-500/20 bg-red-500/5 text-red-400" 
+            isError
+              ? "border-red-500/20 bg-red-500/5 text-red-400"
               : "border-green-500/20 bg-green-500/5 text-green-300"
           )}>
             {resultContent || (isError ? "Command failed" : "Command completed")}
           </div>
         )}
+
+        {/* Output of a live run, streamed as it arrives */}
+        {live && (
+          <div className="space-y-1">
+            <div
+              ref={outputRef}
+              className={cn(
+                "mt-3 p-3 rounded-md border text-xs font-mono whitespace-pre-wrap overflow-auto max-h-96",
+                liveFailed ? "border-red-500/20 bg-red-500/5" : "border-green-500/20 bg-green-500/5"
+              )}
+            >
+              {live.output.map((chunk, index) => (
+                <span key={index} className={chunk.stream === "stderr" ? "text-red-400" : "text-green-300"}>
+                  {chunk.data}
+                </span>
+              ))}
+              {live.error && <span className="text-red-400">{live.error}</span>}
+              {!live.running && !live.error && live.output.length === 0 && (
+                <span className="text-muted-foreground">No output</span>
+              )}
+            </div>
+            {live.result && (
+              <div className={cn("text-xs font-mono", liveFailed ? "text-red-400" : "text-muted-foreground")}>
+                {exitLabel(live.result)} · {(live.result.duration_ms / 1000).toFixed(1)}s
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
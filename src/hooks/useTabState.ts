@@ -1,6 +1,7 @@
 import { useCallback, useMemo } from 'react';
 import { useTabContext } from '@/contexts/TabContext';
 import { Tab } from '@/contexts/TabContext';
+import { containerAPI } from '@/lib/containerAPI';
 
 interface UseTabStateReturn {
   // State
@@ -24,6 +25,7 @@ interface UseTabStateReturn {
   createClaudeFileTab: (fileId: string, fileName: string) => string;
   createCreateAgentTab: () => string;
   createImportAgentTab: () => string;
+  createTerminalTab: (projectPath: string) => string;
   closeTab: (id: string, force?: boolean) => Promise<boolean>;
   closeCurrentTab: () => Promise<boolean>;
   switchToTab: (id: string) => void;
@@ -252,6 +254,18 @@ export const useTabState = (): UseTabStateReturn => {
     });
   }, [addTab, tabs, setActiveTab]);
 
+  const createTerminalTab = useCallback((projectPath: string): string => {
+    return addTab({
+      type: 'terminal',
+      title: `Terminal: ${projectPath.split('/').pop() || projectPath}`,
+      terminalId: containerAPI.newTerminalId(),
+      projectPath,
+      status: 'idle',
+      hasUnsavedChanges: false,
+      icon: 'terminal'
+    });
+  }, [addTab]);
+
   const closeTab = useCallback(async (id: string, force: boolean = false): Promise<boolean> => {
     const tab = getTabById(id);
     if (!tab) return true;
@@ -263,6 +277,13 @@ export const useTabState = (): UseTabStateReturn => {
       if (!confirmed) return false;
     }
 
+    // Terminals outlive their WebSocket (for reloads), so end the shell here
+    if (tab.type === 'terminal' && tab.terminalId) {
+      containerAPI.closeTerminal(tab.terminalId).catch(error => {
+        console.error('Failed to close terminal:', error);
+      });
+    }
+
     removeTab(id);
     return true;
   }, [getTabById, removeTab]);
@@ -344,6 +365,7 @@ export const useTabState = (): UseTabStateReturn => {
     createClaudeFileTab,
     createCreateAgentTab,
     createImportAgentTab,
+    createTerminalTab,
     closeTab,
     closeCurrentTab,
     switchToTab: setActiveTab,
@@ -1,4 +1,5 @@
 import type { HooksConfiguration } from '@/types/hooks';
+import type { GitDiff } from './containerAPI';
 
 // Web API fallback functions for browser environment
 const mockInvoke = async (command: string, payload?: any): Promise<any> => {
@@ -13,7 +14,10 @@ const mockInvoke = async (command: string, payload?: any): Promise<any> => {
     case 'create_project':
       return { id: 'mock-project', path: payload?.path || '/mock/path', sessions: [], created_at: Date.now() };
     case 'get_project_sessions':
+    case 'load_session_history':
       return [];
+    case 'load_session_history_page':
+      return { messages: [], next_cursor: 0, has_more: false };
     case 'fetch_github_agents':
       return [];
     case 'list_agents':
@@ -62,6 +66,15 @@ const mockInvoke = async (command: string, payload?: any): Promise<any> => {
       return { id: payload?.id, name: 'Mock Agent', icon: 'bot', system_prompt: 'Mock prompt', model: 'sonnet', created_at: new Date().toISOString(), updated_at: new Date().toISOString() };
     case 'execute_agent':
       return 1; // Mock run ID
+    case 'get_agent_run_changes':
+      return [];
+    case 'get_agent_run_file_diff':
+      return { path: payload?.filePath, old_content: '', new_content: '', binary: false, too_large: false };
+    case 'merge_agent_run':
+      return { hash: '' };
+    case 'discard_agent_run':
+    case 'delete_agent_run':
+      return;
     case 'list_agent_runs':
     case 'list_agent_runs_with_metrics':
       return [];
@@ -69,6 +82,7 @@ const mockInvoke = async (command: string, payload?: any): Promise<any> => {
     case 'get_agent_run_with_real_time_metrics':
       return { id: payload?.id, status: 'completed', agent_name: 'Mock Agent', task: 'Mock task', created_at: new Date().toISOString() };
     case 'list_running_sessions':
+    case 'list_running_claude_sessions':
       return [];
     case 'kill_agent_session':
       return true;
@@ -78,6 +92,7 @@ const mockInvoke = async (command: string, payload?: any): Promise<any> => {
       return [];
     case 'get_session_output':
     case 'get_live_session_output':
+    case 'get_claude_session_output':
       return '';
     case 'stream_session_output':
       return;
@@ -99,6 +114,36 @@ const mockInvoke = async (command: string, payload?: any): Promise<any> => {
       return [];
     case 'get_usage_details':
       return [];
+    case 'list_budgets':
+    case 'get_budget_status':
+      return [];
+    case 'create_checkpoint':
+    case 'restore_checkpoint':
+    case 'fork_from_checkpoint':
+      return {
+        checkpoint: {
+          id: 'mock-checkpoint',
+          sessionId: payload?.newSessionId || payload?.sessionId,
+          projectId: payload?.projectId,
+          messageIndex: payload?.messageIndex ?? 0,
+          timestamp: new Date().toISOString(),
+          description: payload?.description,
+          metadata: { totalTokens: 0, modelUsed: '', userPrompt: '', fileChanges: 0, snapshotSize: 0 }
+        },
+        filesProcessed: 0,
+        warnings: []
+      };
+    case 'list_checkpoints':
+      return [];
+    case 'get_session_timeline':
+      return { sessionId: payload?.sessionId, autoCheckpointEnabled: false, checkpointStrategy: 'smart', totalCheckpoints: 0 };
+    case 'get_checkpoint_settings':
+      return { auto_checkpoint_enabled: false, checkpoint_strategy: 'smart', total_checkpoints: 0 };
+    case 'update_checkpoint_settings':
+    case 'track_checkpoint_message':
+    case 'track_session_messages':
+    case 'clear_checkpoint_manager':
+      return;
     case 'get_checkpoint_diff':
       return {
         fromCheckpointId: payload?.fromCheckpointId,
@@ -115,7 +160,7 @@ const mockInvoke = async (command: string, payload?: any): Promise<any> => {
     case 'mcp_list':
       return [];
     case 'mcp_get':
-      return { name: payload?.name, transport: 'stdio', args: [], env: {}, scope: 'local', is_active: false, status: { running: false } };
+      return { name: payload?.name, transport: 'stdio', args: [], env: {}, headers: {}, scope: 'local', is_active: false, status: { running: false } };
     case 'mcp_add':
     case 'mcp_add_json':
       return { success: true, message: 'Mock server added', server_name: payload?.name };
@@ -128,7 +173,33 @@ const mockInvoke = async (command: string, payload?: any): Promise<any> => {
     case 'mcp_reset_project_choices':
       return 'Mock operation completed';
     case 'mcp_get_server_status':
+    case 'mcp_check_servers':
       return {};
+    case 'mcp_export':
+      return { content: '{\n  "mcpServers": {}\n}\n', exported: [], skipped: [] };
+    case 'mcp_call_tool':
+      return {
+        id: Date.now(),
+        server_name: payload?.name,
+        tool_name: payload?.toolName,
+        arguments: payload?.arguments ?? {},
+        result: { content: [{ type: 'text', text: 'Mock tool result' }], isError: false },
+        is_error: false,
+        error: null,
+        duration_ms: 0,
+        created_at: new Date().toISOString()
+      };
+    case 'mcp_list_tool_calls':
+      return [];
+    case 'mcp_delete_tool_call':
+      return null;
+    case 'mcp_clear_tool_calls':
+      return 0;
+    case 'list_secrets':
+      return { enabled: false, secrets: [] };
+    case 'set_secret':
+    case 'delete_secret':
+      return;
     case 'mcp_read_project_config':
       return { mcpServers: {} };
     case 'mcp_save_project_config':
@@ -187,16 +258,58 @@ const mockInvoke = async (command: string, payload?: any): Promise<any> => {
       };
     case 'slash_command_delete':
       return 'Mock command deleted';
+    case 'list_directory_contents':
+    case 'search_files':
+      return [];
     default:
       return null;
   }
 };
 
-// Import for actual invoke function - will be replaced with mock in web environment
-let invoke: (command: string, payload?: any) => Promise<any> = mockInvoke;
+/**
+ * Offline/demo mode serves canned data from mockInvoke instead of the server.
+ * Enable with VITE_DEMO_MODE=true at build time.
+ */
+export const isDemoMode = import.meta.env.VITE_DEMO_MODE === 'true';
 
-// Use mock implementation for web environment
-invoke = mockInvoke;
+/**
+ * Sends the browser to the server's login page, returning here afterwards
+ */
+const redirectToLogin = () => {
+  const next = window.location.pathname + window.location.search + window.location.hash;
+  window.location.assign(`/login?next=${encodeURIComponent(next)}`);
+};
+
+/**
+ * Calls a backend command on the claudia server (POST /api/invoke/:command)
+ */
+const serverInvoke = async (command: string, payload?: any): Promise<any> => {
+  const response = await fetch(`/api/invoke/${command}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload ?? {})
+  });
+
+  // Session expired or signed out in another tab: go back to the login page
+  if (response.status === 401) {
+    redirectToLogin();
+  }
+
+  if (!response.ok) {
+    let message = `${command} failed with status ${response.status}`;
+    try {
+      const body = await response.json();
+      if (body?.error) message = body.error;
+    } catch {
+      // Non-JSON error body; keep the status message
+    }
+    throw new Error(message);
+  }
+
+  return response.json();
+};
+
+const invoke: (command: string, payload?: any) => Promise<any> = isDemoMode ? mockInvoke : serverInvoke;
 
 /** Process type for tracking in ProcessRegistry */
 export type ProcessType = 
@@ -250,6 +363,18 @@ export interface Session {
   message_timestamp?: string;
 }
 
+/**
+ * One page of a session's JSONL history
+ */
+export interface SessionHistoryPage {
+  /** Parsed JSONL entries in file order */
+  messages: any[];
+  /** Cursor to pass to fetch the following page */
+  next_cursor: number;
+  /** Whether more entries follow this page */
+  has_more: boolean;
+}
+
 /**
  * Represents the settings from ~/.claude/settings.json
  */
@@ -342,6 +467,17 @@ export interface GitHubAgentFile {
   sha: string;
 }
 
+export type AgentRunWorktreeStatus = 'active' | 'merged' | 'discarded';
+
+/**
+ * A file an isolated run changed since its base commit; `status` is git's
+ * letter (A, M, D, T)
+ */
+export interface AgentRunChange {
+  path: string;
+  status: string;
+}
+
 export interface AgentRun {
   id?: number;
   agent_id: number;
@@ -356,6 +492,11 @@ export interface AgentRun {
   process_started_at?: string;
   created_at: string;
   completed_at?: string;
+  /** Isolated runs only: the run's own git worktree, branch and starting commit */
+  worktree_path?: string | null;
+  worktree_branch?: string | null;
+  base_commit?: string | null;
+  worktree_status?: AgentRunWorktreeStatus | null;
 }
 
 export interface AgentRunMetrics {
@@ -381,6 +522,11 @@ export interface AgentRunWithMetrics {
   process_started_at?: string;
   created_at: string;
   completed_at?: string;
+  /** Isolated runs only: the run's own git worktree, branch and starting commit */
+  worktree_path?: string | null;
+  worktree_branch?: string | null;
+  base_commit?: string | null;
+  worktree_status?: AgentRunWorktreeStatus | null;
   metrics?: AgentRunMetrics;
   output?: string; // Real-time JSONL content
 }
@@ -437,6 +583,57 @@ export interface UsageStats {
   by_project: ProjectUsage[];
 }
 
+export type BudgetScope = 'project' | 'model';
+export type BudgetPeriod = 'daily' | 'monthly';
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+/**
+ * A spend limit for a project path or model over a daily or monthly period
+ */
+export interface Budget {
+  id: number;
+  scope: BudgetScope;
+  /** Project path for project budgets, model name fragment (e.g. "opus") for model budgets */
+  target: string;
+  period: BudgetPeriod;
+  limit_usd: number;
+  /** Percentage of the limit at which a warning is raised */
+  warn_percent: number;
+  /** Refuse new Claude Code sessions and agent runs once the limit is reached */
+  hard_stop: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Spend against a budget in its current period
+ */
+export interface BudgetStatus {
+  budget: Budget;
+  /** First day (UTC, YYYY-MM-DD) of the current period */
+  period_start: string;
+  spent_usd: number;
+  percent_used: number;
+  level: BudgetLevel;
+}
+
+/**
+ * Payload of the budget-alert event sent when a budget crosses a threshold
+ */
+export interface BudgetAlert extends BudgetStatus {
+  message: string;
+}
+
+/**
+ * Login state of the current browser session
+ */
+export interface AuthStatus {
+  /** Whether the server requires a login (AUTH_USERNAME and AUTH_PASSWORD set) */
+  enabled: boolean;
+  authenticated: boolean;
+  username: string | null;
+}
+
 /**
  * Represents a checkpoint in the session timeline
  */
@@ -538,7 +735,7 @@ export interface FileDiff {
 export interface MCPServer {
   /** Server name/identifier */
   name: string;
-  /** Transport type: "stdio" or "sse" */
+  /** Transport type: "stdio", "sse" or "http" (streamable HTTP) */
   transport: string;
   /** Command to execute (for stdio) */
   command?: string;
@@ -546,8 +743,10 @@ export interface MCPServer {
   args: string[];
   /** Environment variables */
   env: Record<string, string>;
-  /** URL endpoint (for SSE) */
+  /** URL endpoint (for SSE and HTTP) */
   url?: string;
+  /** Request headers sent to the endpoint, e.g. Authorization (for SSE and HTTP) */
+  headers?: Record<string, string>;
   /** Configuration scope: "local", "project", or "user" */
   scope: string;
   /** Whether the server is currently active */
@@ -557,15 +756,141 @@ export interface MCPServer {
 }
 
 /**
- * Server status information
+ * Server status information, from the server's last health check
  */
 export interface ServerStatus {
-  /** Whether the server is running */
+  /** Whether the last check connected and completed the handshake */
   running: boolean;
+  /** Whether a check is in progress */
+  checking?: boolean;
   /** Last error message if any */
   error?: string;
-  /** Last checked timestamp */
+  /** Last checked timestamp, in milliseconds since the epoch */
   last_checked?: number;
+  /** Round trip of a ping request, in milliseconds */
+  latency_ms?: number;
+  /** Time to start or reach the server and complete the handshake, in milliseconds */
+  startup_ms?: number;
+  /** Protocol version the server agreed to */
+  protocol_version?: string | null;
+  /** Name and version the server reported */
+  server_info?: { name: string; version?: string } | null;
+  /** Tools the server offers */
+  tools?: MCPTool[];
+  /** Resources the server offers */
+  resources?: MCPResource[];
+  /** Prompts the server offers */
+  prompts?: MCPPrompt[];
+}
+
+/**
+ * A tool offered by an MCP server
+ */
+export interface MCPTool {
+  name: string;
+  title?: string;
+  description?: string;
+  /** JSON Schema of the tool's arguments */
+  inputSchema?: Record<string, unknown>;
+}
+
+/**
+ * A resource offered by an MCP server
+ */
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * A prompt template offered by an MCP server
+ */
+export interface MCPPrompt {
+  name: string;
+  description?: string;
+  arguments?: { name: string; description?: string; required?: boolean }[];
+}
+
+/**
+ * Resource embedded in or linked from an MCP tool result
+ */
+export interface MCPResourceContent {
+  uri: string;
+  name?: string;
+  mimeType?: string;
+  /** Set for text resources; binary ones are only described */
+  text?: string;
+}
+
+/**
+ * Content block of an MCP tool result
+ */
+export type MCPContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string }
+  | { type: "resource"; resource: MCPResourceContent }
+  | ({ type: "resource_link" } & MCPResourceContent);
+
+/**
+ * Result of an MCP tools/call request
+ */
+export interface MCPToolResult {
+  content?: MCPContentBlock[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * A tool call made from the MCP playground, kept in the call history
+ */
+export interface MCPToolCall {
+  id: number;
+  server_name: string;
+  tool_name: string;
+  arguments: Record<string, unknown>;
+  /** Null when the call failed before the server answered */
+  result: MCPToolResult | null;
+  /** Whether the server reported an error or the call failed */
+  is_error: boolean;
+  /** Connection or protocol error, if the call failed */
+  error: string | null;
+  duration_ms: number | null;
+  created_at: string;
+}
+
+/**
+ * Target format of an MCP configuration export
+ */
+export type MCPExportFormat = "mcp_json" | "claude_desktop";
+
+/**
+ * How env and header values are written to an export: unchanged, replaced by
+ * a redaction marker, or replaced by ${VAR} references
+ */
+export type MCPExportValueMode = "keep" | "redact" | "placeholder";
+
+/**
+ * An exported MCP configuration
+ */
+export interface MCPExportResult {
+  /** The configuration file's JSON */
+  content: string;
+  /** Names of the servers included */
+  exported: string[];
+  /** Servers left out, e.g. remote servers in a Claude Desktop export */
+  skipped: { name: string; reason: string }[];
+}
+
+/**
+ * Payload of the mcp-status event sent when a server's health check starts or
+ * finishes
+ */
+export interface MCPStatusEvent {
+  name: string;
+  status: ServerStatus;
 }
 
 /**
@@ -579,9 +904,12 @@ export interface MCPProjectConfig {
  * Individual server configuration in .mcp.json
  */
 export interface MCPServerConfig {
-  command: string;
-  args: string[];
-  env: Record<string, string>;
+  type?: "stdio" | "sse" | "http";
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  url?: string;
+  headers?: Record<string, string>;
 }
 
 /**
@@ -642,7 +970,24 @@ export interface ImportServerResult {
 }
 
 /**
- * API client for interacting with the Rust backend
+ * A secret in the vault; values are write-only and never returned
+ */
+export interface Secret {
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Secrets in the vault, and whether the server has a master key to use them
+ */
+export interface SecretList {
+  enabled: boolean;
+  secrets: Secret[];
+}
+
+/**
+ * API client for interacting with the claudia server backend
  */
 export const api = {
   /**
@@ -763,20 +1108,6 @@ export const api = {
     }
   },
 
-  /**
-   * Opens a new Claude Code session
-   * @param path - Optional path to open the session in
-   * @returns Promise resolving when the session is opened
-   */
-  async openNewSession(path?: string): Promise<string> {
-    try {
-      return await invoke("open_new_session", { path });
-    } catch (error) {
-      console.error("Failed to open new session:", error);
-      throw error;
-    }
-  },
-
   /**
    * Reads the CLAUDE.md system prompt file
    * @returns Promise resolving to the system prompt content
@@ -965,7 +1296,7 @@ export const api = {
    */
   async deleteAgent(id: number): Promise<void> {
     try {
-      return await mockInvoke('delete_agent', { id });
+      return await invoke('delete_agent', { id });
     } catch (error) {
       console.error("Failed to delete agent:", error);
       throw error;
@@ -1015,8 +1346,9 @@ export const api = {
   },
 
   /**
-   * Imports an agent from a file
-   * @param filePath - The path to the JSON file
+   * Imports an agent from a file on the server
+   * @param filePath - The path to the JSON file, absolute or relative to the
+   *   workspace (as returned by webFileDialog.open)
    * @returns Promise resolving to the imported agent
    */
   async importAgentFromFile(filePath: string): Promise<Agent> {
@@ -1034,11 +1366,12 @@ export const api = {
    * @param projectPath - The project path to run the agent in
    * @param task - The task description
    * @param model - Optional model override
+   * @param isolated - Run in a git worktree and branch of its own instead of the project directory
    * @returns Promise resolving to the run ID when execution starts
    */
-  async executeAgent(agentId: number, projectPath: string, task: string, model?: string): Promise<number> {
+  async executeAgent(agentId: number, projectPath: string, task: string, model?: string, isolated = false): Promise<number> {
     try {
-      return await invoke('execute_agent', { agentId, projectPath, task, model });
+      return await invoke('execute_agent', { agentId, projectPath, task, model, isolated });
     } catch (error) {
       console.error("Failed to execute agent:", error);
       // Return a sentinel value to indicate error
@@ -1117,6 +1450,75 @@ export const api = {
     }
   },
 
+  /**
+   * Deletes a finished agent run, including the worktree of an isolated run
+   * @param runId - The run ID to delete
+   */
+  async deleteAgentRun(runId: number): Promise<void> {
+    try {
+      return await invoke('delete_agent_run', { runId });
+    } catch (error) {
+      console.error("Failed to delete agent run:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Lists the files an isolated run changed
+   * @param runId - The run ID
+   * @returns Promise resolving to the changed files, relative to the repository root
+   */
+  async getAgentRunChanges(runId: number): Promise<AgentRunChange[]> {
+    try {
+      return await invoke('get_agent_run_changes', { runId });
+    } catch (error) {
+      console.error("Failed to get agent run changes:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Gets one file of an isolated run at its base commit and in its worktree
+   * @param runId - The run ID
+   * @param filePath - Path relative to the repository root, as listed by getAgentRunChanges
+   */
+  async getAgentRunFileDiff(runId: number, filePath: string): Promise<GitDiff> {
+    try {
+      return await invoke('get_agent_run_file_diff', { runId, filePath });
+    } catch (error) {
+      console.error("Failed to get agent run diff:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Merges an isolated run's branch into the project's current branch and
+   * removes its worktree. Conflicting merges are aborted and reported.
+   * @param runId - The run ID
+   * @returns Promise resolving to the project's new HEAD commit
+   */
+  async mergeAgentRun(runId: number): Promise<{ hash: string }> {
+    try {
+      return await invoke('merge_agent_run', { runId });
+    } catch (error) {
+      console.error("Failed to merge agent run:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Drops an isolated run's changes by removing its worktree and branch
+   * @param runId - The run ID
+   */
+  async discardAgentRun(runId: number): Promise<void> {
+    try {
+      return await invoke('discard_agent_run', { runId });
+    } catch (error) {
+      console.error("Failed to discard agent run:", error);
+      throw error;
+    }
+  },
+
   /**
    * Kills a running agent session
    * @param runId - The run ID to kill
@@ -1201,10 +1603,41 @@ export const api = {
   },
 
   /**
-   * Loads the JSONL history for a specific session
+   * Loads one page of the JSONL history for a session
+   * @param sessionId - The session ID (UUID)
+   * @param projectId - The project ID the session belongs to
+   * @param cursor - Cursor from the previous page, 0 for the first page
+   * @param limit - Maximum number of entries to return
+   * @returns Promise resolving to the page and the cursor for the next one
    */
-  async loadSessionHistory(sessionId: string, projectId: string): Promise<any[]> {
-    return mockInvoke("load_session_history", { sessionId, projectId });
+  async loadSessionHistoryPage(sessionId: string, projectId: string, cursor = 0, limit?: number): Promise<SessionHistoryPage> {
+    try {
+      return await invoke('load_session_history_page', { sessionId, projectId, cursor, limit });
+    } catch (error) {
+      console.error("Failed to load session history page:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Loads the JSONL history for a specific session, fetching it page by page
+   * @param sessionId - The session ID (UUID)
+   * @param projectId - The project ID the session belongs to
+   * @param onPage - Optional callback receiving each page's messages as it arrives
+   * @returns Promise resolving to all session messages
+   */
+  async loadSessionHistory(sessionId: string, projectId: string, onPage?: (messages: any[]) => void): Promise<any[]> {
+    const history: any[] = [];
+    let cursor = 0;
+    let hasMore = true;
+    while (hasMore) {
+      const page = await this.loadSessionHistoryPage(sessionId, projectId, cursor);
+      history.push(...page.messages);
+      onPage?.(page.messages);
+      cursor = page.next_cursor;
+      hasMore = page.has_more;
+    }
+    return history;
   },
 
   /**
@@ -1226,29 +1659,29 @@ export const api = {
    * Executes a new interactive Claude Code session with streaming output
    */
   async executeClaudeCode(projectPath: string, prompt: string, model: string): Promise<void> {
-    return mockInvoke("execute_claude_code", { projectPath, prompt, model });
+    return invoke("execute_claude_code", { projectPath, prompt, model });
   },
 
   /**
    * Continues an existing Claude Code conversation with streaming output
    */
   async continueClaudeCode(projectPath: string, prompt: string, model: string): Promise<void> {
-    return mockInvoke("continue_claude_code", { projectPath, prompt, model });
+    return invoke("continue_claude_code", { projectPath, prompt, model });
   },
 
   /**
    * Resumes an existing Claude Code session by ID with streaming output
    */
   async resumeClaudeCode(projectPath: string, sessionId: string, prompt: string, model: string): Promise<void> {
-    return mockInvoke("resume_claude_code", { projectPath, sessionId, prompt, model });
+    return invoke("resume_claude_code", { projectPath, sessionId, prompt, model });
   },
 
   /**
-   * Cancels the currently running Claude Code execution
-   * @param sessionId - Optional session ID to cancel a specific session
+   * Cancels a running Claude Code execution
+   * @param sessionId - ID of the session to cancel
    */
-  async cancelClaudeExecution(sessionId?: string): Promise<void> {
-    return mockInvoke("cancel_claude_execution", { sessionId });
+  async cancelClaudeExecution(sessionId: string): Promise<void> {
+    return invoke("cancel_claude_execution", { sessionId });
   },
 
   /**
@@ -1256,7 +1689,7 @@ export const api = {
    * @returns Promise resolving to list of running Claude sessions
    */
   async listRunningClaudeSessions(): Promise<any[]> {
-    return mockInvoke("list_running_claude_sessions");
+    return invoke("list_running_claude_sessions");
   },
 
   /**
@@ -1265,21 +1698,36 @@ export const api = {
    * @returns Promise resolving to the current live output
    */
   async getClaudeSessionOutput(sessionId: string): Promise<string> {
-    return mockInvoke("get_claude_session_output", { sessionId });
+    return invoke("get_claude_session_output", { sessionId });
   },
 
   /**
-   * Lists files and directories in a given path
+   * Lists files and directories in a given path, directories first and
+   * without entries excluded by .gitignore
+   * @param directoryPath - Absolute path inside a workspace project
    */
   async listDirectoryContents(directoryPath: string): Promise<FileEntry[]> {
-    return mockInvoke("list_directory_contents", { directoryPath });
+    try {
+      return await invoke("list_directory_contents", { directoryPath });
+    } catch (error) {
+      console.error("Failed to list directory contents:", error);
+      throw error;
+    }
   },
 
   /**
-   * Searches for files and directories matching a pattern
+   * Fuzzy-searches file and directory names below a path, best matches first
+   * @param basePath - Absolute path inside a workspace project
+   * @param query - Name or partial path to look for
+   * @param limit - Maximum number of results (server default 50)
    */
-  async searchFiles(basePath: string, query: string): Promise<FileEntry[]> {
-    return mockInvoke("search_files", { basePath, query });
+  async searchFiles(basePath: string, query: string, limit?: number): Promise<FileEntry[]> {
+    try {
+      return await invoke("search_files", { basePath, query, limit });
+    } catch (error) {
+      console.error("Failed to search files:", error);
+      throw error;
+    }
   },
 
   /**
@@ -1348,6 +1796,94 @@ export const api = {
     }
   },
 
+  /**
+   * Lists the configured spend budgets
+   * @returns Promise resolving to all budgets
+   */
+  async listBudgets(): Promise<Budget[]> {
+    try {
+      return await invoke("list_budgets");
+    } catch (error) {
+      console.error("Failed to list budgets:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Creates a budget, or updates it when `id` is given
+   * @param budget - Budget fields; omit id to create a new budget
+   * @returns Promise resolving to the saved budget
+   */
+  async saveBudget(budget: {
+    id?: number;
+    scope: BudgetScope;
+    target: string;
+    period: BudgetPeriod;
+    limitUsd: number;
+    warnPercent?: number;
+    hardStop?: boolean;
+  }): Promise<Budget> {
+    try {
+      return await invoke("save_budget", budget);
+    } catch (error) {
+      console.error("Failed to save budget:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Deletes a budget
+   * @param id - The budget ID
+   */
+  async deleteBudget(id: number): Promise<void> {
+    try {
+      return await invoke("delete_budget", { id });
+    } catch (error) {
+      console.error("Failed to delete budget:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Gets the current period's spend against every budget
+   * @returns Promise resolving to the status of each budget
+   */
+  async getBudgetStatus(): Promise<BudgetStatus[]> {
+    try {
+      return await invoke("get_budget_status");
+    } catch (error) {
+      console.error("Failed to get budget status:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Gets whether the server requires a login and who is signed in
+   */
+  async getAuthStatus(): Promise<AuthStatus> {
+    if (isDemoMode) {
+      return { enabled: false, authenticated: true, username: null };
+    }
+    const response = await fetch("/api/auth/status");
+    if (!response.ok) {
+      throw new Error(`Failed to get auth status: ${response.status}`);
+    }
+    return response.json();
+  },
+
+  /**
+   * Ends the browser session and returns to the login page
+   */
+  async logout(): Promise<void> {
+    try {
+      await fetch("/api/auth/logout", { method: "POST" });
+    } catch (error) {
+      console.error("Failed to log out:", error);
+      throw error;
+    }
+    redirectToLogin();
+  },
+
   /**
    * Creates a checkpoint for the current session state
    */
@@ -1358,7 +1894,7 @@ export const api = {
     messageIndex?: number,
     description?: string
   ): Promise<CheckpointResult> {
-    return mockInvoke("create_checkpoint", {
+    return invoke("create_checkpoint", {
       sessionId,
       projectId,
       projectPath,
@@ -1376,7 +1912,7 @@ export const api = {
     projectId: string,
     projectPath: string
   ): Promise<CheckpointResult> {
-    return mockInvoke("restore_checkpoint", {
+    return invoke("restore_checkpoint", {
       checkpointId,
       sessionId,
       projectId,
@@ -1392,7 +1928,7 @@ export const api = {
     projectId: string,
     projectPath: string
   ): Promise<Checkpoint[]> {
-    return mockInvoke("list_checkpoints", {
+    return invoke("list_checkpoints", {
       sessionId,
       projectId,
       projectPath
@@ -1410,7 +1946,7 @@ export const api = {
     newSessionId: string,
     description?: string
   ): Promise<CheckpointResult> {
-    return mockInvoke("fork_from_checkpoint", {
+    return invoke("fork_from_checkpoint", {
       checkpointId,
       sessionId,
       projectId,
@@ -1428,7 +1964,7 @@ export const api = {
     projectId: string,
     projectPath: string
   ): Promise<SessionTimeline> {
-    return mockInvoke("get_session_timeline", {
+    return invoke("get_session_timeline", {
       sessionId,
       projectId,
       projectPath
@@ -1445,7 +1981,7 @@ export const api = {
     autoCheckpointEnabled: boolean,
     checkpointStrategy: CheckpointStrategy
   ): Promise<void> {
-    return mockInvoke("update_checkpoint_settings", {
+    return invoke("update_checkpoint_settings", {
       sessionId,
       projectId,
       projectPath,
@@ -1486,7 +2022,7 @@ export const api = {
     message: string
   ): Promise<void> {
     try {
-      await mockInvoke("track_checkpoint_message", {
+      await invoke("track_checkpoint_message", {
         sessionId,
         projectId,
         projectPath,
@@ -1556,7 +2092,7 @@ export const api = {
     current_checkpoint_id?: string;
   }> {
     try {
-      return await mockInvoke("get_checkpoint_settings", {
+      return await invoke("get_checkpoint_settings", {
         sessionId,
         projectId,
         projectPath
@@ -1572,7 +2108,7 @@ export const api = {
    */
   async clearCheckpointManager(sessionId: string): Promise<void> {
     try {
-      await mockInvoke("clear_checkpoint_manager", { sessionId });
+      await invoke("clear_checkpoint_manager", { sessionId });
     } catch (error) {
       console.error("Failed to clear checkpoint manager:", error);
       throw error;
@@ -1588,7 +2124,7 @@ export const api = {
     projectPath: string, 
     messages: string[]
   ): Promise<void> =>
-    mockInvoke("track_session_messages", { sessionId, projectId, projectPath, messages }),
+    invoke("track_session_messages", { sessionId, projectId, projectPath, messages }),
 
   /**
    * Adds a new MCP server
@@ -1600,7 +2136,8 @@ export const api = {
     args: string[] = [],
     env: Record<string, string> = {},
     url?: string,
-    scope: string = "local"
+    scope: string = "local",
+    headers: Record<string, string> = {}
   ): Promise<AddServerResult> {
     try {
       return await invoke("mcp_add", {
@@ -1610,6 +2147,7 @@ export const api = {
         args,
         env,
         url,
+        headers,
         scope
       });
     } catch (error) {
@@ -1729,6 +2267,88 @@ export const api = {
     }
   },
 
+  /**
+   * Re-checks every configured MCP server and returns their statuses
+   */
+  async mcpCheckServers(): Promise<Record<string, ServerStatus>> {
+    try {
+      return await invoke("mcp_check_servers");
+    } catch (error) {
+      console.error("Failed to check MCP servers:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Exports server configurations as an .mcp.json or Claude Desktop config
+   * @param options.scope - Export from one scope only; otherwise servers are
+   *   resolved across scopes as they are for listing
+   * @param options.names - Servers to include; all of them when omitted
+   */
+  async mcpExport(options: {
+    scope?: string;
+    names?: string[];
+    format?: MCPExportFormat;
+    valueMode?: MCPExportValueMode;
+  }): Promise<MCPExportResult> {
+    try {
+      return await invoke("mcp_export", options);
+    } catch (error) {
+      console.error("Failed to export MCP servers:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Calls a tool on an MCP server and records the call in the history.
+   * Failed calls are returned with `error` set rather than thrown.
+   */
+  async mcpCallTool(name: string, toolName: string, args: Record<string, unknown>): Promise<MCPToolCall> {
+    try {
+      return await invoke("mcp_call_tool", { name, toolName, arguments: args });
+    } catch (error) {
+      console.error("Failed to call MCP tool:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Lists recorded tool calls, newest first, optionally for one server
+   */
+  async mcpListToolCalls(name?: string, limit?: number): Promise<MCPToolCall[]> {
+    try {
+      return await invoke("mcp_list_tool_calls", { name, limit });
+    } catch (error) {
+      console.error("Failed to list MCP tool calls:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Removes one call from the history
+   */
+  async mcpDeleteToolCall(id: number): Promise<void> {
+    try {
+      await invoke("mcp_delete_tool_call", { id });
+    } catch (error) {
+      console.error("Failed to delete MCP tool call:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Clears the call history, optionally for one server only
+   * @returns Number of calls removed
+   */
+  async mcpClearToolCalls(name?: string): Promise<number> {
+    try {
+      return await invoke("mcp_clear_tool_calls", { name });
+    } catch (error) {
+      console.error("Failed to clear MCP tool calls:", error);
+      throw error;
+    }
+  },
+
   /**
    * Reads .mcp.json from the current project
    */
@@ -1793,6 +2413,43 @@ export const api = {
     }
   },
 
+  // Secrets API methods
+
+  /**
+   * Lists the names of stored secrets; values never leave the server
+   */
+  async listSecrets(): Promise<SecretList> {
+    try {
+      return await invoke("list_secrets");
+    } catch (error) {
+      console.error("Failed to list secrets:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Stores a secret, replacing its value if it exists. It can then be
+   * referenced as ${secret:NAME} in MCP server env and headers, settings env
+   * and hook commands.
+   */
+  async setSecret(name: string, value: string): Promise<void> {
+    try {
+      return await invoke("set_secret", { name, value });
+    } catch (error) {
+      console.error("Failed to save secret:", error);
+      throw error;
+    }
+  },
+
+  async deleteSecret(name: string): Promise<void> {
+    try {
+      return await invoke("delete_secret", { name });
+    } catch (error) {
+      console.error("Failed to delete secret:", error);
+      throw error;
+    }
+  },
+
   // Storage API methods
 
   /**
@@ -3,6 +3,8 @@
  * Works with persistent /workspace directory in Docker container
  */
 
+import { listen } from './webEventSystem';
+import { randomUUID } from './utils';
 
 // Container API functions for server-side operations
 export interface ContainerProject {
@@ -10,6 +12,8 @@ export interface ContainerProject {
   name: string;
   path: string; // Full path in /workspace
   created_at: number;
+  /** Last modification of the project directory itself */
+  modified?: number;
   most_recent_session?: number;
   files?: ContainerFile[];
 }
@@ -21,6 +25,11 @@ export interface ContainerFile {
   size: number;
   modified: number;
   extension?: string;
+  /**
+   * Set on uploaded files: the path inside the project, or inside the
+   * workspace for uploads that belong to no project
+   */
+  relative_path?: string;
 }
 
 export interface ContainerSession {
@@ -33,17 +42,200 @@ export interface ContainerSession {
   todo_data?: any;
 }
 
+export type CommandStream = 'stdout' | 'stderr';
+
+/**
+ * Frame streamed by the execute endpoint, one JSON object per line
+ */
+export type CommandFrame =
+  | { type: 'start'; exec_id: string; pid: number }
+  | { type: CommandStream; data: string }
+  | {
+      type: 'exit';
+      exit_code: number | null;
+      signal: string | null;
+      timed_out: boolean;
+      killed: boolean;
+      duration_ms: number;
+    }
+  | { type: 'error'; error: string };
+
+export interface CommandResult {
+  exec_id: string | null;
+  /** Null when the command was ended by a signal */
+  exit_code: number | null;
+  signal: string | null;
+  timed_out: boolean;
+  killed: boolean;
+  duration_ms: number;
+  stdout: string;
+  stderr: string;
+}
+
+export interface ExecuteCommandOptions {
+  /** Stop the command after this long (server default 10 minutes, max 1 hour) */
+  timeoutMs?: number;
+  /** Called once the command is running, with the ID accepted by killCommand */
+  onStart?: (execId: string) => void;
+  /** Called for each chunk of output as it arrives */
+  onOutput?: (stream: CommandStream, data: string) => void;
+  /** Aborting disconnects from the command, which stops it on the server */
+  signal?: AbortSignal;
+}
+
+/**
+ * Project directory that files attached to prompts are uploaded into
+ */
+export const UPLOADS_DIR = '.claudia/uploads';
+
+/**
+ * File to upload, with its path below the destination directory (e.g.
+ * `assets/logo.png` when a folder was dropped)
+ */
+export interface UploadEntry {
+  file: File;
+  path: string;
+}
+
+export interface UploadOptions {
+  /** Directory inside the project to upload into; defaults to the root */
+  directory?: string;
+  /**
+   * What to do when a destination exists: fail the whole upload (409, code
+   * ALREADY_EXISTS; the default), overwrite it, or store as "name (1).ext"
+   */
+  conflict?: 'error' | 'overwrite' | 'rename';
+  /** Called as the request body is sent */
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * A file or directory created, changed or deleted in a watched project
+ */
+export interface FileChange {
+  type: 'create' | 'change' | 'delete';
+  /** Absolute path, as listed by listProjectFiles */
+  path: string;
+  /** Path inside the project, with forward slashes */
+  relative_path: string;
+  is_directory: boolean;
+}
+
+/**
+ * A changed file in a project's git repository. Statuses are git's letters
+ * (M, A, D, R, C, T, U, or ? for untracked files), null when that side is
+ * unchanged.
+ */
+export interface GitFileStatus {
+  /** Path inside the project */
+  path: string;
+  /** Previous path of a renamed or copied file */
+  original_path?: string;
+  /** Staged change, between HEAD and the index */
+  index: string | null;
+  /** Unstaged change, between the index and the working tree */
+  working_tree: string | null;
+  conflicted: boolean;
+}
+
+export interface GitStatus {
+  is_repository: boolean;
+  /** Null when HEAD is detached */
+  branch?: string | null;
+  /** Null before the first commit */
+  commit?: string | null;
+  upstream?: string | null;
+  ahead?: number;
+  behind?: number;
+  files?: GitFileStatus[];
+}
+
+/**
+ * Both sides of a file's change; content is null for binary or very large
+ * files and empty for a side where the file does not exist
+ */
+export interface GitDiff {
+  path: string;
+  old_content: string | null;
+  new_content: string | null;
+  binary: boolean;
+  too_large: boolean;
+}
+
+export interface GitCommit {
+  hash: string;
+  short_hash: string;
+  author_name: string;
+  author_email: string;
+  /** Milliseconds since the epoch */
+  date: number;
+  refs: string[];
+  subject: string;
+}
+
+export interface GitBranch {
+  /** Short name, e.g. `main` or `origin/main` */
+  name: string;
+  remote: boolean;
+  current: boolean;
+  commit: string;
+  upstream: string | null;
+  updated_at: number;
+}
+
+export interface MovePathOptions {
+  /** Replace an existing destination instead of failing with ALREADY_EXISTS */
+  overwrite?: boolean;
+}
+
+/**
+ * Error response from the container backend, e.g. a path outside the project
+ * (403, code OUTSIDE_WORKSPACE), an invalid path (400, code INVALID_PATH) or a
+ * destination that already exists (409, code ALREADY_EXISTS).
+ * These are shown to the user; only an unreachable server falls back to mocks.
+ */
+export class ContainerAPIError extends Error {
+  constructor(message: string, public status: number, public code?: string) {
+    super(message);
+    this.name = 'ContainerAPIError';
+  }
+}
+
 class ContainerAPI {
   private baseUrl = '/api'; // Will be served by container backend
+  private workspaceRoot?: Promise<string>;
+
+  /**
+   * Fetches from the backend, turning error responses into ContainerAPIError
+   */
+  private async request(url: string, fallbackMessage: string, init?: RequestInit): Promise<Response> {
+    const response = await fetch(url, init);
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      let message = fallbackMessage;
+      let code: string | undefined;
+      try {
+        const body = JSON.parse(text);
+        if (body?.error) message = body.error;
+        code = body?.code;
+      } catch {
+        // Plain-text bodies (e.g. a failed command's output) are shown as is
+        if (text.trim() && !text.trimStart().startsWith('<')) message = text.trim();
+      }
+      throw new ContainerAPIError(message, response.status, code);
+    }
+    return response;
+  }
   
   async listWorkspaceProjects(): Promise<ContainerProject[]> {
     try {
       // In container mode, this would call a backend API
       // For now, return mock data based on /workspace structure
-      const response = await fetch(`${this.baseUrl}/workspace/projects`);
-      if (!response.ok) throw new Error('Failed to fetch projects');
+      const response = await this.request(`${this.baseUrl}/workspace/projects`, 'Failed to fetch projects');
       return await response.json();
     } catch (error) {
+      if (error instanceof ContainerAPIError) throw error;
       console.warn('Container API not available, using mock data');
       return this.getMockProjects();
     }
@@ -51,14 +243,14 @@ class ContainerAPI {
 
   async createProject(name: string): Promise<ContainerProject> {
     try {
-      const response = await fetch(`${this.baseUrl}/workspace/projects`, {
+      const response = await this.request(`${this.baseUrl}/workspace/projects`, 'Failed to create project', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ name })
       });
-      if (!response.ok) throw new Error('Failed to create project');
       return await response.json();
     } catch (error) {
+      if (error instanceof ContainerAPIError) throw error;
       console.warn('Container API not available, using mock data');
       return this.getMockProject(name);
     }
@@ -66,10 +258,11 @@ class ContainerAPI {
 
   async getProject(projectId: string): Promise<ContainerProject | null> {
     try {
-      const response = await fetch(`${this.baseUrl}/workspace/projects/${projectId}`);
-      if (!response.ok) throw new Error('Project not found');
+      const response = await this.request(`${this.baseUrl}/workspace/projects/${encodeURIComponent(projectId)}`, 'Project not found');
       return await response.json();
     } catch (error) {
+      if (error instanceof ContainerAPIError && error.status === 404) return null;
+      if (error instanceof ContainerAPIError) throw error;
       console.warn('Container API not available, using mock data');
       return this.getMockProject(`project-${projectId}`);
     }
@@ -78,12 +271,12 @@ class ContainerAPI {
   async listProjectFiles(projectId: string, path?: string): Promise<ContainerFile[]> {
     try {
       const url = path 
-        ? `${this.baseUrl}/workspace/projects/${projectId}/files?path=${encodeURIComponent(path)}`
-        : `${this.baseUrl}/workspace/projects/${projectId}/files`;
-      const response = await fetch(url);
-      if (!response.ok) throw new Error('Failed to list files');
+        ? `${this.baseUrl}/workspace/projects/${encodeURIComponent(projectId)}/files?path=${encodeURIComponent(path)}`
+        : `${this.baseUrl}/workspace/projects/${encodeURIComponent(projectId)}/files`;
+      const response = await this.request(url, 'Failed to list files');
       return await response.json();
     } catch (error) {
+      if (error instanceof ContainerAPIError) throw error;
       console.warn('Container API not available, using mock data');
       return this.getMockFiles();
     }
@@ -91,14 +284,14 @@ class ContainerAPI {
 
   async readFile(projectId: string, filePath: string): Promise<string> {
     try {
-      const response = await fetch(`${this.baseUrl}/workspace/projects/${projectId}/files/content`, {
+      const response = await this.request(`${this.baseUrl}/workspace/projects/${encodeURIComponent(projectId)}/files/content`, 'Failed to read file', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ path: filePath })
       });
-      if (!response.ok) throw new Error('Failed to read file');
       return await response.text();
     } catch (error) {
+      if (error instanceof ContainerAPIError) throw error;
       console.warn('Container API not available, using mock data');
       return `// Mock content for ${filePath}\nconsole.log("Hello from ${filePath}");`;
     }
@@ -106,45 +299,456 @@ class ContainerAPI {
 
   async writeFile(projectId: string, filePath: string, content: string): Promise<void> {
     try {
-      const response = await fetch(`${this.baseUrl}/workspace/projects/${projectId}/files/content`, {
+      await this.request(`${this.baseUrl}/workspace/projects/${encodeURIComponent(projectId)}/files/content`, 'Failed to write file', {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ path: filePath, content })
       });
-      if (!response.ok) throw new Error('Failed to write file');
     } catch (error) {
+      if (error instanceof ContainerAPIError) throw error;
       console.warn('Container API not available - file write mocked');
     }
   }
 
   async deleteFile(projectId: string, filePath: string): Promise<void> {
     try {
-      const response = await fetch(`${this.baseUrl}/workspace/projects/${projectId}/files/content`, {
+      await this.request(`${this.baseUrl}/workspace/projects/${encodeURIComponent(projectId)}/files/content`, 'Failed to delete file', {
         method: 'DELETE',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ path: filePath })
       });
-      if (!response.ok) throw new Error('Failed to delete file');
     } catch (error) {
+      if (error instanceof ContainerAPIError) throw error;
       console.warn('Container API not available - file delete mocked');
     }
   }
 
-  async executeCommand(projectId: string, command: string): Promise<string> {
+  /**
+   * Size, modification time and type of a single file or directory
+   */
+  async statFile(projectId: string, filePath: string): Promise<ContainerFile> {
+    const response = await this.request(
+      `${this.baseUrl}/workspace/projects/${encodeURIComponent(projectId)}/files/stat?path=${encodeURIComponent(filePath)}`,
+      'Failed to stat file'
+    );
+    return await response.json();
+  }
+
+  /**
+   * Deletes a file or directory. A directory that is not empty is only
+   * removed with `recursive` (otherwise 409, code NOT_EMPTY).
+   */
+  async deletePath(projectId: string, filePath: string, recursive = false): Promise<void> {
+    await this.request(`${this.baseUrl}/workspace/projects/${encodeURIComponent(projectId)}/files`, 'Failed to delete', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ path: filePath, recursive })
+    });
+  }
+
+  /**
+   * Renames or moves a file or directory, creating missing parent directories
+   * of the destination
+   */
+  async renamePath(projectId: string, from: string, to: string, options: MovePathOptions = {}): Promise<ContainerFile> {
+    const response = await this.request(`${this.baseUrl}/workspace/projects/${encodeURIComponent(projectId)}/files/rename`, 'Failed to rename', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ from, to, overwrite: options.overwrite })
+    });
+    return await response.json();
+  }
+
+  /**
+   * Copies a file or a whole directory tree
+   */
+  async copyPath(projectId: string, from: string, to: string, options: MovePathOptions = {}): Promise<ContainerFile> {
+    const response = await this.request(`${this.baseUrl}/workspace/projects/${encodeURIComponent(projectId)}/files/copy`, 'Failed to copy', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ from, to, overwrite: options.overwrite })
+    });
+    return await response.json();
+  }
+
+  /**
+   * Creates a directory along with any missing parents
+   */
+  async createDirectory(projectId: string, dirPath: string): Promise<ContainerFile> {
+    const response = await this.request(`${this.baseUrl}/workspace/projects/${encodeURIComponent(projectId)}/files/mkdir`, 'Failed to create directory', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ path: dirPath })
+    });
+    return await response.json();
+  }
+
+  /**
+   * Uploads files as multipart/form-data, binary-safe and without the JSON
+   * body limit. Nothing is stored unless every file is accepted.
+   * @returns the stored files, in the order given
+   */
+  uploadFiles(projectId: string, entries: UploadEntry[], options: UploadOptions = {}): Promise<ContainerFile[]> {
+    const params = new URLSearchParams({ conflict: options.conflict ?? 'error' });
+    if (options.directory) params.set('path', options.directory);
+    return this.upload(`${this.baseUrl}/workspace/projects/${encodeURIComponent(projectId)}/files/upload?${params}`, entries, options);
+  }
+
+  /**
+   * Uploads files that belong to no project, e.g. an agent file to import.
+   * The server keeps them for a day; `relative_path` is inside the workspace.
+   */
+  uploadTemporaryFiles(files: File[], options: Pick<UploadOptions, 'onProgress' | 'signal'> = {}): Promise<ContainerFile[]> {
+    return this.upload(`${this.baseUrl}/workspace/uploads`, files.map(file => ({ file, path: file.name })), options);
+  }
+
+  private upload(url: string, entries: UploadEntry[], options: Pick<UploadOptions, 'onProgress' | 'signal'>): Promise<ContainerFile[]> {
+    const form = new FormData();
+    for (const entry of entries) {
+      form.append('file', entry.file, entry.path);
+    }
+
+    // XMLHttpRequest rather than fetch, which cannot report upload progress
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open('POST', url);
+      xhr.responseType = 'text';
+      xhr.upload.onprogress = event => {
+        if (event.lengthComputable) options.onProgress?.(event.loaded, event.total);
+      };
+      xhr.onload = () => {
+        let body: any = null;
+        try {
+          body = JSON.parse(xhr.responseText);
+        } catch {
+          // Non-JSON error page
+        }
+        if (xhr.status >= 200 && xhr.status < 300) {
+          resolve(body);
+        } else {
+          reject(new ContainerAPIError(body?.error || 'Failed to upload files', xhr.status, body?.code));
+        }
+      };
+      xhr.onerror = () => reject(new ContainerAPIError('Upload failed: the server could not be reached', 0));
+      xhr.onabort = () => reject(new DOMException('Upload aborted', 'AbortError'));
+      options.signal?.addEventListener('abort', () => xhr.abort());
+      xhr.send(form);
+    });
+  }
+
+  /**
+   * URL serving a file's raw bytes (with Range support). `inline` serves it
+   * for display, e.g. as an image source, instead of as a download.
+   */
+  fileUrl(projectId: string, filePath: string, options: { inline?: boolean } = {}): string {
+    const params = new URLSearchParams({ path: filePath });
+    if (options.inline) params.set('inline', '1');
+    return `${this.baseUrl}/workspace/projects/${encodeURIComponent(projectId)}/files/download?${params}`;
+  }
+
+  /**
+   * URL downloading the project, or one of its directories, as a zip
+   */
+  exportUrl(projectId: string, dirPath?: string): string {
+    const query = dirPath ? `?path=${encodeURIComponent(dirPath)}` : '';
+    return `${this.baseUrl}/workspace/projects/${encodeURIComponent(projectId)}/export${query}`;
+  }
+
+  /**
+   * Clones a repository (https, ssh or git URL) into a new project named after
+   * it, or `name`. Fails with ALREADY_EXISTS if that project exists.
+   */
+  async cloneRepository(url: string, name?: string): Promise<ContainerProject> {
+    const response = await this.request(`${this.baseUrl}/workspace/projects/clone`, 'Failed to clone repository', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url, name })
+    });
+    return await response.json();
+  }
+
+  private gitUrl(projectId: string, route: string, params?: Record<string, string>): string {
+    const query = params ? `?${new URLSearchParams(params)}` : '';
+    return `${this.baseUrl}/workspace/projects/${encodeURIComponent(projectId)}/git/${route}${query}`;
+  }
+
+  private async gitPost<T>(projectId: string, route: string, body: unknown, fallbackMessage: string): Promise<T> {
+    const response = await this.request(this.gitUrl(projectId, route), fallbackMessage, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    return await response.json();
+  }
+
+  /**
+   * Branch and changed files; `is_repository` is false outside a repository
+   */
+  async getGitStatus(projectId: string): Promise<GitStatus> {
+    const response = await this.request(this.gitUrl(projectId, 'status'), 'Failed to get git status');
+    return await response.json();
+  }
+
+  /**
+   * A file's change: staged (HEAD to index) or unstaged (index to working tree)
+   */
+  async getGitDiff(projectId: string, file: Pick<GitFileStatus, 'path' | 'original_path'>, staged: boolean): Promise<GitDiff> {
+    const params: Record<string, string> = { path: file.path };
+    if (file.original_path) params.original_path = file.original_path;
+    if (staged) params.staged = '1';
+    const response = await this.request(this.gitUrl(projectId, 'diff', params), 'Failed to get diff');
+    return await response.json();
+  }
+
+  async getGitLog(projectId: string, limit = 50, skip = 0): Promise<GitCommit[]> {
+    const response = await this.request(
+      this.gitUrl(projectId, 'log', { limit: String(limit), skip: String(skip) }),
+      'Failed to get commit history'
+    );
+    return await response.json();
+  }
+
+  async listGitBranches(projectId: string): Promise<GitBranch[]> {
+    const response = await this.request(this.gitUrl(projectId, 'branches'), 'Failed to list branches');
+    return await response.json();
+  }
+
+  /**
+   * Switches branch (a remote-only branch becomes a tracking branch), or
+   * creates one from HEAD; uncommitted changes are carried over
+   */
+  checkoutGitBranch(projectId: string, branch: string, create = false): Promise<GitStatus> {
+    return this.gitPost(projectId, 'checkout', { branch, create }, 'Failed to switch branch');
+  }
+
+  /** Stages paths, or every change when `paths` is empty */
+  stageGitPaths(projectId: string, paths: string[]): Promise<GitStatus> {
+    return this.gitPost(projectId, 'stage', { paths }, 'Failed to stage changes');
+  }
+
+  /** Unstages paths, or everything when `paths` is empty */
+  unstageGitPaths(projectId: string, paths: string[]): Promise<GitStatus> {
+    return this.gitPost(projectId, 'unstage', { paths }, 'Failed to unstage changes');
+  }
+
+  /**
+   * Commits the staged changes (409, code NOTHING_TO_COMMIT, when none are)
+   */
+  commitGit(projectId: string, message: string): Promise<Pick<GitCommit, 'hash' | 'short_hash' | 'subject'>> {
+    return this.gitPost(projectId, 'commit', { message }, 'Failed to commit');
+  }
+
+  /**
+   * Calls `onChange` with batches of changes to the project's files (outside
+   * node_modules and .git) until the returned function is called. The server
+   * keeps watching while some page holds a watch on the project.
+   */
+  watchProjectFiles(projectId: string, onChange: (changes: FileChange[]) => void): () => void {
+    const url = `${this.baseUrl}/workspace/projects/${encodeURIComponent(projectId)}/watch`;
+    let watchId: string | undefined;
+    let stopped = false;
+
+    const release = () => {
+      if (watchId) {
+        this.request(`${url}/${encodeURIComponent(watchId)}`, 'Failed to stop watching project', { method: 'DELETE' })
+          .catch(() => {});
+      }
+    };
+
+    // The lease runs out unless renewed, e.g. when the page is closed
+    let renewTimer: number | undefined;
+    const renew = async () => {
+      try {
+        const response = await this.request(url, 'Failed to watch project', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ watch_id: watchId })
+        });
+        const { watch_id, expires_in } = await response.json();
+        watchId = watch_id;
+        if (stopped) return release();
+        renewTimer = window.setTimeout(renew, expires_in / 3);
+      } catch (error) {
+        console.warn('Failed to watch project files:', error);
+        if (!stopped) renewTimer = window.setTimeout(renew, 30000);
+      }
+    };
+    renew();
+
+    const unlisten = listen<{ project_id: string; changes: FileChange[] }>(
+      `file-change:${projectId}`,
+      event => onChange(event.payload.changes)
+    );
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(renewTimer);
+      unlisten.then(fn => fn());
+      release();
+    };
+  }
+
+  /**
+   * Runs a shell command in the project directory, streaming its output
+   * through `onOutput` while it runs. Resolves with the exit status once the
+   * command ends (including by timeout or killCommand); a non-zero exit code
+   * is not an error.
+   */
+  async executeCommand(
+    projectId: string,
+    command: string,
+    options: ExecuteCommandOptions = {}
+  ): Promise<CommandResult> {
+    const result: CommandResult = {
+      exec_id: null,
+      exit_code: null,
+      signal: null,
+      timed_out: false,
+      killed: false,
+      duration_ms: 0,
+      stdout: '',
+      stderr: ''
+    };
+
+    let response: Response;
     try {
-      const response = await fetch(`${this.baseUrl}/workspace/projects/${projectId}/execute`, {
+      response = await this.request(`${this.baseUrl}/workspace/projects/${encodeURIComponent(projectId)}/execute`, 'Failed to execute command', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ command })
+        body: JSON.stringify({ command, timeout_ms: options.timeoutMs }),
+        signal: options.signal
       });
-      if (!response.ok) throw new Error('Failed to execute command');
-      return await response.text();
     } catch (error) {
+      if (error instanceof ContainerAPIError || options.signal?.aborted) throw error;
       console.warn('Container API not available - command execution mocked');
-      return `Mock execution of: ${command}\nCommand completed successfully.`;
+      result.stdout = `Mock execution of: ${command}\nCommand completed successfully.`;
+      result.exit_code = 0;
+      options.onOutput?.('stdout', result.stdout);
+      return result;
+    }
+
+    const handleFrame = (frame: CommandFrame) => {
+      switch (frame.type) {
+        case 'start':
+          result.exec_id = frame.exec_id;
+          options.onStart?.(frame.exec_id);
+          break;
+        case 'stdout':
+        case 'stderr':
+          result[frame.type] += frame.data;
+          options.onOutput?.(frame.type, frame.data);
+          break;
+        case 'exit':
+          Object.assign(result, {
+            exit_code: frame.exit_code,
+            signal: frame.signal,
+            timed_out: frame.timed_out,
+            killed: frame.killed,
+            duration_ms: frame.duration_ms
+          });
+          break;
+        case 'error':
+          throw new ContainerAPIError(frame.error, 500);
+      }
+    };
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      buffered += decoder.decode(value, { stream: !done });
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) handleFrame(JSON.parse(line));
+      }
+      if (done) break;
+    }
+    if (buffered.trim()) handleFrame(JSON.parse(buffered));
+
+    return result;
+  }
+
+  /**
+   * Stops a command started by executeCommand (SIGTERM, then SIGKILL)
+   */
+  async killCommand(projectId: string, execId: string): Promise<void> {
+    await this.request(
+      `${this.baseUrl}/workspace/projects/${encodeURIComponent(projectId)}/execute/${encodeURIComponent(execId)}/kill`,
+      'Failed to stop command',
+      { method: 'POST' }
+    );
+  }
+
+  /**
+   * ID for a new terminal
+   */
+  newTerminalId(): string {
+    return `term-${randomUUID()}`;
+  }
+
+  /**
+   * WebSocket URL of a project terminal. Connecting with a new ID starts a
+   * shell in the project; connecting with a live ID reattaches to it.
+   */
+  terminalSocketUrl(terminalId: string, projectId: string, cols: number, rows: number): string {
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const params = new URLSearchParams({ projectId, cols: String(cols), rows: String(rows) });
+    return `${protocol}//${window.location.host}${this.baseUrl}/terminals/${encodeURIComponent(terminalId)}/ws?${params}`;
+  }
+
+  /**
+   * Ends a terminal's shell; a terminal that already exited is not an error
+   */
+  async closeTerminal(terminalId: string): Promise<void> {
+    try {
+      await this.request(`${this.baseUrl}/terminals/${encodeURIComponent(terminalId)}`, 'Failed to close terminal', {
+        method: 'DELETE'
+      });
+    } catch (error) {
+      if (error instanceof ContainerAPIError && error.status === 404) return;
+      throw error;
     }
   }
 
+  /**
+   * Absolute workspace directory on the server, without a trailing slash
+   */
+  getWorkspaceRoot(): Promise<string> {
+    this.workspaceRoot ??= this.request(`${this.baseUrl}/health`, 'Failed to check server health')
+      .then(response => response.json())
+      .then(health => String(health.workspace).replace(/\/+$/, ''))
+      .catch(error => {
+        this.workspaceRoot = undefined;
+        throw error;
+      });
+    return this.workspaceRoot;
+  }
+
+  /**
+   * Workspace project ID for a directory directly inside the workspace root,
+   * e.g. the cwd of a Claude session; null for paths elsewhere
+   */
+  async projectIdForPath(directory: string): Promise<string | null> {
+    const root = await this.getWorkspaceRoot();
+    const normalized = directory.replace(/\/+$/, '');
+    const separator = normalized.lastIndexOf('/');
+    if (normalized.slice(0, separator) !== root) return null;
+    return normalized.slice(separator + 1) || null;
+  }
+
+  /**
+   * Splits an absolute path inside the workspace into its project ID and the
+   * path relative to that project; null for paths outside the workspace
+   */
+  async locateWorkspacePath(absolutePath: string): Promise<{ projectId: string; path: string } | null> {
+    const root = await this.getWorkspaceRoot();
+    if (!absolutePath.startsWith(`${root}/`)) return null;
+    const [projectId, ...rest] = absolutePath.slice(root.length + 1).split('/');
+    return projectId ? { projectId, path: rest.join('/') } : null;
+  }
+
   // Mock data for development/fallback
   private getMockProjects(): ContainerProject[] {
     return [
@@ -14,4 +14,20 @@ import { twMerge } from "tailwind-merge";
  */
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
-} 
\ No newline at end of file
+} 
+
+/**
+ * Random v4 UUID. Unlike crypto.randomUUID(), crypto.getRandomValues() is
+ * also available outside secure contexts, e.g. when the UI is served over
+ * plain HTTP on a LAN address.
+ *
+ * @example
+ * randomUUID() // "3b241101-e2bb-4255-8caf-4136c566a962"
+ */
+export function randomUUID(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
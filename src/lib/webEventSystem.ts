@@ -65,5 +65,37 @@ export async function once<T = any>(eventName: string): Promise<{ payload: T }>
   });
 }
 
+// Active connection to the server event stream, if any
+let serverEventSource: EventSource | null = null;
+
+/**
+ * Connect to the claudia server's event stream and re-emit every server event
+ * locally, so `listen` handlers receive backend events (e.g. claude-output)
+ * @param url - Server-Sent Events endpoint
+ * @returns Function to disconnect
+ */
+export function connectServerEvents(url: string = '/api/events'): UnlistenFn {
+  if (!serverEventSource) {
+    serverEventSource = new EventSource(url);
+    serverEventSource.onmessage = (message: MessageEvent<string>) => {
+      try {
+        const { event, payload } = JSON.parse(message.data) as { event: string; payload: unknown };
+        emit(event, payload);
+      } catch (error) {
+        console.error('Failed to parse server event:', error, message.data);
+      }
+    };
+    // EventSource reconnects on its own; just surface the drop for debugging
+    serverEventSource.onerror = () => {
+      console.warn('Server event stream disconnected, retrying...');
+    };
+  }
+
+  return () => {
+    serverEventSource?.close();
+    serverEventSource = null;
+  };
+}
+
 // Export the global event target for direct access if needed
 export { globalEventTarget };
\ No newline at end of file
@@ -3,12 +3,20 @@
  * Uses HTML input elements and File API
  */
 
+import { containerAPI, UPLOADS_DIR } from './containerAPI';
+
 export interface OpenDialogOptions {
   filters?: { name: string; extensions: string[] }[];
   defaultPath?: string;
   directory?: boolean;
   multiple?: boolean;
   title?: string;
+  /**
+   * Workspace project to upload the picked files into, below `directory`
+   * (default: the project's uploads directory). Without it, files go to a
+   * temporary area and picked folders become new workspace projects.
+   */
+  uploadTo?: { projectId: string; directory?: string };
 }
 
 export interface SaveDialogOptions {
@@ -18,12 +26,56 @@ export interface SaveDialogOptions {
 }
 
 /**
- * Open file dialog to select files
+ * Uploads what was picked and returns the paths it was stored at:
+ * - files into a project: paths relative to the project (so `@path` mentions
+ *   resolve from the project directory)
+ * - files without a project: paths relative to the workspace (temporary)
+ * - a folder into a project: the folder's path relative to the project
+ * - a folder without a project: the absolute path of the new project
+ */
+async function uploadPicked(files: File[], options: OpenDialogOptions): Promise<string[]> {
+  const { uploadTo } = options;
+
+  if (options.directory) {
+    // Picked folders list their files with paths starting at the folder
+    const folder = files[0].webkitRelativePath.split('/')[0];
+    if (uploadTo) {
+      const directory = uploadTo.directory ?? '';
+      await containerAPI.uploadFiles(
+        uploadTo.projectId,
+        files.map(file => ({ file, path: file.webkitRelativePath })),
+        { directory }
+      );
+      return [directory ? `${directory}/${folder}` : folder];
+    }
+
+    await containerAPI.uploadFiles(
+      folder,
+      files.map(file => ({ file, path: file.webkitRelativePath.slice(folder.length + 1) }))
+    );
+    return [`${await containerAPI.getWorkspaceRoot()}/${folder}`];
+  }
+
+  const uploaded = uploadTo
+    ? await containerAPI.uploadFiles(
+        uploadTo.projectId,
+        files.map(file => ({ file, path: file.name })),
+        { directory: uploadTo.directory ?? UPLOADS_DIR, conflict: 'rename' }
+      )
+    : await containerAPI.uploadTemporaryFiles(files);
+  return uploaded.map(file => file.relative_path ?? file.path);
+}
+
+/**
+ * Open file dialog to select files. Browsers do not expose local paths, so
+ * the picked files are uploaded to the server (see uploadPicked) and their
+ * server paths returned.
  * @param options - Dialog options
- * @returns Promise resolving to selected file path(s) or null if cancelled
+ * @returns Promise resolving to selected file path(s) or null if cancelled;
+ *   rejects when the upload fails
  */
 export async function open(options: OpenDialogOptions = {}): Promise<string | string[] | null> {
-  return new Promise((resolve) => {
+  const files = await new Promise<File[] | null>((resolve) => {
     const input = document.createElement('input');
     input.type = 'file';
     input.style.display = 'none';
@@ -47,24 +99,8 @@ export async function open(options: OpenDialogOptions = {}): Promise<string | st
     
     input.onchange = (event) => {
       const target = event.target as HTMLInputElement;
-      const files = target.files;
-      
-      if (!files || files.length === 0) {
-        resolve(null);
-        return;
-      }
-      
-      if (options.multiple || options.directory) {
-        // Return array of file paths (using File.name as path in web context)
-        const paths = Array.from(files).map(file => {
-          // Create a temporary URL for the file that can be used as a "path"
-          return URL.createObjectURL(file);
-        });
-        resolve(paths);
-      } else {
-        // Return single file path
-        resolve(URL.createObjectURL(files[0]));
-      }
+      const picked = target.files;
+      resolve(picked && picked.length > 0 ? Array.from(picked) : null);
       
       // Clean up
       document.body.removeChild(input);
@@ -79,6 +115,11 @@ export async function open(options: OpenDialogOptions = {}): Promise<string | st
     document.body.appendChild(input);
     input.click();
   });
+
+  if (!files) return null;
+
+  const paths = await uploadPicked(files, options);
+  return options.multiple ? paths : paths[0];
 }
 
 /**
@@ -140,14 +181,16 @@ export function downloadFile(content: string, filename: string, mimeType: string
 
 /**
  * Read file content from a File object or path
- * @param fileOrPath - File object or path string
+ * @param fileOrPath - File object, or absolute path of a file in a workspace project
  * @returns Promise resolving to file content
  */
-export function readFileContent(fileOrPath: File | string): Promise<string> {
+export async function readFileContent(fileOrPath: File | string): Promise<string> {
   if (typeof fileOrPath === 'string') {
-    // If it's a blob URL, we can't read it directly
-    // This would need to be handled by storing file references
-    throw new Error('Cannot read file content from path in web context');
+    const location = await containerAPI.locateWorkspacePath(fileOrPath);
+    if (!location) {
+      throw new Error(`Cannot read ${fileOrPath}: only files in workspace projects are readable`);
+    }
+    return containerAPI.readFile(location.projectId, location.path);
   }
   
   return new Promise((resolve, reject) => {
@@ -160,4 +203,4 @@ export function readFileContent(fileOrPath: File | string): Promise<string> {
     };
     reader.readAsText(fileOrPath);
   });
-}
\ No newline at end of file
+}
@@ -3,10 +3,25 @@
  * Uses standard browser window object and events
  */
 
+/**
+ * File from a drop, with its path relative to the drop (`folder/sub/file.txt`
+ * for files inside a dropped folder)
+ */
+export interface DroppedFile {
+  file: File;
+  relativePath: string;
+}
+
 export interface DragDropEvent {
   payload: {
     type: 'enter' | 'over' | 'leave' | 'drop';
+    /**
+     * Relative paths of the dropped files. Browsers do not expose real file
+     * system paths; use `files` to upload the content.
+     */
     paths?: string[];
+    /** Dropped files, with dropped folders expanded recursively */
+    files?: DroppedFile[];
     position?: { x: number; y: number };
   };
 }
@@ -14,6 +29,50 @@ export interface DragDropEvent {
 export type DragDropHandler = (event: DragDropEvent) => void;
 export type UnlistenFn = () => void;
 
+// readEntries returns directory contents in batches until an empty one
+async function readAllEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+async function collectEntry(entry: FileSystemEntry, prefix: string, files: DroppedFile[]): Promise<void> {
+  const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    files.push({ file, relativePath });
+  } else if (entry.isDirectory) {
+    for (const child of await readAllEntries(entry as FileSystemDirectoryEntry)) {
+      await collectEntry(child, relativePath, files);
+    }
+  }
+}
+
+/**
+ * Files of a drop, expanding folders where the browser supports entries
+ */
+async function collectDroppedFiles(dataTransfer: DataTransfer | null): Promise<DroppedFile[]> {
+  if (!dataTransfer) return [];
+
+  // Entries have to be taken while the drop event is being dispatched
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.());
+  if (entries.length === 0 || entries.some(entry => !entry)) {
+    return Array.from(dataTransfer.files).map(file => ({ file, relativePath: file.name }));
+  }
+
+  const files: DroppedFile[] = [];
+  for (const entry of entries) {
+    await collectEntry(entry!, '', files);
+  }
+  return files;
+}
+
 /**
  * Mock webview window object for web compatibility
  */
@@ -66,23 +125,22 @@ export function getCurrentWebviewWindow(): WebviewWindow {
         }
       };
 
-      const handleDrop = (e: DragEvent) => {
+      const handleDrop = async (e: DragEvent) => {
         e.preventDefault();
-        const files = e.dataTransfer?.files;
-        const paths: string[] = [];
-        
-        if (files) {
-          for (let i = 0; i < files.length; i++) {
-            // Create object URLs for files to use as "paths"
-            paths.push(URL.createObjectURL(files[i]));
-          }
+        const position = { x: e.clientX, y: e.clientY };
+        let files: DroppedFile[] = [];
+        try {
+          files = await collectDroppedFiles(e.dataTransfer);
+        } catch (error) {
+          console.error('Failed to read dropped files:', error);
         }
 
         handler({
           payload: {
             type: 'drop',
-            paths,
-            position: { x: e.clientX, y: e.clientY }
+            paths: files.map(dropped => dropped.relativePath),
+            files,
+            position
           }
         });
       };
@@ -4,6 +4,8 @@ import App from "./App";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 import { AnalyticsErrorBoundary } from "./components/AnalyticsErrorBoundary";
 import { analytics, resourceMonitor } from "./lib/analytics";
+import { connectServerEvents } from "./lib/webEventSystem";
+import { isDemoMode } from "./lib/api";
 import { PostHogProvider } from "posthog-js/react";
 import "./assets/shimmer.css";
 import "./styles.css";
@@ -14,6 +16,11 @@ analytics.initialize();
 // Start resource monitoring (check every 2 minutes)
 resourceMonitor.startMonitoring(120000);
 
+// Bridge backend events (Claude output, agent runs) into webEventSystem
+if (!isDemoMode) {
+  connectServerEvents();
+}
+
 // Add a macOS-specific class to the <html> element to enable platform-specific styling
 // Browser-safe detection using navigator properties (works in Tauri and web preview)
 (() => {
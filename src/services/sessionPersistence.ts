@@ -150,9 +150,9 @@ export class SessionPersistenceService {
       const sessionData = this.loadSession(sessionId);
       if (!sessionData) return false;
 
-      // Try to verify the session exists on disk by loading its history
-      const history = await api.loadSessionHistory(sessionId, projectId);
-      return history && history.length > 0;
+      // Verify the session exists on disk by loading the start of its history
+      const page = await api.loadSessionHistoryPage(sessionId, projectId, 0, 1);
+      return page.messages.length > 0;
     } catch (error) {
       console.error('Failed to check session restorability:', error);
       return false;
@@ -16,6 +16,7 @@ interface SerializedTab {
   sessionId?: string;
   agentRunId?: string;
   claudeFileId?: string;
+  terminalId?: string;
   initialProjectPath?: string;
   projectPath?: string;
   status: Tab['status'];
@@ -74,6 +75,7 @@ export class TabPersistenceService {
         sessionId: tab.sessionId,
         agentRunId: tab.agentRunId,
         claudeFileId: tab.claudeFileId,
+        terminalId: tab.terminalId,
         initialProjectPath: tab.initialProjectPath,
         projectPath: tab.projectPath,
         status: tab.status === 'running' ? 'idle' : tab.status, // Reset running status
@@ -145,6 +147,9 @@ export class TabPersistenceService {
           case 'claude-file':
             // Claude file tabs need a file ID
             return !!tab.claudeFileId;
+          case 'terminal':
+            // Terminal tabs reattach to their server shell by ID
+            return !!tab.terminalId && !!tab.projectPath;
           default:
             // Other tab types (projects, agents, usage, etc.) are always valid
             return true;